@@ -0,0 +1,94 @@
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { MultiSelect } from '@/components/ui/multi-select';
+import { Loader2, Users } from 'lucide-react';
+import { formatRelativeTime } from '@/lib/utils';
+import type { AgentAssignmentStatus } from '@/types/assignment';
+
+interface AgentWorkloadTableProps {
+  agents: AgentAssignmentStatus[];
+  categories: string[];
+  isLoading?: boolean;
+  onUpdate: (userId: string, changes: Partial<Pick<AgentAssignmentStatus, 'available' | 'skills'>>) => void;
+}
+
+export default function AgentWorkloadTable({ agents, categories, isLoading, onUpdate }: AgentWorkloadTableProps) {
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (agents.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center h-40 text-center border-2 border-dashed rounded-lg">
+        <Users className="h-10 w-10 text-muted-foreground mb-3" />
+        <p className="text-sm text-muted-foreground">No agents found</p>
+      </div>
+    );
+  }
+
+  const maxOpen = Math.max(1, ...agents.map((agent) => agent.openTickets));
+
+  return (
+    <div className="rounded-md border overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b bg-muted/50">
+            <th className="p-3 text-left font-medium">Agent</th>
+            <th className="p-3 text-left font-medium w-[180px]">Open Tickets</th>
+            <th className="p-3 text-left font-medium min-w-[240px]">Skills</th>
+            <th className="p-3 text-center font-medium w-[110px]">Available</th>
+          </tr>
+        </thead>
+        <tbody>
+          {agents.map((agent) => (
+            <tr key={agent.userId} className="border-b last:border-0 hover:bg-muted/20 align-top">
+              <td className="p-3">
+                <div className="font-medium">{agent.name}</div>
+                <div className="text-xs text-muted-foreground">
+                  {agent.team || 'No team'}
+                  {agent.lastAssignedAt && ` · last assigned ${formatRelativeTime(agent.lastAssignedAt)}`}
+                </div>
+              </td>
+              <td className="p-3">
+                <div className="flex items-center gap-2">
+                  <div className="h-2 flex-1 rounded-full bg-muted overflow-hidden">
+                    <div
+                      className="h-full bg-primary"
+                      style={{ width: `${(agent.openTickets / maxOpen) * 100}%` }}
+                    />
+                  </div>
+                  <span className="w-6 text-right tabular-nums">{agent.openTickets}</span>
+                </div>
+              </td>
+              <td className="p-3">
+                <MultiSelect
+                  options={categories}
+                  selectedValues={agent.skills}
+                  onChange={(skills) => onUpdate(agent.userId, { skills })}
+                  placeholder="No skills"
+                />
+              </td>
+              <td className="p-3">
+                <div className="flex flex-col items-center gap-1">
+                  <Switch
+                    checked={agent.available}
+                    onCheckedChange={(available) => onUpdate(agent.userId, { available })}
+                  />
+                  {!agent.available && (
+                    <Badge variant="secondary" className="text-[10px]">
+                      Away{agent.awaySince ? ` ${formatRelativeTime(agent.awaySince)}` : ''}
+                    </Badge>
+                  )}
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { MultiSelect } from '@/components/ui/multi-select';
+import { UserMultiSelect } from '@/components/ui/user-multi-select';
+import { X, AlertCircle } from 'lucide-react';
+import { ASSIGNMENT_METHOD_LABELS } from '@/lib/assignment';
+import type { User } from '@/types';
+import type { AssignmentMethod, AssignmentPool, AssignmentPoolInput } from '@/types/assignment';
+
+interface AssignmentPoolFormProps {
+  pool?: AssignmentPool | null;
+  agents: User[];
+  teams: string[];
+  categories: string[];
+  isSaving?: boolean;
+  onSave: (input: AssignmentPoolInput) => void;
+  onCancel: () => void;
+}
+
+const METHODS = Object.keys(ASSIGNMENT_METHOD_LABELS) as AssignmentMethod[];
+
+const selectClassName = 'mt-1.5 w-full h-9 rounded-md border border-input bg-background px-3 py-1 text-sm';
+
+export default function AssignmentPoolForm({
+  pool,
+  agents,
+  teams,
+  categories,
+  isSaving,
+  onSave,
+  onCancel,
+}: AssignmentPoolFormProps) {
+  const [name, setName] = useState(pool?.name || '');
+  const [team, setTeam] = useState(pool?.team || '');
+  const [agentIds, setAgentIds] = useState<string[]>(pool?.agentIds || []);
+  const [poolCategories, setPoolCategories] = useState<string[]>(pool?.categories || []);
+  const [method, setMethod] = useState<AssignmentMethod>(pool?.method || 'least_open');
+  const [maxOpenTickets, setMaxOpenTickets] = useState(pool?.maxOpenTickets ? String(pool.maxOpenTickets) : '');
+  const [enabled, setEnabled] = useState(pool?.enabled ?? true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Selecting a team pre-fills its agents when the pool has none yet
+  const handleTeamChange = (value: string) => {
+    setTeam(value);
+    if (value && agentIds.length === 0) {
+      setAgentIds(agents.filter((agent) => agent.team === value).map((agent) => agent.id));
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim()) {
+      setError('Name is required');
+      return;
+    }
+    if (agentIds.length === 0) {
+      setError('Add at least one agent to the pool');
+      return;
+    }
+
+    setError(null);
+    onSave({
+      name: name.trim(),
+      team,
+      agentIds,
+      categories: poolCategories,
+      method,
+      maxOpenTickets: parseInt(maxOpenTickets) || null,
+      enabled,
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>{pool ? 'Edit Pool' : 'Create Pool'}</CardTitle>
+          <Button variant="ghost" size="icon" onClick={onCancel} className="h-8 w-8">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div>
+              <Label htmlFor="pool-name">Name *</Label>
+              <Input
+                id="pool-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., Desktop Support"
+                className="mt-1.5"
+                required
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="pool-team">Team</Label>
+              <select
+                id="pool-team"
+                value={team}
+                onChange={(e) => handleTeamChange(e.target.value)}
+                className={selectClassName}
+              >
+                <option value="">No team</option>
+                {teams.map((t) => (
+                  <option key={t} value={t}>
+                    {t}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <Label>Agents *</Label>
+            <UserMultiSelect
+              users={agents}
+              selectedUserIds={agentIds}
+              onChange={setAgentIds}
+              placeholder="Select agents in this pool..."
+              className="mt-1.5"
+            />
+          </div>
+
+          <div>
+            <Label>Categories</Label>
+            <MultiSelect
+              options={categories}
+              selectedValues={poolCategories}
+              onChange={setPoolCategories}
+              placeholder="All other categories"
+              className="mt-1.5"
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              Tickets in these categories are routed to this pool. Leave empty to catch tickets no other pool covers.
+            </p>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div>
+              <Label htmlFor="pool-method">Pick agent by</Label>
+              <select
+                id="pool-method"
+                value={method}
+                onChange={(e) => setMethod(e.target.value as AssignmentMethod)}
+                className={selectClassName}
+              >
+                {METHODS.map((m) => (
+                  <option key={m} value={m}>
+                    {ASSIGNMENT_METHOD_LABELS[m]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <Label htmlFor="pool-max-open">Max open tickets per agent</Label>
+              <Input
+                id="pool-max-open"
+                type="number"
+                min="1"
+                value={maxOpenTickets}
+                onChange={(e) => setMaxOpenTickets(e.target.value)}
+                placeholder="No limit"
+                className="mt-1.5"
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between p-3 rounded-lg border border-border">
+            <div>
+              <Label htmlFor="pool-enabled" className="font-medium">
+                Enable Pool
+              </Label>
+              <p className="text-xs text-muted-foreground mt-0.5">
+                Disabled pools are skipped when routing tickets
+              </p>
+            </div>
+            <button
+              type="button"
+              id="pool-enabled"
+              onClick={() => setEnabled(!enabled)}
+              className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                enabled ? 'bg-primary' : 'bg-muted'
+              }`}
+            >
+              <span
+                className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                  enabled ? 'translate-x-6' : 'translate-x-1'
+                }`}
+              />
+            </button>
+          </div>
+
+          {error && (
+            <div className="flex items-center gap-2 text-sm text-destructive">
+              <AlertCircle className="h-4 w-4" />
+              {error}
+            </div>
+          )}
+
+          <div className="flex items-center gap-2 pt-4 border-t border-border">
+            <Button type="submit" disabled={isSaving}>
+              {pool ? 'Update Pool' : 'Create Pool'}
+            </Button>
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
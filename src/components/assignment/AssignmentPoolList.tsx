@@ -0,0 +1,122 @@
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Users, Edit, Trash2 } from 'lucide-react';
+import { ASSIGNMENT_METHOD_LABELS } from '@/lib/assignment';
+import type { AgentAssignmentStatus, AssignmentPool } from '@/types/assignment';
+
+interface AssignmentPoolListProps {
+  pools: AssignmentPool[];
+  agentStatuses: AgentAssignmentStatus[];
+  getUserName: (userId: string) => string | undefined;
+  onEdit: (pool: AssignmentPool) => void;
+  onDelete: (poolId: string) => void;
+  onToggleEnabled: (poolId: string) => void;
+}
+
+export default function AssignmentPoolList({
+  pools,
+  agentStatuses,
+  getUserName,
+  onEdit,
+  onDelete,
+  onToggleEnabled,
+}: AssignmentPoolListProps) {
+  if (pools.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center h-48 text-center border-2 border-dashed rounded-lg">
+        <Users className="h-12 w-12 text-muted-foreground mb-4" />
+        <p className="text-sm text-muted-foreground">No assignment pools configured yet</p>
+        <p className="text-xs text-muted-foreground mt-2">
+          Create a pool to route categories to a team of agents
+        </p>
+      </div>
+    );
+  }
+
+  const isAvailable = (userId: string) => agentStatuses.find((a) => a.userId === userId)?.available ?? true;
+
+  return (
+    <div className="space-y-4">
+      {pools.map((pool) => {
+        const availableCount = pool.agentIds.filter(isAvailable).length;
+
+        return (
+          <Card key={pool.id} className={!pool.enabled ? 'opacity-60' : ''}>
+            <CardContent className="pt-6">
+              <div className="flex items-start justify-between">
+                <div className="flex-1">
+                  <div className="flex items-center gap-2 mb-2">
+                    <h3 className="font-semibold text-lg">{pool.name}</h3>
+                    <Badge variant={pool.enabled ? 'default' : 'secondary'}>
+                      {pool.enabled ? 'Active' : 'Disabled'}
+                    </Badge>
+                    {pool.team && <Badge variant="outline">{pool.team}</Badge>}
+                  </div>
+
+                  <div className="space-y-2 text-sm">
+                    <div>
+                      <span className="text-muted-foreground">Categories: </span>
+                      <span className="font-medium">
+                        {pool.categories.length > 0 ? pool.categories.join(', ') : 'Fallback for uncovered categories'}
+                      </span>
+                    </div>
+                    <div>
+                      <span className="text-muted-foreground">Agents: </span>
+                      <span className="font-medium">
+                        {pool.agentIds.map((id) => getUserName(id) || 'Unknown').join(', ')}
+                      </span>
+                      <span className="text-xs text-muted-foreground ml-2">
+                        ({availableCount} of {pool.agentIds.length} available)
+                      </span>
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {ASSIGNMENT_METHOD_LABELS[pool.method]}
+                      {pool.maxOpenTickets ? ` · max ${pool.maxOpenTickets} open per agent` : ''}
+                    </div>
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-2 ml-4">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => onToggleEnabled(pool.id)}
+                    title={pool.enabled ? 'Disable pool' : 'Enable pool'}
+                    className="h-8 w-8"
+                  >
+                    <div className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors ${
+                      pool.enabled ? 'bg-primary' : 'bg-muted'
+                    }`}>
+                      <span className={`inline-block h-3 w-3 transform rounded-full bg-white transition-transform ${
+                        pool.enabled ? 'translate-x-5' : 'translate-x-1'
+                      }`} />
+                    </div>
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => onEdit(pool)}
+                    title="Edit pool"
+                    className="h-8 w-8"
+                  >
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => onDelete(pool.id)}
+                    title="Delete pool"
+                    className="h-8 w-8 text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
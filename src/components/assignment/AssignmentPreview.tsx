@@ -0,0 +1,70 @@
+import { useState } from 'react';
+import { Label } from '@/components/ui/label';
+import { UserCheck, UserX } from 'lucide-react';
+import { describeAssignmentDecision, selectAssignee } from '@/lib/assignment';
+import type { AgentAssignmentStatus, AssignmentPool, AssignmentStrategy } from '@/types/assignment';
+
+interface AssignmentPreviewProps {
+  strategy: AssignmentStrategy;
+  pools: AssignmentPool[];
+  agents: AgentAssignmentStatus[];
+  categories: string[];
+}
+
+export default function AssignmentPreview({ strategy, pools, agents, categories }: AssignmentPreviewProps) {
+  const [category, setCategory] = useState('');
+
+  const decision = category ? selectAssignee(category, { strategy, pools, agents }) : null;
+  const assignee = agents.find((agent) => agent.userId === decision?.assigneeId);
+
+  return (
+    <div className="space-y-4">
+      <div className="max-w-xs">
+        <Label htmlFor="assignment-preview-category" className="text-xs">New ticket category</Label>
+        <select
+          id="assignment-preview-category"
+          value={category}
+          onChange={(e) => setCategory(e.target.value)}
+          className="mt-1 w-full h-9 rounded-md border border-input bg-background px-3 py-1 text-sm"
+        >
+          <option value="">Choose category...</option>
+          {categories.map((c) => (
+            <option key={c} value={c}>
+              {c}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {category && strategy === 'manual' && (
+        <p className="text-sm text-muted-foreground">
+          Manual assignment is selected, so the ticket would stay unassigned.
+        </p>
+      )}
+
+      {decision && (
+        <div className="rounded-lg border border-border p-4 space-y-3">
+          <div className="flex items-center gap-2">
+            {assignee ? (
+              <UserCheck className="h-5 w-5 text-green-600" />
+            ) : (
+              <UserX className="h-5 w-5 text-red-600" />
+            )}
+            <span className="font-medium">
+              {assignee ? `Would be assigned to ${assignee.name}` : 'Would be left unassigned'}
+            </span>
+          </div>
+          <ul className="list-disc list-inside text-sm text-muted-foreground space-y-0.5">
+            {describeAssignmentDecision(decision).map((reason) => (
+              <li key={reason}>{reason}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        Uses current availability and open ticket counts, including unsaved strategy changes. Nothing is assigned.
+      </p>
+    </div>
+  );
+}
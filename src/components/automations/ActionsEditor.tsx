@@ -0,0 +1,199 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { UserMultiSelect } from '@/components/ui/user-multi-select';
+import { Plus, Trash2 } from 'lucide-react';
+import type { User } from '@/types';
+import type { AutomationAction, AutomationActionType, AutomationFieldName } from '@/types/automation';
+
+interface ActionsEditorProps {
+  actions: AutomationAction[];
+  onChange: (actions: AutomationAction[]) => void;
+  agents: User[];
+  priorities: string[];
+  categories: string[];
+}
+
+const ACTION_TYPES: { value: AutomationActionType; label: string }[] = [
+  { value: 'set_field', label: 'Set field' },
+  { value: 'assign', label: 'Assign' },
+  { value: 'add_tags', label: 'Add tags' },
+  { value: 'internal_note', label: 'Post internal note' },
+  { value: 'notify', label: 'Notify users' },
+];
+
+const STATUS_OPTIONS = [
+  { value: 'open', label: 'Open' },
+  { value: 'in_progress', label: 'In Progress' },
+  { value: 'waiting', label: 'Waiting' },
+  { value: 'resolved', label: 'Resolved' },
+  { value: 'closed', label: 'Closed' },
+];
+
+const UNASSIGN = 'unassigned';
+
+const selectClassName = 'w-full h-9 rounded-md border border-input bg-background px-3 py-1 text-sm';
+
+function createAction(type: AutomationActionType): AutomationAction {
+  switch (type) {
+    case 'set_field':
+      return { type, field: 'status', value: '' };
+    case 'assign':
+      return { type, assigneeId: null };
+    case 'add_tags':
+      return { type, tags: [] };
+    case 'internal_note':
+      return { type, content: '' };
+    case 'notify':
+      return { type, userIds: [], notifyAssignee: true, message: '' };
+  }
+}
+
+export default function ActionsEditor({ actions, onChange, agents, priorities, categories }: ActionsEditorProps) {
+  const updateAction = (index: number, action: AutomationAction) => {
+    onChange(actions.map((a, i) => (i === index ? action : a)));
+  };
+
+  const getFieldValues = (field: AutomationFieldName) => {
+    if (field === 'status') return STATUS_OPTIONS;
+    const values = field === 'priority' ? priorities : categories;
+    return values.map((value) => ({ value, label: value }));
+  };
+
+  const renderActionFields = (action: AutomationAction, index: number) => {
+    switch (action.type) {
+      case 'set_field':
+        return (
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              value={action.field}
+              onChange={(e) => updateAction(index, { ...action, field: e.target.value as AutomationFieldName, value: '' })}
+              className={selectClassName}
+            >
+              <option value="status">Status</option>
+              <option value="priority">Priority</option>
+              <option value="category">Category</option>
+            </select>
+            <select
+              value={action.value}
+              onChange={(e) => updateAction(index, { ...action, value: e.target.value })}
+              className={selectClassName}
+            >
+              <option value="">Choose value...</option>
+              {getFieldValues(action.field).map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        );
+      case 'assign':
+        return (
+          <select
+            value={action.assigneeId ?? UNASSIGN}
+            onChange={(e) => updateAction(index, { ...action, assigneeId: e.target.value === UNASSIGN ? null : e.target.value })}
+            className={selectClassName}
+          >
+            <option value={UNASSIGN}>Unassign</option>
+            {agents.map((agent) => (
+              <option key={agent.id} value={agent.id}>
+                {agent.name}
+              </option>
+            ))}
+          </select>
+        );
+      case 'add_tags':
+        return (
+          <Input
+            value={action.tags.join(', ')}
+            onChange={(e) =>
+              updateAction(index, {
+                ...action,
+                tags: e.target.value.split(',').map((tag) => tag.trim()).filter(Boolean),
+              })
+            }
+            placeholder="Comma separated, e.g. escalated, vip"
+          />
+        );
+      case 'internal_note':
+        return (
+          <Textarea
+            value={action.content}
+            onChange={(e) => updateAction(index, { ...action, content: e.target.value })}
+            rows={3}
+            placeholder="Note posted on the ticket (only visible to agents)"
+            className="text-sm"
+          />
+        );
+      case 'notify':
+        return (
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={action.notifyAssignee}
+                onChange={(e) => updateAction(index, { ...action, notifyAssignee: e.target.checked })}
+              />
+              Notify the current assignee
+            </label>
+            <UserMultiSelect
+              users={agents}
+              selectedUserIds={action.userIds}
+              onChange={(userIds) => updateAction(index, { ...action, userIds })}
+              placeholder="Also notify..."
+            />
+            <Input
+              value={action.message}
+              onChange={(e) => updateAction(index, { ...action, message: e.target.value })}
+              placeholder="Notification message (optional)"
+            />
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {actions.length === 0 && (
+        <p className="text-sm text-muted-foreground">No actions yet. Add at least one action.</p>
+      )}
+
+      {actions.map((action, index) => (
+        <div key={index} className="rounded-lg border border-border p-3 space-y-2">
+          <div className="flex items-center gap-2">
+            <Label className="text-xs text-muted-foreground w-6">{index + 1}.</Label>
+            <select
+              value={action.type}
+              onChange={(e) => updateAction(index, createAction(e.target.value as AutomationActionType))}
+              className={`${selectClassName} flex-1`}
+            >
+              {ACTION_TYPES.map((type) => (
+                <option key={type.value} value={type.value}>
+                  {type.label}
+                </option>
+              ))}
+            </select>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => onChange(actions.filter((_, i) => i !== index))}
+              title="Remove action"
+              className="h-8 w-8 text-destructive hover:text-destructive"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="pl-8">{renderActionFields(action, index)}</div>
+        </div>
+      ))}
+
+      <Button type="button" variant="outline" size="sm" onClick={() => onChange([...actions, createAction('set_field')])}>
+        <Plus className="h-4 w-4 mr-2" />
+        Add Action
+      </Button>
+    </div>
+  );
+}
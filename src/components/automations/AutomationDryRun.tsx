@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { CheckCircle2, XCircle, Loader2, FlaskConical } from 'lucide-react';
+import { useTicketQuery } from '@/hooks/useTicketsQuery';
+import { useConditionOptions } from '@/hooks/useConditionOptions';
+import { evaluateAutomation } from '@/lib/automations';
+import type { AutomationRule } from '@/types/automation';
+
+interface AutomationDryRunProps {
+  rules: AutomationRule[];
+  ruleId: string;
+  onRuleChange: (ruleId: string) => void;
+  getUserName: (userId: string) => string | undefined;
+}
+
+export default function AutomationDryRun({ rules, ruleId, onRuleChange, getUserName }: AutomationDryRunProps) {
+  const [ticketInput, setTicketInput] = useState('');
+  const [ticketId, setTicketId] = useState<string | undefined>();
+  const { data: ticket, isFetching, error } = useTicketQuery(ticketId);
+  const { data: conditionOptions } = useConditionOptions();
+
+  const rule = rules.find((r) => r.id === ruleId);
+  const customFieldLabels = Object.fromEntries(
+    (conditionOptions?.customFields || []).map((field) => [field.id, field.label])
+  );
+  const result = rule && ticket ? evaluateAutomation(rule, ticket, { getUserName, customFieldLabels }) : null;
+
+  const handleRun = (e: React.FormEvent) => {
+    e.preventDefault();
+    setTicketId(ticketInput.trim() || undefined);
+  };
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleRun} className="grid grid-cols-[1fr_1fr_auto] gap-3 items-end">
+        <div>
+          <Label htmlFor="dry-run-rule" className="text-xs">Automation</Label>
+          <select
+            id="dry-run-rule"
+            value={ruleId}
+            onChange={(e) => onRuleChange(e.target.value)}
+            className="mt-1 w-full h-9 rounded-md border border-input bg-background px-3 py-1 text-sm"
+          >
+            <option value="">Choose automation...</option>
+            {rules.map((r) => (
+              <option key={r.id} value={r.id}>
+                {r.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <Label htmlFor="dry-run-ticket" className="text-xs">Ticket ID</Label>
+          <Input
+            id="dry-run-ticket"
+            value={ticketInput}
+            onChange={(e) => setTicketInput(e.target.value)}
+            placeholder="e.g., TKT-1042"
+            className="mt-1"
+          />
+        </div>
+        <Button type="submit" disabled={!ruleId || !ticketInput.trim() || isFetching}>
+          {isFetching ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FlaskConical className="h-4 w-4 mr-2" />}
+          Dry Run
+        </Button>
+      </form>
+
+      <p className="text-xs text-muted-foreground">
+        Checks the automation's trigger and conditions against the ticket as it is now. Nothing is changed.
+      </p>
+
+      {error && ticketId && <p className="text-sm text-destructive">{error.message}</p>}
+
+      {result && ticket && (
+        <div className="rounded-lg border border-border p-4 space-y-4">
+          <div className="flex items-center gap-2">
+            {result.matched ? (
+              <CheckCircle2 className="h-5 w-5 text-green-600" />
+            ) : (
+              <XCircle className="h-5 w-5 text-red-600" />
+            )}
+            <span className="font-medium">
+              {result.matched
+                ? `${rule?.name} would run on ${ticket.id}`
+                : `${rule?.name} would not run on ${ticket.id}`}
+            </span>
+          </div>
+
+          <div className="space-y-1.5">
+            {result.checks.map((check) => (
+              <div key={check.label} className="flex items-start gap-2 text-sm">
+                {check.passed ? (
+                  <CheckCircle2 className="h-4 w-4 text-green-600 mt-0.5 shrink-0" />
+                ) : (
+                  <XCircle className="h-4 w-4 text-red-600 mt-0.5 shrink-0" />
+                )}
+                <span className="font-medium w-40 shrink-0">{check.label}</span>
+                <span className="text-muted-foreground">{check.detail}</span>
+              </div>
+            ))}
+          </div>
+
+          <div className="pt-3 border-t border-border">
+            <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground mb-1.5">
+              {result.matched ? 'Actions that would run' : 'Actions (not run)'}
+            </p>
+            <ol className="list-decimal list-inside text-sm space-y-0.5">
+              {result.actions.map((action, index) => (
+                <li key={index}>{action}</li>
+              ))}
+            </ol>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,309 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { X, Zap, Clock, AlertCircle } from 'lucide-react';
+import ConditionsEditor from './ConditionsEditor';
+import ActionsEditor from './ActionsEditor';
+import { useConditionOptions } from '@/hooks/useConditionOptions';
+import { useTicketQueryContext } from '@/hooks/useTicketQueryContext';
+import {
+  AUTOMATION_EVENT_LABELS,
+  AUTOMATION_TIME_BASIS_LABELS,
+  formatTriggerDuration,
+  validateAutomationRule,
+} from '@/lib/automations';
+import type { TicketStatus } from '@/types';
+import type {
+  AutomationAction,
+  AutomationConditions,
+  AutomationEvent,
+  AutomationRule,
+  AutomationRuleInput,
+  AutomationTimeBasis,
+} from '@/types/automation';
+
+interface AutomationFormProps {
+  rule?: AutomationRule | null;
+  isSaving?: boolean;
+  onSave: (input: AutomationRuleInput) => void;
+  onCancel: () => void;
+}
+
+const EVENTS = Object.keys(AUTOMATION_EVENT_LABELS) as AutomationEvent[];
+const TIME_BASES = Object.keys(AUTOMATION_TIME_BASIS_LABELS) as AutomationTimeBasis[];
+const STATUS_OPTIONS: { value: TicketStatus; label: string }[] = [
+  { value: 'new', label: 'New' },
+  { value: 'open', label: 'Open' },
+  { value: 'in_progress', label: 'In Progress' },
+  { value: 'waiting', label: 'Waiting' },
+  { value: 'resolved', label: 'Resolved' },
+];
+
+const selectClassName = 'mt-1 w-full h-9 rounded-md border border-input bg-background px-3 py-1 text-sm';
+
+export default function AutomationForm({ rule, isSaving, onSave, onCancel }: AutomationFormProps) {
+  const { data: conditionOptions, isLoading: isOptionsLoading } = useConditionOptions();
+  const { data: ticketOptions } = useTicketQueryContext();
+  const agents = (ticketOptions?.users || []).filter((u) => u.role !== 'user');
+
+  const initialTrigger = rule?.trigger;
+  const [name, setName] = useState(rule?.name || '');
+  const [description, setDescription] = useState(rule?.description || '');
+  const [enabled, setEnabled] = useState(rule?.enabled ?? true);
+  const [triggerType, setTriggerType] = useState<'event' | 'time'>(initialTrigger?.type || 'event');
+  const [events, setEvents] = useState<AutomationEvent[]>(
+    initialTrigger?.type === 'event' ? initialTrigger.events : ['ticket_created']
+  );
+  const [timeBasis, setTimeBasis] = useState<AutomationTimeBasis>(
+    initialTrigger?.type === 'time' ? initialTrigger.basis : 'time_in_status'
+  );
+  const [timeStatus, setTimeStatus] = useState<TicketStatus | ''>(
+    initialTrigger?.type === 'time' ? initialTrigger.status || '' : 'waiting'
+  );
+  const [afterMinutes, setAfterMinutes] = useState<number>(
+    initialTrigger?.type === 'time' ? initialTrigger.afterMinutes : 3 * 1440
+  );
+  const [conditions, setConditions] = useState<AutomationConditions>(rule?.conditions || {});
+  const [actions, setActions] = useState<AutomationAction[]>(rule?.actions || []);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleEvent = (event: AutomationEvent) => {
+    setEvents((prev) => (prev.includes(event) ? prev.filter((e) => e !== event) : [...prev, event]));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const input: AutomationRuleInput = {
+      name: name.trim(),
+      description: description.trim() || undefined,
+      enabled,
+      trigger: triggerType === 'event'
+        ? { type: 'event', events }
+        : {
+            type: 'time',
+            basis: timeBasis,
+            status: timeBasis === 'time_in_status' && timeStatus ? timeStatus : undefined,
+            afterMinutes,
+          },
+      conditions,
+      actions,
+    };
+
+    const validationError = validateAutomationRule(input);
+    setError(validationError);
+    if (!validationError) {
+      onSave(input);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>{rule ? 'Edit Automation' : 'Create Automation'}</CardTitle>
+          <Button variant="ghost" size="icon" onClick={onCancel} className="h-8 w-8">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          {/* Basic Info */}
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="automation-name">Name *</Label>
+              <Input
+                id="automation-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., Close stale waiting tickets"
+                className="mt-1.5"
+                required
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="automation-description">Description</Label>
+              <Input
+                id="automation-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Optional description of what this automation does"
+                className="mt-1.5"
+              />
+            </div>
+
+            <div className="flex items-center justify-between p-3 rounded-lg border border-border">
+              <div>
+                <Label htmlFor="automation-enabled" className="font-medium">
+                  Enable Automation
+                </Label>
+                <p className="text-xs text-muted-foreground mt-0.5">
+                  Automation will run when its trigger fires
+                </p>
+              </div>
+              <button
+                type="button"
+                id="automation-enabled"
+                onClick={() => setEnabled(!enabled)}
+                className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                  enabled ? 'bg-primary' : 'bg-muted'
+                }`}
+              >
+                <span
+                  className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                    enabled ? 'translate-x-6' : 'translate-x-1'
+                  }`}
+                />
+              </button>
+            </div>
+          </div>
+
+          {/* Trigger */}
+          <div className="space-y-4 pt-4 border-t border-border">
+            <div>
+              <Label className="text-sm font-medium mb-2 block">Trigger</Label>
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  variant={triggerType === 'event' ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setTriggerType('event')}
+                >
+                  <Zap className="h-3.5 w-3.5 mr-1.5" />
+                  When something happens
+                </Button>
+                <Button
+                  type="button"
+                  variant={triggerType === 'time' ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setTriggerType('time')}
+                >
+                  <Clock className="h-3.5 w-3.5 mr-1.5" />
+                  After a period of time
+                </Button>
+              </div>
+            </div>
+
+            {triggerType === 'event' ? (
+              <div className="flex flex-wrap gap-2">
+                {EVENTS.map((event) => (
+                  <Badge
+                    key={event}
+                    variant={events.includes(event) ? 'default' : 'outline'}
+                    className="cursor-pointer"
+                    onClick={() => toggleEvent(event)}
+                  >
+                    {AUTOMATION_EVENT_LABELS[event]}
+                  </Badge>
+                ))}
+              </div>
+            ) : (
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="automation-time-basis" className="text-xs">Measure</Label>
+                  <select
+                    id="automation-time-basis"
+                    value={timeBasis}
+                    onChange={(e) => setTimeBasis(e.target.value as AutomationTimeBasis)}
+                    className={selectClassName}
+                  >
+                    {TIME_BASES.map((basis) => (
+                      <option key={basis} value={basis}>
+                        {AUTOMATION_TIME_BASIS_LABELS[basis]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                {timeBasis === 'time_in_status' && (
+                  <div>
+                    <Label htmlFor="automation-time-status" className="text-xs">Status</Label>
+                    <select
+                      id="automation-time-status"
+                      value={timeStatus}
+                      onChange={(e) => setTimeStatus(e.target.value as TicketStatus | '')}
+                      className={selectClassName}
+                    >
+                      <option value="">Any status</option>
+                      {STATUS_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
+                <div>
+                  <Label htmlFor="automation-after" className="text-xs">More than (minutes)</Label>
+                  <Input
+                    id="automation-after"
+                    type="number"
+                    min="1"
+                    value={afterMinutes}
+                    onChange={(e) => setAfterMinutes(parseInt(e.target.value) || 0)}
+                    className="mt-1"
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">{formatTriggerDuration(afterMinutes)}</p>
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Conditions */}
+          <div className="space-y-4 pt-4 border-t border-border">
+            <div>
+              <Label className="text-sm font-medium mb-2 block">Conditions</Label>
+              <p className="text-xs text-muted-foreground mb-3">
+                Only tickets matching every selected condition are affected. Leave all empty to match all tickets.
+              </p>
+            </div>
+            <ConditionsEditor
+              conditions={conditions}
+              onChange={setConditions}
+              options={conditionOptions}
+              isLoading={isOptionsLoading}
+            />
+          </div>
+
+          {/* Actions */}
+          <div className="space-y-4 pt-4 border-t border-border">
+            <div>
+              <Label className="text-sm font-medium mb-2 block">Actions</Label>
+              <p className="text-xs text-muted-foreground mb-3">Run in order when the rule matches.</p>
+            </div>
+            <ActionsEditor
+              actions={actions}
+              onChange={setActions}
+              agents={agents}
+              priorities={conditionOptions?.priorities || []}
+              categories={conditionOptions?.categories || []}
+            />
+          </div>
+
+          {error && (
+            <div className="flex items-center gap-2 text-sm text-destructive">
+              <AlertCircle className="h-4 w-4" />
+              {error}
+            </div>
+          )}
+
+          {/* Form Actions */}
+          <div className="flex items-center gap-2 pt-4 border-t border-border">
+            <Button type="submit" disabled={isSaving}>
+              {rule ? 'Update Automation' : 'Create Automation'}
+            </Button>
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
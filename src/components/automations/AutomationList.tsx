@@ -0,0 +1,128 @@
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import type { AutomationRule } from '@/types/automation';
+import { Workflow, Edit, Trash2, Zap, Clock, FlaskConical } from 'lucide-react';
+import { describeAction, describeTrigger } from '@/lib/automations';
+import { formatRelativeTime } from '@/lib/utils';
+
+interface AutomationListProps {
+  rules: AutomationRule[];
+  getUserName: (userId: string) => string | undefined;
+  onEdit: (rule: AutomationRule) => void;
+  onDelete: (ruleId: string) => void;
+  onToggleEnabled: (ruleId: string) => void;
+  onDryRun: (ruleId: string) => void;
+}
+
+export default function AutomationList({
+  rules,
+  getUserName,
+  onEdit,
+  onDelete,
+  onToggleEnabled,
+  onDryRun,
+}: AutomationListProps) {
+  if (rules.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center h-64 text-center border-2 border-dashed rounded-lg">
+        <Workflow className="h-12 w-12 text-muted-foreground mb-4" />
+        <p className="text-sm text-muted-foreground">No automations configured yet</p>
+        <p className="text-xs text-muted-foreground mt-2">
+          Create a rule to update, assign or follow up on tickets automatically
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {rules.map((rule) => (
+        <Card key={rule.id} className={!rule.enabled ? 'opacity-60' : ''}>
+          <CardContent className="pt-6">
+            <div className="flex items-start justify-between">
+              <div className="flex-1">
+                <div className="flex items-center gap-2 mb-2">
+                  <h3 className="font-semibold text-lg">{rule.name}</h3>
+                  <Badge variant={rule.enabled ? 'default' : 'secondary'}>
+                    {rule.enabled ? 'Active' : 'Disabled'}
+                  </Badge>
+                  <Badge variant="outline" className="gap-1">
+                    {rule.trigger.type === 'event' ? <Zap className="h-3 w-3" /> : <Clock className="h-3 w-3" />}
+                    {rule.trigger.type === 'event' ? 'Event' : 'Time-based'}
+                  </Badge>
+                </div>
+
+                {rule.description && (
+                  <p className="text-sm text-muted-foreground mb-3">{rule.description}</p>
+                )}
+
+                <div className="space-y-2 text-sm">
+                  <div>
+                    <span className="text-muted-foreground">When: </span>
+                    <span className="font-medium">{describeTrigger(rule.trigger)}</span>
+                  </div>
+                  <div>
+                    <span className="text-muted-foreground">Then: </span>
+                    <span className="font-medium">
+                      {rule.actions.map((action) => describeAction(action, getUserName)).join(' → ')}
+                    </span>
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {rule.runCount ? `Ran ${rule.runCount} time${rule.runCount === 1 ? '' : 's'}` : 'Never run'}
+                    {rule.lastRunAt && ` · last ${formatRelativeTime(rule.lastRunAt)}`}
+                  </div>
+                </div>
+              </div>
+
+              <div className="flex items-center gap-2 ml-4">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onToggleEnabled(rule.id)}
+                  title={rule.enabled ? 'Disable automation' : 'Enable automation'}
+                  className="h-8 w-8"
+                >
+                  <div className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors ${
+                    rule.enabled ? 'bg-primary' : 'bg-muted'
+                  }`}>
+                    <span className={`inline-block h-3 w-3 transform rounded-full bg-white transition-transform ${
+                      rule.enabled ? 'translate-x-5' : 'translate-x-1'
+                    }`} />
+                  </div>
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onDryRun(rule.id)}
+                  title="Dry run against a ticket"
+                  className="h-8 w-8"
+                >
+                  <FlaskConical className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onEdit(rule)}
+                  title="Edit automation"
+                  className="h-8 w-8"
+                >
+                  <Edit className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onDelete(rule.id)}
+                  title="Delete automation"
+                  className="h-8 w-8 text-destructive hover:text-destructive"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
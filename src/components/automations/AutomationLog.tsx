@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { RefreshCw, Loader2, History } from 'lucide-react';
+import { useAutomationRunsQuery } from '@/hooks/useAutomations';
+import { formatDate } from '@/lib/utils';
+import type { AutomationRule, AutomationRunStatus } from '@/types/automation';
+
+interface AutomationLogProps {
+  rules: AutomationRule[];
+}
+
+const STATUS_VARIANTS: Record<AutomationRunStatus, string> = {
+  success: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  failed: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+  skipped: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300',
+};
+
+export default function AutomationLog({ rules }: AutomationLogProps) {
+  const [ruleId, setRuleId] = useState('');
+  const { data: runs = [], isLoading, isFetching, refetch } = useAutomationRunsQuery(ruleId || undefined);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <select
+          value={ruleId}
+          onChange={(e) => setRuleId(e.target.value)}
+          className="h-9 rounded-md border border-input bg-background px-3 py-1 text-sm"
+        >
+          <option value="">All automations</option>
+          {rules.map((rule) => (
+            <option key={rule.id} value={rule.id}>
+              {rule.name}
+            </option>
+          ))}
+        </select>
+        <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : runs.length === 0 ? (
+        <div className="flex flex-col items-center justify-center h-40 text-center border-2 border-dashed rounded-lg">
+          <History className="h-10 w-10 text-muted-foreground mb-3" />
+          <p className="text-sm text-muted-foreground">No automation runs recorded yet</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b">
+                <th className="p-2 text-left text-xs font-medium">Time</th>
+                <th className="p-2 text-left text-xs font-medium">Automation</th>
+                <th className="p-2 text-left text-xs font-medium">Ticket</th>
+                <th className="p-2 text-left text-xs font-medium">Trigger</th>
+                <th className="p-2 text-left text-xs font-medium">Result</th>
+                <th className="p-2 text-left text-xs font-medium">Actions Applied</th>
+              </tr>
+            </thead>
+            <tbody>
+              {runs.map((run) => (
+                <tr key={run.id} className="border-b hover:bg-muted/50 align-top">
+                  <td className="p-2 text-xs whitespace-nowrap">{formatDate(run.executedAt)}</td>
+                  <td className="p-2 text-xs font-medium">{run.ruleName}</td>
+                  <td className="p-2 text-xs">
+                    <Link to={`/agent/tickets/${run.ticketId}`} className="font-mono text-primary hover:underline">
+                      {run.ticketId}
+                    </Link>
+                  </td>
+                  <td className="p-2 text-xs text-muted-foreground">{run.trigger}</td>
+                  <td className="p-2 text-xs">
+                    <Badge variant="outline" className={`border-0 capitalize ${STATUS_VARIANTS[run.status]}`}>
+                      {run.status}
+                    </Badge>
+                  </td>
+                  <td className="p-2 text-xs">
+                    {run.error ? (
+                      <span className="text-destructive">{run.error}</span>
+                    ) : run.actionsApplied.length > 0 ? (
+                      run.actionsApplied.join(', ')
+                    ) : (
+                      <span className="text-muted-foreground">None</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
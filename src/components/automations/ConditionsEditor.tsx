@@ -0,0 +1,120 @@
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, Info } from 'lucide-react';
+import type { AutomationConditions } from '@/types/automation';
+import type { ConditionOptions } from '@/hooks/useConditionOptions';
+
+type ListConditionKey = Exclude<keyof AutomationConditions, 'customFields'>;
+
+interface ConditionsEditorProps {
+  conditions: AutomationConditions;
+  onChange: (conditions: AutomationConditions) => void;
+  options?: ConditionOptions;
+  isLoading: boolean;
+}
+
+const STATUS_OPTIONS = ['new', 'open', 'in_progress', 'waiting', 'resolved', 'closed'];
+
+export default function ConditionsEditor({ conditions, onChange, options, isLoading }: ConditionsEditorProps) {
+  // Toggle a value, dropping the key entirely when nothing is selected
+  const toggleValue = (key: ListConditionKey, value: string) => {
+    const current = conditions[key] || [];
+    const updated = current.includes(value) ? current.filter((v) => v !== value) : [...current, value];
+    onChange({ ...conditions, [key]: updated.length > 0 ? updated : undefined });
+  };
+
+  const toggleCustomFieldValue = (fieldId: string, value: string) => {
+    const customFields = { ...(conditions.customFields || {}) };
+    const current = customFields[fieldId] || [];
+    const updated = current.includes(value) ? current.filter((v) => v !== value) : [...current, value];
+
+    if (updated.length > 0) {
+      customFields[fieldId] = updated;
+    } else {
+      delete customFields[fieldId];
+    }
+    onChange({ ...conditions, customFields: Object.keys(customFields).length > 0 ? customFields : undefined });
+  };
+
+  const renderGroup = (key: ListConditionKey, label: string, values: string[], emptyText: string) => (
+    <div>
+      <Label className="text-xs text-muted-foreground mb-2 block">{label}</Label>
+      {values.length > 0 ? (
+        <div className="flex flex-wrap gap-2">
+          {values.map((value) => (
+            <Badge
+              key={value}
+              variant={(conditions[key] || []).includes(value) ? 'default' : 'outline'}
+              className="cursor-pointer"
+              onClick={() => toggleValue(key, value)}
+            >
+              {value.replace('_', ' ')}
+            </Badge>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">{emptyText}</p>
+      )}
+    </div>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading condition options...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {renderGroup('status', 'Status', STATUS_OPTIONS, '')}
+      {renderGroup('priority', 'Priority', options?.priorities || [], 'No priorities configured.')}
+      {renderGroup('category', 'Category', options?.categories || [], 'No categories configured.')}
+
+      {/* Custom Dropdown/Multiselect/Checkbox Fields from Form Builder */}
+      {options?.customFields.map((field) => {
+        const selected = conditions.customFields?.[field.id] || [];
+        const values = field.type === 'checkbox'
+          ? [{ value: 'true', label: 'Checked' }, { value: 'false', label: 'Unchecked' }]
+          : (field.options || []).map((option) => ({ value: option, label: option }));
+
+        return (
+          <div key={field.id}>
+            <Label className="text-xs text-muted-foreground mb-2 flex items-center gap-2">
+              {field.label}
+              {!field.enabled && (
+                <span className="inline-flex items-center gap-1 text-orange-600" title={`${field.label} field is disabled in the ticket form`}>
+                  <Info className="h-3 w-3" />
+                </span>
+              )}
+            </Label>
+            <div className="flex flex-wrap gap-2">
+              {values.map(({ value, label }) => (
+                <Badge
+                  key={value}
+                  variant={selected.includes(value) ? 'default' : 'outline'}
+                  className="cursor-pointer"
+                  onClick={() => toggleCustomFieldValue(field.id, value)}
+                >
+                  {label}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+
+      {/* Requester Profile Conditions */}
+      <div className="pt-2 border-t border-border">
+        <Label className="text-xs font-medium text-muted-foreground">Requester Profile Conditions</Label>
+      </div>
+      {renderGroup('department', 'Department', options?.departments || [], 'No departments found.')}
+      {renderGroup('team', 'Team', options?.teams || [], 'No teams found.')}
+      {renderGroup('location', 'Office Location', options?.locations || [], 'No locations found.')}
+      {renderGroup('jobTitle', 'Job Title', options?.jobTitles || [], 'No job titles found.')}
+      {renderGroup('manager', 'Manager', options?.managers || [], 'No managers found.')}
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { useTheme } from '@/contexts/ThemeContext';
 import { useBranding } from '@/contexts/BrandingContext';
 import { Button } from '@/components/ui/button';
 import { NotificationTray } from '@/components/notifications/NotificationTray';
+import { useAgentStatusesQuery, useAgentStatusMutation } from '@/hooks/useAssignment';
 import {
   LayoutDashboard,
   Ticket,
@@ -34,6 +35,9 @@ export default function AgentLayout() {
   const navigate = useNavigate();
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
+  const { data: agentStatuses } = useAgentStatusesQuery(!!user);
+  const updateAgentStatus = useAgentStatusMutation(user?.id);
+  const isAvailable = agentStatuses?.find((agent) => agent.userId === user?.id)?.available ?? true;
 
   const navigation = [
     { name: 'Dashboard', href: '/agent/dashboard', icon: LayoutDashboard, mobileVisible: true },
@@ -55,6 +59,12 @@ export default function AgentLayout() {
     setSidebarOpen(!sidebarOpen);
   };
 
+  // Away agents are skipped by auto-assignment
+  const toggleAvailability = () => {
+    if (!user) return;
+    updateAgentStatus.mutate({ userId: user.id, changes: { available: !isAvailable } });
+  };
+
   return (
     <div className="min-h-screen bg-background">
       {/* Mobile menu button */}
@@ -185,14 +195,35 @@ export default function AgentLayout() {
             {sidebarOpen && user && (
               <div className="mb-2 rounded-lg bg-secondary p-3">
                 <div className="flex items-center space-x-2">
-                  <div className="h-8 w-8 rounded-full bg-primary flex items-center justify-center">
+                  <div className="relative h-8 w-8 rounded-full bg-primary flex items-center justify-center">
                     <User className="h-4 w-4 text-primary-foreground" />
+                    <span
+                      className={`absolute -bottom-0.5 -right-0.5 h-3 w-3 rounded-full border-2 border-secondary ${
+                        isAvailable ? 'bg-green-500' : 'bg-gray-400'
+                      }`}
+                    />
                   </div>
                   <div className="flex-1 min-w-0">
                     <p className="text-sm font-medium truncate">{user.name}</p>
                     <p className="text-xs text-muted-foreground truncate">{user.role}</p>
                   </div>
                 </div>
+                <button
+                  type="button"
+                  onClick={toggleAvailability}
+                  disabled={updateAgentStatus.isPending}
+                  className="mt-2 flex w-full items-center justify-between rounded-md px-1 text-xs text-muted-foreground hover:text-foreground"
+                  title={isAvailable ? 'Set yourself as away to pause auto-assignment' : 'Set yourself as available for auto-assignment'}
+                >
+                  <span>{isAvailable ? 'Available' : 'Away'}</span>
+                  <span className={`relative inline-flex h-4 w-7 items-center rounded-full transition-colors ${
+                    isAvailable ? 'bg-green-500' : 'bg-muted-foreground/40'
+                  }`}>
+                    <span className={`inline-block h-3 w-3 transform rounded-full bg-white transition-transform ${
+                      isAvailable ? 'translate-x-3.5' : 'translate-x-0.5'
+                    }`} />
+                  </span>
+                </button>
               </div>
             )}
 
@@ -253,6 +284,14 @@ export default function AgentLayout() {
 
             {/* Right side actions */}
             <div className="flex items-center space-x-2">
+              {/* Away reminder - auto-assignment is paused until the agent is available again */}
+              {!isAvailable && (
+                <Button variant="outline" size="sm" onClick={toggleAvailability} title="Set yourself as available">
+                  <span className="mr-2 h-2 w-2 rounded-full bg-gray-400" />
+                  Away
+                </Button>
+              )}
+
               {/* Portal Button */}
               <Button
                 variant="outline"
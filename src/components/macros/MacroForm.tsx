@@ -0,0 +1,270 @@
+import { useState, useRef } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { X, Lock, Users } from 'lucide-react';
+import { useTicketQueryContext } from '@/hooks/useTicketQueryContext';
+import { DEFAULT_PRIORITY_ORDER } from '@/lib/ticketQuery';
+import { MACRO_PLACEHOLDERS } from '@/lib/macros';
+import type { Macro, MacroInput, MacroVisibility } from '@/types/macros';
+
+interface MacroFormProps {
+  macro?: Macro | null;
+  isSaving?: boolean;
+  onSave: (input: MacroInput) => void;
+  onCancel: () => void;
+}
+
+const STATUS_OPTIONS = [
+  { value: 'open', label: 'Open' },
+  { value: 'in_progress', label: 'In Progress' },
+  { value: 'waiting', label: 'Waiting' },
+  { value: 'resolved', label: 'Resolved' },
+  { value: 'closed', label: 'Closed' },
+];
+
+// Sentinel values for the assignee select
+const KEEP_ASSIGNEE = '';
+const UNASSIGN = 'unassigned';
+
+const selectClassName = 'mt-1 w-full h-9 rounded-md border border-input bg-background px-3 py-1 text-sm';
+
+export default function MacroForm({ macro, isSaving, onSave, onCancel }: MacroFormProps) {
+  const contentRef = useRef<HTMLTextAreaElement>(null);
+  const { data: options } = useTicketQueryContext();
+  const priorities = options?.priorities?.length ? options.priorities : DEFAULT_PRIORITY_ORDER;
+  const agents = (options?.users || []).filter((u) => u.role !== 'user');
+
+  const [name, setName] = useState(macro?.name || '');
+  const [description, setDescription] = useState(macro?.description || '');
+  const [content, setContent] = useState(macro?.content || '');
+  const [visibility, setVisibility] = useState<MacroVisibility>(macro?.visibility || 'personal');
+  const [status, setStatus] = useState(macro?.actions.status || '');
+  const [priority, setPriority] = useState(macro?.actions.priority || '');
+  const [assignee, setAssignee] = useState(
+    macro?.actions.assigneeId === null ? UNASSIGN : macro?.actions.assigneeId || KEEP_ASSIGNEE
+  );
+  const [tagsInput, setTagsInput] = useState(macro?.actions.addTags?.join(', ') || '');
+
+  // Insert a placeholder at the cursor position in the content field
+  const insertPlaceholder = (token: string) => {
+    const textarea = contentRef.current;
+    const start = textarea?.selectionStart ?? content.length;
+    const end = textarea?.selectionEnd ?? content.length;
+    const next = content.slice(0, start) + token + content.slice(end);
+    setContent(next);
+
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const addTags = tagsInput
+      .split(',')
+      .map((tag) => tag.trim())
+      .filter(Boolean);
+
+    onSave({
+      name: name.trim(),
+      description: description.trim() || undefined,
+      content,
+      visibility,
+      actions: {
+        status: status || undefined,
+        priority: priority || undefined,
+        assigneeId: assignee === UNASSIGN ? null : assignee || undefined,
+        addTags: addTags.length > 0 ? addTags : undefined,
+      },
+    });
+  };
+
+  const isValid = name.trim().length > 0 && content.trim().length > 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>{macro ? 'Edit Macro' : 'Create Macro'}</CardTitle>
+          <Button variant="ghost" size="icon" onClick={onCancel} className="h-8 w-8">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          {/* Basic Info */}
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="macro-name">Name *</Label>
+              <Input
+                id="macro-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., Password reset instructions"
+                className="mt-1.5"
+                required
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Agents type <code>/</code> followed by part of the name in the reply box to insert it
+              </p>
+            </div>
+
+            <div>
+              <Label htmlFor="macro-description">Description</Label>
+              <Input
+                id="macro-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Optional note about when to use this macro"
+                className="mt-1.5"
+              />
+            </div>
+
+            <div>
+              <Label className="mb-2 block">Visibility</Label>
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  variant={visibility === 'personal' ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setVisibility('personal')}
+                >
+                  <Lock className="h-3.5 w-3.5 mr-1.5" />
+                  Personal
+                </Button>
+                <Button
+                  type="button"
+                  variant={visibility === 'shared' ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setVisibility('shared')}
+                >
+                  <Users className="h-3.5 w-3.5 mr-1.5" />
+                  Shared with all agents
+                </Button>
+              </div>
+            </div>
+          </div>
+
+          {/* Reply Content */}
+          <div className="space-y-2 pt-4 border-t border-border">
+            <Label htmlFor="macro-content">Reply Text *</Label>
+            <Textarea
+              id="macro-content"
+              ref={contentRef}
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              rows={6}
+              placeholder="Hi {{requester.name}}, ..."
+              className="font-mono text-sm"
+            />
+            <div className="flex flex-wrap gap-1.5">
+              {MACRO_PLACEHOLDERS.map((placeholder) => (
+                <Badge
+                  key={placeholder.token}
+                  variant="outline"
+                  className="cursor-pointer font-mono text-xs"
+                  title={placeholder.description}
+                  onClick={() => insertPlaceholder(placeholder.token)}
+                >
+                  {placeholder.token}
+                </Badge>
+              ))}
+            </div>
+          </div>
+
+          {/* Ticket Actions */}
+          <div className="space-y-4 pt-4 border-t border-border">
+            <div>
+              <Label className="text-sm font-medium mb-2 block">Ticket Actions</Label>
+              <p className="text-xs text-muted-foreground">
+                Applied when the reply is sent. Leave a field empty to keep the ticket's current value.
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="macro-status" className="text-xs">Set Status</Label>
+                <select
+                  id="macro-status"
+                  value={status}
+                  onChange={(e) => setStatus(e.target.value)}
+                  className={selectClassName}
+                >
+                  <option value="">Don't change</option>
+                  {STATUS_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <Label htmlFor="macro-priority" className="text-xs">Set Priority</Label>
+                <select
+                  id="macro-priority"
+                  value={priority}
+                  onChange={(e) => setPriority(e.target.value)}
+                  className={selectClassName}
+                >
+                  <option value="">Don't change</option>
+                  {priorities.map((p) => (
+                    <option key={p} value={p}>
+                      {p.charAt(0).toUpperCase() + p.slice(1)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <Label htmlFor="macro-assignee" className="text-xs">Set Assignee</Label>
+                <select
+                  id="macro-assignee"
+                  value={assignee}
+                  onChange={(e) => setAssignee(e.target.value)}
+                  className={selectClassName}
+                >
+                  <option value={KEEP_ASSIGNEE}>Don't change</option>
+                  <option value={UNASSIGN}>Unassign</option>
+                  {agents.map((agent) => (
+                    <option key={agent.id} value={agent.id}>
+                      {agent.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <Label htmlFor="macro-tags" className="text-xs">Add Tags</Label>
+                <Input
+                  id="macro-tags"
+                  value={tagsInput}
+                  onChange={(e) => setTagsInput(e.target.value)}
+                  placeholder="Comma separated, e.g. billing, vip"
+                  className="mt-1"
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* Actions */}
+          <div className="flex items-center gap-2 pt-4 border-t border-border">
+            <Button type="submit" disabled={!isValid || isSaving}>
+              {macro ? 'Update Macro' : 'Create Macro'}
+            </Button>
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
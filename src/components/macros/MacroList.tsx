@@ -0,0 +1,104 @@
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import type { Macro } from '@/types/macros';
+import { Zap, Edit, Trash2, Lock, Users } from 'lucide-react';
+import { describeMacroActions } from '@/lib/macros';
+
+interface MacroListProps {
+  macros: Macro[];
+  currentUserId?: string;
+  getUserName: (userId: string) => string | undefined;
+  onEdit: (macro: Macro) => void;
+  onDelete: (macroId: string) => void;
+}
+
+export default function MacroList({ macros, currentUserId, getUserName, onEdit, onDelete }: MacroListProps) {
+  if (macros.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center h-64 text-center border-2 border-dashed rounded-lg">
+        <Zap className="h-12 w-12 text-muted-foreground mb-4" />
+        <p className="text-sm text-muted-foreground">No macros yet</p>
+        <p className="text-xs text-muted-foreground mt-2">
+          Create canned replies that agents can insert by typing / in the reply box
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {macros.map((macro) => {
+        const actionSummary = describeMacroActions(
+          macro.actions,
+          macro.actions.assigneeId ? getUserName(macro.actions.assigneeId) : undefined
+        );
+        const isOwner = macro.ownerId === currentUserId;
+
+        return (
+          <Card key={macro.id}>
+            <CardContent className="pt-6">
+              <div className="flex items-start justify-between">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 mb-2">
+                    <h3 className="font-semibold text-lg">{macro.name}</h3>
+                    {macro.visibility === 'shared' ? (
+                      <Badge variant="default" className="gap-1">
+                        <Users className="h-3 w-3" />
+                        Shared
+                      </Badge>
+                    ) : (
+                      <Badge variant="secondary" className="gap-1">
+                        <Lock className="h-3 w-3" />
+                        Personal
+                      </Badge>
+                    )}
+                    {!isOwner && macro.ownerName && (
+                      <span className="text-xs text-muted-foreground">by {macro.ownerName}</span>
+                    )}
+                  </div>
+
+                  {macro.description && (
+                    <p className="text-sm text-muted-foreground mb-3">{macro.description}</p>
+                  )}
+
+                  <p className="text-sm bg-muted/50 rounded p-2 whitespace-pre-wrap line-clamp-3 font-mono">
+                    {macro.content}
+                  </p>
+
+                  {actionSummary && (
+                    <div className="text-sm mt-2">
+                      <span className="text-muted-foreground">Actions: </span>
+                      <span className="font-medium">{actionSummary}</span>
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex items-center gap-2 ml-4">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => onEdit(macro)}
+                    title="Edit macro"
+                    className="h-8 w-8"
+                  >
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => onDelete(macro.id)}
+                    title="Delete macro"
+                    className="h-8 w-8 text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
@@ -27,6 +27,8 @@ interface NotificationPreferences {
   ticketResolved: boolean;
   mention: boolean;
   activityFlagged: boolean;
+  ticketDue: boolean;
+  reminder: boolean;
 }
 
 interface NotificationSettingsModalProps {
@@ -45,6 +47,8 @@ const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
   ticketResolved: true,
   mention: true,
   activityFlagged: true,
+  ticketDue: true,
+  reminder: true,
 };
 
 const migratePreferences = (saved: Partial<NotificationPreferences>): NotificationPreferences => {
@@ -134,6 +138,11 @@ export function NotificationSettingsModal({ open, onOpenChange }: NotificationSe
       label: 'New comments on my tickets',
       description: 'Get notified when someone comments on your tickets',
     },
+    {
+      key: 'mention' as keyof NotificationPreferences,
+      label: 'Mentions',
+      description: 'Get notified when someone @mentions you in a reply or note',
+    },
     {
       key: 'ticketCcUpdated' as keyof NotificationPreferences,
       label: 'Tickets I\'m CC\'d on updated',
@@ -159,6 +168,16 @@ export function NotificationSettingsModal({ open, onOpenChange }: NotificationSe
       label: 'SLA warnings',
       description: 'Get notified when SLA deadlines are approaching',
     },
+    {
+      key: 'ticketDue' as keyof NotificationPreferences,
+      label: 'Due dates',
+      description: 'Get notified when your tickets are due soon or overdue',
+    },
+    {
+      key: 'reminder' as keyof NotificationPreferences,
+      label: 'Follow-up reminders',
+      description: 'Get notified when a reminder you set on a ticket is due',
+    },
     {
       key: 'activityFlagged' as keyof NotificationPreferences,
       label: 'Activity flagged',
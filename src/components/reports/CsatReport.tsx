@@ -0,0 +1,284 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  BarChart,
+  Bar,
+  Cell,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { Smile, Star, MessageSquare, Send } from 'lucide-react';
+import { CsatStars } from '@/components/tickets/CsatRating';
+import { CSAT_RATING_LABELS, csatScoreColor } from '@/lib/csat';
+import { formatDate } from '@/lib/utils';
+import type { CsatRating } from '@/types';
+
+// csat_score is the percentage of responses rated 4 or 5
+interface CsatMetric {
+  responses: number;
+  average_rating: number;
+  csat_score: number;
+}
+
+interface AgentCsatMetric extends CsatMetric {
+  id: number;
+  name: string;
+  email: string;
+}
+
+interface CategoryCsatMetric extends CsatMetric {
+  category: string;
+}
+
+interface PeriodCsatMetric extends CsatMetric {
+  period: string;
+}
+
+export interface CsatReportData {
+  summary: CsatMetric & {
+    surveys_sent: number;
+  };
+  distribution: Array<{
+    rating: CsatRating;
+    count: number;
+  }>;
+  byAgent: AgentCsatMetric[];
+  byCategory: CategoryCsatMetric[];
+  byPeriod: PeriodCsatMetric[];
+  recentComments: Array<{
+    ticket_id: string;
+    rating: CsatRating;
+    comment: string;
+    agent_name: string | null;
+    submitted_at: string;
+  }>;
+}
+
+interface Props {
+  data: CsatReportData | null;
+  loading: boolean;
+}
+
+const RATING_COLORS: Record<CsatRating, string> = {
+  1: '#ef4444',
+  2: '#f97316',
+  3: '#eab308',
+  4: '#84cc16',
+  5: '#22c55e',
+};
+
+function CsatBreakdownTable({ label, rows }: { label: string; rows: Array<CsatMetric & { key: string | number; name: string; detail?: string }> }) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full">
+        <thead>
+          <tr className="border-b">
+            <th className="p-2 text-left text-xs font-medium">{label}</th>
+            <th className="p-2 text-right text-xs font-medium">Responses</th>
+            <th className="p-2 text-right text-xs font-medium">Avg Rating</th>
+            <th className="p-2 text-right text-xs font-medium">CSAT</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.key} className="border-b hover:bg-muted/50">
+              <td className="p-2 text-xs">
+                <div className="font-medium">{row.name}</div>
+                {row.detail && <div className="text-muted-foreground">{row.detail}</div>}
+              </td>
+              <td className="p-2 text-right text-xs">{row.responses}</td>
+              <td className="p-2 text-right text-xs">{row.average_rating.toFixed(2)}</td>
+              <td className={`p-2 text-right text-xs font-medium ${csatScoreColor(row.csat_score)}`}>
+                {row.csat_score.toFixed(1)}%
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function CsatReport({ data, loading }: Props) {
+  if (loading) {
+    return (
+      <div className="space-y-4">
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm text-muted-foreground">Loading satisfaction data...</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!data || data.summary.responses === 0) {
+    return (
+      <Alert>
+        <AlertDescription>No satisfaction ratings were submitted in the selected period.</AlertDescription>
+      </Alert>
+    );
+  }
+
+  const responseRate = data.summary.surveys_sent > 0 ? (data.summary.responses / data.summary.surveys_sent) * 100 : 0;
+
+  const distributionData = data.distribution.map(item => ({
+    label: CSAT_RATING_LABELS[item.rating],
+    rating: item.rating,
+    count: item.count,
+  }));
+
+  return (
+    <div className="space-y-6">
+      {/* Summary Metrics */}
+      <div className="grid gap-4 md:grid-cols-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">CSAT Score</CardTitle>
+            <Smile className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className={`text-2xl font-bold ${csatScoreColor(data.summary.csat_score)}`}>
+              {data.summary.csat_score.toFixed(1)}%
+            </div>
+            <p className="text-xs text-muted-foreground">rated satisfied or better</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Average Rating</CardTitle>
+            <Star className="h-4 w-4 text-amber-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{data.summary.average_rating.toFixed(2)}</div>
+            <p className="text-xs text-muted-foreground">out of 5</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Responses</CardTitle>
+            <MessageSquare className="h-4 w-4 text-blue-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{data.summary.responses}</div>
+            <p className="text-xs text-muted-foreground">ratings submitted</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Response Rate</CardTitle>
+            <Send className="h-4 w-4 text-green-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{responseRate.toFixed(1)}%</div>
+            <p className="text-xs text-muted-foreground">of {data.summary.surveys_sent} surveys sent</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        {/* Rating Distribution */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Rating Distribution</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ResponsiveContainer width="100%" height={300}>
+              <BarChart data={distributionData} layout="vertical">
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis type="number" fontSize={12} allowDecimals={false} />
+                <YAxis dataKey="label" type="category" fontSize={12} width={120} />
+                <Tooltip />
+                <Bar dataKey="count" name="Responses">
+                  {distributionData.map(entry => (
+                    <Cell key={`cell-${entry.rating}`} fill={RATING_COLORS[entry.rating]} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+
+        {/* CSAT over time */}
+        <Card>
+          <CardHeader>
+            <CardTitle>CSAT by Period</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ResponsiveContainer width="100%" height={300}>
+              <LineChart data={data.byPeriod}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="period" fontSize={12} />
+                <YAxis yAxisId="score" fontSize={12} domain={[0, 100]} unit="%" />
+                <YAxis yAxisId="responses" orientation="right" fontSize={12} allowDecimals={false} />
+                <Tooltip />
+                <Legend />
+                <Line yAxisId="score" type="monotone" dataKey="csat_score" stroke="#22c55e" name="CSAT %" />
+                <Line yAxisId="responses" type="monotone" dataKey="responses" stroke="#3b82f6" name="Responses" />
+              </LineChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Agent Breakdown Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Satisfaction by Agent</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <CsatBreakdownTable
+            label="Agent"
+            rows={data.byAgent.map(agent => ({ ...agent, key: agent.id, detail: agent.email }))}
+          />
+        </CardContent>
+      </Card>
+
+      {/* Category Breakdown Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Satisfaction by Category</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <CsatBreakdownTable
+            label="Category"
+            rows={data.byCategory.map(item => ({ ...item, key: item.category, name: item.category }))}
+          />
+        </CardContent>
+      </Card>
+
+      {/* Recent Comments */}
+      {data.recentComments.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent Comments</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {data.recentComments.map(item => (
+              <div key={`${item.ticket_id}-${item.submitted_at}`} className="border-b pb-3 last:border-0 last:pb-0">
+                <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                  <div className="flex items-center gap-2">
+                    <CsatStars value={item.rating} />
+                    <span className="font-medium text-foreground">{item.ticket_id}</span>
+                    {item.agent_name && <span>· {item.agent_name}</span>}
+                  </div>
+                  <span>{formatDate(item.submitted_at)}</span>
+                </div>
+                <p className="text-sm mt-1">{item.comment}</p>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -16,8 +16,11 @@ import {
   Pie,
   Cell,
 } from 'recharts';
-import { AlertTriangle, CheckCircle2, Clock } from 'lucide-react';
+import { AlertTriangle, CheckCircle2, Clock, Pause } from 'lucide-react';
 import { getPriorityColor, getSLAColors } from '@/utils/reportColors';
+import { useBusinessHoursQuery } from '@/hooks/useBusinessHours';
+import { getSLAClockState } from '@/lib/sla';
+import type { BusinessHoursSchedule } from '@/types/sla';
 
 interface SLAReportData {
   overall: {
@@ -49,6 +52,8 @@ interface SLAReportData {
     sla_status: string;
     resolution_due: string;
     assignee_name: string | null;
+    business_hours_id?: string | number | null;
+    paused_at?: string | null;
   }>;
   trend: Array<{
     date: string;
@@ -70,8 +75,32 @@ interface Props {
 
 const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 
+/**
+ * Time left until resolution is due, in business time when the ticket's rule has a schedule
+ */
+function getTimeLeft(
+  resolutionDue: string,
+  pausedAt: string | null | undefined,
+  schedule: BusinessHoursSchedule | undefined,
+  now: Date
+) {
+  const { remainingMinutes: minutes, pausedBy: paused } = getSLAClockState(
+    new Date(resolutionDue),
+    schedule,
+    now,
+    pausedAt ? new Date(pausedAt) : null
+  );
+
+  if (minutes <= 0) return { text: 'Overdue', paused: null };
+  if (minutes < 60) return { text: `${Math.floor(minutes)}m`, paused };
+  return { text: `${Math.floor(minutes / 60)}h ${Math.floor(minutes % 60)}m`, paused };
+}
+
 export default function SLAPerformanceReport({ data, loading }: Props) {
   const COLORS = getSLAColors();
+  const hasScheduledTickets = !!data?.atRiskTickets.some((ticket) => ticket.business_hours_id);
+  const { data: schedules = [] } = useBusinessHoursQuery(hasScheduledTickets);
+
   if (loading) {
     return (
       <div className="space-y-4">
@@ -115,6 +144,7 @@ export default function SLAPerformanceReport({ data, loading }: Props) {
   });
 
   const maxBreaches = Math.max(...data.breachPattern.map(p => p.breach_count), 1);
+  const now = new Date();
 
   return (
     <div className="space-y-6">
@@ -327,6 +357,11 @@ export default function SLAPerformanceReport({ data, loading }: Props) {
         <Card>
           <CardHeader>
             <CardTitle>At-Risk Tickets (Yellow & Red)</CardTitle>
+            {hasScheduledTickets && (
+              <p className="text-xs text-muted-foreground">
+                Time left for rules with business hours counts working time only
+              </p>
+            )}
           </CardHeader>
           <CardContent>
             <div className="overflow-x-auto">
@@ -339,50 +374,74 @@ export default function SLAPerformanceReport({ data, loading }: Props) {
                     <th className="p-2 text-left text-xs font-medium">Category</th>
                     <th className="p-2 text-left text-xs font-medium">SLA Status</th>
                     <th className="p-2 text-left text-xs font-medium">Due</th>
+                    <th className="p-2 text-left text-xs font-medium">Time Left</th>
                     <th className="p-2 text-left text-xs font-medium">Assignee</th>
                   </tr>
                 </thead>
                 <tbody>
-                  {data.atRiskTickets.slice(0, 20).map(ticket => (
-                    <tr key={ticket.id} className="border-b hover:bg-muted/50">
-                      <td className="p-2 text-xs">{ticket.id}</td>
-                      <td className="p-2 text-xs font-medium">{ticket.title}</td>
-                      <td className="p-2 text-xs">
-                        <Badge
-                          variant="outline"
-                          style={{
-                            borderColor: getPriorityColor(ticket.priority),
-                            color: getPriorityColor(ticket.priority),
-                          }}
-                        >
-                          {ticket.priority}
-                        </Badge>
-                      </td>
-                      <td className="p-2 text-xs">{ticket.category}</td>
-                      <td className="p-2 text-xs">
-                        <div
-                          className="inline-block h-3 w-3 rounded-full"
-                          style={{
-                            backgroundColor:
-                              ticket.sla_status === 'red'
-                                ? COLORS.red
-                                : ticket.sla_status === 'yellow'
-                                ? COLORS.yellow
-                                : COLORS.green,
-                          }}
-                        />
-                      </td>
-                      <td className="p-2 text-xs">
-                        {new Date(ticket.resolution_due).toLocaleString('en-US', {
-                          month: 'short',
-                          day: 'numeric',
-                          hour: '2-digit',
-                          minute: '2-digit',
-                        })}
-                      </td>
-                      <td className="p-2 text-xs">{ticket.assignee_name || 'Unassigned'}</td>
-                    </tr>
-                  ))}
+                  {data.atRiskTickets.slice(0, 20).map(ticket => {
+                    const schedule = ticket.business_hours_id
+                      ? schedules.find((s) => s.id === String(ticket.business_hours_id))
+                      : undefined;
+                    const timeLeft = getTimeLeft(ticket.resolution_due, ticket.paused_at, schedule, now);
+
+                    return (
+                      <tr key={ticket.id} className="border-b hover:bg-muted/50">
+                        <td className="p-2 text-xs">{ticket.id}</td>
+                        <td className="p-2 text-xs font-medium">{ticket.title}</td>
+                        <td className="p-2 text-xs">
+                          <Badge
+                            variant="outline"
+                            style={{
+                              borderColor: getPriorityColor(ticket.priority),
+                              color: getPriorityColor(ticket.priority),
+                            }}
+                          >
+                            {ticket.priority}
+                          </Badge>
+                        </td>
+                        <td className="p-2 text-xs">{ticket.category}</td>
+                        <td className="p-2 text-xs">
+                          <div
+                            className="inline-block h-3 w-3 rounded-full"
+                            style={{
+                              backgroundColor:
+                                ticket.sla_status === 'red'
+                                  ? COLORS.red
+                                  : ticket.sla_status === 'yellow'
+                                  ? COLORS.yellow
+                                  : COLORS.green,
+                            }}
+                          />
+                        </td>
+                        <td className="p-2 text-xs">
+                          {new Date(ticket.resolution_due).toLocaleString('en-US', {
+                            month: 'short',
+                            day: 'numeric',
+                            hour: '2-digit',
+                            minute: '2-digit',
+                          })}
+                        </td>
+                        <td className="p-2 text-xs">
+                          <span
+                            className="inline-flex items-center gap-1"
+                            title={
+                            timeLeft.paused === 'status'
+                              ? "Paused by the ticket's status"
+                              : timeLeft.paused
+                              ? `Paused outside business hours (${schedule?.name})`
+                              : undefined
+                          }
+                          >
+                            {timeLeft.paused && <Pause className="h-3 w-3 text-muted-foreground" />}
+                            {timeLeft.text}
+                            {timeLeft.paused && <span className="text-muted-foreground">paused</span>}
+                          </span>
+                        </td>
+                        <td className="p-2 text-xs">{ticket.assignee_name || 'Unassigned'}</td>
+                      </tr>
+                    );
+                  })}
                 </tbody>
               </table>
             </div>
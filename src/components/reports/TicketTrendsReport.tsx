@@ -19,6 +19,8 @@ import {
 } from 'recharts';
 import { TrendingUp, TrendingDown, Activity, PieChartIcon } from 'lucide-react';
 import { generateColorPalette } from '@/utils/reportColors';
+import { useTagColors } from '@/hooks/useTags';
+import { TAG_CHART_COLORS } from '@/lib/tags';
 
 interface TicketTrendsData {
   volumeTrend: Array<{
@@ -55,6 +57,17 @@ interface TicketTrendsData {
     cumulative_created: number;
     cumulative_resolved: number;
   }>;
+  // Tickets can carry several tags, so tag percentages don't add up to 100
+  topTags?: Array<{
+    tag: string;
+    count: number;
+    percentage: number;
+  }>;
+  tagTrend?: Array<{
+    date: string;
+    tag: string;
+    count: number;
+  }>;
 }
 
 interface Props {
@@ -64,7 +77,12 @@ interface Props {
 
 const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 
+// Tags plotted over time, more lines than this are unreadable
+const TAG_TREND_LIMIT = 5;
+
 export default function TicketTrendsReport({ data, loading }: Props) {
+  const getTagColor = useTagColors();
+
   if (loading) {
     return (
       <div className="space-y-4">
@@ -134,6 +152,33 @@ export default function TicketTrendsReport({ data, loading }: Props) {
 
   const maxPeak = Math.max(...data.peakTimes.map(p => p.count), 1);
 
+  // Tag colours from the tag admin, hash colours for tags without one
+  const topTags = data.topTags || [];
+  const tagNames = topTags.map(item => item.tag);
+  const TAG_COLORS = generateColorPalette(tagNames, 'category');
+  tagNames.forEach(tag => {
+    const color = getTagColor(tag);
+    if (color) TAG_COLORS[tag] = TAG_CHART_COLORS[color];
+  });
+
+  // Daily volume of the most used tags
+  const trendTags = tagNames.slice(0, TAG_TREND_LIMIT);
+  const tagTrendMap: { [date: string]: { [tag: string]: number } } = {};
+  (data.tagTrend || [])
+    .filter(item => trendTags.includes(item.tag))
+    .forEach(item => {
+      const date = new Date(item.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+      if (!tagTrendMap[date]) {
+        tagTrendMap[date] = {};
+      }
+      tagTrendMap[date][item.tag] = item.count;
+    });
+
+  const tagTrendData = Object.keys(tagTrendMap).map(date => ({
+    date,
+    ...Object.fromEntries(trendTags.map(tag => [tag, tagTrendMap[date][tag] || 0])),
+  }));
+
   // Calculate summary metrics
   const totalCreated = data.volumeTrend.reduce((sum, item) => sum + item.created, 0);
   const totalResolved = data.resolvedByDate.reduce((sum, item) => sum + item.resolved, 0);
@@ -330,6 +375,56 @@ export default function TicketTrendsReport({ data, loading }: Props) {
         </Card>
       </div>
 
+      {/* Tag Dimensions */}
+      {topTags.length > 0 && (
+        <div className="grid gap-6 md:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>Top Tags</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={300}>
+                <BarChart data={topTags} layout="vertical">
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis type="number" fontSize={12} />
+                  <YAxis dataKey="tag" type="category" width={120} fontSize={12} />
+                  <Tooltip />
+                  <Bar dataKey="count" name="Tickets">
+                    {topTags.map(item => (
+                      <Cell key={`cell-${item.tag}`} fill={TAG_COLORS[item.tag]} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Tag Volume Over Time</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {tagTrendData.length > 0 ? (
+                <ResponsiveContainer width="100%" height={300}>
+                  <LineChart data={tagTrendData}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="date" fontSize={12} />
+                    <YAxis fontSize={12} />
+                    <Tooltip />
+                    <Legend />
+                    {trendTags.map(tag => (
+                      <Line key={tag} type="monotone" dataKey={tag} stroke={TAG_COLORS[tag]} dot={false} />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              ) : (
+                <p className="text-sm text-muted-foreground">No tagged tickets were created in this period.</p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
       {/* Peak Submission Times Heatmap */}
       {data.peakTimes.length > 0 && (
         <Card>
@@ -421,6 +516,48 @@ export default function TicketTrendsReport({ data, loading }: Props) {
           </CardContent>
         </Card>
       )}
+
+      {/* Tag Breakdown Table */}
+      {topTags.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Tag Breakdown</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b">
+                    <th className="p-2 text-left text-xs font-medium">Rank</th>
+                    <th className="p-2 text-left text-xs font-medium">Tag</th>
+                    <th className="p-2 text-right text-xs font-medium">Count</th>
+                    <th className="p-2 text-right text-xs font-medium">% of Tickets</th>
+                    <th className="p-2 text-left text-xs font-medium">Distribution</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {topTags.map((item, index) => (
+                    <tr key={item.tag} className="border-b hover:bg-muted/50">
+                      <td className="p-2 text-xs font-bold">{index + 1}</td>
+                      <td className="p-2 text-xs font-medium">{item.tag}</td>
+                      <td className="p-2 text-right text-xs">{item.count}</td>
+                      <td className="p-2 text-right text-xs">{item.percentage}%</td>
+                      <td className="p-2">
+                        <div className="w-full bg-muted rounded-full h-2">
+                          <div
+                            className="h-2 rounded-full"
+                            style={{ width: `${item.percentage}%`, backgroundColor: TAG_COLORS[item.tag] }}
+                          />
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
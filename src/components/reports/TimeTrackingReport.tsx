@@ -0,0 +1,260 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { Clock, Ticket, Users, Timer } from 'lucide-react';
+import { generateColorPalette } from '@/utils/reportColors';
+import { formatTimeSpent } from '@/lib/timeTracking';
+
+interface AgentTimeMetric {
+  id: number;
+  name: string;
+  email: string;
+  total_minutes: number;
+  ticket_count: number;
+  entry_count: number;
+}
+
+interface CategoryTimeMetric {
+  category: string;
+  total_minutes: number;
+  ticket_count: number;
+}
+
+export interface TimeTrackingReportData {
+  summary: {
+    total_minutes: number;
+    entry_count: number;
+    ticket_count: number;
+  };
+  byAgent: AgentTimeMetric[];
+  byCategory: CategoryTimeMetric[];
+  byAgentCategory: Array<{
+    agent_name: string;
+    category: string;
+    total_minutes: number;
+  }>;
+}
+
+interface Props {
+  data: TimeTrackingReportData | null;
+  loading: boolean;
+}
+
+// Charts plot hours so the axis stays readable
+function toHours(minutes: number): number {
+  return Math.round((minutes / 60) * 10) / 10;
+}
+
+export default function TimeTrackingReport({ data, loading }: Props) {
+  if (loading) {
+    return (
+      <div className="space-y-4">
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm text-muted-foreground">Loading time tracking data...</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!data || data.summary.entry_count === 0) {
+    return (
+      <Alert>
+        <AlertDescription>No time was logged in the selected period.</AlertDescription>
+      </Alert>
+    );
+  }
+
+  const categories = Array.from(new Set(data.byAgentCategory.map(item => item.category)));
+  const CATEGORY_COLORS = generateColorPalette(categories, 'category');
+
+  const avgPerTicket = data.summary.ticket_count > 0 ? data.summary.total_minutes / data.summary.ticket_count : 0;
+
+  // Hours per agent split by category (for stacked bar chart)
+  const agentNames = [...new Set(data.byAgentCategory.map(item => item.agent_name))];
+  const agentCategoryData = agentNames.map(name => {
+    const agentData: Record<string, string | number> = { name };
+    data.byAgentCategory
+      .filter(item => item.agent_name === name)
+      .forEach(item => {
+        agentData[item.category] = toHours(item.total_minutes);
+      });
+    return agentData;
+  });
+
+  const categoryData = data.byCategory.map(item => ({
+    category: item.category,
+    hours: toHours(item.total_minutes),
+  }));
+
+  return (
+    <div className="space-y-6">
+      {/* Summary Metrics */}
+      <div className="grid gap-4 md:grid-cols-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Total Time</CardTitle>
+            <Clock className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatTimeSpent(data.summary.total_minutes)}</div>
+            <p className="text-xs text-muted-foreground">{data.summary.entry_count} entries</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Tickets Worked</CardTitle>
+            <Ticket className="h-4 w-4 text-blue-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{data.summary.ticket_count}</div>
+            <p className="text-xs text-muted-foreground">with time logged</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Avg per Ticket</CardTitle>
+            <Timer className="h-4 w-4 text-orange-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatTimeSpent(avgPerTicket)}</div>
+            <p className="text-xs text-muted-foreground">logged per ticket</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Agents</CardTitle>
+            <Users className="h-4 w-4 text-green-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{data.byAgent.length}</div>
+            <p className="text-xs text-muted-foreground">logged time</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Time per Agent by Category */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Hours per Agent by Category</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ResponsiveContainer width="100%" height={300}>
+            <BarChart data={agentCategoryData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="name" fontSize={12} angle={-15} textAnchor="end" height={80} />
+              <YAxis fontSize={12} />
+              <Tooltip />
+              <Legend />
+              {categories.map(category => (
+                <Bar key={category} dataKey={category} stackId="a" fill={CATEGORY_COLORS[category]} />
+              ))}
+            </BarChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+
+      {/* Time per Category */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Hours per Category</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ResponsiveContainer width="100%" height={300}>
+            <BarChart data={categoryData} layout="vertical">
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis type="number" fontSize={12} />
+              <YAxis dataKey="category" type="category" fontSize={12} width={120} />
+              <Tooltip />
+              <Bar dataKey="hours" fill="#3b82f6" name="Hours" />
+            </BarChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+
+      {/* Agent Breakdown Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Time by Agent</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b">
+                  <th className="p-2 text-left text-xs font-medium">Agent</th>
+                  <th className="p-2 text-right text-xs font-medium">Total Time</th>
+                  <th className="p-2 text-right text-xs font-medium">Tickets</th>
+                  <th className="p-2 text-right text-xs font-medium">Entries</th>
+                  <th className="p-2 text-right text-xs font-medium">Avg per Ticket</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.byAgent.map(agent => (
+                  <tr key={agent.id} className="border-b hover:bg-muted/50">
+                    <td className="p-2 text-xs">
+                      <div className="font-medium">{agent.name}</div>
+                      <div className="text-muted-foreground">{agent.email}</div>
+                    </td>
+                    <td className="p-2 text-right text-xs font-medium">{formatTimeSpent(agent.total_minutes)}</td>
+                    <td className="p-2 text-right text-xs">{agent.ticket_count}</td>
+                    <td className="p-2 text-right text-xs">{agent.entry_count}</td>
+                    <td className="p-2 text-right text-xs">
+                      {formatTimeSpent(agent.ticket_count > 0 ? agent.total_minutes / agent.ticket_count : 0)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Category Breakdown Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Time by Category</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b">
+                  <th className="p-2 text-left text-xs font-medium">Category</th>
+                  <th className="p-2 text-right text-xs font-medium">Total Time</th>
+                  <th className="p-2 text-right text-xs font-medium">Tickets</th>
+                  <th className="p-2 text-right text-xs font-medium">Share</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.byCategory.map(item => (
+                  <tr key={item.category} className="border-b hover:bg-muted/50">
+                    <td className="p-2 text-xs font-medium">{item.category}</td>
+                    <td className="p-2 text-right text-xs">{formatTimeSpent(item.total_minutes)}</td>
+                    <td className="p-2 text-right text-xs">{item.ticket_count}</td>
+                    <td className="p-2 text-right text-xs">
+                      {((item.total_minutes / data.summary.total_minutes) * 100).toFixed(1)}%
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
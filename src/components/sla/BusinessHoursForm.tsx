@@ -0,0 +1,265 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Plus, Trash2, X } from 'lucide-react';
+import {
+  DEFAULT_WORKDAY,
+  WEEKDAYS,
+  WEEKDAY_LABELS,
+  defaultWeeklyHours,
+  getBrowserTimeZone,
+  isValidTimeZone,
+  validateIntervals,
+} from '@/lib/businessHours';
+import type { BusinessHoliday, BusinessHoursInterval, BusinessHoursSchedule, BusinessHoursScheduleInput, Weekday } from '@/types/sla';
+
+interface BusinessHoursFormProps {
+  schedule?: BusinessHoursSchedule | null;
+  onSave: (input: BusinessHoursScheduleInput) => void | Promise<void>;
+  onCancel: () => void;
+}
+
+// Intl.supportedValuesOf isn't in every browser we support
+const TIME_ZONES: string[] = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+
+export default function BusinessHoursForm({ schedule, onSave, onCancel }: BusinessHoursFormProps) {
+  const [name, setName] = useState(schedule?.name || '');
+  const [timezone, setTimezone] = useState(schedule?.timezone || getBrowserTimeZone());
+  const [weeklyHours, setWeeklyHours] = useState<Record<Weekday, BusinessHoursInterval[]>>(
+    schedule?.weeklyHours || defaultWeeklyHours()
+  );
+  const [holidays, setHolidays] = useState<BusinessHoliday[]>(schedule?.holidays || []);
+  const [newHolidayDate, setNewHolidayDate] = useState('');
+  const [newHolidayName, setNewHolidayName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const dayErrors = Object.fromEntries(WEEKDAYS.map((day) => [day, validateIntervals(weeklyHours[day])])) as Record<
+    Weekday,
+    string | null
+  >;
+  const timezoneValid = isValidTimeZone(timezone);
+  const isValid = name.trim().length > 0 && timezoneValid && WEEKDAYS.every((day) => !dayErrors[day]);
+
+  const setDayIntervals = (day: Weekday, intervals: BusinessHoursInterval[]) => {
+    setWeeklyHours((prev) => ({ ...prev, [day]: intervals }));
+  };
+
+  const updateInterval = (day: Weekday, index: number, patch: Partial<BusinessHoursInterval>) => {
+    setDayIntervals(
+      day,
+      weeklyHours[day].map((interval, i) => (i === index ? { ...interval, ...patch } : interval))
+    );
+  };
+
+  const handleAddHoliday = () => {
+    if (!newHolidayDate) return;
+    setHolidays(
+      [...holidays.filter((holiday) => holiday.date !== newHolidayDate), { date: newHolidayDate, name: newHolidayName.trim() || 'Holiday' }]
+        .sort((a, b) => a.date.localeCompare(b.date))
+    );
+    setNewHolidayDate('');
+    setNewHolidayName('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+
+    setIsSaving(true);
+    try {
+      await onSave({ name: name.trim(), timezone, weeklyHours, holidays });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>{schedule ? 'Edit Business Hours' : 'Create Business Hours'}</CardTitle>
+          <Button variant="ghost" size="icon" onClick={onCancel} className="h-8 w-8">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          {/* Basic Info */}
+          <div className="grid gap-4 md:grid-cols-2">
+            <div>
+              <Label htmlFor="schedule-name">Name *</Label>
+              <Input
+                id="schedule-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., UK Office Hours"
+                className="mt-1"
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="schedule-timezone">Timezone *</Label>
+              <Input
+                id="schedule-timezone"
+                value={timezone}
+                onChange={(e) => setTimezone(e.target.value)}
+                placeholder="e.g., Europe/London"
+                list="schedule-timezones"
+                className="mt-1"
+                required
+              />
+              <datalist id="schedule-timezones">
+                {TIME_ZONES.map((zone) => (
+                  <option key={zone} value={zone} />
+                ))}
+              </datalist>
+              {!timezoneValid && <p className="text-xs text-destructive mt-1">Unknown timezone</p>}
+            </div>
+          </div>
+
+          {/* Weekly Hours */}
+          <div className="space-y-3 pt-4 border-t border-border">
+            <div>
+              <Label className="text-sm font-medium">Weekly Hours</Label>
+              <p className="text-xs text-muted-foreground mt-0.5">SLA time only counts inside these hours</p>
+            </div>
+
+            {WEEKDAYS.map((day) => {
+              const intervals = weeklyHours[day];
+              const isOpen = intervals.length > 0;
+
+              return (
+                <div key={day} className="flex items-start gap-4">
+                  <div className="flex items-center gap-2 w-36 pt-1.5">
+                    <Switch
+                      checked={isOpen}
+                      onCheckedChange={(checked) => setDayIntervals(day, checked ? [{ ...DEFAULT_WORKDAY }] : [])}
+                    />
+                    <span className="text-sm">{WEEKDAY_LABELS[day]}</span>
+                  </div>
+
+                  {isOpen ? (
+                    <div className="flex-1 space-y-1.5">
+                      {intervals.map((interval, index) => (
+                        <div key={index} className="flex items-center gap-2">
+                          <Input
+                            type="time"
+                            value={interval.start}
+                            onChange={(e) => updateInterval(day, index, { start: e.target.value })}
+                            className="w-32 h-8"
+                          />
+                          <span className="text-xs text-muted-foreground">to</span>
+                          <Input
+                            type="time"
+                            value={interval.end === '24:00' ? '23:59' : interval.end}
+                            onChange={(e) => updateInterval(day, index, { end: e.target.value })}
+                            className="w-32 h-8"
+                          />
+                          {intervals.length > 1 && (
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              onClick={() => setDayIntervals(day, intervals.filter((_, i) => i !== index))}
+                              title="Remove interval"
+                            >
+                              <Trash2 className="h-3.5 w-3.5" />
+                            </Button>
+                          )}
+                          {index === intervals.length - 1 && (
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              onClick={() => setDayIntervals(day, [...intervals, { start: interval.end, end: '23:59' }])}
+                              title="Add a split shift"
+                            >
+                              <Plus className="h-3.5 w-3.5" />
+                            </Button>
+                          )}
+                        </div>
+                      ))}
+                      {dayErrors[day] && <p className="text-xs text-destructive">{dayErrors[day]}</p>}
+                    </div>
+                  ) : (
+                    <p className="flex-1 text-sm text-muted-foreground pt-1.5">Closed</p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Holidays */}
+          <div className="space-y-3 pt-4 border-t border-border">
+            <div>
+              <Label className="text-sm font-medium">Holidays</Label>
+              <p className="text-xs text-muted-foreground mt-0.5">Closed all day, SLA time is paused</p>
+            </div>
+
+            {holidays.length > 0 && (
+              <div className="space-y-1">
+                {holidays.map((holiday) => (
+                  <div key={holiday.date} className="flex items-center gap-3 text-sm">
+                    <span className="font-mono text-xs text-muted-foreground w-24">{holiday.date}</span>
+                    <span className="flex-1">{holiday.name}</span>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => setHolidays(holidays.filter((h) => h.date !== holiday.date))}
+                      title="Remove holiday"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex items-center gap-2">
+              <Input
+                type="date"
+                value={newHolidayDate}
+                onChange={(e) => setNewHolidayDate(e.target.value)}
+                className="w-40 h-8"
+              />
+              <Input
+                value={newHolidayName}
+                onChange={(e) => setNewHolidayName(e.target.value)}
+                placeholder="Name, e.g. New Year's Day"
+                className="flex-1 h-8"
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    handleAddHoliday();
+                  }
+                }}
+              />
+              <Button type="button" variant="outline" size="sm" onClick={handleAddHoliday} disabled={!newHolidayDate}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add
+              </Button>
+            </div>
+          </div>
+
+          {/* Actions */}
+          <div className="flex items-center gap-2 pt-4 border-t border-border">
+            <Button type="submit" disabled={!isValid || isSaving}>
+              {schedule ? 'Update Schedule' : 'Create Schedule'}
+            </Button>
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,88 @@
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { CalendarDays, Edit, Globe, Trash2 } from 'lucide-react';
+import { describeWeeklyHours } from '@/lib/businessHours';
+import type { BusinessHoursSchedule, SLARule } from '@/types/sla';
+
+interface BusinessHoursListProps {
+  schedules: BusinessHoursSchedule[];
+  rules: SLARule[];
+  onEdit: (schedule: BusinessHoursSchedule) => void;
+  onDelete: (schedule: BusinessHoursSchedule) => void;
+}
+
+export default function BusinessHoursList({ schedules, rules, onEdit, onDelete }: BusinessHoursListProps) {
+  if (schedules.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center h-40 text-center border-2 border-dashed rounded-lg">
+        <CalendarDays className="h-10 w-10 text-muted-foreground mb-3" />
+        <p className="text-sm text-muted-foreground">No business hours schedules yet</p>
+        <p className="text-xs text-muted-foreground mt-2">
+          Without one, SLA targets count around the clock
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {schedules.map((schedule) => {
+        const usedBy = rules.filter((rule) => rule.businessHoursId === schedule.id);
+        const upcomingHolidays = schedule.holidays.filter((holiday) => holiday.date >= new Date().toISOString().slice(0, 10));
+
+        return (
+          <Card key={schedule.id}>
+            <CardContent className="pt-6">
+              <div className="flex items-start justify-between">
+                <div className="flex-1 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <h3 className="font-semibold">{schedule.name}</h3>
+                    <Badge variant="outline" className="gap-1">
+                      <Globe className="h-3 w-3" />
+                      {schedule.timezone}
+                    </Badge>
+                  </div>
+                  <p className="text-sm">{describeWeeklyHours(schedule)}</p>
+                  <div className="flex flex-wrap items-center gap-x-6 gap-y-1 text-xs text-muted-foreground">
+                    <span>
+                      {upcomingHolidays.length > 0
+                        ? `${upcomingHolidays.length} upcoming holiday${upcomingHolidays.length === 1 ? '' : 's'}, next: ${upcomingHolidays[0].name} (${upcomingHolidays[0].date})`
+                        : 'No upcoming holidays'}
+                    </span>
+                    <span>
+                      {usedBy.length > 0
+                        ? `Used by ${usedBy.map((rule) => rule.name).join(', ')}`
+                        : 'Not used by any rule'}
+                    </span>
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-2 ml-4">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => onEdit(schedule)}
+                    title="Edit schedule"
+                    className="h-8 w-8"
+                  >
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => onDelete(schedule)}
+                    title="Delete schedule"
+                    className="h-8 w-8 text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
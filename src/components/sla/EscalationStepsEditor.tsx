@@ -0,0 +1,254 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { UserMultiSelect } from '@/components/ui/user-multi-select';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import { SLA_CLOCK_LABELS, createEscalationStep, formatEscalationThreshold, validateEscalationStep } from '@/lib/sla';
+import type { User, UserRole } from '@/types';
+import type { EscalationActions, EscalationThresholdUnit, SLAEscalationStep } from '@/types/sla';
+
+interface EscalationStepsEditorProps {
+  steps: SLAEscalationStep[];
+  onChange: (steps: SLAEscalationStep[]) => void;
+  priorities: string[];
+  teams: string[];
+  managers: string[];
+  users: User[];
+}
+
+const CLOCK_OPTIONS: SLAEscalationStep['clock'][] = ['first_response', 'resolution'];
+
+const NOTIFY_ROLE_OPTIONS: { value: UserRole; label: string }[] = [
+  { value: 'agent', label: 'Agents' },
+  { value: 'manager', label: 'Managers' },
+  { value: 'admin', label: 'Admins' },
+];
+
+const selectClassName = 'mt-1 w-full h-9 rounded-md border border-input bg-background px-3 py-1 text-sm';
+
+export default function EscalationStepsEditor({
+  steps,
+  onChange,
+  priorities,
+  teams,
+  managers,
+  users,
+}: EscalationStepsEditorProps) {
+  const agents = users.filter((u) => u.role !== 'user');
+
+  const updateStep = (index: number, patch: Partial<SLAEscalationStep>) => {
+    onChange(steps.map((step, i) => (i === index ? { ...step, ...patch } : step)));
+  };
+
+  const updateActions = (index: number, patch: Partial<EscalationActions>) => {
+    updateStep(index, { actions: { ...steps[index].actions, ...patch } });
+  };
+
+  const moveStep = (index: number, direction: -1 | 1) => {
+    const next = [...steps];
+    [next[index], next[index + direction]] = [next[index + direction], next[index]];
+    onChange(next);
+  };
+
+  const toggleRole = (index: number, role: UserRole) => {
+    const current = steps[index].actions.notifyRoles || [];
+    const notifyRoles = current.includes(role) ? current.filter((r) => r !== role) : [...current, role];
+    updateActions(index, { notifyRoles: notifyRoles.length > 0 ? notifyRoles : undefined });
+  };
+
+  return (
+    <div className="space-y-3">
+      {steps.length === 0 && (
+        <p className="text-xs text-muted-foreground">No escalation steps. Tickets are never escalated automatically.</p>
+      )}
+
+      {steps.map((step, index) => {
+        const error = validateEscalationStep(step);
+        const reassignType = step.actions.reassign?.type || '';
+        const reassignOptions = reassignType === 'team' ? teams : managers;
+
+        return (
+          <div key={step.id} className="rounded-lg border p-3 space-y-3">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Badge variant="secondary">Step {index + 1}</Badge>
+                <span className="text-xs text-muted-foreground">{formatEscalationThreshold(step)}</span>
+              </div>
+              <div className="flex items-center gap-1">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => moveStep(index, -1)}
+                  disabled={index === 0}
+                  title="Move up"
+                >
+                  <ArrowUp className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => moveStep(index, 1)}
+                  disabled={index === steps.length - 1}
+                  title="Move down"
+                >
+                  <ArrowDown className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 text-destructive hover:text-destructive"
+                  onClick={() => onChange(steps.filter((_, i) => i !== index))}
+                  title="Remove step"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            </div>
+
+            {/* Threshold */}
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <Label className="text-xs">Target</Label>
+                <select
+                  value={step.clock}
+                  onChange={(e) => updateStep(index, { clock: e.target.value as SLAEscalationStep['clock'] })}
+                  className={selectClassName}
+                >
+                  {CLOCK_OPTIONS.map((clock) => (
+                    <option key={clock} value={clock}>
+                      {SLA_CLOCK_LABELS[clock]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <Label className="text-xs">Threshold</Label>
+                <Input
+                  type="number"
+                  min="1"
+                  value={step.threshold || ''}
+                  onChange={(e) => updateStep(index, { threshold: parseInt(e.target.value) || 0 })}
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label className="text-xs">Unit</Label>
+                <select
+                  value={step.thresholdUnit}
+                  onChange={(e) => updateStep(index, { thresholdUnit: e.target.value as EscalationThresholdUnit })}
+                  className={selectClassName}
+                >
+                  <option value="percent">% of target elapsed</option>
+                  <option value="minutes">Minutes elapsed</option>
+                </select>
+              </div>
+            </div>
+
+            {/* Actions */}
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label className="text-xs">Change Priority</Label>
+                <select
+                  value={step.actions.newPriority || ''}
+                  onChange={(e) => updateActions(index, { newPriority: e.target.value || undefined })}
+                  className={selectClassName}
+                >
+                  <option value="">No change</option>
+                  {priorities.map((priority) => (
+                    <option key={priority} value={priority}>
+                      {priority}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <Label className="text-xs">Reassign</Label>
+                <div className="flex gap-2">
+                  <select
+                    value={reassignType}
+                    onChange={(e) =>
+                      updateActions(index, {
+                        reassign: e.target.value
+                          ? { type: e.target.value as 'team' | 'manager', value: '' }
+                          : undefined,
+                      })
+                    }
+                    className={selectClassName}
+                  >
+                    <option value="">No change</option>
+                    <option value="team">To team</option>
+                    <option value="manager">To manager</option>
+                  </select>
+                  {reassignType && (
+                    <select
+                      value={step.actions.reassign?.value || ''}
+                      onChange={(e) =>
+                        updateActions(index, { reassign: { type: reassignType, value: e.target.value } })
+                      }
+                      className={selectClassName}
+                    >
+                      <option value="">Select {reassignType}...</option>
+                      {reassignOptions.map((option) => (
+                        <option key={option} value={option}>
+                          {option}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            <div>
+              <Label className="text-xs">Notify</Label>
+              <UserMultiSelect
+                users={agents}
+                selectedUserIds={step.actions.notifyUserIds || []}
+                onChange={(userIds) => updateActions(index, { notifyUserIds: userIds.length > 0 ? userIds : undefined })}
+                placeholder="Select people to notify..."
+                className="mt-1"
+              />
+              <div className="flex flex-wrap items-center gap-2 mt-2">
+                <span className="text-xs text-muted-foreground">and everyone who is:</span>
+                {NOTIFY_ROLE_OPTIONS.map((option) => (
+                  <Badge
+                    key={option.value}
+                    variant={(step.actions.notifyRoles || []).includes(option.value) ? 'default' : 'outline'}
+                    className="cursor-pointer"
+                    onClick={() => toggleRole(index, option.value)}
+                  >
+                    {option.label}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <Label className="text-xs">Internal Note</Label>
+              <Textarea
+                value={step.actions.internalNote || ''}
+                onChange={(e) => updateActions(index, { internalNote: e.target.value || undefined })}
+                placeholder="Optional note added to the ticket when this step fires"
+                className="mt-1 min-h-[60px] text-sm"
+              />
+            </div>
+
+            {error && <p className="text-xs text-destructive">{error}</p>}
+          </div>
+        );
+      })}
+
+      <Button type="button" variant="outline" size="sm" onClick={() => onChange([...steps, createEscalationStep()])}>
+        <Plus className="h-4 w-4 mr-1" />
+        Add Step
+      </Button>
+    </div>
+  );
+}
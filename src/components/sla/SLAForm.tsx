@@ -4,16 +4,22 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import type { SLARule } from '@/types/sla';
+import type { BusinessHoursSchedule, SLAEscalationStep, SLARule } from '@/types/sla';
+import type { TicketStatus } from '@/types';
 import type { FormConfiguration, FormField } from '@/types/formBuilder';
-import { X, AlertTriangle, Loader2, Info } from 'lucide-react';
+import { X, AlertTriangle, Loader2, Info, Pause } from 'lucide-react';
 import { fetchWithAuth } from '@/lib/fetchWithAuth';
+import { describeWeeklyHours } from '@/lib/businessHours';
+import { DEFAULT_SLA_PAUSE_STATUSES, getEscalationSteps, validateEscalationStep } from '@/lib/sla';
+import { useTicketQueryContext } from '@/hooks/useTicketQueryContext';
+import EscalationStepsEditor from '@/components/sla/EscalationStepsEditor';
 
 const API_BASE = 'https://itsm-backend.joshua-r-klimek.workers.dev';
 const FORM_CONFIG_STORAGE_KEY = 'itsm-form-configuration';
 
 interface SLAFormProps {
   rule?: SLARule | null;
+  schedules?: BusinessHoursSchedule[];
   onSave: (rule: Omit<SLARule, 'id' | 'createdAt' | 'updatedAt'>) => void;
   onCancel: () => void;
 }
@@ -21,6 +27,14 @@ interface SLAFormProps {
 const PRIORITY_OPTIONS = ['Low', 'Medium', 'High', 'Urgent'];
 const CATEGORY_OPTIONS = ['Hardware', 'Software', 'Network', 'Account Access', 'Other'];
 
+// Resolved and closed tickets stop the clock anyway
+const PAUSE_STATUS_OPTIONS: { value: TicketStatus; label: string }[] = [
+  { value: 'new', label: 'New' },
+  { value: 'open', label: 'Open' },
+  { value: 'in_progress', label: 'In Progress' },
+  { value: 'waiting', label: 'Waiting' },
+];
+
 // Interface for custom form fields that can be used in SLA conditions
 interface CustomSLAField {
   id: string;
@@ -30,7 +44,7 @@ interface CustomSLAField {
   enabled: boolean;
 }
 
-export default function SLAForm({ rule, onSave, onCancel }: SLAFormProps) {
+export default function SLAForm({ rule, schedules = [], onSave, onCancel }: SLAFormProps) {
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
   const [enabled, setEnabled] = useState(true);
@@ -43,9 +57,11 @@ export default function SLAForm({ rule, onSave, onCancel }: SLAFormProps) {
   const [selectedManagers, setSelectedManagers] = useState<string[]>([]);
   const [firstResponseMinutes, setFirstResponseMinutes] = useState<number>(60);
   const [resolutionMinutes, setResolutionMinutes] = useState<number>(240);
-  const [escalationEnabled, setEscalationEnabled] = useState(false);
-  const [escalationAfterMinutes, setEscalationAfterMinutes] = useState<number>(120);
-  const [escalationPriority, setEscalationPriority] = useState('High');
+  const [nextResponseMinutes, setNextResponseMinutes] = useState<number>(0);
+  const [businessHoursId, setBusinessHoursId] = useState<string>('');
+  const [pauseStatuses, setPauseStatuses] = useState<TicketStatus[]>(DEFAULT_SLA_PAUSE_STATUSES);
+  const [escalationSteps, setEscalationSteps] = useState<SLAEscalationStep[]>([]);
+  const { data: ticketOptions } = useTicketQueryContext();
   const [departments, setDepartments] = useState<string[]>([]);
   const [isDepartmentsLoading, setIsDepartmentsLoading] = useState(true);
   const [teams, setTeams] = useState<string[]>([]);
@@ -158,9 +174,10 @@ export default function SLAForm({ rule, onSave, onCancel }: SLAFormProps) {
       setCustomFieldSelections(rule.conditions.customFields || {});
       setFirstResponseMinutes(rule.targets.firstResponseMinutes);
       setResolutionMinutes(rule.targets.resolutionMinutes);
-      setEscalationEnabled(rule.escalation?.enabled || false);
-      setEscalationAfterMinutes(rule.escalation?.afterMinutes || 120);
-      setEscalationPriority(rule.escalation?.newPriority || 'High');
+      setNextResponseMinutes(rule.targets.nextResponseMinutes || 0);
+      setBusinessHoursId(rule.businessHoursId ? String(rule.businessHoursId) : '');
+      setPauseStatuses(rule.pauseStatuses ?? DEFAULT_SLA_PAUSE_STATUSES);
+      setEscalationSteps(getEscalationSteps(rule));
     }
   }, [rule]);
 
@@ -294,18 +311,29 @@ export default function SLAForm({ rule, onSave, onCancel }: SLAFormProps) {
       targets: {
         firstResponseMinutes,
         resolutionMinutes,
+        nextResponseMinutes: nextResponseMinutes > 0 ? nextResponseMinutes : undefined,
       },
-      escalation: escalationEnabled
-        ? {
-            enabled: true,
-            afterMinutes: escalationAfterMinutes,
-            newPriority: escalationPriority,
-          }
-        : undefined,
+      businessHoursId: businessHoursId || null,
+      pauseStatuses,
+      // Steps replace the single escalation older rules had
+      escalation: undefined,
+      escalationSteps,
     });
   };
 
-  const isValid = name.trim().length > 0 && firstResponseMinutes > 0 && resolutionMinutes > 0;
+  const togglePauseStatus = (status: TicketStatus) => {
+    setPauseStatuses((current) =>
+      current.includes(status) ? current.filter((s) => s !== status) : [...current, status]
+    );
+  };
+
+  const selectedSchedule = schedules.find((schedule) => schedule.id === businessHoursId);
+
+  const isValid =
+    name.trim().length > 0 &&
+    firstResponseMinutes > 0 &&
+    resolutionMinutes > 0 &&
+    escalationSteps.every((step) => !validateEscalationStep(step));
 
   return (
     <Card>
@@ -636,7 +664,7 @@ export default function SLAForm({ rule, onSave, onCancel }: SLAFormProps) {
               <Label className="text-sm font-medium mb-2 block">Time Targets</Label>
             </div>
 
-            <div className="grid grid-cols-2 gap-4">
+            <div className="grid grid-cols-3 gap-4">
               <div>
                 <Label htmlFor="first-response" className="text-xs">
                   First Response (minutes) *
@@ -672,6 +700,74 @@ export default function SLAForm({ rule, onSave, onCancel }: SLAFormProps) {
                   {Math.floor(resolutionMinutes / 60)}h {resolutionMinutes % 60}m
                 </p>
               </div>
+
+              <div>
+                <Label htmlFor="next-response" className="text-xs">
+                  Next Response (minutes)
+                </Label>
+                <Input
+                  id="next-response"
+                  type="number"
+                  min="0"
+                  value={nextResponseMinutes || ''}
+                  onChange={(e) => setNextResponseMinutes(parseInt(e.target.value) || 0)}
+                  placeholder="Not tracked"
+                  className="mt-1"
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  {nextResponseMinutes > 0
+                    ? `${Math.floor(nextResponseMinutes / 60)}h ${nextResponseMinutes % 60}m to answer each requester reply`
+                    : 'Optional, time to answer each requester reply'}
+                </p>
+              </div>
+            </div>
+
+            <div>
+              <Label className="text-xs mb-2 flex items-center gap-2">
+                <Pause className="h-3 w-3" />
+                Pause the clock while the ticket is
+              </Label>
+              <div className="flex flex-wrap gap-2">
+                {PAUSE_STATUS_OPTIONS.map((option) => (
+                  <Badge
+                    key={option.value}
+                    variant={pauseStatuses.includes(option.value) ? 'default' : 'outline'}
+                    className="cursor-pointer"
+                    onClick={() => togglePauseStatus(option.value)}
+                  >
+                    {option.label}
+                  </Badge>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">
+                {pauseStatuses.length > 0
+                  ? 'Time spent in these statuses does not count towards any target'
+                  : 'The clock never pauses'}
+              </p>
+            </div>
+
+            <div>
+              <Label htmlFor="business-hours" className="text-xs">
+                Business Hours
+              </Label>
+              <select
+                id="business-hours"
+                value={businessHoursId}
+                onChange={(e) => setBusinessHoursId(e.target.value)}
+                className="mt-1 w-full h-9 rounded-md border border-input bg-background px-3 py-1 text-sm"
+              >
+                <option value="">24/7 (count all time)</option>
+                {schedules.map((schedule) => (
+                  <option key={schedule.id} value={schedule.id}>
+                    {schedule.name} ({schedule.timezone})
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-muted-foreground mt-1">
+                {selectedSchedule
+                  ? `Targets only count ${describeWeeklyHours(selectedSchedule)}, paused on holidays`
+                  : 'Targets count around the clock, including nights and weekends'}
+              </p>
             </div>
 
             <div className="bg-muted/50 p-3 rounded-lg text-xs text-muted-foreground">
@@ -681,67 +777,24 @@ export default function SLAForm({ rule, onSave, onCancel }: SLAFormProps) {
 
           {/* Escalation */}
           <div className="space-y-4 pt-4 border-t border-border">
-            <div className="flex items-center justify-between">
-              <div>
-                <Label htmlFor="escalation-toggle" className="font-medium flex items-center gap-2">
-                  <AlertTriangle className="h-4 w-4" />
-                  Auto-Escalation
-                </Label>
-                <p className="text-xs text-muted-foreground mt-0.5">
-                  Automatically increase priority if not resolved in time
-                </p>
-              </div>
-              <button
-                type="button"
-                id="escalation-toggle"
-                onClick={() => setEscalationEnabled(!escalationEnabled)}
-                className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
-                  escalationEnabled ? 'bg-primary' : 'bg-muted'
-                }`}
-              >
-                <span
-                  className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
-                    escalationEnabled ? 'translate-x-6' : 'translate-x-1'
-                  }`}
-                />
-              </button>
+            <div>
+              <Label className="font-medium flex items-center gap-2">
+                <AlertTriangle className="h-4 w-4" />
+                Escalation Chain
+              </Label>
+              <p className="text-xs text-muted-foreground mt-0.5">
+                Steps fire in order as the targets run down, each one is logged on the ticket
+              </p>
             </div>
 
-            {escalationEnabled && (
-              <div className="grid grid-cols-2 gap-4 pl-6 border-l-2 border-primary/20">
-                <div>
-                  <Label htmlFor="escalation-after" className="text-xs">
-                    After (minutes)
-                  </Label>
-                  <Input
-                    id="escalation-after"
-                    type="number"
-                    min="1"
-                    value={escalationAfterMinutes}
-                    onChange={(e) => setEscalationAfterMinutes(parseInt(e.target.value) || 0)}
-                    className="mt-1"
-                  />
-                </div>
-
-                <div>
-                  <Label htmlFor="escalation-priority" className="text-xs">
-                    New Priority
-                  </Label>
-                  <select
-                    id="escalation-priority"
-                    value={escalationPriority}
-                    onChange={(e) => setEscalationPriority(e.target.value)}
-                    className="mt-1 w-full h-9 rounded-md border border-input bg-background px-3 py-1 text-sm"
-                  >
-                    {PRIORITY_OPTIONS.map((priority) => (
-                      <option key={priority} value={priority}>
-                        {priority}
-                      </option>
-                    ))}
-                  </select>
-                </div>
-              </div>
-            )}
+            <EscalationStepsEditor
+              steps={escalationSteps}
+              onChange={setEscalationSteps}
+              priorities={PRIORITY_OPTIONS}
+              teams={teams}
+              managers={managers}
+              users={ticketOptions?.users || []}
+            />
           </div>
 
           {/* Actions */}
@@ -2,22 +2,29 @@ import { useState, useEffect } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import type { SLARule } from '@/types/sla';
+import type { BusinessHoursSchedule, SLARule } from '@/types/sla';
 import type { FormConfiguration } from '@/types/formBuilder';
-import { Clock, Edit, Trash2, AlertTriangle, AlertCircle } from 'lucide-react';
+import { Clock, Edit, Trash2, AlertTriangle, AlertCircle, CalendarDays } from 'lucide-react';
 import { fetchWithAuth } from '@/lib/fetchWithAuth';
+import {
+  DEFAULT_SLA_PAUSE_STATUSES,
+  describeEscalationActions,
+  formatEscalationThreshold,
+  getEscalationSteps,
+} from '@/lib/sla';
 
 const API_BASE = 'https://itsm-backend.joshua-r-klimek.workers.dev';
 const FORM_CONFIG_STORAGE_KEY = 'itsm-form-configuration';
 
 interface SLAListProps {
   rules: SLARule[];
+  schedules?: BusinessHoursSchedule[];
   onEdit: (rule: SLARule) => void;
   onDelete: (ruleId: string) => void;
   onToggleEnabled: (ruleId: string) => void;
 }
 
-export default function SLAList({ rules, onEdit, onDelete, onToggleEnabled }: SLAListProps) {
+export default function SLAList({ rules, schedules = [], onEdit, onDelete, onToggleEnabled }: SLAListProps) {
   const [hasPriorityField, setHasPriorityField] = useState(true);
   const [hasCategoryField, setHasCategoryField] = useState(true);
 
@@ -85,6 +92,19 @@ export default function SLAList({ rules, onEdit, onDelete, onToggleEnabled }: SL
     return mins > 0 ? `${hours}h ${mins}m` : `${hours}h`;
   };
 
+  const getScheduleName = (rule: SLARule): string => {
+    if (!rule.businessHoursId) return '24/7';
+    const schedule = schedules.find((s) => s.id === String(rule.businessHoursId));
+    return schedule ? `${schedule.name} business hours` : 'Unknown schedule (24/7)';
+  };
+
+  const getPauseSummary = (rule: SLARule): string => {
+    const statuses = rule.pauseStatuses ?? DEFAULT_SLA_PAUSE_STATUSES;
+    return statuses.length > 0
+      ? statuses.map((status) => status.replace('_', ' ').replace(/^./, (c) => c.toUpperCase())).join(', ')
+      : 'Never paused';
+  };
+
   const getConditionsSummary = (rule: SLARule): string => {
     const conditions: string[] = [];
 
@@ -115,109 +135,135 @@ export default function SLAList({ rules, onEdit, onDelete, onToggleEnabled }: SL
 
   return (
     <div className="space-y-4">
-      {rules.map((rule) => (
-        <Card key={rule.id} className={!rule.enabled ? 'opacity-60' : ''}>
-          <CardContent className="pt-6">
-            <div className="flex items-start justify-between">
-              <div className="flex-1">
-                <div className="flex items-center gap-2 mb-2">
-                  <h3 className="font-semibold text-lg">{rule.name}</h3>
-                  <Badge variant={rule.enabled ? 'default' : 'secondary'}>
-                    {rule.enabled ? 'Active' : 'Disabled'}
-                  </Badge>
-                  {rule.escalation?.enabled && (
-                    <Badge variant="outline" className="gap-1">
-                      <AlertTriangle className="h-3 w-3" />
-                      Auto-escalate
+      {rules.map((rule) => {
+        const escalationSteps = getEscalationSteps(rule);
+
+        return (
+          <Card key={rule.id} className={!rule.enabled ? 'opacity-60' : ''}>
+            <CardContent className="pt-6">
+              <div className="flex items-start justify-between">
+                <div className="flex-1">
+                  <div className="flex items-center gap-2 mb-2">
+                    <h3 className="font-semibold text-lg">{rule.name}</h3>
+                    <Badge variant={rule.enabled ? 'default' : 'secondary'}>
+                      {rule.enabled ? 'Active' : 'Disabled'}
                     </Badge>
+                    {escalationSteps.length > 0 && (
+                      <Badge variant="outline" className="gap-1">
+                        <AlertTriangle className="h-3 w-3" />
+                        {escalationSteps.length === 1 ? 'Auto-escalate' : `${escalationSteps.length}-step escalation`}
+                      </Badge>
+                    )}
+                    {hasDisabledFieldConditions(rule) && (
+                      <Badge variant="outline" className="gap-1 border-orange-300 text-orange-700 dark:border-orange-700 dark:text-orange-300" title={getDisabledFieldsMessage(rule)}>
+                        <AlertCircle className="h-3 w-3" />
+                        Field Warning
+                      </Badge>
+                    )}
+                  </div>
+
+                  {rule.description && (
+                    <p className="text-sm text-muted-foreground mb-3">{rule.description}</p>
                   )}
+
                   {hasDisabledFieldConditions(rule) && (
-                    <Badge variant="outline" className="gap-1 border-orange-300 text-orange-700 dark:border-orange-700 dark:text-orange-300" title={getDisabledFieldsMessage(rule)}>
-                      <AlertCircle className="h-3 w-3" />
-                      Field Warning
-                    </Badge>
+                    <div className="mb-3 text-xs text-orange-600 bg-orange-50 dark:bg-orange-950 p-2 rounded border border-orange-200 dark:border-orange-800">
+                      ⚠️ {getDisabledFieldsMessage(rule)}. This condition will be skipped.
+                    </div>
                   )}
-                </div>
-
-                {rule.description && (
-                  <p className="text-sm text-muted-foreground mb-3">{rule.description}</p>
-                )}
-
-                {hasDisabledFieldConditions(rule) && (
-                  <div className="mb-3 text-xs text-orange-600 bg-orange-50 dark:bg-orange-950 p-2 rounded border border-orange-200 dark:border-orange-800">
-                    ⚠️ {getDisabledFieldsMessage(rule)}. This condition will be skipped.
-                  </div>
-                )}
-
-                <div className="space-y-2">
-                  <div className="text-sm">
-                    <span className="text-muted-foreground">Applies to: </span>
-                    <span className="font-medium">{getConditionsSummary(rule)}</span>
-                  </div>
 
-                  <div className="flex items-center gap-6 text-sm">
-                    <div className="flex items-center gap-2">
-                      <Clock className="h-4 w-4 text-blue-500" />
-                      <span className="text-muted-foreground">First Response:</span>
-                      <span className="font-medium">{formatMinutes(rule.targets.firstResponseMinutes)}</span>
+                  <div className="space-y-2">
+                    <div className="text-sm">
+                      <span className="text-muted-foreground">Applies to: </span>
+                      <span className="font-medium">{getConditionsSummary(rule)}</span>
                     </div>
-                    <div className="flex items-center gap-2">
-                      <Clock className="h-4 w-4 text-green-500" />
-                      <span className="text-muted-foreground">Resolution:</span>
-                      <span className="font-medium">{formatMinutes(rule.targets.resolutionMinutes)}</span>
+
+                    <div className="flex items-center gap-6 text-sm">
+                      <div className="flex items-center gap-2">
+                        <Clock className="h-4 w-4 text-blue-500" />
+                        <span className="text-muted-foreground">First Response:</span>
+                        <span className="font-medium">{formatMinutes(rule.targets.firstResponseMinutes)}</span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Clock className="h-4 w-4 text-green-500" />
+                        <span className="text-muted-foreground">Resolution:</span>
+                        <span className="font-medium">{formatMinutes(rule.targets.resolutionMinutes)}</span>
+                      </div>
+                      {rule.targets.nextResponseMinutes ? (
+                        <div className="flex items-center gap-2">
+                          <Clock className="h-4 w-4 text-purple-500" />
+                          <span className="text-muted-foreground">Next Response:</span>
+                          <span className="font-medium">{formatMinutes(rule.targets.nextResponseMinutes)}</span>
+                        </div>
+                      ) : null}
+                      <div className="flex items-center gap-2">
+                        <CalendarDays className="h-4 w-4 text-muted-foreground" />
+                        <span className="font-medium">{getScheduleName(rule)}</span>
+                      </div>
                     </div>
-                  </div>
 
-                  {rule.escalation?.enabled && (
                     <div className="text-sm">
-                      <span className="text-muted-foreground">Escalation: </span>
-                      <span className="font-medium">
-                        After {formatMinutes(rule.escalation.afterMinutes)} → {rule.escalation.newPriority}
-                      </span>
+                      <span className="text-muted-foreground">Paused while: </span>
+                      <span className="font-medium">{getPauseSummary(rule)}</span>
                     </div>
-                  )}
-                </div>
-              </div>
 
-              <div className="flex items-center gap-2 ml-4">
-                <Button
-                  variant="ghost"
-                  size="icon"
-                  onClick={() => onToggleEnabled(rule.id)}
-                  title={rule.enabled ? 'Disable rule' : 'Enable rule'}
-                  className="h-8 w-8"
-                >
-                  <div className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors ${
-                    rule.enabled ? 'bg-primary' : 'bg-muted'
-                  }`}>
-                    <span className={`inline-block h-3 w-3 transform rounded-full bg-white transition-transform ${
-                      rule.enabled ? 'translate-x-5' : 'translate-x-1'
-                    }`} />
+                    {escalationSteps.length > 0 && (
+                      <div className="text-sm space-y-0.5">
+                        <span className="text-muted-foreground">Escalation:</span>
+                        <ol className="list-decimal list-inside text-xs">
+                          {escalationSteps.map((step) => (
+                            <li key={step.id}>
+                              <span className="font-medium">{formatEscalationThreshold(step)}</span>
+                              {' → '}
+                              {describeEscalationActions(step.actions).join(', ')}
+                            </li>
+                          ))}
+                        </ol>
+                      </div>
+                    )}
                   </div>
-                </Button>
-                <Button
-                  variant="ghost"
-                  size="icon"
-                  onClick={() => onEdit(rule)}
-                  title="Edit rule"
-                  className="h-8 w-8"
-                >
-                  <Edit className="h-4 w-4" />
-                </Button>
-                <Button
-                  variant="ghost"
-                  size="icon"
-                  onClick={() => onDelete(rule.id)}
-                  title="Delete rule"
-                  className="h-8 w-8 text-destructive hover:text-destructive"
-                >
-                  <Trash2 className="h-4 w-4" />
-                </Button>
+                </div>
+
+                <div className="flex items-center gap-2 ml-4">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => onToggleEnabled(rule.id)}
+                    title={rule.enabled ? 'Disable rule' : 'Enable rule'}
+                    className="h-8 w-8"
+                  >
+                    <div className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors ${
+                      rule.enabled ? 'bg-primary' : 'bg-muted'
+                    }`}>
+                      <span className={`inline-block h-3 w-3 transform rounded-full bg-white transition-transform ${
+                        rule.enabled ? 'translate-x-5' : 'translate-x-1'
+                      }`} />
+                    </div>
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => onEdit(rule)}
+                    title="Edit rule"
+                    className="h-8 w-8"
+                  >
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => onDelete(rule.id)}
+                    title="Delete rule"
+                    className="h-8 w-8 text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
               </div>
-            </div>
-          </CardContent>
-        </Card>
-      ))}
+            </CardContent>
+          </Card>
+        );
+      })}
     </div>
   );
 }
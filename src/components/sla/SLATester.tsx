@@ -0,0 +1,286 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, CheckCircle2, CircleSlash, FlaskConical, Layers, Loader2, XCircle } from 'lucide-react';
+import { useTicketQuery } from '@/hooks/useTicketsQuery';
+import { useConditionOptions } from '@/hooks/useConditionOptions';
+import { computeSLADueDates } from '@/lib/sla';
+import { analyzeSLARules, findMatchingSLARule, ticketToSLASample } from '@/lib/slaRules';
+import { parseDateTimeLocalValue, toDateTimeLocalValue } from '@/lib/dueDates';
+import { cn, formatDateTime, formatDuration } from '@/lib/utils';
+import type { BusinessHoursSchedule, SLARule, SLARuleWarningType, SLASampleTicket } from '@/types/sla';
+
+interface SLATesterProps {
+  rules: SLARule[];
+  schedules: BusinessHoursSchedule[];
+}
+
+type SampleField = Exclude<keyof SLASampleTicket, 'customFields'>;
+
+const WARNING_ICONS: Record<SLARuleWarningType, typeof AlertTriangle> = {
+  shadowed: CircleSlash,
+  overlap: Layers,
+  uncovered: AlertTriangle,
+};
+
+const selectClassName = 'mt-1 w-full h-9 rounded-md border border-input bg-background px-3 py-1 text-sm';
+
+export default function SLATester({ rules, schedules }: SLATesterProps) {
+  const [mode, setMode] = useState<'sample' | 'ticket'>('sample');
+  const [sample, setSample] = useState<SLASampleTicket>({});
+  const [createdAtValue, setCreatedAtValue] = useState(() => toDateTimeLocalValue(new Date()));
+  const [ticketInput, setTicketInput] = useState('');
+  const [ticketId, setTicketId] = useState<string | undefined>();
+  const { data: ticket, isFetching, error } = useTicketQuery(mode === 'ticket' ? ticketId : undefined);
+  const { data: conditionOptions } = useConditionOptions();
+
+  const customFields = (conditionOptions?.customFields || []).filter((field) => field.enabled);
+  const customFieldLabels = Object.fromEntries(customFields.map((field) => [field.id, field.label]));
+
+  const sampleFields: { key: SampleField; label: string; options: string[] }[] = [
+    { key: 'priority', label: 'Priority', options: conditionOptions?.priorities || [] },
+    { key: 'category', label: 'Category', options: conditionOptions?.categories || [] },
+    { key: 'department', label: 'Requester Department', options: conditionOptions?.departments || [] },
+    { key: 'team', label: 'Requester Team', options: conditionOptions?.teams || [] },
+    { key: 'location', label: 'Requester Location', options: conditionOptions?.locations || [] },
+    { key: 'jobTitle', label: 'Requester Job Title', options: conditionOptions?.jobTitles || [] },
+    { key: 'manager', label: 'Requester Manager', options: conditionOptions?.managers || [] },
+  ];
+
+  // The ticket being tested and when its clocks start
+  const subject =
+    mode === 'ticket'
+      ? ticket
+        ? { sample: ticketToSLASample(ticket), start: ticket.createdAt, label: ticket.id }
+        : null
+      : { sample, start: parseDateTimeLocalValue(createdAtValue) || new Date(), label: 'This ticket' };
+
+  const result = subject ? findMatchingSLARule(rules, subject.sample, customFieldLabels) : null;
+  const matchedRule = result?.matchedRule;
+  const schedule = matchedRule?.businessHoursId
+    ? schedules.find((s) => s.id === matchedRule.businessHoursId)
+    : undefined;
+  const dueDates = matchedRule && subject ? computeSLADueDates(matchedRule, subject.start, schedule) : null;
+
+  const warnings = analyzeSLARules(rules, {
+    priorities: conditionOptions?.priorities,
+    categories: conditionOptions?.categories,
+  });
+
+  const updateSample = (key: SampleField, value: string) => {
+    setSample((prev) => ({ ...prev, [key]: value || undefined }));
+  };
+
+  const updateCustomField = (fieldId: string, value: string) => {
+    setSample((prev) => ({ ...prev, customFields: { ...prev.customFields, [fieldId]: value || undefined } }));
+  };
+
+  const handleLoadTicket = (e: React.FormEvent) => {
+    e.preventDefault();
+    setTicketId(ticketInput.trim() || undefined);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-2">
+        <Button size="sm" variant={mode === 'sample' ? 'default' : 'outline'} onClick={() => setMode('sample')}>
+          Sample ticket
+        </Button>
+        <Button size="sm" variant={mode === 'ticket' ? 'default' : 'outline'} onClick={() => setMode('ticket')}>
+          Existing ticket
+        </Button>
+      </div>
+
+      {mode === 'sample' ? (
+        <div className="grid gap-3 md:grid-cols-3">
+          {sampleFields.map((field) => (
+            <div key={field.key}>
+              <Label htmlFor={`sla-test-${field.key}`} className="text-xs">
+                {field.label}
+              </Label>
+              <select
+                id={`sla-test-${field.key}`}
+                value={sample[field.key] || ''}
+                onChange={(e) => updateSample(field.key, e.target.value)}
+                className={selectClassName}
+              >
+                <option value="">Not set</option>
+                {field.options.map((option) => (
+                  <option key={option} value={option}>
+                    {option}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+          {customFields.map((field) => (
+            <div key={field.id}>
+              <Label htmlFor={`sla-test-${field.id}`} className="text-xs">
+                {field.label}
+              </Label>
+              <select
+                id={`sla-test-${field.id}`}
+                value={String(sample.customFields?.[field.id] ?? '')}
+                onChange={(e) => updateCustomField(field.id, e.target.value)}
+                className={selectClassName}
+              >
+                <option value="">Not set</option>
+                {(field.type === 'checkbox' ? ['true', 'false'] : field.options || []).map((option) => (
+                  <option key={option} value={option}>
+                    {field.type === 'checkbox' ? (option === 'true' ? 'Checked' : 'Unchecked') : option}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+          <div>
+            <Label htmlFor="sla-test-created" className="text-xs">
+              Created At
+            </Label>
+            <Input
+              id="sla-test-created"
+              type="datetime-local"
+              value={createdAtValue}
+              onChange={(e) => setCreatedAtValue(e.target.value)}
+              className="mt-1"
+            />
+          </div>
+        </div>
+      ) : (
+        <form onSubmit={handleLoadTicket} className="flex items-end gap-3">
+          <div className="flex-1 max-w-xs">
+            <Label htmlFor="sla-test-ticket" className="text-xs">
+              Ticket ID
+            </Label>
+            <Input
+              id="sla-test-ticket"
+              value={ticketInput}
+              onChange={(e) => setTicketInput(e.target.value)}
+              placeholder="e.g., TKT-1042"
+              className="mt-1"
+            />
+          </div>
+          <Button type="submit" disabled={!ticketInput.trim() || isFetching}>
+            {isFetching ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FlaskConical className="h-4 w-4 mr-2" />}
+            Test
+          </Button>
+        </form>
+      )}
+
+      {mode === 'ticket' && error && ticketId && <p className="text-sm text-destructive">{error.message}</p>}
+
+      {result && subject && (
+        <div className="rounded-lg border border-border p-4 space-y-4">
+          <div className="flex items-center gap-2">
+            {matchedRule ? (
+              <CheckCircle2 className="h-5 w-5 text-green-600" />
+            ) : (
+              <XCircle className="h-5 w-5 text-red-600" />
+            )}
+            <span className="font-medium">
+              {matchedRule
+                ? `${subject.label} gets "${matchedRule.name}"`
+                : `No rule matches. ${subject.label} gets no SLA.`}
+            </span>
+          </div>
+
+          {matchedRule && dueDates && (
+            <div className="grid gap-3 md:grid-cols-3 text-sm">
+              <div>
+                <p className="text-xs text-muted-foreground">First response due</p>
+                <p className="font-medium">
+                  {dueDates.firstResponseDue ? formatDateTime(dueDates.firstResponseDue) : 'Never (no working hours)'}
+                </p>
+                <p className="text-xs text-muted-foreground">{formatDuration(matchedRule.targets.firstResponseMinutes)} target</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Resolution due</p>
+                <p className="font-medium">
+                  {dueDates.resolutionDue ? formatDateTime(dueDates.resolutionDue) : 'Never (no working hours)'}
+                </p>
+                <p className="text-xs text-muted-foreground">{formatDuration(matchedRule.targets.resolutionMinutes)} target</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Counted in</p>
+                <p className="font-medium">{schedule ? `${schedule.name} business hours` : '24/7'}</p>
+                {matchedRule.targets.nextResponseMinutes ? (
+                  <p className="text-xs text-muted-foreground">
+                    {formatDuration(matchedRule.targets.nextResponseMinutes)} to answer each reply
+                  </p>
+                ) : null}
+              </div>
+            </div>
+          )}
+
+          <div className="pt-3 border-t border-border space-y-3">
+            <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+              Rules checked in order, the first match applies
+            </p>
+            {result.evaluations.length === 0 && <p className="text-sm text-muted-foreground">No SLA rules yet</p>}
+            {result.evaluations.map((evaluation, index) => {
+              const applies = evaluation.rule.id === matchedRule?.id;
+              return (
+                <div key={evaluation.rule.id} className={cn('space-y-1', !evaluation.matched && 'opacity-75')}>
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="text-xs text-muted-foreground w-5">{index + 1}.</span>
+                    <span className="font-medium">{evaluation.rule.name}</span>
+                    {applies && <Badge>Applies</Badge>}
+                    {evaluation.matched && !applies && <Badge variant="outline">Matches, an earlier rule wins</Badge>}
+                  </div>
+                  {evaluation.checks.map((check) => (
+                    <div key={check.label} className="flex items-start gap-2 text-xs pl-7">
+                      {check.passed ? (
+                        <CheckCircle2 className="h-3.5 w-3.5 text-green-600 mt-0.5 shrink-0" />
+                      ) : (
+                        <XCircle className="h-3.5 w-3.5 text-red-600 mt-0.5 shrink-0" />
+                      )}
+                      <span className="font-medium w-40 shrink-0">{check.label}</span>
+                      <span className="text-muted-foreground">{check.detail}</span>
+                    </div>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Rule analysis */}
+      <div className="space-y-2">
+        <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Rule Analysis</p>
+        {warnings.length === 0 ? (
+          <div className="flex items-center gap-2 text-sm text-green-700 dark:text-green-400">
+            <CheckCircle2 className="h-4 w-4" />
+            No overlapping rules and every priority and category combination is covered
+          </div>
+        ) : (
+          <ul className="space-y-1.5">
+            {warnings.map((warning, index) => {
+              const Icon = WARNING_ICONS[warning.type];
+              return (
+                <li
+                  key={index}
+                  className={cn(
+                    'flex items-start gap-2 text-sm rounded-md border px-3 py-2',
+                    warning.type === 'overlap'
+                      ? 'border-border text-muted-foreground'
+                      : 'border-orange-200 bg-orange-50 text-orange-800 dark:border-orange-800 dark:bg-orange-950 dark:text-orange-200'
+                  )}
+                >
+                  <Icon className="h-4 w-4 mt-0.5 shrink-0" />
+                  {warning.message}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+        <p className="text-xs text-muted-foreground">
+          Coverage counts rules with only priority and category conditions, since requester and custom field
+          conditions apply to some tickets only.
+        </p>
+      </div>
+    </div>
+  );
+}
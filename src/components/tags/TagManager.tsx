@@ -0,0 +1,281 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { SelectRoot as Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TagBadge } from '@/components/tickets/TagBadge';
+import { Tags, Edit, Check, X, GitMerge, Search, Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { TAG_COLORS, TAG_SWATCH_CLASSES, normalizeTag } from '@/lib/tags';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTagsQuery, useTagMutations } from '@/hooks/useTags';
+import type { TagColor, TagInfo } from '@/types/tags';
+
+function ColorPicker({ tag, onChange }: { tag: TagInfo; onChange: (color: TagColor | null) => void }) {
+  const [open, setOpen] = useState(false);
+
+  const pick = (color: TagColor | null) => {
+    onChange(color);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className={cn(
+            'h-5 w-5 rounded-full border-2 border-background ring-1 ring-border',
+            tag.color ? TAG_SWATCH_CLASSES[tag.color] : 'bg-secondary'
+          )}
+          title="Change colour"
+        />
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-2" align="start">
+        <div className="grid grid-cols-6 gap-1.5">
+          <button
+            type="button"
+            onClick={() => pick(null)}
+            className={cn(
+              'h-6 w-6 rounded-full bg-secondary flex items-center justify-center',
+              !tag.color && 'ring-2 ring-primary'
+            )}
+            title="No colour"
+          >
+            <X className="h-3 w-3 text-muted-foreground" />
+          </button>
+          {TAG_COLORS.map((color) => (
+            <button
+              key={color}
+              type="button"
+              onClick={() => pick(color)}
+              className={cn('h-6 w-6 rounded-full', TAG_SWATCH_CLASSES[color], tag.color === color && 'ring-2 ring-primary ring-offset-1')}
+              title={color}
+            />
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+/**
+ * Admin list of ticket tags: rename, recolour, and merge duplicates into one tag
+ */
+export default function TagManager() {
+  const { user } = useAuth();
+  const { data: tags = [], isLoading } = useTagsQuery();
+  const { renameTag, setTagColor, mergeTags } = useTagMutations(user?.id);
+
+  const [search, setSearch] = useState('');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [editingTag, setEditingTag] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [showMergeDialog, setShowMergeDialog] = useState(false);
+  const [mergeTarget, setMergeTarget] = useState('');
+
+  const visibleTags = tags.filter((tag) => tag.name.toLowerCase().includes(search.trim().toLowerCase()));
+
+  const trimmedName = normalizeTag(newName);
+  const nameTaken = tags.some(
+    (tag) => tag.name !== editingTag && tag.name.toLowerCase() === trimmedName.toLowerCase()
+  );
+
+  const toggleSelected = (name: string) => {
+    setSelected((prev) => (prev.includes(name) ? prev.filter((tag) => tag !== name) : [...prev, name]));
+  };
+
+  const startRename = (tag: TagInfo) => {
+    setEditingTag(tag.name);
+    setNewName(tag.name);
+  };
+
+  const cancelRename = () => {
+    setEditingTag(null);
+    setNewName('');
+  };
+
+  const saveRename = () => {
+    if (!editingTag || !trimmedName || nameTaken) return;
+    if (trimmedName === editingTag) {
+      cancelRename();
+      return;
+    }
+    renameTag.mutate({ name: editingTag, newName: trimmedName }, { onSuccess: cancelRename });
+  };
+
+  const openMergeDialog = () => {
+    // Default to the most used tag, it's usually the canonical spelling
+    const target = [...selected].sort(
+      (a, b) => (tags.find((tag) => tag.name === b)?.ticketCount || 0) - (tags.find((tag) => tag.name === a)?.ticketCount || 0)
+    )[0];
+    setMergeTarget(target);
+    setShowMergeDialog(true);
+  };
+
+  const handleMerge = () => {
+    mergeTags.mutate(
+      { sources: selected.filter((tag) => tag !== mergeTarget), target: mergeTarget },
+      {
+        onSuccess: () => {
+          setShowMergeDialog(false);
+          setSelected([]);
+        },
+      }
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (tags.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center h-64 text-center border-2 border-dashed rounded-lg">
+        <Tags className="h-12 w-12 text-muted-foreground mb-4" />
+        <p className="text-sm text-muted-foreground">No tags yet</p>
+        <p className="text-xs text-muted-foreground mt-2">Tags added to tickets will appear here</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1 max-w-sm">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search tags..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-8"
+          />
+        </div>
+        {selected.length > 0 && (
+          <div className="ml-auto flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">{selected.length} selected</span>
+            <Button variant="ghost" size="sm" onClick={() => setSelected([])}>
+              Clear
+            </Button>
+            <Button size="sm" onClick={openMergeDialog} disabled={selected.length < 2}>
+              <GitMerge className="h-4 w-4 mr-2" />
+              Merge
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="border rounded-lg divide-y">
+        {visibleTags.map((tag) => (
+          <div key={tag.name} className="flex items-center gap-3 px-3 py-2">
+            <Checkbox
+              checked={selected.includes(tag.name)}
+              onChange={() => toggleSelected(tag.name)}
+              aria-label={`Select ${tag.name}`}
+            />
+            <ColorPicker tag={tag} onChange={(color) => setTagColor.mutate({ name: tag.name, color })} />
+
+            {editingTag === tag.name ? (
+              <div className="flex-1 flex items-center gap-2">
+                <Input
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') saveRename();
+                    if (e.key === 'Escape') cancelRename();
+                  }}
+                  className="h-8 max-w-xs"
+                  autoFocus
+                />
+                {nameTaken && (
+                  <span className="text-xs text-destructive">Tag already exists, select both and merge instead</span>
+                )}
+              </div>
+            ) : (
+              <div className="flex-1 min-w-0">
+                <TagBadge tag={tag.name} color={tag.color} />
+              </div>
+            )}
+
+            <span className="text-xs text-muted-foreground w-20 text-right">
+              {tag.ticketCount} {tag.ticketCount === 1 ? 'ticket' : 'tickets'}
+            </span>
+
+            {editingTag === tag.name ? (
+              <div className="flex items-center gap-1">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={saveRename}
+                  disabled={!trimmedName || nameTaken || renameTag.isPending}
+                  title="Save"
+                >
+                  {renameTag.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+                </Button>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={cancelRename} title="Cancel">
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ) : (
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => startRename(tag)} title="Rename tag">
+                <Edit className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        ))}
+        {visibleTags.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-6">No tags match "{search}"</p>
+        )}
+      </div>
+
+      <Dialog open={showMergeDialog} onOpenChange={setShowMergeDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Merge Tags</DialogTitle>
+            <DialogDescription>
+              Tickets tagged with any of the selected tags will use the tag you keep. The other tags are removed.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-1">
+              {selected.map((name) => (
+                <TagBadge key={name} tag={name} color={tags.find((tag) => tag.name === name)?.color} />
+              ))}
+            </div>
+            <div className="space-y-1">
+              <p className="text-sm font-medium">Keep</p>
+              <Select value={mergeTarget} onValueChange={setMergeTarget}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {selected.map((name) => (
+                    <SelectItem key={name} value={name}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowMergeDialog(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleMerge} disabled={!mergeTarget || mergeTags.isPending}>
+              {mergeTags.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Merge {selected.length} Tags
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,8 +1,46 @@
 import { useState } from 'react';
-import type { Activity } from '@/types';
+import type { Activity, ActivityMention, ActivityType } from '@/types';
+import type { AssignmentDecision } from '@/types/assignment';
+import type { EscalationFiredMetadata } from '@/types/sla';
 import { formatRelativeTime, getInitials } from '@/lib/utils';
-import { MessageSquare, AlertCircle, ArrowRight, Reply, Flag, Paperclip, Download, ChevronDown, ChevronUp } from 'lucide-react';
+import { describeAssignmentDecision } from '@/lib/assignment';
+import { describeEscalationActions, formatEscalationThreshold } from '@/lib/sla';
+import { splitMentions } from '@/lib/mentions';
+import {
+  ACTIVITY_TYPE_LABELS,
+  EMPTY_ACTIVITY_FILTER,
+  filterActivities,
+  groupSystemActivities,
+  isActivityFilterActive,
+  isSystemActivity,
+  type ActivityFilter,
+} from '@/lib/activityFeed';
+import { useViewPreferences } from '@/contexts/ViewPreferencesContext';
+import {
+  MessageSquare,
+  AlertCircle,
+  ArrowRight,
+  Reply,
+  Flag,
+  Paperclip,
+  Download,
+  ChevronDown,
+  ChevronUp,
+  Info,
+  Search,
+  ArrowDownWideNarrow,
+  ArrowUpNarrowWide,
+  Layers,
+  Pencil,
+  Trash2,
+  Loader2,
+} from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { MarkdownContent } from '@/components/tickets/MarkdownContent';
+import { ActivityRevisionHistory } from '@/components/tickets/ActivityRevisionHistory';
 
 const API_BASE = 'https://itsm-backend.joshua-r-klimek.workers.dev';
 
@@ -11,45 +49,163 @@ interface ActivityFeedProps {
   currentUserId?: string;
   onReply?: (activity: Activity) => void;
   onFlag?: (activity: Activity, flagged: boolean) => void;
+  canModify?: (activity: Activity) => boolean; // Whether the current user may edit or delete this activity
+  onEdit?: (activity: Activity, content: string) => Promise<boolean>; // Resolves true once saved
+  onDelete?: (activity: Activity) => void;
 }
 
 interface MessageActionsProps {
   activity: Activity;
   isOwn: boolean;
-  onReply: (activity: Activity) => void;
-  onFlag: (activity: Activity) => void;
+  onReply?: (activity: Activity) => void;
+  onFlag?: (activity: Activity) => void;
+  onEdit?: (activity: Activity) => void;
+  onDelete?: (activity: Activity) => void;
 }
 
-function MessageActions({ activity, isOwn, onReply, onFlag }: MessageActionsProps) {
+function MessageActions({ activity, isOwn, onReply, onFlag, onEdit, onDelete }: MessageActionsProps) {
   const isFlagged = activity.isFlagged || false;
 
   return (
     <div className={`flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity ${isOwn ? 'justify-end' : ''}`}>
-      <Button
-        variant="ghost"
-        size="sm"
-        className="h-6 px-2 text-xs"
-        onClick={() => onReply(activity)}
-        title="Reply to this message"
+      {onReply && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 px-2 text-xs"
+          onClick={() => onReply(activity)}
+          title="Reply to this message"
+        >
+          <Reply className="h-3 w-3 mr-1" />
+          Reply
+        </Button>
+      )}
+      {onFlag && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className={`h-6 px-2 text-xs ${isFlagged ? 'text-red-500 hover:text-red-600' : ''}`}
+          onClick={() => onFlag(activity)}
+          title={isFlagged ? 'Unflag message' : 'Flag as important'}
+        >
+          <Flag className={`h-3 w-3 ${isFlagged ? 'fill-current' : ''}`} />
+        </Button>
+      )}
+      {onEdit && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 px-2 text-xs"
+          onClick={() => onEdit(activity)}
+          title="Edit message"
+        >
+          <Pencil className="h-3 w-3" />
+        </Button>
+      )}
+      {onDelete && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 px-2 text-xs hover:text-destructive"
+          onClick={() => onDelete(activity)}
+          title="Delete message"
+        >
+          <Trash2 className="h-3 w-3" />
+        </Button>
+      )}
+    </div>
+  );
+}
+
+// Message text with @mentions highlighted; mentions of the current user stand out more
+function MentionText({ content, mentions, currentUserId }: { content: string; mentions?: ActivityMention[]; currentUserId?: string }) {
+  return (
+    <>
+      {splitMentions(content, mentions).map((segment, index) =>
+        segment.mention ? (
+          <span
+            key={index}
+            className={`rounded px-1 font-medium ${
+              segment.mention.userId === currentUserId
+                ? 'bg-primary text-primary-foreground'
+                : 'bg-primary/10 text-primary'
+            }`}
+            title={segment.mention.userId === currentUserId ? 'You were mentioned' : undefined}
+          >
+            {segment.text}
+          </span>
+        ) : (
+          segment.text
+        )
+      )}
+    </>
+  );
+}
+
+// Explains why auto-assignment picked an agent, from the decision stored on the activity
+function AssignmentReason({ decision }: { decision: AssignmentDecision }) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-0.5 text-xs text-primary hover:underline"
       >
-        <Reply className="h-3 w-3 mr-1" />
-        Reply
-      </Button>
-      <Button
-        variant="ghost"
-        size="sm"
-        className={`h-6 px-2 text-xs ${isFlagged ? 'text-red-500 hover:text-red-600' : ''}`}
-        onClick={() => onFlag(activity)}
-        title={isFlagged ? 'Unflag message' : 'Flag as important'}
+        <Info className="h-3 w-3" />
+        Why?
+      </button>
+      {isOpen && (
+        <ul className="mt-1 w-full max-w-md px-3 py-2 bg-muted/30 rounded-lg border text-xs text-muted-foreground list-disc list-inside space-y-0.5">
+          {describeAssignmentDecision(decision).map((reason) => (
+            <li key={reason}>{reason}</li>
+          ))}
+        </ul>
+      )}
+    </>
+  );
+}
+
+// What a fired SLA escalation step did, from the step stored on the activity
+function EscalationDetails({ escalation }: { escalation: EscalationFiredMetadata }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const details = [
+    `${escalation.ruleName}, step ${escalation.stepIndex + 1}: ${formatEscalationThreshold(escalation.step)}`,
+    ...describeEscalationActions(escalation.step.actions).filter((action) => !action.startsWith('Notify')),
+    ...(escalation.notified?.length ? [`Notified ${escalation.notified.join(', ')}`] : []),
+  ];
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-0.5 text-xs text-primary hover:underline"
       >
-        <Flag className={`h-3 w-3 ${isFlagged ? 'fill-current' : ''}`} />
-      </Button>
-    </div>
+        <Info className="h-3 w-3" />
+        Details
+      </button>
+      {isOpen && (
+        <ul className="mt-1 w-full max-w-md px-3 py-2 bg-muted/30 rounded-lg border text-xs text-muted-foreground list-disc list-inside space-y-0.5">
+          {details.map((detail) => (
+            <li key={detail}>{detail}</li>
+          ))}
+        </ul>
+      )}
+    </>
   );
 }
 
-export function ActivityFeed({ activities, currentUserId, onReply, onFlag }: ActivityFeedProps) {
+export function ActivityFeed({ activities, currentUserId, onReply, onFlag, canModify, onEdit, onDelete }: ActivityFeedProps) {
   const [expandedAttachments, setExpandedAttachments] = useState<Set<string>>(new Set());
+  const [editingActivityId, setEditingActivityId] = useState<string | null>(null);
+  const [editContent, setEditContent] = useState('');
+  const [isSavingEdit, setIsSavingEdit] = useState(false);
+  const [historyActivityId, setHistoryActivityId] = useState<string | null>(null);
+  const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
+  const [filter, setFilter] = useState<ActivityFilter>(EMPTY_ACTIVITY_FILTER);
+  const { activitySortOrder, updateActivitySortOrder } = useViewPreferences();
 
   const toggleAttachmentExpansion = (activityId: string) => {
     setExpandedAttachments(prev => {
@@ -63,6 +219,25 @@ export function ActivityFeed({ activities, currentUserId, onReply, onFlag }: Act
     });
   };
 
+  const toggleGroupExpansion = (groupId: string) => {
+    setExpandedGroups(prev => {
+      const newSet = new Set(prev);
+      if (newSet.has(groupId)) {
+        newSet.delete(groupId);
+      } else {
+        newSet.add(groupId);
+      }
+      return newSet;
+    });
+  };
+
+  const toggleTypeFilter = (type: ActivityType) => {
+    setFilter(prev => ({
+      ...prev,
+      types: prev.types.includes(type) ? prev.types.filter(t => t !== type) : [...prev.types, type],
+    }));
+  };
+
   const formatFileSize = (bytes: number) => {
     if (bytes < 1024) return `${bytes} B`;
     if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
@@ -82,6 +257,32 @@ export function ActivityFeed({ activities, currentUserId, onReply, onFlag }: Act
     }
   };
 
+  const handleStartEdit = (activity: Activity) => {
+    setEditingActivityId(activity.id);
+    setEditContent(activity.content);
+  };
+
+  const handleSaveEdit = async (activity: Activity) => {
+    if (!onEdit || !editContent.trim()) return;
+    if (editContent.trim() === activity.content) {
+      setEditingActivityId(null);
+      return;
+    }
+
+    setIsSavingEdit(true);
+    const saved = await onEdit(activity, editContent.trim());
+    setIsSavingEdit(false);
+    if (saved) {
+      setEditingActivityId(null);
+    }
+  };
+
+  const handleDelete = (activity: Activity) => {
+    if (onDelete && confirm('Delete this message? Other participants will see that it was deleted.')) {
+      onDelete(activity);
+    }
+  };
+
   const getActivityIcon = (type: Activity['type']) => {
     switch (type) {
       case 'comment':
@@ -101,255 +302,445 @@ export function ActivityFeed({ activities, currentUserId, onReply, onFlag }: Act
     }
   };
 
-  return (
-    <div className="space-y-3">
-      {activities.map((activity) => {
-        const isSystemUpdate = activity.type === 'status_change' || activity.type === 'assignment' || activity.type === 'priority_change' || activity.type === 'cc_change' || activity.type === 'system';
-        const isAttachment = activity.type === 'attachment';
-        const isInternalNote = activity.type === 'internal_note';
-        const isFlagged = activity.isFlagged || false;
-        const isOwnMessage = currentUserId && activity.author.id === currentUserId;
-
-        // Attachment system message - centered with download button(s)
-        if (isAttachment) {
-          const metadata = activity.metadata || {};
-          const hasMultipleAttachments = metadata.attachments && metadata.attachments.length > 1;
-          const isExpanded = expandedAttachments.has(activity.id);
-
-          // Single attachment - simple download button
-          if (!hasMultipleAttachments) {
-            return (
-              <div key={activity.id} className="flex items-center justify-center py-2">
-                <div className="flex items-center gap-3 px-4 py-2 bg-muted/50 rounded-lg border">
-                  <div className="h-8 w-8 rounded-full bg-primary/10 flex items-center justify-center text-primary">
-                    <Paperclip className="h-4 w-4" />
-                  </div>
-                  <div className="flex-1">
-                    <p className="text-sm">
-                      <span className="font-medium text-foreground">{activity.author.name}</span>{' '}
-                      <span className="text-muted-foreground">{activity.content}</span>
-                    </p>
-                    <p className="text-xs text-muted-foreground mt-0.5">
-                      {formatRelativeTime(activity.createdAt)}
-                    </p>
-                  </div>
-                  <a
-                    href={`/api/attachments/${metadata.attachmentId}/download?user_id=${currentUserId}`}
-                    download
-                    target="_blank"
-                    rel="noopener noreferrer"
-                  >
-                    <Button variant="outline" size="sm" className="h-8 text-xs">
-                      <Download className="h-3.5 w-3.5 mr-1.5" />
-                      Download
-                    </Button>
-                  </a>
-                </div>
-              </div>
-            );
-          }
-
-          // Multiple attachments - expandable card
-          return (
-            <div key={activity.id} className="flex items-center justify-center py-2">
-              <div className="bg-muted/50 rounded-lg border w-full max-w-2xl">
-                {/* Header - clickable to expand/collapse */}
-                <div
-                  className="flex items-center gap-3 px-4 py-3 cursor-pointer hover:bg-muted/70 transition-colors rounded-lg"
-                  onClick={() => toggleAttachmentExpansion(activity.id)}
-                >
-                  <div className="h-8 w-8 rounded-full bg-primary/10 flex items-center justify-center text-primary flex-shrink-0">
-                    <Paperclip className="h-4 w-4" />
-                  </div>
-                  <div className="flex-1 min-w-0">
-                    <p className="text-sm">
-                      <span className="font-medium text-foreground">{activity.author.name}</span>{' '}
-                      <span className="text-muted-foreground">
-                        uploaded {metadata.fileCount} file{metadata.fileCount > 1 ? 's' : ''} ({formatFileSize(metadata.totalSize)})
-                      </span>
-                    </p>
-                    <p className="text-xs text-muted-foreground mt-0.5">
-                      {formatRelativeTime(activity.createdAt)}
-                    </p>
-                  </div>
-                  <Button variant="ghost" size="sm" className="h-8 w-8 p-0 flex-shrink-0">
-                    {isExpanded ? (
-                      <ChevronUp className="h-4 w-4" />
-                    ) : (
-                      <ChevronDown className="h-4 w-4" />
-                    )}
-                  </Button>
-                </div>
+  const renderActivity = (activity: Activity) => {
+    const isSystemUpdate = isSystemActivity(activity);
+    const isAttachment = activity.type === 'attachment';
+    const isInternalNote = activity.type === 'internal_note';
+    const isFlagged = activity.isFlagged || false;
+    const isOwnMessage = currentUserId && activity.author.id === currentUserId;
+    const isDeleted = activity.isDeleted || false;
+    const isEditing = editingActivityId === activity.id;
+    const isModifiable = !!canModify?.(activity);
 
-                {/* Expanded file list */}
-                {isExpanded && (
-                  <div className="border-t px-4 py-3 space-y-2">
-                    {metadata.attachments.map((attachment: any) => (
-                      <div
-                        key={attachment.attachmentId}
-                        className="flex items-center justify-between gap-3 p-2 bg-background rounded border hover:border-primary/50 transition-colors"
-                      >
-                        <div className="flex items-center gap-2 flex-1 min-w-0">
-                          <Paperclip className="h-3.5 w-3.5 text-muted-foreground flex-shrink-0" />
-                          <div className="min-w-0 flex-1">
-                            <p className="text-sm font-medium truncate">{attachment.fileName}</p>
-                            <p className="text-xs text-muted-foreground">
-                              {formatFileSize(attachment.fileSize)} • {attachment.fileType}
-                            </p>
-                          </div>
-                        </div>
-                        <a
-                          href={`/api/attachments/${attachment.attachmentId}/download?user_id=${currentUserId}`}
-                          download
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          onClick={(e) => e.stopPropagation()}
-                        >
-                          <Button variant="outline" size="sm" className="h-8 text-xs">
-                            <Download className="h-3.5 w-3.5 mr-1.5" />
-                            Download
-                          </Button>
-                        </a>
-                      </div>
-                    ))}
-                  </div>
-                )}
+    // Attachment system message - centered with download button(s)
+    if (isAttachment) {
+      const metadata = activity.metadata || {};
+      const hasMultipleAttachments = metadata.attachments && metadata.attachments.length > 1;
+      const isExpanded = expandedAttachments.has(activity.id);
+
+      // Single attachment - simple download button
+      if (!hasMultipleAttachments) {
+        return (
+          <div key={activity.id} className="flex items-center justify-center py-2">
+            <div className="flex items-center gap-3 px-4 py-2 bg-muted/50 rounded-lg border">
+              <div className="h-8 w-8 rounded-full bg-primary/10 flex items-center justify-center text-primary">
+                <Paperclip className="h-4 w-4" />
+              </div>
+              <div className="flex-1">
+                <p className="text-sm">
+                  <span className="font-medium text-foreground">{activity.author.name}</span>{' '}
+                  <span className="text-muted-foreground">{activity.content}</span>
+                </p>
+                <p className="text-xs text-muted-foreground mt-0.5">
+                  {formatRelativeTime(activity.createdAt)}
+                </p>
               </div>
+              <a
+                href={`/api/attachments/${metadata.attachmentId}/download?user_id=${currentUserId}`}
+                download
+                target="_blank"
+                rel="noopener noreferrer"
+              >
+                <Button variant="outline" size="sm" className="h-8 text-xs">
+                  <Download className="h-3.5 w-3.5 mr-1.5" />
+                  Download
+                </Button>
+              </a>
             </div>
-          );
-        }
-
-        // System updates - centered
-        if (isSystemUpdate) {
-          return (
-            <div key={activity.id} className="flex items-center justify-center py-2">
-              <div className="flex items-center gap-2 px-3 py-1.5 bg-muted/50 rounded-full">
-                <div className="h-5 w-5 rounded-full bg-muted flex items-center justify-center text-muted-foreground">
-                  {getActivityIcon(activity.type)}
-                </div>
-                <p className="text-xs text-muted-foreground">
-                  {activity.type === 'system' ? (
-                    <>
-                      <span className="font-medium text-foreground">{activity.content}</span>
-                      {activity.author?.name && <> by <span className="font-medium text-foreground">{activity.author.name}</span></>}
-                    </>
-                  ) : (
-                    <>
-                      <span className="font-medium text-foreground">{activity.author.name}</span> {activity.content.toLowerCase()}
-                    </>
-                  )}
+          </div>
+        );
+      }
+
+      // Multiple attachments - expandable card
+      return (
+        <div key={activity.id} className="flex items-center justify-center py-2">
+          <div className="bg-muted/50 rounded-lg border w-full max-w-2xl">
+            {/* Header - clickable to expand/collapse */}
+            <div
+              className="flex items-center gap-3 px-4 py-3 cursor-pointer hover:bg-muted/70 transition-colors rounded-lg"
+              onClick={() => toggleAttachmentExpansion(activity.id)}
+            >
+              <div className="h-8 w-8 rounded-full bg-primary/10 flex items-center justify-center text-primary flex-shrink-0">
+                <Paperclip className="h-4 w-4" />
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm">
+                  <span className="font-medium text-foreground">{activity.author.name}</span>{' '}
+                  <span className="text-muted-foreground">
+                    uploaded {metadata.fileCount} file{metadata.fileCount > 1 ? 's' : ''} ({formatFileSize(metadata.totalSize)})
+                  </span>
                 </p>
-                <span className="text-xs text-muted-foreground">
+                <p className="text-xs text-muted-foreground mt-0.5">
                   {formatRelativeTime(activity.createdAt)}
-                </span>
+                </p>
               </div>
+              <Button variant="ghost" size="sm" className="h-8 w-8 p-0 flex-shrink-0">
+                {isExpanded ? (
+                  <ChevronUp className="h-4 w-4" />
+                ) : (
+                  <ChevronDown className="h-4 w-4" />
+                )}
+              </Button>
             </div>
-          );
-        }
 
-        // Chat messages - left or right aligned
-        return (
+            {/* Expanded file list */}
+            {isExpanded && (
+              <div className="border-t px-4 py-3 space-y-2">
+                {metadata.attachments.map((attachment: any) => (
+                  <div
+                    key={attachment.attachmentId}
+                    className="flex items-center justify-between gap-3 p-2 bg-background rounded border hover:border-primary/50 transition-colors"
+                  >
+                    <div className="flex items-center gap-2 flex-1 min-w-0">
+                      <Paperclip className="h-3.5 w-3.5 text-muted-foreground flex-shrink-0" />
+                      <div className="min-w-0 flex-1">
+                        <p className="text-sm font-medium truncate">{attachment.fileName}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatFileSize(attachment.fileSize)} • {attachment.fileType}
+                        </p>
+                      </div>
+                    </div>
+                    <a
+                      href={`/api/attachments/${attachment.attachmentId}/download?user_id=${currentUserId}`}
+                      download
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      onClick={(e) => e.stopPropagation()}
+                    >
+                      <Button variant="outline" size="sm" className="h-8 text-xs">
+                        <Download className="h-3.5 w-3.5 mr-1.5" />
+                        Download
+                      </Button>
+                    </a>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      );
+    }
+
+    // System updates - centered
+    if (isSystemUpdate) {
+      const assignmentDecision: AssignmentDecision | undefined =
+        activity.type === 'assignment' ? activity.metadata?.assignment : undefined;
+      const escalation: EscalationFiredMetadata | undefined =
+        activity.type === 'system' ? activity.metadata?.escalation : undefined;
+
+      return (
+        <div key={activity.id} className="flex flex-wrap items-center justify-center gap-x-2 py-2">
+          <div className="flex items-center gap-2 px-3 py-1.5 bg-muted/50 rounded-full">
+            <div className="h-5 w-5 rounded-full bg-muted flex items-center justify-center text-muted-foreground">
+              {getActivityIcon(activity.type)}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {activity.type === 'system' ? (
+                <>
+                  <span className="font-medium text-foreground">{activity.content}</span>
+                  {activity.author?.name && <> by <span className="font-medium text-foreground">{activity.author.name}</span></>}
+                </>
+              ) : (
+                <>
+                  <span className="font-medium text-foreground">{activity.author.name}</span> {activity.content.toLowerCase()}
+                </>
+              )}
+            </p>
+            <span className="text-xs text-muted-foreground">
+              {formatRelativeTime(activity.createdAt)}
+            </span>
+          </div>
+          {assignmentDecision && <AssignmentReason decision={assignmentDecision} />}
+          {escalation && <EscalationDetails escalation={escalation} />}
+        </div>
+      );
+    }
+
+    // Chat messages - left or right aligned
+    return (
+      <div
+        key={activity.id}
+        className={`flex gap-2 ${isOwnMessage ? 'justify-end' : 'justify-start'}`}
+      >
+        {/* Avatar - left side for others */}
+        {!isOwnMessage && (
+          <div className="h-8 w-8 rounded-full bg-primary flex items-center justify-center text-primary-foreground text-xs font-medium flex-shrink-0 mt-1">
+            {getInitials(activity.author.name)}
+          </div>
+        )}
+
+        {/* Message bubble */}
+        <div className={`group flex flex-col max-w-[70%] ${isOwnMessage ? 'items-end' : 'items-start'}`}>
+          {/* Author name - above bubble */}
+          <div className={`text-xs font-medium text-muted-foreground px-1 mb-1 ${isOwnMessage ? 'text-right' : 'text-left'}`}>
+            {activity.author.name}
+          </div>
+
+          {/* Bubble container */}
           <div
-            key={activity.id}
-            className={`flex gap-2 ${isOwnMessage ? 'justify-end' : 'justify-start'}`}
+            className={`rounded-lg border p-3 ${
+              isFlagged
+                ? 'border-red-300 dark:border-red-900 bg-red-50/50 dark:bg-red-950/20'
+                : isOwnMessage
+                ? 'border-primary/30 bg-primary/5'
+                : 'border-border bg-card'
+            }`}
           >
-            {/* Avatar - left side for others */}
-            {!isOwnMessage && (
-              <div className="h-8 w-8 rounded-full bg-primary flex items-center justify-center text-primary-foreground text-xs font-medium flex-shrink-0 mt-1">
-                {getInitials(activity.author.name)}
+            {/* Badges */}
+            <div className="flex items-center gap-1.5 mb-2 flex-wrap">
+              {isFlagged && (
+                <span className="text-xs bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-200 px-2 py-0.5 rounded flex items-center gap-1">
+                  <Flag className="h-3 w-3 fill-current" />
+                  Flagged
+                </span>
+              )}
+              {isInternalNote && (
+                <span className="text-xs bg-yellow-200 dark:bg-yellow-900 text-yellow-900 dark:text-yellow-200 px-2 py-0.5 rounded">
+                  Internal Note
+                </span>
+              )}
+            </div>
+
+            {/* Parent activity reference */}
+            {activity.parentActivity && !activity.parentActivity.isInternal && (
+              <div className="mb-2 p-2 bg-muted/30 rounded text-xs border-l-2 border-primary/50">
+                <span className="text-muted-foreground">Replying to </span>
+                <span className="font-medium">{activity.parentActivity.author.name}</span>
+                <p className="text-muted-foreground mt-1 italic line-clamp-2">
+                  "{activity.parentActivity.contentPreview}"
+                </p>
+              </div>
+            )}
+
+            {/* Message content */}
+            {isDeleted ? (
+              <p className="text-sm italic text-muted-foreground">
+                This message was deleted{activity.deletedBy && activity.deletedBy.name !== activity.author.name ? ` by ${activity.deletedBy.name}` : ''}
+              </p>
+            ) : isEditing ? (
+              <div className="space-y-2 min-w-[16rem]">
+                <Textarea
+                  value={editContent}
+                  onChange={(e) => setEditContent(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Escape') {
+                      setEditingActivityId(null);
+                    } else if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+                      e.preventDefault();
+                      handleSaveEdit(activity);
+                    }
+                  }}
+                  className="min-h-[80px] text-sm"
+                  disabled={isSavingEdit}
+                  autoFocus
+                />
+                <div className="flex justify-end gap-2">
+                  <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setEditingActivityId(null)} disabled={isSavingEdit}>
+                    Cancel
+                  </Button>
+                  <Button size="sm" className="h-7 text-xs" onClick={() => handleSaveEdit(activity)} disabled={isSavingEdit || !editContent.trim()}>
+                    {isSavingEdit && <Loader2 className="h-3 w-3 mr-1.5 animate-spin" />}
+                    Save
+                  </Button>
+                </div>
               </div>
+            ) : activity.contentFormat === 'markdown' ? (
+              <MarkdownContent content={activity.content} mentions={activity.mentions} currentUserId={currentUserId} />
+            ) : (
+              <p className="text-sm whitespace-pre-wrap break-words">
+                <MentionText content={activity.content} mentions={activity.mentions} currentUserId={currentUserId} />
+              </p>
             )}
 
-            {/* Message bubble */}
-            <div className={`group flex flex-col max-w-[70%] ${isOwnMessage ? 'items-end' : 'items-start'}`}>
-              {/* Author name - above bubble */}
-              <div className={`text-xs font-medium text-muted-foreground px-1 mb-1 ${isOwnMessage ? 'text-right' : 'text-left'}`}>
-                {activity.author.name}
+            {/* Attachments */}
+            {!isDeleted && activity.attachments && activity.attachments.length > 0 && (
+              <div className="mt-2 space-y-1">
+                {activity.attachments.map((attachment) => (
+                  <a
+                    key={attachment.id}
+                    href={`${API_BASE}${attachment.url}?user_id=${currentUserId}`}
+                    download
+                    className="text-xs text-primary hover:underline cursor-pointer block"
+                    target="_blank"
+                    rel="noopener noreferrer"
+                  >
+                    📎 {attachment.fileName}
+                  </a>
+                ))}
               </div>
+            )}
+          </div>
 
-              {/* Bubble container */}
-              <div
-                className={`rounded-lg border p-3 ${
-                  isFlagged
-                    ? 'border-red-300 dark:border-red-900 bg-red-50/50 dark:bg-red-950/20'
-                    : isOwnMessage
-                    ? 'border-primary/30 bg-primary/5'
-                    : 'border-border bg-card'
-                }`}
+          {/* Timestamp and actions - below bubble */}
+          <div className={`flex items-center gap-2 mt-1 px-1 ${isOwnMessage ? 'flex-row-reverse' : 'flex-row'}`}>
+            <span className="text-xs text-muted-foreground">
+              {formatRelativeTime(activity.createdAt)}
+            </span>
+            {activity.editedAt && !isDeleted && (
+              <button
+                type="button"
+                onClick={() => setHistoryActivityId(activity.id)}
+                className="text-xs text-muted-foreground hover:text-foreground hover:underline"
+                title="View edit history"
               >
-                {/* Badges */}
-                <div className="flex items-center gap-1.5 mb-2 flex-wrap">
-                  {isFlagged && (
-                    <span className="text-xs bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-200 px-2 py-0.5 rounded flex items-center gap-1">
-                      <Flag className="h-3 w-3 fill-current" />
-                      Flagged
-                    </span>
-                  )}
-                  {isInternalNote && (
-                    <span className="text-xs bg-yellow-200 dark:bg-yellow-900 text-yellow-900 dark:text-yellow-200 px-2 py-0.5 rounded">
-                      Internal Note
-                    </span>
-                  )}
-                </div>
+                (edited)
+              </button>
+            )}
+            {!isDeleted && !isEditing && ((onReply && onFlag) || isModifiable) && (
+              <MessageActions
+                activity={activity}
+                isOwn={!!isOwnMessage}
+                onReply={onReply && onFlag ? handleReply : undefined}
+                onFlag={onReply && onFlag ? handleFlag : undefined}
+                onEdit={isModifiable && onEdit ? handleStartEdit : undefined}
+                onDelete={isModifiable && onDelete ? handleDelete : undefined}
+              />
+            )}
+          </div>
+        </div>
 
-                {/* Parent activity reference */}
-                {activity.parentActivity && !activity.parentActivity.isInternal && (
-                  <div className="mb-2 p-2 bg-muted/30 rounded text-xs border-l-2 border-primary/50">
-                    <span className="text-muted-foreground">Replying to </span>
-                    <span className="font-medium">{activity.parentActivity.author.name}</span>
-                    <p className="text-muted-foreground mt-1 italic line-clamp-2">
-                      "{activity.parentActivity.contentPreview}"
-                    </p>
-                  </div>
-                )}
+        {/* Avatar - right side for own messages */}
+        {isOwnMessage && (
+          <div className="h-8 w-8 rounded-full bg-primary flex items-center justify-center text-primary-foreground text-xs font-medium flex-shrink-0 mt-1">
+            {getInitials(activity.author.name)}
+          </div>
+        )}
+      </div>
+    );
+  };
 
-                {/* Message content */}
-                <p className="text-sm whitespace-pre-wrap break-words">{activity.content}</p>
-
-                {/* Attachments */}
-                {activity.attachments && activity.attachments.length > 0 && (
-                  <div className="mt-2 space-y-1">
-                    {activity.attachments.map((attachment) => (
-                      <a
-                        key={attachment.id}
-                        href={`${API_BASE}${attachment.url}?user_id=${currentUserId}`}
-                        download
-                        className="text-xs text-primary hover:underline cursor-pointer block"
-                        target="_blank"
-                        rel="noopener noreferrer"
-                      >
-                        📎 {attachment.fileName}
-                      </a>
-                    ))}
-                  </div>
-                )}
-              </div>
+  // Activities arrive newest first
+  const typeCounts = activities.reduce<Partial<Record<ActivityType, number>>>((counts, activity) => {
+    counts[activity.type] = (counts[activity.type] || 0) + 1;
+    return counts;
+  }, {});
+  const flaggedCount = activities.filter(a => a.isFlagged).length;
+  const filteredActivities = filterActivities(activities, filter);
+  const orderedActivities = activitySortOrder === 'oldest' ? [...filteredActivities].reverse() : filteredActivities;
+  const rows = groupSystemActivities(orderedActivities);
+  const isFiltered = isActivityFilterActive(filter);
+  const historyActivity = activities.find(a => a.id === historyActivityId);
 
-              {/* Timestamp and actions - below bubble */}
-              <div className={`flex items-center gap-2 mt-1 px-1 ${isOwnMessage ? 'flex-row-reverse' : 'flex-row'}`}>
-                <span className="text-xs text-muted-foreground">
-                  {formatRelativeTime(activity.createdAt)}
-                </span>
-                {onReply && onFlag && (
-                  <MessageActions
-                    activity={activity}
-                    isOwn={!!isOwnMessage}
-                    onReply={handleReply}
-                    onFlag={handleFlag}
-                  />
-                )}
-              </div>
-            </div>
+  const renderSystemGroup = (groupId: string, groupActivities: Activity[]) => {
+    const isExpanded = expandedGroups.has(groupId);
+    const authors = [...new Set(groupActivities.map(a => a.author?.name).filter(Boolean))];
+    const types = [...new Set(groupActivities.map(a => ACTIVITY_TYPE_LABELS[a.type].toLowerCase()))];
+    const latest = groupActivities.reduce((a, b) => (new Date(a.createdAt) > new Date(b.createdAt) ? a : b));
 
-            {/* Avatar - right side for own messages */}
-            {isOwnMessage && (
-              <div className="h-8 w-8 rounded-full bg-primary flex items-center justify-center text-primary-foreground text-xs font-medium flex-shrink-0 mt-1">
-                {getInitials(activity.author.name)}
-              </div>
+    return (
+      <div key={groupId} className="flex flex-col items-center py-2">
+        <button
+          type="button"
+          onClick={() => toggleGroupExpansion(groupId)}
+          className="flex items-center gap-2 px-3 py-1.5 bg-muted/50 hover:bg-muted rounded-full transition-colors"
+        >
+          <div className="h-5 w-5 rounded-full bg-muted flex items-center justify-center text-muted-foreground">
+            <Layers className="h-3.5 w-3.5" />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            <span className="font-medium text-foreground">{groupActivities.length} updates</span> ({types.join(', ')})
+            {authors.length > 0 && (
+              <> by <span className="font-medium text-foreground">{authors.slice(0, 2).join(', ')}</span>
+                {authors.length > 2 && ` +${authors.length - 2}`}
+              </>
             )}
+          </p>
+          <span className="text-xs text-muted-foreground">{formatRelativeTime(latest.createdAt)}</span>
+          {isExpanded ? (
+            <ChevronUp className="h-3.5 w-3.5 text-muted-foreground" />
+          ) : (
+            <ChevronDown className="h-3.5 w-3.5 text-muted-foreground" />
+          )}
+        </button>
+        {isExpanded && <div className="w-full">{groupActivities.map(renderActivity)}</div>}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Filters, search and sort order */}
+      {activities.length > 0 && (
+        <div className="sticky top-0 z-10 bg-card space-y-2 pb-3 border-b">
+          <div className="flex items-center gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-muted-foreground" />
+              <Input
+                value={filter.search}
+                onChange={(e) => setFilter({ ...filter, search: e.target.value })}
+                placeholder="Search this conversation..."
+                className="h-8 pl-8 text-sm"
+              />
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 text-xs shrink-0"
+              onClick={() => updateActivitySortOrder(activitySortOrder === 'newest' ? 'oldest' : 'newest')}
+              title="Change sort order"
+            >
+              {activitySortOrder === 'newest' ? (
+                <ArrowDownWideNarrow className="h-3.5 w-3.5 mr-1.5" />
+              ) : (
+                <ArrowUpNarrowWide className="h-3.5 w-3.5 mr-1.5" />
+              )}
+              {activitySortOrder === 'newest' ? 'Newest first' : 'Oldest first'}
+            </Button>
           </div>
-        );
-      })}
+          <div className="flex flex-wrap items-center gap-1.5">
+            {(Object.keys(ACTIVITY_TYPE_LABELS) as ActivityType[])
+              .filter(type => typeCounts[type])
+              .map(type => (
+                <Badge
+                  key={type}
+                  variant={filter.types.includes(type) ? 'default' : 'outline'}
+                  className="cursor-pointer font-normal"
+                  onClick={() => toggleTypeFilter(type)}
+                >
+                  {ACTIVITY_TYPE_LABELS[type]}
+                  <span className="ml-1 opacity-70">{typeCounts[type]}</span>
+                </Badge>
+              ))}
+            {flaggedCount > 0 && (
+              <Badge
+                variant={filter.flaggedOnly ? 'destructive' : 'outline'}
+                className="cursor-pointer font-normal gap-1"
+                onClick={() => setFilter({ ...filter, flaggedOnly: !filter.flaggedOnly })}
+              >
+                <Flag className="h-3 w-3" />
+                Flagged
+                <span className="opacity-70">{flaggedCount}</span>
+              </Badge>
+            )}
+            {isFiltered && (
+              <button
+                type="button"
+                onClick={() => setFilter(EMPTY_ACTIVITY_FILTER)}
+                className="text-xs text-muted-foreground hover:text-foreground ml-1"
+              >
+                Clear ({filteredActivities.length} of {activities.length})
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {isFiltered && filteredActivities.length === 0 && (
+        <p className="text-sm text-muted-foreground text-center py-6">No activity matches these filters</p>
+      )}
+
+      {rows.map(row =>
+        row.kind === 'system_group' ? renderSystemGroup(row.id, row.activities) : renderActivity(row.activity)
+      )}
+
+      {historyActivity && (
+        <ActivityRevisionHistory
+          open
+          onOpenChange={(open) => !open && setHistoryActivityId(null)}
+          activity={historyActivity}
+          currentUserId={currentUserId}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,79 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Loader2 } from 'lucide-react';
+import { MarkdownContent } from './MarkdownContent';
+import { useActivityRevisionsQuery } from '@/hooks/useTicketsQuery';
+import { formatRelativeTime } from '@/lib/utils';
+import type { Activity } from '@/types';
+
+interface ActivityRevisionHistoryProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  activity: Activity;
+  currentUserId?: string;
+}
+
+function RevisionContent({ content, format, currentUserId }: { content: string; format?: 'plain' | 'markdown'; currentUserId?: string }) {
+  return format === 'markdown' ? (
+    <MarkdownContent content={content} currentUserId={currentUserId} />
+  ) : (
+    <p className="text-sm whitespace-pre-wrap break-words">{content}</p>
+  );
+}
+
+export function ActivityRevisionHistory({ open, onOpenChange, activity, currentUserId }: ActivityRevisionHistoryProps) {
+  const { data: revisions = [], isLoading, error } = useActivityRevisionsQuery(activity.ticketId, activity.id, open);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Edit history</DialogTitle>
+          <DialogDescription>
+            {activity.author.name}'s message, edited {activity.editCount || revisions.length} time
+            {(activity.editCount || revisions.length) === 1 ? '' : 's'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-96 overflow-y-auto space-y-3">
+          {/* Current version */}
+          <div className="rounded-md border border-primary/30 bg-primary/5 p-3 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <Badge variant="default">Current</Badge>
+              {activity.editedAt && (
+                <span className="text-xs text-muted-foreground">Edited {formatRelativeTime(activity.editedAt)}</span>
+              )}
+            </div>
+            <RevisionContent content={activity.content} format={activity.contentFormat} currentUserId={currentUserId} />
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : error ? (
+            <p className="text-sm text-destructive text-center py-6">{error.message}</p>
+          ) : (
+            revisions.map((revision, index) => (
+              <div key={revision.id} className="rounded-md border p-3 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <Badge variant="outline">{index === revisions.length - 1 ? 'Original' : `Version ${revisions.length - index}`}</Badge>
+                  <span className="text-xs text-muted-foreground">
+                    Replaced by {revision.editedBy.name} {formatRelativeTime(revision.editedAt)}
+                  </span>
+                </div>
+                <RevisionContent content={revision.content} format={revision.contentFormat} currentUserId={currentUserId} />
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
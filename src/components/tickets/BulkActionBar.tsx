@@ -0,0 +1,539 @@
+import { useState, useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  X,
+  ChevronDown,
+  Tag,
+  GitMerge,
+  Trash2,
+  Loader2,
+  CheckCircle2,
+  XCircle,
+  UserPlus,
+} from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePermissions } from '@/hooks/usePermissions';
+import {
+  useUpdateTicketMutation,
+  useDeleteTicketMutation,
+  useMergeTicketMutation,
+  type TicketUpdateField,
+} from '@/hooks/useTicketsQuery';
+import { fetchWithAuth } from '@/lib/fetchWithAuth';
+import { usersCache } from '@/lib/usersCache';
+import { cn, getInitials } from '@/lib/utils';
+import type { Ticket, TicketStatus, TicketPriority, User } from '@/types';
+
+const API_BASE = 'https://itsm-backend.joshua-r-klimek.workers.dev';
+
+const STATUS_OPTIONS: { value: TicketStatus; label: string }[] = [
+  { value: 'new', label: 'New' },
+  { value: 'open', label: 'Open' },
+  { value: 'in_progress', label: 'In Progress' },
+  { value: 'waiting', label: 'Waiting' },
+  { value: 'resolved', label: 'Resolved' },
+  { value: 'closed', label: 'Closed' },
+];
+
+const PRIORITY_OPTIONS: { value: TicketPriority; label: string }[] = [
+  { value: 'low', label: 'Low' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'high', label: 'High' },
+  { value: 'urgent', label: 'Urgent' },
+];
+
+interface BulkResult {
+  ticketId: string;
+  success: boolean;
+  error?: string;
+}
+
+interface BulkActionBarProps {
+  selectedTickets: Ticket[];
+  onSelectionChange: (ticketIds: Set<string>) => void;
+}
+
+export function BulkActionBar({ selectedTickets, onSelectionChange }: BulkActionBarProps) {
+  const { user } = useAuth();
+  const { can } = usePermissions();
+  const queryClient = useQueryClient();
+  const updateTicketMutation = useUpdateTicketMutation();
+  const deleteTicketMutation = useDeleteTicketMutation();
+  const mergeTicketMutation = useMergeTicketMutation();
+
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState({ current: 0, total: 0 });
+  const [lastAction, setLastAction] = useState<string | null>(null);
+  const [results, setResults] = useState<BulkResult[]>([]);
+  const [showResults, setShowResults] = useState(false);
+
+  // Assignee picker
+  const [isAssigneeOpen, setIsAssigneeOpen] = useState(false);
+  const [agents, setAgents] = useState<User[]>([]);
+  const [assigneeSearch, setAssigneeSearch] = useState('');
+
+  // Tag editor
+  const [isTagsOpen, setIsTagsOpen] = useState(false);
+  const [tagInput, setTagInput] = useState('');
+
+  // Merge / delete dialogs
+  const [isMergeOpen, setIsMergeOpen] = useState(false);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+
+  // Load agents when the assignee picker opens (check cache first)
+  useEffect(() => {
+    if (!isAssigneeOpen || agents.length > 0) return;
+
+    const eligible = (users: User[]) =>
+      users.filter((u) => ['agent', 'manager', 'admin'].includes(u.role));
+
+    const cachedUsers = usersCache.get();
+    if (cachedUsers) {
+      setAgents(eligible(cachedUsers));
+      return;
+    }
+
+    const fetchUsers = async () => {
+      try {
+        const response = await fetchWithAuth(`${API_BASE}/api/users`);
+        const data = await response.json();
+        if (data.success) {
+          usersCache.set(data.users);
+          setAgents(eligible(data.users));
+        }
+      } catch (error) {
+        console.error('Failed to fetch users:', error);
+      }
+    };
+
+    fetchUsers();
+  }, [isAssigneeOpen, agents.length]);
+
+  /**
+   * Run an action against each selected ticket in turn and collect per-ticket results.
+   * Tickets are processed sequentially so each optimistic update can be rolled back on its own.
+   */
+  const runBulk = async (
+    label: string,
+    tickets: Ticket[],
+    action: (ticket: Ticket) => Promise<unknown>
+  ) => {
+    setIsRunning(true);
+    setLastAction(label);
+    setResults([]);
+    setProgress({ current: 0, total: tickets.length });
+
+    const collected: BulkResult[] = [];
+    for (const ticket of tickets) {
+      try {
+        await action(ticket);
+        collected.push({ ticketId: ticket.id, success: true });
+      } catch (error) {
+        collected.push({
+          ticketId: ticket.id,
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+      setProgress((prev) => ({ ...prev, current: prev.current + 1 }));
+    }
+
+    setResults(collected);
+    setShowResults(true);
+    setIsRunning(false);
+
+    // Keep failed tickets selected so they can be retried
+    onSelectionChange(new Set(collected.filter((r) => !r.success).map((r) => r.ticketId)));
+  };
+
+  const runUpdate = (label: string, field: TicketUpdateField, getValue: (ticket: Ticket) => string | string[] | null) => {
+    if (!user) return;
+
+    runBulk(label, selectedTickets, (ticket) =>
+      updateTicketMutation.mutateAsync({
+        ticketId: ticket.id,
+        field,
+        value: getValue(ticket),
+        userId: user.id,
+        silent: true,
+      })
+    ).then(() => {
+      // Silent updates skip their own refetch, so the lists are refreshed once for the whole run
+      queryClient.invalidateQueries({ queryKey: ['tickets'] });
+      if (field === 'tags') {
+        queryClient.invalidateQueries({ queryKey: ['tags'] });
+      }
+    });
+  };
+
+  const handleAddTag = () => {
+    const tag = tagInput.trim();
+    if (!tag) return;
+
+    setIsTagsOpen(false);
+    setTagInput('');
+    runUpdate(`Add tag "${tag}"`, 'tags', (ticket) =>
+      ticket.tags?.includes(tag) ? ticket.tags : [...(ticket.tags || []), tag]
+    );
+  };
+
+  const handleRemoveTag = () => {
+    const tag = tagInput.trim();
+    if (!tag) return;
+
+    setIsTagsOpen(false);
+    setTagInput('');
+    runUpdate(`Remove tag "${tag}"`, 'tags', (ticket) =>
+      (ticket.tags || []).filter((t) => t !== tag)
+    );
+  };
+
+  const handleMerge = () => {
+    if (!user || !mergeTargetId) return;
+
+    const sources = selectedTickets.filter((t) => t.id !== mergeTargetId);
+    setIsMergeOpen(false);
+    runBulk(`Merge into ${mergeTargetId}`, sources, (ticket) =>
+      mergeTicketMutation.mutateAsync({
+        sourceTicketId: ticket.id,
+        targetTicketId: mergeTargetId,
+        userId: user.id,
+        silent: true,
+      })
+    ).then(() => queryClient.invalidateQueries({ queryKey: ['tickets'] }));
+  };
+
+  const handleDelete = () => {
+    setIsDeleteOpen(false);
+    runBulk('Delete', selectedTickets, (ticket) =>
+      deleteTicketMutation.mutateAsync({ ticketId: ticket.id, silent: true })
+    ).then(() => queryClient.invalidateQueries({ queryKey: ['tickets'] }));
+  };
+
+  const filteredAgents = agents.filter((agent) =>
+    agent.name.toLowerCase().includes(assigneeSearch.toLowerCase())
+  );
+
+  // Existing tags on the selection, offered as quick picks
+  const selectionTags = Array.from(new Set(selectedTickets.flatMap((t) => t.tags || []))).sort();
+
+  const failedCount = results.filter((r) => !r.success).length;
+  const succeededCount = results.length - failedCount;
+
+  if (selectedTickets.length === 0 && !showResults && !isRunning) return null;
+
+  return (
+    <div className="mb-4 rounded-md border bg-muted/30">
+      <div className="flex flex-wrap items-center gap-2 p-3">
+        {/* Selection summary */}
+        <span className="text-sm font-medium mr-2">
+          {isRunning
+            ? `${lastAction}: ${progress.current} of ${progress.total}...`
+            : `${selectedTickets.length} selected`}
+        </span>
+
+        {isRunning && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+
+        {!isRunning && selectedTickets.length > 0 && (
+          <>
+            {can('ticket:edit') && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm">
+                    Status
+                    <ChevronDown className="h-4 w-4 ml-1" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start">
+                  {STATUS_OPTIONS.map((option) => (
+                    <DropdownMenuItem
+                      key={option.value}
+                      onClick={() => runUpdate(`Set status to ${option.label}`, 'status', () => option.value)}
+                      className="cursor-pointer"
+                    >
+                      {option.label}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+
+            {can('ticket:edit') && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm">
+                    Priority
+                    <ChevronDown className="h-4 w-4 ml-1" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start">
+                  {PRIORITY_OPTIONS.map((option) => (
+                    <DropdownMenuItem
+                      key={option.value}
+                      onClick={() => runUpdate(`Set priority to ${option.label}`, 'priority', () => option.value)}
+                      className="cursor-pointer"
+                    >
+                      {option.label}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+
+            {can('ticket:assign') && (
+              <Popover open={isAssigneeOpen} onOpenChange={setIsAssigneeOpen}>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" size="sm">
+                    <UserPlus className="h-4 w-4 mr-1" />
+                    Assign
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent align="start" className="w-64 p-2">
+                  <Input
+                    placeholder="Search agents..."
+                    value={assigneeSearch}
+                    onChange={(e) => setAssigneeSearch(e.target.value)}
+                    className="h-8 mb-2"
+                  />
+                  <div className="max-h-60 overflow-y-auto space-y-1">
+                    <button
+                      className="w-full text-left px-2 py-1.5 text-sm rounded hover:bg-muted italic text-muted-foreground"
+                      onClick={() => {
+                        setIsAssigneeOpen(false);
+                        runUpdate('Unassign', 'assignee', () => null);
+                      }}
+                    >
+                      Unassigned
+                    </button>
+                    {filteredAgents.map((agent) => (
+                      <button
+                        key={agent.id}
+                        className="w-full flex items-center gap-2 px-2 py-1.5 text-sm rounded hover:bg-muted"
+                        onClick={() => {
+                          setIsAssigneeOpen(false);
+                          runUpdate(`Assign to ${agent.name}`, 'assignee', () => String(agent.id));
+                        }}
+                      >
+                        <div className="h-6 w-6 rounded-full bg-primary flex items-center justify-center text-primary-foreground text-[10px] font-medium">
+                          {getInitials(agent.name)}
+                        </div>
+                        <span className="truncate">{agent.name}</span>
+                      </button>
+                    ))}
+                  </div>
+                </PopoverContent>
+              </Popover>
+            )}
+
+            {can('ticket:edit') && (
+              <Popover open={isTagsOpen} onOpenChange={setIsTagsOpen}>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" size="sm">
+                    <Tag className="h-4 w-4 mr-1" />
+                    Tags
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent align="start" className="w-64 space-y-2">
+                  <Input
+                    placeholder="Tag name"
+                    value={tagInput}
+                    onChange={(e) => setTagInput(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleAddTag()}
+                    className="h-8"
+                  />
+                  {selectionTags.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {selectionTags.map((tag) => (
+                        <button
+                          key={tag}
+                          onClick={() => setTagInput(tag)}
+                          className="px-2 py-0.5 rounded text-xs font-medium bg-secondary text-secondary-foreground hover:bg-secondary/80"
+                        >
+                          {tag}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  <div className="flex gap-2">
+                    <Button size="sm" className="flex-1" onClick={handleAddTag} disabled={!tagInput.trim()}>
+                      Add
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="flex-1"
+                      onClick={handleRemoveTag}
+                      disabled={!tagInput.trim()}
+                    >
+                      Remove
+                    </Button>
+                  </div>
+                </PopoverContent>
+              </Popover>
+            )}
+
+            {can('ticket:edit') && selectedTickets.length > 1 && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  setMergeTargetId(selectedTickets[0].id);
+                  setIsMergeOpen(true);
+                }}
+              >
+                <GitMerge className="h-4 w-4 mr-1" />
+                Merge
+              </Button>
+            )}
+
+            {can('ticket:delete') && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="text-destructive hover:text-destructive"
+                onClick={() => setIsDeleteOpen(true)}
+              >
+                <Trash2 className="h-4 w-4 mr-1" />
+                Delete
+              </Button>
+            )}
+          </>
+        )}
+
+        <div className="ml-auto flex items-center gap-2">
+          {!isRunning && results.length > 0 && (
+            <button
+              className="text-xs text-muted-foreground hover:text-foreground underline"
+              onClick={() => setShowResults(!showResults)}
+            >
+              {showResults ? 'Hide results' : 'Show results'}
+            </button>
+          )}
+          {!isRunning && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                onSelectionChange(new Set());
+                setResults([]);
+                setShowResults(false);
+              }}
+              title="Clear selection"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Per-ticket results */}
+      {showResults && results.length > 0 && (
+        <div className="border-t px-3 py-2">
+          <p className="text-xs text-muted-foreground mb-2">
+            {lastAction}: {succeededCount} succeeded
+            {failedCount > 0 && `, ${failedCount} failed (still selected)`}
+          </p>
+          <div className="max-h-40 overflow-y-auto space-y-1">
+            {results.map((result) => (
+              <div key={result.ticketId} className="flex items-center gap-2 text-xs">
+                {result.success ? (
+                  <CheckCircle2 className="h-3.5 w-3.5 text-green-600 dark:text-green-400" />
+                ) : (
+                  <XCircle className="h-3.5 w-3.5 text-destructive" />
+                )}
+                <span className="font-mono">{result.ticketId}</span>
+                <span className={cn(result.success ? 'text-muted-foreground' : 'text-destructive')}>
+                  {result.success ? 'Done' : result.error}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Merge Dialog */}
+      <Dialog open={isMergeOpen} onOpenChange={setIsMergeOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Merge Tickets</DialogTitle>
+            <DialogDescription>
+              Choose the ticket to keep. The other {selectedTickets.length - 1} ticket(s) will be merged into it
+              and closed.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="max-h-72 overflow-y-auto space-y-2 py-2">
+            {selectedTickets.map((ticket) => (
+              <label
+                key={ticket.id}
+                className={cn(
+                  'flex items-start gap-3 p-3 rounded-md border cursor-pointer transition-colors',
+                  mergeTargetId === ticket.id ? 'border-primary bg-primary/5' : 'hover:bg-muted/50'
+                )}
+              >
+                <input
+                  type="radio"
+                  name="merge-target"
+                  checked={mergeTargetId === ticket.id}
+                  onChange={() => setMergeTargetId(ticket.id)}
+                  className="mt-1"
+                />
+                <div className="min-w-0">
+                  <p className="text-sm font-mono font-medium text-primary">{ticket.id}</p>
+                  <p className="text-sm truncate">{ticket.title}</p>
+                </div>
+              </label>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsMergeOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleMerge} disabled={!mergeTargetId}>
+              <GitMerge className="h-4 w-4 mr-2" />
+              Merge
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete {selectedTickets.length} Ticket(s)</DialogTitle>
+            <DialogDescription>
+              This will permanently delete the selected tickets. This action cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDeleteOpen(false)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import {
   Dialog,
   DialogContent,
@@ -101,9 +101,11 @@ export function ColumnCustomizer({ open, onOpenChange }: ColumnCustomizerProps)
   const [isResetting, setIsResetting] = useState(false);
 
   // Update local state when modal opens or ticketColumns change
-  useState(() => {
-    setLocalColumns(ticketColumns);
-  });
+  useEffect(() => {
+    if (open) {
+      setLocalColumns(ticketColumns);
+    }
+  }, [open, ticketColumns]);
 
   const sensors = useSensors(
     useSensor(PointerSensor),
@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { Star, Loader2, CheckCircle2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { cn, formatDate } from '@/lib/utils';
+import { CSAT_RATINGS, CSAT_RATING_LABELS } from '@/lib/csat';
+import type { CsatRating, TicketCsat } from '@/types';
+
+interface CsatStarsProps {
+  value: CsatRating | null;
+  onChange?: (rating: CsatRating) => void;
+  size?: 'sm' | 'lg';
+  disabled?: boolean;
+}
+
+/**
+ * Five star rating, read-only unless onChange is given
+ */
+export function CsatStars({ value, onChange, size = 'sm', disabled = false }: CsatStarsProps) {
+  const [hovered, setHovered] = useState<CsatRating | null>(null);
+  const shown = hovered ?? value ?? 0;
+  const iconClass = size === 'lg' ? 'h-8 w-8' : 'h-4 w-4';
+
+  if (!onChange) {
+    return (
+      <div className="flex items-center gap-0.5" title={value ? CSAT_RATING_LABELS[value] : undefined}>
+        {CSAT_RATINGS.map((rating) => (
+          <Star
+            key={rating}
+            className={cn(iconClass, rating <= shown ? 'fill-amber-400 text-amber-400' : 'text-muted-foreground/40')}
+          />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-1" onMouseLeave={() => setHovered(null)}>
+      {CSAT_RATINGS.map((rating) => (
+        <button
+          key={rating}
+          type="button"
+          disabled={disabled}
+          onClick={() => onChange(rating)}
+          onMouseEnter={() => setHovered(rating)}
+          className="rounded p-0.5 transition-transform hover:scale-110 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring disabled:pointer-events-none"
+          title={CSAT_RATING_LABELS[rating]}
+          aria-label={`${rating} - ${CSAT_RATING_LABELS[rating]}`}
+        >
+          <Star
+            className={cn(iconClass, rating <= shown ? 'fill-amber-400 text-amber-400' : 'text-muted-foreground/40')}
+          />
+        </button>
+      ))}
+    </div>
+  );
+}
+
+interface CsatPromptProps {
+  csat?: TicketCsat | null;
+  initialRating?: CsatRating | null;
+  onSubmit: (rating: CsatRating, comment: string) => Promise<boolean>;
+}
+
+/**
+ * "How did we do?" form shown to the requester, or a thank-you once they have rated
+ */
+export function CsatPrompt({ csat, initialRating = null, onSubmit }: CsatPromptProps) {
+  const [rating, setRating] = useState<CsatRating | null>(initialRating);
+  const [comment, setComment] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  if (csat) {
+    return (
+      <div className="flex flex-col items-center gap-2 text-center py-2">
+        <CheckCircle2 className="h-8 w-8 text-green-600 dark:text-green-400" />
+        <p className="font-medium">Thanks for your feedback!</p>
+        <CsatStars value={csat.rating} />
+        <p className="text-xs text-muted-foreground">
+          {CSAT_RATING_LABELS[csat.rating]} · {formatDate(csat.submittedAt)}
+        </p>
+      </div>
+    );
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!rating) return;
+
+    setIsSubmitting(true);
+    await onSubmit(rating, comment.trim());
+    setIsSubmitting(false);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="flex flex-col items-center gap-1">
+        <CsatStars value={rating} onChange={setRating} size="lg" disabled={isSubmitting} />
+        <p className="text-xs text-muted-foreground h-4">{rating ? CSAT_RATING_LABELS[rating] : ''}</p>
+      </div>
+      <Textarea
+        placeholder="Anything you'd like to tell us? (optional)"
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        rows={3}
+        disabled={isSubmitting}
+      />
+      <Button type="submit" className="w-full" disabled={!rating || isSubmitting}>
+        {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        Submit Feedback
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,31 @@
+import { FileClock, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { formatRelativeTime } from '@/lib/utils';
+
+interface DraftRestoredBannerProps {
+  savedAt: number;
+  onDiscard: () => void;
+  onDismiss: () => void;
+}
+
+export function DraftRestoredBanner({ savedAt, onDiscard, onDismiss }: DraftRestoredBannerProps) {
+  return (
+    <div className="flex items-center gap-2 rounded-md border border-blue-200 bg-blue-50 dark:border-blue-800 dark:bg-blue-950 px-3 py-1.5 text-xs text-blue-800 dark:text-blue-200">
+      <FileClock className="h-3.5 w-3.5 shrink-0" />
+      <span className="flex-1">Draft restored from {formatRelativeTime(new Date(savedAt))}</span>
+      <button type="button" onClick={onDiscard} className="font-medium hover:underline">
+        Discard
+      </button>
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        className="h-5 w-5 p-0 text-current hover:bg-blue-100 dark:hover:bg-blue-900"
+        onClick={onDismiss}
+        title="Dismiss"
+      >
+        <X className="h-3 w-3" />
+      </Button>
+    </div>
+  );
+}
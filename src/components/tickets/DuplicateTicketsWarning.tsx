@@ -0,0 +1,64 @@
+import { useState } from 'react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Copy, ExternalLink, X } from 'lucide-react';
+import { StatusBadge } from './StatusBadge';
+import { formatRelativeTime } from '@/lib/utils';
+import type { DuplicateCandidate } from '@/lib/ticketSimilarity';
+
+interface DuplicateTicketsWarningProps {
+  candidates: DuplicateCandidate[];
+  getTicketUrl: (ticketId: string) => string;
+}
+
+export function DuplicateTicketsWarning({ candidates, getTicketUrl }: DuplicateTicketsWarningProps) {
+  const [dismissedIds, setDismissedIds] = useState<string[]>([]);
+
+  const visible = candidates.filter((candidate) => !dismissedIds.includes(candidate.ticket.id));
+  if (visible.length === 0) return null;
+
+  return (
+    <Alert className="border-amber-300 bg-amber-50 dark:bg-amber-950/40">
+      <Copy className="h-4 w-4 text-amber-600" />
+      <AlertDescription className="text-amber-900 dark:text-amber-100">
+        <div className="flex items-start justify-between gap-2">
+          <p className="text-sm font-medium">
+            This looks similar to {visible.length} open ticket{visible.length > 1 ? 's' : ''}
+          </p>
+          <button
+            type="button"
+            onClick={() => setDismissedIds(candidates.map((c) => c.ticket.id))}
+            className="text-amber-700 hover:text-amber-900 dark:text-amber-300"
+            aria-label="Dismiss duplicate warning"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+        <p className="text-xs text-amber-800 dark:text-amber-200 mt-0.5">
+          Check whether your issue is already being worked on before submitting.
+        </p>
+        <ul className="mt-2 space-y-1.5">
+          {visible.map(({ ticket, score }) => (
+            <li key={ticket.id}>
+              <a
+                href={getTicketUrl(ticket.id)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center gap-2 p-2 rounded-md border border-amber-200 dark:border-amber-800 bg-background hover:bg-accent transition-colors group"
+              >
+                <span className="text-xs font-mono font-medium text-primary shrink-0">{ticket.id}</span>
+                <span className="text-sm text-foreground truncate flex-1 group-hover:text-primary">
+                  {ticket.title}
+                </span>
+                <StatusBadge status={ticket.status} />
+                <span className="hidden sm:inline text-xs text-muted-foreground shrink-0">
+                  {formatRelativeTime(ticket.createdAt)} · {Math.round(score * 100)}% match
+                </span>
+                <ExternalLink className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+              </a>
+            </li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+}
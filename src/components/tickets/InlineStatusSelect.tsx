@@ -1,12 +1,17 @@
 import { useState } from 'react';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { StatusBadge } from './StatusBadge';
-import { Check } from 'lucide-react';
-import type { TicketStatus } from '@/types';
+import { WaitingOptionsForm } from './WaitingOptionsForm';
+import { Check, Hourglass } from 'lucide-react';
+import { formatDateTime } from '@/lib/utils';
+import { isSnoozed } from '@/lib/waiting';
+import type { TicketStatus, WaitingOptions } from '@/types';
 
 interface InlineStatusSelectProps {
   status: TicketStatus;
-  onStatusChange: (newStatus: TicketStatus) => Promise<void>;
+  waitingUntil?: Date;
+  reopenOnReply?: boolean;
+  onStatusChange: (newStatus: TicketStatus, waiting?: WaitingOptions) => Promise<void>;
   disabled?: boolean;
 }
 
@@ -14,68 +19,94 @@ const statusOptions: { value: TicketStatus; label: string; description: string }
   { value: 'new', label: 'New', description: 'Newly created ticket' },
   { value: 'open', label: 'Open', description: 'Ticket acknowledged' },
   { value: 'in_progress', label: 'In Progress', description: 'Actively being worked on' },
-  { value: 'waiting', label: 'Waiting', description: 'Awaiting response or action' },
+  { value: 'waiting', label: 'Waiting', description: 'Awaiting response, optionally snoozed until a date' },
   { value: 'resolved', label: 'Resolved', description: 'Issue has been fixed' },
   { value: 'closed', label: 'Closed', description: 'Ticket is complete' },
 ];
 
-export function InlineStatusSelect({ status, onStatusChange, disabled }: InlineStatusSelectProps) {
+export function InlineStatusSelect({ status, waitingUntil, reopenOnReply, onStatusChange, disabled }: InlineStatusSelectProps) {
   const [isOpen, setIsOpen] = useState(false);
+  const [isChoosingWaiting, setIsChoosingWaiting] = useState(false);
+  const snoozed = isSnoozed({ status, waitingUntil });
 
-  const handleSelect = (newStatus: TicketStatus) => {
-    if (newStatus === status) {
-      setIsOpen(false);
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) setIsChoosingWaiting(false);
+  };
+
+  const handleSelect = (newStatus: TicketStatus, waiting?: WaitingOptions) => {
+    // Waiting asks how long first, and can be picked again to change the date
+    if (newStatus === 'waiting' && !waiting) {
+      setIsChoosingWaiting(true);
+      return;
+    }
+
+    if (newStatus === status && !waiting) {
+      handleOpenChange(false);
       return;
     }
 
     // Close popover immediately (optimistic UI)
-    setIsOpen(false);
+    handleOpenChange(false);
 
     // Fire the update in the background
-    onStatusChange(newStatus).catch((error) => {
+    onStatusChange(newStatus, waiting).catch((error) => {
       console.error('Failed to update status:', error);
       // Error handling is done by the mutation hook (shows toast)
     });
   };
 
   return (
-    <Popover open={isOpen} onOpenChange={setIsOpen}>
+    <Popover open={isOpen} onOpenChange={handleOpenChange}>
       <PopoverTrigger asChild>
         <button
           disabled={disabled}
-          className="inline-flex items-center focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 rounded"
+          className="inline-flex items-center gap-1 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 rounded"
           onClick={(e) => {
             e.stopPropagation(); // Prevent row click
           }}
+          title={snoozed ? `Snoozed until ${formatDateTime(waitingUntil!)}` : undefined}
         >
           <StatusBadge status={status} />
+          {snoozed && <Hourglass className="h-3 w-3 text-muted-foreground" />}
         </button>
       </PopoverTrigger>
       <PopoverContent className="w-72 p-2" align="start" onClick={(e) => e.stopPropagation()}>
-        <div className="space-y-1">
-          <p className="text-xs font-medium text-muted-foreground px-2 py-1.5">Change Status</p>
-          {statusOptions.map((option) => (
-            <button
-              key={option.value}
-              onClick={() => handleSelect(option.value)}
-              className="w-full flex items-start gap-3 px-2 py-2 rounded-md hover:bg-accent transition-colors text-left"
-            >
-              <div className="flex-shrink-0 mt-0.5">
-                {status === option.value ? (
-                  <Check className="h-4 w-4 text-primary" />
-                ) : (
-                  <div className="h-4 w-4" />
-                )}
-              </div>
-              <div className="flex-1 min-w-0">
-                <div className="flex items-center gap-2 mb-0.5">
-                  <StatusBadge status={option.value} />
+        {isChoosingWaiting ? (
+          <div className="p-1">
+            <p className="text-xs font-medium text-muted-foreground pb-2">Set to Waiting</p>
+            <WaitingOptionsForm
+              initial={status === 'waiting' ? { waitingUntil, reopenOnReply } : undefined}
+              onConfirm={(options) => handleSelect('waiting', options)}
+              onCancel={() => setIsChoosingWaiting(false)}
+            />
+          </div>
+        ) : (
+          <div className="space-y-1">
+            <p className="text-xs font-medium text-muted-foreground px-2 py-1.5">Change Status</p>
+            {statusOptions.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => handleSelect(option.value)}
+                className="w-full flex items-start gap-3 px-2 py-2 rounded-md hover:bg-accent transition-colors text-left"
+              >
+                <div className="flex-shrink-0 mt-0.5">
+                  {status === option.value ? (
+                    <Check className="h-4 w-4 text-primary" />
+                  ) : (
+                    <div className="h-4 w-4" />
+                  )}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 mb-0.5">
+                    <StatusBadge status={option.value} />
+                  </div>
+                  <p className="text-xs text-muted-foreground">{option.description}</p>
                 </div>
-                <p className="text-xs text-muted-foreground">{option.description}</p>
-              </div>
-            </button>
-          ))}
-        </div>
+              </button>
+            ))}
+          </div>
+        )}
       </PopoverContent>
     </Popover>
   );
@@ -0,0 +1,240 @@
+import { useState, useRef } from 'react';
+import { Textarea } from '@/components/ui/textarea';
+import { Zap, Users, Lock, AtSign } from 'lucide-react';
+import { cn, getInitials } from '@/lib/utils';
+import { filterMacros, getSlashCommand, renderMacro, describeMacroActions, type MacroContext } from '@/lib/macros';
+import { filterMentionUsers, getMentionQuery } from '@/lib/mentions';
+import type { User } from '@/types';
+import type { Macro } from '@/types/macros';
+
+const MAX_SUGGESTIONS = 8;
+
+interface MacroComposerTextareaProps {
+  value: string;
+  onChange: (value: string) => void;
+  macros: Macro[];
+  context: MacroContext | null;
+  onMacroApplied: (macro: Macro) => void;
+  mentionableUsers?: User[]; // Enables "@" mentions when provided
+  onMention?: (user: User) => void;
+  textareaRef?: React.RefObject<HTMLTextAreaElement | null>; // For callers that edit the selection, e.g. a formatting toolbar
+  onPaste?: (e: React.ClipboardEvent<HTMLTextAreaElement>) => void;
+  placeholder?: string;
+  rows?: number;
+  className?: string;
+}
+
+export function MacroComposerTextarea({
+  value,
+  onChange,
+  macros,
+  context,
+  onMacroApplied,
+  mentionableUsers,
+  onMention,
+  textareaRef: externalTextareaRef,
+  onPaste,
+  placeholder,
+  rows,
+  className,
+}: MacroComposerTextareaProps) {
+  const internalTextareaRef = useRef<HTMLTextAreaElement>(null);
+  const textareaRef = externalTextareaRef ?? internalTextareaRef;
+  const [cursor, setCursor] = useState(0);
+  const [highlightedIndex, setHighlightedIndex] = useState(0);
+  const [isDismissed, setIsDismissed] = useState(false);
+
+  // Whichever trigger is closest to the cursor wins, so "/" inside a mention query doesn't open macros
+  const mention = mentionableUsers ? getMentionQuery(value, cursor) : null;
+  const slash = context ? getSlashCommand(value, cursor) : null;
+  const command = slash && (!mention || slash.start > mention.start) ? slash : null;
+  const mentionCommand = command ? null : mention;
+
+  const suggestions = command ? filterMacros(macros, command.query).slice(0, MAX_SUGGESTIONS) : [];
+  const userSuggestions = mentionCommand && mentionableUsers
+    ? filterMentionUsers(mentionableUsers, mentionCommand.query).slice(0, MAX_SUGGESTIONS)
+    : [];
+  const showPicker = !!command && !isDismissed && macros.length > 0;
+  // Hide the mention picker once nothing matches, e.g. when "@" was part of an email address
+  const showMentionPicker = !!mentionCommand && !isDismissed && userSuggestions.length > 0;
+  const optionCount = showMentionPicker ? userSuggestions.length : suggestions.length;
+  const activeIndex = Math.min(highlightedIndex, optionCount - 1);
+
+  const updateCursor = () => {
+    setCursor(textareaRef.current?.selectionStart ?? value.length);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    onChange(e.target.value);
+    setCursor(e.target.selectionStart ?? e.target.value.length);
+    setHighlightedIndex(0);
+    setIsDismissed(false);
+  };
+
+  // Replace the "/query" with the rendered macro text
+  const applyMacro = (index: number) => {
+    const macro = suggestions[index];
+    if (!macro || !command || !context) return;
+
+    const rendered = renderMacro(macro.content, context);
+    const next = `${value.slice(0, command.start)}${rendered}${value.slice(cursor)}`;
+    const nextCursor = command.start + rendered.length;
+
+    onChange(next);
+    onMacroApplied(macro);
+    setCursor(nextCursor);
+    setHighlightedIndex(0);
+
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(nextCursor, nextCursor);
+    });
+  };
+
+  // Replace the "@query" with "@Name " and report the mentioned user
+  const applyMention = (index: number) => {
+    const mentionedUser = userSuggestions[index];
+    if (!mentionedUser || !mentionCommand) return;
+
+    const token = `@${mentionedUser.name} `;
+    const next = `${value.slice(0, mentionCommand.start)}${token}${value.slice(cursor)}`;
+    const nextCursor = mentionCommand.start + token.length;
+
+    onChange(next);
+    onMention?.(mentionedUser);
+    setCursor(nextCursor);
+    setHighlightedIndex(0);
+
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(nextCursor, nextCursor);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!(showPicker || showMentionPicker) || optionCount === 0) return;
+
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setHighlightedIndex((activeIndex + 1) % optionCount);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setHighlightedIndex((activeIndex - 1 + optionCount) % optionCount);
+        break;
+      case 'Enter':
+      case 'Tab':
+        e.preventDefault();
+        if (showMentionPicker) {
+          applyMention(activeIndex);
+        } else {
+          applyMacro(activeIndex);
+        }
+        break;
+      case 'Escape':
+        e.preventDefault();
+        setIsDismissed(true);
+        break;
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Textarea
+        ref={textareaRef}
+        placeholder={placeholder}
+        rows={rows}
+        value={value}
+        onChange={handleChange}
+        onKeyDown={handleKeyDown}
+        onKeyUp={updateCursor}
+        onPaste={onPaste}
+        onClick={updateCursor}
+        onBlur={() => setIsDismissed(true)}
+        onFocus={() => setIsDismissed(false)}
+        className={className}
+        aria-autocomplete="list"
+      />
+
+      {/* Mention picker */}
+      {showMentionPicker && (
+        <div className="absolute bottom-full left-0 z-50 mb-1 w-full max-w-xs rounded-md border bg-popover text-popover-foreground shadow-md py-1">
+          <div className="flex items-center gap-1.5 px-3 py-1 text-xs text-muted-foreground border-b mb-1">
+            <AtSign className="h-3 w-3" />
+            Mention an agent
+          </div>
+          {userSuggestions.map((mentionUser, index) => (
+            <button
+              key={mentionUser.id}
+              type="button"
+              // Keep focus in the textarea so the mention can be inserted at the cursor
+              onMouseDown={(e) => {
+                e.preventDefault();
+                applyMention(index);
+              }}
+              onMouseEnter={() => setHighlightedIndex(index)}
+              className={cn(
+                'w-full flex items-center gap-2 px-3 py-1.5 text-left',
+                index === activeIndex && 'bg-accent text-accent-foreground'
+              )}
+            >
+              <span className="h-6 w-6 rounded-full bg-primary flex items-center justify-center text-primary-foreground text-[10px] font-medium shrink-0">
+                {getInitials(mentionUser.name)}
+              </span>
+              <span className="min-w-0">
+                <span className="block text-sm font-medium truncate">{mentionUser.name}</span>
+                <span className="block text-xs text-muted-foreground truncate">{mentionUser.email}</span>
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Slash macro picker */}
+      {showPicker && (
+        <div className="absolute bottom-full left-0 z-50 mb-1 w-full max-w-md rounded-md border bg-popover text-popover-foreground shadow-md py-1">
+          <div className="flex items-center gap-1.5 px-3 py-1 text-xs text-muted-foreground border-b mb-1">
+            <Zap className="h-3 w-3" />
+            Macros
+          </div>
+          {suggestions.length === 0 ? (
+            <p className="px-3 py-2 text-xs text-muted-foreground">No macros match "/{command.query}"</p>
+          ) : (
+            suggestions.map((macro, index) => {
+              const actionSummary = describeMacroActions(macro.actions);
+              return (
+                <button
+                  key={macro.id}
+                  type="button"
+                  // Keep focus in the textarea so the macro can be inserted at the cursor
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    applyMacro(index);
+                  }}
+                  onMouseEnter={() => setHighlightedIndex(index)}
+                  className={cn(
+                    'w-full flex flex-col gap-0.5 px-3 py-1.5 text-left',
+                    index === activeIndex && 'bg-accent text-accent-foreground'
+                  )}
+                >
+                  <span className="flex items-center gap-1.5 text-sm font-medium">
+                    {macro.visibility === 'shared' ? (
+                      <Users className="h-3 w-3 text-muted-foreground" />
+                    ) : (
+                      <Lock className="h-3 w-3 text-muted-foreground" />
+                    )}
+                    {macro.name}
+                  </span>
+                  <span className="text-xs text-muted-foreground truncate">
+                    {actionSummary || macro.description || macro.content}
+                  </span>
+                </button>
+              );
+            })
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
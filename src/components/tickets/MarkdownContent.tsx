@@ -0,0 +1,98 @@
+import ReactMarkdown, { type Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { cn } from '@/lib/utils';
+import { getMentionedUserId, linkMentions, markdownUrlTransform, preserveLineBreaks } from '@/lib/markdown';
+import type { ActivityMention } from '@/types';
+
+const API_BASE = 'https://itsm-backend.joshua-r-klimek.workers.dev';
+
+// Raw HTML is never rendered; only these markdown elements are allowed through
+const ALLOWED_ELEMENTS = [
+  'p', 'br', 'strong', 'em', 'del', 'code', 'pre', 'blockquote', 'ul', 'ol', 'li',
+  'a', 'img', 'hr', 'h1', 'h2', 'h3', 'h4', 'table', 'thead', 'tbody', 'tr', 'th', 'td', 'input',
+];
+
+interface MarkdownContentProps {
+  content: string;
+  mentions?: ActivityMention[];
+  currentUserId?: string;
+  className?: string;
+}
+
+export function MarkdownContent({ content, mentions, currentUserId, className }: MarkdownContentProps) {
+  const components: Components = {
+    p: ({ children }) => <p className="mb-2 last:mb-0">{children}</p>,
+    h1: ({ children }) => <h3 className="text-base font-semibold mb-2">{children}</h3>,
+    h2: ({ children }) => <h3 className="text-base font-semibold mb-2">{children}</h3>,
+    h3: ({ children }) => <h4 className="font-semibold mb-2">{children}</h4>,
+    h4: ({ children }) => <h4 className="font-semibold mb-2">{children}</h4>,
+    ul: ({ children }) => <ul className="list-disc pl-5 mb-2 last:mb-0 space-y-0.5">{children}</ul>,
+    ol: ({ children }) => <ol className="list-decimal pl-5 mb-2 last:mb-0 space-y-0.5">{children}</ol>,
+    blockquote: ({ children }) => (
+      <blockquote className="border-l-2 border-muted-foreground/30 pl-3 text-muted-foreground mb-2 last:mb-0">
+        {children}
+      </blockquote>
+    ),
+    pre: ({ children }) => (
+      <pre className="bg-muted rounded p-2 mb-2 last:mb-0 overflow-x-auto text-xs [&>code]:bg-transparent [&>code]:p-0">
+        {children}
+      </pre>
+    ),
+    code: ({ children }) => <code className="bg-muted rounded px-1 py-0.5 font-mono text-xs">{children}</code>,
+    hr: () => <hr className="my-3 border-border" />,
+    table: ({ children }) => (
+      <div className="overflow-x-auto mb-2">
+        <table className="text-xs border-collapse">{children}</table>
+      </div>
+    ),
+    th: ({ children }) => <th className="border px-2 py-1 text-left font-medium bg-muted/50">{children}</th>,
+    td: ({ children }) => <td className="border px-2 py-1">{children}</td>,
+    a: ({ href, children }) => {
+      const mentionedUserId = getMentionedUserId(href);
+      if (mentionedUserId) {
+        return (
+          <span
+            className={cn(
+              'rounded px-1 font-medium',
+              mentionedUserId === currentUserId ? 'bg-primary text-primary-foreground' : 'bg-primary/10 text-primary'
+            )}
+            title={mentionedUserId === currentUserId ? 'You were mentioned' : undefined}
+          >
+            {children}
+          </span>
+        );
+      }
+      // Unsafe URLs are blanked by markdownUrlTransform, keep just the text
+      if (!href) return <span>{children}</span>;
+      return (
+        <a href={href} target="_blank" rel="noopener noreferrer nofollow" className="text-primary underline break-all">
+          {children}
+        </a>
+      );
+    },
+    img: ({ src, alt }) => {
+      if (!src || typeof src !== 'string') return null;
+      const url = `${API_BASE}${src}?user_id=${currentUserId}`;
+      return (
+        <a href={url} target="_blank" rel="noopener noreferrer">
+          <img src={url} alt={alt || ''} className="max-h-64 max-w-full rounded border my-1" loading="lazy" />
+        </a>
+      );
+    },
+  };
+
+  return (
+    <div className={cn('text-sm break-words', className)}>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        allowedElements={ALLOWED_ELEMENTS}
+        unwrapDisallowed
+        skipHtml
+        urlTransform={markdownUrlTransform}
+        components={components}
+      >
+        {preserveLineBreaks(linkMentions(content, mentions))}
+      </ReactMarkdown>
+    </div>
+  );
+}
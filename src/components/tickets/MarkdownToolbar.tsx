@@ -0,0 +1,90 @@
+import { useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Bold, Italic, Code, SquareCode, List, ListOrdered, Quote, Link, ImagePlus, Eye, Pencil, Loader2 } from 'lucide-react';
+import type { MarkdownComposer } from '@/hooks/useMarkdownComposer';
+import type { MarkdownFormat } from '@/lib/markdown';
+
+interface MarkdownToolbarProps {
+  composer: MarkdownComposer;
+  allowImages?: boolean;
+  disabled?: boolean;
+}
+
+const FORMAT_BUTTONS: { format: MarkdownFormat; icon: typeof Bold; title: string }[] = [
+  { format: 'bold', icon: Bold, title: 'Bold' },
+  { format: 'italic', icon: Italic, title: 'Italic' },
+  { format: 'code', icon: Code, title: 'Inline code' },
+  { format: 'codeBlock', icon: SquareCode, title: 'Code block' },
+  { format: 'bulletList', icon: List, title: 'Bullet list' },
+  { format: 'orderedList', icon: ListOrdered, title: 'Numbered list' },
+  { format: 'quote', icon: Quote, title: 'Quote' },
+  { format: 'link', icon: Link, title: 'Link' },
+];
+
+export function MarkdownToolbar({ composer, allowImages = true, disabled }: MarkdownToolbarProps) {
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const { isPreview, setIsPreview, isUploadingImages, applyFormat, insertImages } = composer;
+
+  return (
+    <div className="flex items-center gap-0.5">
+      {FORMAT_BUTTONS.map(({ format, icon: Icon, title }) => (
+        <Button
+          key={format}
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-7 w-7 p-0"
+          // Keep the textarea selection so the format applies to it
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => applyFormat(format)}
+          disabled={disabled || isPreview}
+          title={title}
+        >
+          <Icon className="h-3.5 w-3.5" />
+        </Button>
+      ))}
+
+      {allowImages && (
+        <>
+          <input
+            ref={imageInputRef}
+            type="file"
+            accept="image/*"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              if (e.target.files) {
+                insertImages(Array.from(e.target.files));
+              }
+              e.target.value = '';
+            }}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-7 w-7 p-0"
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => imageInputRef.current?.click()}
+            disabled={disabled || isPreview || isUploadingImages}
+            title="Insert image (or paste one)"
+          >
+            {isUploadingImages ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <ImagePlus className="h-3.5 w-3.5" />}
+          </Button>
+        </>
+      )}
+
+      <Button
+        type="button"
+        variant={isPreview ? 'secondary' : 'ghost'}
+        size="sm"
+        className="h-7 ml-auto text-xs"
+        onClick={() => setIsPreview(!isPreview)}
+        disabled={disabled}
+      >
+        {isPreview ? <Pencil className="h-3.5 w-3.5 mr-1.5" /> : <Eye className="h-3.5 w-3.5 mr-1.5" />}
+        {isPreview ? 'Write' : 'Preview'}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { GitMerge, Loader2, Search, ArrowRight } from 'lucide-react';
+import { StatusBadge } from './StatusBadge';
+import { useAuth } from '@/contexts/AuthContext';
+import { useMergeTicketMutation, useTicketSearchQuery } from '@/hooks/useTicketsQuery';
+import { cn, formatRelativeTime } from '@/lib/utils';
+import type { Ticket } from '@/types';
+
+interface MergeTicketDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  ticket: Ticket;
+  onMerged: (target: Ticket) => void;
+}
+
+export function MergeTicketDialog({ open, onOpenChange, ticket, onMerged }: MergeTicketDialogProps) {
+  const { user } = useAuth();
+  const mergeTicketMutation = useMergeTicketMutation();
+
+  const [searchQuery, setSearchQuery] = useState('');
+  const [target, setTarget] = useState<Ticket | null>(null);
+
+  // Until the agent types, suggest tickets with a similar title
+  const { data: searchResults = [], isFetching: isSearching } = useTicketSearchQuery(
+    searchQuery.trim() || ticket.title,
+    open
+  );
+  const results = searchResults.filter((t) => t.id !== ticket.id && !t.mergedIntoId);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setSearchQuery('');
+      setTarget(null);
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleMerge = async () => {
+    if (!user || !target) return;
+
+    try {
+      const merged = await mergeTicketMutation.mutateAsync({
+        sourceTicketId: ticket.id,
+        targetTicketId: target.id,
+        userId: user.id,
+      });
+      handleOpenChange(false);
+      onMerged(merged);
+    } catch (error) {
+      console.error('Error merging ticket:', error);
+      alert('Failed to merge ticket: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  };
+
+  const isMerging = mergeTicketMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Merge {ticket.id} into…</DialogTitle>
+          <DialogDescription>
+            Pick the ticket to keep. This ticket will be closed and everything on it moves to the target.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Target search */}
+        <div className="relative">
+          <Search className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search by ticket ID or title..."
+            className="pl-10"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            autoFocus
+          />
+        </div>
+
+        <div className="max-h-64 overflow-y-auto space-y-2">
+          {isSearching && results.length === 0 ? (
+            <div className="flex items-center justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : results.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No open tickets found</p>
+          ) : (
+            results.map((result) => (
+              <button
+                key={result.id}
+                type="button"
+                onClick={() => setTarget(result)}
+                className={cn(
+                  'w-full flex items-start gap-3 p-3 rounded-md border text-left transition-colors',
+                  target?.id === result.id ? 'border-primary bg-primary/5' : 'hover:bg-muted/50'
+                )}
+              >
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-mono font-medium text-primary">{result.id}</span>
+                    <StatusBadge status={result.status} />
+                  </div>
+                  <p className="text-sm truncate mt-0.5">{result.title}</p>
+                  <p className="text-xs text-muted-foreground mt-0.5">
+                    {result.requester?.name} · {formatRelativeTime(result.createdAt)}
+                  </p>
+                </div>
+              </button>
+            ))
+          )}
+        </div>
+
+        {/* Summary of what moves */}
+        {target && (
+          <div className="rounded-md border bg-muted/30 p-3 text-sm space-y-2">
+            <div className="flex items-center gap-2 font-medium">
+              <span className="font-mono">{ticket.id}</span>
+              <ArrowRight className="h-4 w-4 text-muted-foreground" />
+              <span className="font-mono">{target.id}</span>
+            </div>
+            <ul className="list-disc list-inside text-xs text-muted-foreground space-y-0.5">
+              <li>Comments, internal notes and history move to {target.id}</li>
+              <li>{ticket.attachments?.length || 0} attachment(s) move to {target.id}</li>
+              <li>{ticket.ccUsers?.length || 0} CC user(s) are added to {target.id}</li>
+              <li>Both tickets get a system note and {ticket.id} is closed</li>
+            </ul>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={isMerging}>
+            Cancel
+          </Button>
+          <Button onClick={handleMerge} disabled={!target || isMerging}>
+            {isMerging ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Merging...
+              </>
+            ) : (
+              <>
+                <GitMerge className="h-4 w-4 mr-2" />
+                Merge Ticket
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
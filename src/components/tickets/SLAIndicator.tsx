@@ -1,49 +1,170 @@
-import type { SLAStatus } from '@/types';
+import type { SLAStatus, Ticket } from '@/types';
+import type { BusinessHoursSchedule } from '@/types/sla';
 import { Badge } from '@/components/ui/badge';
-import { getSLAStatusColor, formatDateTime } from '@/lib/utils';
-import { Clock } from 'lucide-react';
+import { cn, getSLAStatusColor, formatDateTime } from '@/lib/utils';
+import { nextBusinessTime } from '@/lib/businessHours';
+import {
+  SLA_CLOCK_LABELS,
+  formatSLACountdown,
+  getNextSLABreach,
+  getSLAClockProgress,
+  type SLAClockProgress,
+} from '@/lib/sla';
+import { useBusinessHoursSchedule } from '@/hooks/useBusinessHours';
+import { useNow } from '@/hooks/useNow';
+import { Clock, Pause } from 'lucide-react';
+
+function getProgressColor(progress: SLAClockProgress): string {
+  if (progress.breached) return 'bg-red-600';
+  if ((progress.percentElapsed ?? 0) >= 90) return 'bg-red-500';
+  if ((progress.percentElapsed ?? 0) >= 75) return 'bg-yellow-500';
+  return 'bg-green-500';
+}
+
+function getCountdownText(progress: SLAClockProgress, inBusinessTime: boolean): string {
+  if (progress.remainingMinutes < 0) return `${formatSLACountdown(progress.remainingMinutes, inBusinessTime)} overdue`;
+  if (progress.breached) return 'Breached';
+  return `${formatSLACountdown(progress.remainingMinutes, inBusinessTime)} left`;
+}
+
+// Why the clock isn't running, for tooltips
+function getPauseText(progress: SLAClockProgress, sla: SLAStatus, schedule: BusinessHoursSchedule | undefined, now: Date) {
+  if (!progress.pausedBy || progress.breached) return null;
+  if (progress.pausedBy === 'status') {
+    return `SLA paused by the ticket's status since ${formatDateTime(sla.pausedAt as Date)}`;
+  }
+  const resumesAt = schedule ? nextBusinessTime(schedule, now) : null;
+  return `SLA paused outside business hours${resumesAt ? `, resumes ${formatDateTime(resumesAt)}` : ''}`;
+}
+
+function SLAProgressBar({ progress, className }: { progress: SLAClockProgress; className?: string }) {
+  if (progress.percentElapsed === null) return null;
+
+  return (
+    <div className={cn('h-1 w-full overflow-hidden rounded-full bg-muted', className)}>
+      <div
+        className={cn('h-full rounded-full transition-all', getProgressColor(progress))}
+        style={{ width: `${Math.min(100, Math.max(0, progress.percentElapsed))}%` }}
+      />
+    </div>
+  );
+}
+
+function useSLAProgress(sla: SLAStatus | null | undefined, startedAt?: Date) {
+  // Rules with a business hours schedule only count working time
+  const schedule = useBusinessHoursSchedule(sla?.businessHoursId);
+  const now = useNow(sla ? [sla.firstRespondedAt ? null : sla.firstResponseDue, sla.resolutionDue] : []);
+  const clocks = sla ? getSLAClockProgress(sla, schedule, now, startedAt) : [];
+  return { schedule, now, clocks };
+}
 
 interface SLAIndicatorProps {
   sla: SLAStatus | null | undefined;
+  startedAt?: Date; // When the clocks started (the ticket's creation), needed for the progress bar
 }
 
-export function SLAIndicator({ sla }: SLAIndicatorProps) {
+export function SLAIndicator({ sla, startedAt }: SLAIndicatorProps) {
+  const { schedule, now, clocks } = useSLAProgress(sla, startedAt);
+  const next = getNextSLABreach(clocks);
+
   // If no SLA is defined, don't render anything
-  if (!sla) {
+  if (!sla || !next) {
     return null;
   }
 
   const colorClass = getSLAStatusColor(sla.status);
+  const displayText = getCountdownText(next, !!schedule);
+  const pauseText = getPauseText(next, sla, schedule, now);
+  const label = next.clock === 'first_response' ? 'Response' : null;
 
-  // Calculate time remaining until resolution due
-  const now = new Date();
-  const timeRemaining = sla.resolutionDue.getTime() - now.getTime();
-  const hoursRemaining = Math.floor(timeRemaining / (1000 * 60 * 60));
-  const minutesRemaining = Math.floor((timeRemaining % (1000 * 60 * 60)) / (1000 * 60));
-
-  let displayText = '';
-
-  if (sla.resolutionBreached) {
-    displayText = 'Breached';
-  } else if (timeRemaining < 0) {
-    displayText = 'Overdue';
-  } else if (hoursRemaining < 1) {
-    displayText = `${minutesRemaining}m left`;
-  } else if (hoursRemaining < 24) {
-    displayText = `${hoursRemaining}h left`;
-  } else {
-    const daysRemaining = Math.floor(hoursRemaining / 24);
-    displayText = `${daysRemaining}d left`;
+  const titleLines = clocks.map((clock) => {
+    const elapsed = clock.percentElapsed !== null ? ` (${Math.round(clock.percentElapsed)}% elapsed)` : '';
+    return `SLA ${SLA_CLOCK_LABELS[clock.clock]} Due: ${formatDateTime(clock.due)}${elapsed}`;
+  });
+  if (schedule) {
+    titleLines.push(`Counted in business hours (${schedule.name})`);
+  }
+  if (pauseText) {
+    titleLines.unshift(pauseText);
   }
 
   return (
-    <Badge
-      variant="outline"
-      className={`${colorClass} flex items-center gap-1 w-fit cursor-help`}
-      title={`SLA Resolution Due: ${formatDateTime(sla.resolutionDue)}`}
-    >
-      <Clock className="h-3 w-3" />
-      {displayText}
-    </Badge>
+    <div className="w-fit space-y-1">
+      <Badge
+        variant="outline"
+        className={`${colorClass} flex items-center gap-1 w-fit cursor-help tabular-nums`}
+        title={titleLines.join('\n')}
+      >
+        {pauseText ? <Pause className="h-3 w-3" /> : <Clock className="h-3 w-3" />}
+        {pauseText && 'Paused · '}
+        {label && `${label} · `}
+        {displayText}
+      </Badge>
+      <SLAProgressBar progress={next} />
+    </div>
+  );
+}
+
+interface SLACountdownsProps {
+  ticket: Pick<Ticket, 'sla' | 'status' | 'createdAt'>;
+}
+
+/**
+ * First response and resolution countdowns with progress bars, for the ticket sidebar
+ */
+export function SLACountdowns({ ticket }: SLACountdownsProps) {
+  const { schedule, now, clocks } = useSLAProgress(ticket.sla, ticket.createdAt);
+
+  if (!ticket.sla) {
+    return null;
+  }
+
+  const sla = ticket.sla;
+  const isResolved = ticket.status === 'resolved' || ticket.status === 'closed';
+
+  const renderStopped = (label: string, breached: boolean) => (
+    <div className="flex items-center justify-between">
+      <span className="text-muted-foreground">{label}</span>
+      <span className={breached ? 'text-red-500 font-medium' : 'text-green-600 font-medium'}>
+        {breached ? 'Breached' : 'Met'}
+      </span>
+    </div>
+  );
+
+  const renderClock = (label: string, progress: SLAClockProgress) => {
+    const pauseText = getPauseText(progress, sla, schedule, now);
+    return (
+      <div className="space-y-1">
+        <div className="flex items-center justify-between">
+          <span className="text-muted-foreground">{label}</span>
+          <span
+            className={cn(
+              'flex items-center gap-1 font-medium tabular-nums',
+              progress.breached ? 'text-red-500' : (progress.percentElapsed ?? 0) >= 75 && 'text-yellow-600'
+            )}
+            title={`Due ${formatDateTime(progress.due)}${schedule ? `\nCounted in business hours (${schedule.name})` : ''}`}
+          >
+            {pauseText && <Pause className="h-3 w-3" />}
+            {getCountdownText(progress, !!schedule)}
+          </span>
+        </div>
+        <SLAProgressBar progress={progress} />
+        {pauseText && <p className="text-xs text-muted-foreground">{pauseText}</p>}
+      </div>
+    );
+  };
+
+  const firstResponse = clocks.find((clock) => clock.clock === 'first_response');
+  const resolution = clocks.find((clock) => clock.clock === 'resolution');
+
+  return (
+    <>
+      {firstResponse && !isResolved
+        ? renderClock('First Response', firstResponse)
+        : renderStopped('First Response', sla.firstResponseBreached)}
+      {resolution && !isResolved
+        ? renderClock('Resolution', resolution)
+        : renderStopped('Resolution', sla.resolutionBreached)}
+    </>
   );
 }
@@ -0,0 +1,124 @@
+import { useEffect, useRef } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { AlertTriangle, CheckCircle2, Loader2, Pause, Play, Timer } from 'lucide-react';
+import { useSLAEventsQuery } from '@/hooks/useSLAEvents';
+import { SLA_CLOCK_LABELS } from '@/lib/sla';
+import { cn, formatDateTime, formatDuration } from '@/lib/utils';
+import type { Ticket, TicketStatus } from '@/types';
+import type { SLAEvent, SLAEventType } from '@/types/sla';
+
+const STATUS_LABELS: Record<TicketStatus, string> = {
+  new: 'New',
+  open: 'Open',
+  in_progress: 'In Progress',
+  waiting: 'Waiting',
+  resolved: 'Resolved',
+  closed: 'Closed',
+};
+
+const EVENT_STYLES: Record<SLAEventType, { icon: typeof Play; className: string }> = {
+  started: { icon: Play, className: 'text-blue-500' },
+  paused: { icon: Pause, className: 'text-amber-500' },
+  resumed: { icon: Play, className: 'text-blue-500' },
+  met: { icon: CheckCircle2, className: 'text-green-600' },
+  breached: { icon: AlertTriangle, className: 'text-red-500' },
+};
+
+function describeEvent(event: SLAEvent, pausedSince: Date | null): string {
+  const clock = event.clock ? SLA_CLOCK_LABELS[event.clock] : 'SLA';
+
+  switch (event.type) {
+    case 'started':
+      return `${clock} clock started`;
+    case 'paused':
+      if (event.reason === 'outside_business_hours') return 'Clock paused outside business hours';
+      return event.status ? `Clock paused, ticket set to ${STATUS_LABELS[event.status]}` : 'Clock paused';
+    case 'resumed': {
+      const pausedFor = pausedSince
+        ? ` after ${formatDuration(Math.round((event.createdAt.getTime() - pausedSince.getTime()) / 60000))}`
+        : '';
+      return event.status
+        ? `Clock resumed${pausedFor}, ticket set to ${STATUS_LABELS[event.status]}`
+        : `Clock resumed${pausedFor}`;
+    }
+    case 'met':
+      return `${clock} target met`;
+    case 'breached':
+      return `${clock} target breached`;
+  }
+}
+
+interface SLATimelineProps {
+  ticket: Ticket;
+}
+
+export function SLATimeline({ ticket }: SLATimelineProps) {
+  const { data: events = [], isLoading, refetch } = useSLAEventsQuery(ticket.id, !!ticket.sla);
+
+  // Status changes pause and resume the clock on the server
+  const previousStatus = useRef(ticket.status);
+  useEffect(() => {
+    if (previousStatus.current !== ticket.status) {
+      previousStatus.current = ticket.status;
+      refetch();
+    }
+  }, [ticket.status, refetch]);
+
+  if (!ticket.sla) {
+    return null;
+  }
+
+  let pausedSince: Date | null = null;
+  const rows = events.map((event) => {
+    const row = { event, text: describeEvent(event, pausedSince) };
+    if (event.type === 'paused') pausedSince = event.createdAt;
+    if (event.type === 'resumed') pausedSince = null;
+    return row;
+  });
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Timer className="h-4 w-4" />
+          SLA Timeline
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="text-xs">
+        {ticket.sla.pausedAt && (
+          <div className="mb-3 flex items-center gap-2 rounded-md border border-amber-200 bg-amber-50 px-2 py-1.5 text-amber-800 dark:border-amber-800 dark:bg-amber-950 dark:text-amber-200">
+            <Pause className="h-3 w-3 shrink-0" />
+            Clock paused since {formatDateTime(ticket.sla.pausedAt)}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-muted-foreground">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            Loading timeline...
+          </div>
+        ) : rows.length === 0 ? (
+          <p className="text-muted-foreground">No SLA events yet</p>
+        ) : (
+          <ol className="relative space-y-3 border-l border-border pl-4">
+            {rows.map(({ event, text }) => {
+              const { icon: Icon, className } = EVENT_STYLES[event.type];
+              return (
+                <li key={event.id} className="relative">
+                  <span className="absolute -left-[23px] top-0.5 flex h-3.5 w-3.5 items-center justify-center rounded-full bg-background">
+                    <Icon className={cn('h-3 w-3', className)} />
+                  </span>
+                  <p className={cn(event.type === 'breached' && 'font-medium text-red-600')}>{text}</p>
+                  <p className="text-muted-foreground">
+                    {formatDateTime(event.createdAt)}
+                    {event.ruleName && ` · ${event.ruleName}`}
+                  </p>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
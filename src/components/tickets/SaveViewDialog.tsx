@@ -0,0 +1,149 @@
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { TeamCombobox } from '@/components/ui/team-combobox';
+import { Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { SavedView, SavedViewVisibility } from '@/types';
+import type { SavedViewInput } from '@/hooks/useSavedViews';
+
+interface SaveViewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  view?: SavedView | null;
+  defaultTeam?: string;
+  onSave: (input: Omit<SavedViewInput, 'filters'>) => Promise<void>;
+}
+
+export function SaveViewDialog({ open, onOpenChange, view, defaultTeam, onSave }: SaveViewDialogProps) {
+  const [name, setName] = useState('');
+  const [visibility, setVisibility] = useState<SavedViewVisibility>('personal');
+  const [team, setTeam] = useState('');
+  const [isDefault, setIsDefault] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Populate form when dialog opens
+  useEffect(() => {
+    if (open) {
+      setName(view?.name || '');
+      setVisibility(view?.visibility || 'personal');
+      setTeam(view?.team || defaultTeam || '');
+      setIsDefault(view?.isDefault || false);
+    }
+  }, [open, view, defaultTeam]);
+
+  const canSave = name.trim().length > 0 && (visibility === 'personal' || team.trim().length > 0);
+
+  const handleSave = async () => {
+    if (!canSave) return;
+
+    setIsSaving(true);
+    try {
+      await onSave({
+        name: name.trim(),
+        visibility,
+        team: visibility === 'team' ? team : null,
+        isDefault,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      // Error toast is shown by the mutation hook
+      console.error('Failed to save view:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{view ? 'Edit View' : 'Save View'}</DialogTitle>
+          <DialogDescription>
+            {view
+              ? 'Update the name and sharing settings for this view.'
+              : 'Save the current filters as a named view.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="view-name">Name</Label>
+            <Input
+              id="view-name"
+              placeholder="e.g. Urgent network issues"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              autoFocus
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Visibility</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {(['personal', 'team'] as SavedViewVisibility[]).map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setVisibility(option)}
+                  className={cn(
+                    'px-3 py-2 text-sm rounded-md border text-left transition-colors',
+                    visibility === option
+                      ? 'border-primary bg-primary/10 text-primary'
+                      : 'border-input hover:bg-muted/50'
+                  )}
+                >
+                  <div className="font-medium">{option === 'personal' ? 'Personal' : 'Shared with team'}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {option === 'personal' ? 'Only visible to you' : 'Visible to all team members'}
+                  </div>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {visibility === 'team' && (
+            <div className="space-y-2">
+              <Label>Team</Label>
+              <TeamCombobox value={team} onChange={setTeam} />
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="view-default">Default view</Label>
+              <p className="text-xs text-muted-foreground">Open this view when you visit the ticket list</p>
+            </div>
+            <Switch id="view-default" checked={isDefault} onCheckedChange={setIsDefault} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave || isSaving}>
+            {isSaving ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              'Save View'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
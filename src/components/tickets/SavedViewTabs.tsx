@@ -0,0 +1,134 @@
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { MoreVertical, Star, Users, Pencil, Save, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { matchesTicketFilter } from '@/lib/ticketFilters';
+import { useFilteredTicketCounts } from '@/hooks/useTicketsQuery';
+import type { SavedView, Ticket, User } from '@/types';
+
+interface SavedViewTabsProps {
+  views: SavedView[];
+  activeTickets: Ticket[];
+  activeViewId: string | null;
+  isActiveViewModified: boolean;
+  currentUser?: User | null;
+  onSelect: (view: SavedView) => void;
+  onEdit: (view: SavedView) => void;
+  onUpdateFilters: (view: SavedView) => void;
+  onToggleDefault: (view: SavedView) => void;
+  onDelete: (view: SavedView) => void;
+}
+
+export function SavedViewTabs({
+  views,
+  activeTickets,
+  activeViewId,
+  isActiveViewModified,
+  currentUser,
+  onSelect,
+  onEdit,
+  onUpdateFilters,
+  onToggleDefault,
+  onDelete,
+}: SavedViewTabsProps) {
+  const serverCounts = useFilteredTicketCounts(views.map((v) => v.filters), currentUser?.id);
+
+  if (views.length === 0) return null;
+
+  return (
+    <>
+      {/* Divider between status tabs and saved views */}
+      <div className="hidden md:block w-px my-2 bg-border shrink-0" />
+
+      {views.map((view, index) => {
+        const isActive = activeViewId === view.id;
+        // Fall back to counting loaded tickets until the count endpoint responds
+        const count = serverCounts[index]
+          ?? activeTickets.filter((t) => matchesTicketFilter(t, view.filters, currentUser?.id)).length;
+        const canManage = view.userId === String(currentUser?.id) || currentUser?.role === 'admin';
+
+        return (
+          <div
+            key={view.id}
+            className={cn(
+              'relative flex items-center whitespace-nowrap transition-colors snap-start',
+              'border-b-2 hover:bg-muted/50',
+              isActive ? 'border-primary bg-muted/30' : 'border-transparent'
+            )}
+          >
+            <button
+              onClick={() => onSelect(view)}
+              className={cn(
+                'pl-4 py-3 text-sm font-medium hover:text-primary',
+                canManage ? 'pr-1' : 'pr-4',
+                isActive ? 'text-primary' : 'text-muted-foreground'
+              )}
+              title={view.visibility === 'team' ? `Shared with ${view.team || 'team'}` : 'Personal view'}
+            >
+              <span className="flex items-center gap-2">
+                {view.isDefault && view.userId === String(currentUser?.id) && <Star className="h-3 w-3 fill-current" />}
+                {view.visibility === 'team' && <Users className="h-3 w-3" />}
+                <span>
+                  {view.name}
+                  {isActive && isActiveViewModified && '*'}
+                </span>
+                <span
+                  className={cn(
+                    'inline-flex items-center justify-center min-w-[20px] h-5 px-1.5 rounded-full text-xs font-semibold',
+                    isActive
+                      ? 'bg-primary text-primary-foreground'
+                      : 'bg-muted text-muted-foreground'
+                  )}
+                >
+                  {count}
+                </span>
+              </span>
+            </button>
+
+            {canManage && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <button
+                    className="mr-2 p-1 rounded text-muted-foreground hover:text-foreground hover:bg-muted"
+                    aria-label={`Manage view ${view.name}`}
+                  >
+                    <MoreVertical className="h-3.5 w-3.5" />
+                  </button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="w-52">
+                  {isActive && isActiveViewModified && (
+                    <DropdownMenuItem onClick={() => onUpdateFilters(view)} className="cursor-pointer">
+                      <Save className="mr-2 h-4 w-4" />
+                      <span>Save current filters</span>
+                    </DropdownMenuItem>
+                  )}
+                  <DropdownMenuItem onClick={() => onEdit(view)} className="cursor-pointer">
+                    <Pencil className="mr-2 h-4 w-4" />
+                    <span>Edit view</span>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => onToggleDefault(view)} className="cursor-pointer">
+                    <Star className="mr-2 h-4 w-4" />
+                    <span>{view.isDefault ? 'Remove as default' : 'Set as default'}</span>
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem
+                    onClick={() => onDelete(view)}
+                    className="cursor-pointer text-red-600 focus:text-red-600"
+                  >
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    <span>Delete view</span>
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+          </div>
+        );
+      })}
+    </>
+  );
+}
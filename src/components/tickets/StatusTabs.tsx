@@ -1,12 +1,16 @@
+import type { ReactNode } from 'react';
 import { cn } from '@/lib/utils';
 import type { TicketStatus, Ticket, User } from '@/types';
+import type { TicketCounts } from '@/hooks/useTicketsQuery';
 
 interface StatusTabsProps {
   activeTickets: Ticket[];
-  activeStatus: TicketStatus | 'all' | 'my_tickets';
+  activeStatus: TicketStatus | 'all' | 'my_tickets' | null;
   onStatusChange: (status: TicketStatus | 'all' | 'my_tickets') => void;
   currentUser?: User | null;
   closedTicketsCount?: number;
+  counts?: TicketCounts;
+  children?: ReactNode;
 }
 
 interface StatusCount {
@@ -17,8 +21,14 @@ interface StatusCount {
   mobileVisible?: boolean;
 }
 
-export function StatusTabs({ activeTickets, activeStatus, onStatusChange, currentUser, closedTicketsCount = 0 }: StatusTabsProps) {
+export function StatusTabs({ activeTickets, activeStatus, onStatusChange, currentUser, closedTicketsCount = 0, counts, children }: StatusTabsProps) {
   const getStatusCount = (status: TicketStatus | 'all' | 'my_tickets'): number => {
+    // Prefer server-side counts (the loaded list may only be the first page)
+    if (counts && status !== 'closed') {
+      if (status === 'all') return counts.total;
+      if (status === 'my_tickets') return counts.assignedToMe;
+      return counts.byStatus[status] ?? 0;
+    }
     if (status === 'all') return activeTickets.length;
     if (status === 'my_tickets') {
       return activeTickets.filter(t => t.assignee?.id === currentUser?.id).length;
@@ -78,6 +88,9 @@ export function StatusTabs({ activeTickets, activeStatus, onStatusChange, curren
             </button>
           );
         })}
+
+        {/* Additional tabs (e.g. saved views) */}
+        {children}
       </div>
     </div>
   );
@@ -0,0 +1,43 @@
+import { X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { tagColorClasses } from '@/lib/tags';
+import type { TagColor } from '@/types/tags';
+
+interface TagBadgeProps {
+  tag: string;
+  color?: TagColor | null;
+  onRemove?: () => void;
+  onClick?: () => void;
+  active?: boolean;
+  className?: string;
+}
+
+export function TagBadge({ tag, color, onRemove, onClick, active, className }: TagBadgeProps) {
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-1 rounded border px-2 py-0.5 text-xs font-medium',
+        tagColorClasses(color),
+        onClick && 'cursor-pointer hover:opacity-80',
+        active && 'ring-2 ring-primary ring-offset-1 ring-offset-background',
+        className
+      )}
+      onClick={onClick}
+    >
+      {tag}
+      {onRemove && (
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            onRemove();
+          }}
+          className="rounded-sm opacity-60 hover:opacity-100"
+          aria-label={`Remove tag ${tag}`}
+        >
+          <X className="h-3 w-3" />
+        </button>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,133 @@
+import { useState, useRef } from 'react';
+import { Plus } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useTagsQuery, useTagColors } from '@/hooks/useTags';
+import { hasTag, normalizeTag, resolveTag, suggestTags } from '@/lib/tags';
+import { TagBadge } from './TagBadge';
+
+interface TagEditorProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Inline tag editor with autocomplete over the tags already used on other tickets.
+ * Enter or comma adds the typed tag, Backspace on an empty input removes the last one.
+ */
+export function TagEditor({ tags, onChange, disabled = false }: TagEditorProps) {
+  const { data: allTags = [] } = useTagsQuery();
+  const getTagColor = useTagColors();
+  const [input, setInput] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const typed = normalizeTag(input);
+  const suggestions = suggestTags(input, allTags, tags);
+  const canCreate = !!typed && !hasTag(allTags.map((tag) => tag.name), typed) && !hasTag(tags, typed);
+  const options = [...suggestions.map((tag) => tag.name), ...(canCreate ? [typed] : [])];
+
+  const addTag = (value: string) => {
+    const tag = resolveTag(value, allTags.map((known) => known.name));
+    if (tag && !hasTag(tags, tag)) {
+      onChange([...tags, tag]);
+    }
+    setInput('');
+    setHighlighted(0);
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(tags.filter((existing) => existing !== tag));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      const option = isOpen && input ? options[highlighted] : undefined;
+      if (option || typed) addTag(option || typed);
+    } else if (e.key === 'Backspace' && !input && tags.length > 0) {
+      removeTag(tags[tags.length - 1]);
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setIsOpen(true);
+      setHighlighted((index) => Math.min(index + 1, options.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted((index) => Math.max(index - 1, 0));
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div
+        className={cn(
+          'flex flex-wrap items-center gap-1 rounded-md border border-input bg-background px-2 py-1 min-h-8 cursor-text',
+          disabled && 'opacity-50 cursor-not-allowed'
+        )}
+        onClick={() => inputRef.current?.focus()}
+      >
+        {tags.map((tag) => (
+          <TagBadge
+            key={tag}
+            tag={tag}
+            color={getTagColor(tag)}
+            onRemove={disabled ? undefined : () => removeTag(tag)}
+          />
+        ))}
+        <input
+          ref={inputRef}
+          value={input}
+          onChange={(e) => {
+            setInput(e.target.value);
+            setHighlighted(0);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => setIsOpen(false)}
+          onKeyDown={handleKeyDown}
+          disabled={disabled}
+          placeholder={tags.length === 0 ? 'Add tags...' : ''}
+          className="flex-1 min-w-[80px] bg-transparent text-xs outline-none placeholder:text-muted-foreground"
+        />
+      </div>
+
+      {isOpen && !disabled && options.length > 0 && (
+        <div className="absolute z-50 mt-1 w-full rounded-md border bg-popover p-1 shadow-md">
+          {options.map((option, index) => {
+            const isNew = canCreate && index === options.length - 1;
+            const info = allTags.find((tag) => tag.name === option);
+            return (
+              <button
+                key={`${isNew ? 'new' : 'tag'}-${option}`}
+                type="button"
+                // Keep focus in the input so the list doesn't close before the click lands
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => addTag(option)}
+                onMouseEnter={() => setHighlighted(index)}
+                className={cn(
+                  'flex w-full items-center justify-between gap-2 rounded-sm px-2 py-1.5 text-xs',
+                  index === highlighted && 'bg-accent text-accent-foreground'
+                )}
+              >
+                {isNew ? (
+                  <span className="flex items-center gap-1">
+                    <Plus className="h-3 w-3" />
+                    Create "{option}"
+                  </span>
+                ) : (
+                  <>
+                    <TagBadge tag={option} color={info?.color} />
+                    <span className="text-muted-foreground">{info?.ticketCount}</span>
+                  </>
+                )}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
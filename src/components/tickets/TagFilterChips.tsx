@@ -0,0 +1,68 @@
+import { useState } from 'react';
+import { Tags } from 'lucide-react';
+import { useTagsQuery } from '@/hooks/useTags';
+import { hasTag } from '@/lib/tags';
+import { TagBadge } from './TagBadge';
+
+const COLLAPSED_COUNT = 8;
+
+interface TagFilterChipsProps {
+  selectedTags: string[];
+  onChange: (tags: string[]) => void;
+}
+
+/**
+ * One-click tag filters for the ticket list: the most used tags, plus any already selected
+ */
+export function TagFilterChips({ selectedTags, onChange }: TagFilterChipsProps) {
+  const { data: tags = [] } = useTagsQuery();
+  const [showAll, setShowAll] = useState(false);
+
+  if (tags.length === 0) return null;
+
+  const byUsage = [...tags].sort((a, b) => b.ticketCount - a.ticketCount || a.name.localeCompare(b.name));
+  const shown = showAll
+    ? byUsage
+    : byUsage.filter((tag, index) => index < COLLAPSED_COUNT || hasTag(selectedTags, tag.name));
+
+  const toggleTag = (name: string) => {
+    onChange(
+      hasTag(selectedTags, name)
+        ? selectedTags.filter((tag) => tag.toLowerCase() !== name.toLowerCase())
+        : [...selectedTags, name]
+    );
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 mb-4">
+      <Tags className="h-3.5 w-3.5 text-muted-foreground mr-1" />
+      {shown.map((tag) => (
+        <TagBadge
+          key={tag.name}
+          tag={`${tag.name} · ${tag.ticketCount}`}
+          color={tag.color}
+          active={hasTag(selectedTags, tag.name)}
+          onClick={() => toggleTag(tag.name)}
+        />
+      ))}
+      {byUsage.length > COLLAPSED_COUNT && (
+        <button
+          type="button"
+          onClick={() => setShowAll(!showAll)}
+          className="text-xs text-muted-foreground hover:text-foreground hover:underline ml-1"
+        >
+          {showAll ? 'Show less' : `+${byUsage.length - shown.length} more`}
+        </button>
+      )}
+      {selectedTags.length > 0 && (
+        <button
+          type="button"
+          onClick={() => onChange([])}
+          className="text-xs font-medium text-primary hover:underline ml-1"
+        >
+          Clear tags
+        </button>
+      )}
+    </div>
+  );
+}
@@ -1,19 +1,31 @@
 import { useNavigate } from 'react-router-dom';
-import type { Ticket } from '@/types';
+import type { Ticket, WaitingOptions } from '@/types';
 import { StatusBadge } from './StatusBadge';
 import { PriorityBadge } from './PriorityBadge';
 import { Badge } from '@/components/ui/badge';
 import { SLAIndicator } from './SLAIndicator';
-import { formatRelativeTime } from '@/lib/utils';
-import { Clock, User } from 'lucide-react';
+import { formatDateTime, formatRelativeTime } from '@/lib/utils';
+import { isSnoozed } from '@/lib/waiting';
+import { Clock, User, Loader2, Hourglass } from 'lucide-react';
+import { useVirtualList } from '@/hooks/useVirtualList';
+import type { TicketSelection } from './TicketTable';
 
 interface TicketCardsProps {
   tickets: Ticket[];
-  onTicketUpdate?: (ticketId: string, field: 'status' | 'priority' | 'assignee', value: string | null) => Promise<void>;
+  onTicketUpdate?: (ticketId: string, field: 'status' | 'priority' | 'assignee', value: string | null, waiting?: WaitingOptions) => Promise<void>;
+  onEndReached?: () => void;
+  isLoadingMore?: boolean;
+  selection?: TicketSelection;
 }
 
-export function TicketCards({ tickets }: TicketCardsProps) {
+export function TicketCards({ tickets, onEndReached, isLoadingMore, selection }: TicketCardsProps) {
   const navigate = useNavigate();
+  const { listRef, virtualizer, items, paddingTop, paddingBottom } = useVirtualList<HTMLDivElement>({
+    count: tickets.length,
+    estimateSize: 196,
+    overscan: 4,
+    onEndReached,
+  });
 
   if (tickets.length === 0) {
     return (
@@ -24,63 +36,102 @@ export function TicketCards({ tickets }: TicketCardsProps) {
   }
 
   return (
-    <div className="space-y-4">
-      {tickets.map((ticket) => (
-        <div
-          key={ticket.id}
-          onClick={() => navigate(`/agent/tickets/${ticket.id}`, { state: { ticket } })}
-          className="p-4 border rounded-lg bg-card hover:bg-accent/50 transition-colors cursor-pointer"
-        >
-          {/* Header: ID + SLA */}
-          <div className="flex items-center justify-between mb-3">
-            <span className="font-mono text-xs font-medium text-primary">
-              {ticket.id}
-            </span>
-            {ticket.sla && <SLAIndicator sla={ticket.sla} />}
-          </div>
+    <div ref={listRef} style={{ paddingTop, paddingBottom }}>
+      {items.map((virtualItem) => {
+        const ticket = tickets[virtualItem.index];
+        return (
+          <div
+            key={ticket.id}
+            data-index={virtualItem.index}
+            ref={virtualizer.measureElement}
+            className="pb-4"
+          >
+            <div
+              onClick={() => navigate(`/agent/tickets/${ticket.id}`, { state: { ticket } })}
+              className="p-4 border rounded-lg bg-card hover:bg-accent/50 transition-colors cursor-pointer"
+            >
+              {/* Header: ID + SLA */}
+              <div className="flex items-center justify-between mb-3">
+                <span className="flex items-center gap-2">
+                  {selection && (
+                    <input
+                      type="checkbox"
+                      aria-label={`Select ${ticket.id}`}
+                      checked={selection.selectedIds.has(ticket.id)}
+                      onChange={() => {}}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        selection.onToggle(virtualItem.index, e.shiftKey);
+                      }}
+                      className="h-4 w-4 rounded border-input text-primary"
+                    />
+                  )}
+                  <span className="font-mono text-xs font-medium text-primary">
+                    {ticket.id}
+                  </span>
+                </span>
+                {ticket.sla && <SLAIndicator sla={ticket.sla} startedAt={ticket.createdAt} />}
+              </div>
 
-          {/* Title */}
-          <h4 className="font-semibold text-base leading-tight mb-3">
-            {ticket.title}
-          </h4>
+              {/* Title */}
+              <h4 className="font-semibold text-base leading-tight mb-3">
+                {ticket.title}
+              </h4>
 
-          {/* Status & Priority Badges */}
-          <div className="flex flex-wrap items-center gap-2 mb-3">
-            <StatusBadge status={ticket.status} />
-            <PriorityBadge priority={ticket.priority} />
-            <Badge variant="outline" className="text-[10px]">
-              {ticket.category}
-            </Badge>
-          </div>
+              {/* Status & Priority Badges */}
+              <div className="flex flex-wrap items-center gap-2 mb-3">
+                <StatusBadge status={ticket.status} />
+                <PriorityBadge priority={ticket.priority} />
+                <Badge variant="outline" className="text-[10px]">
+                  {ticket.category}
+                </Badge>
+              </div>
 
-          {/* Metadata */}
-          <div className="flex flex-col gap-2 text-xs text-muted-foreground">
-            {/* Created Time */}
-            <div className="flex items-center gap-1.5">
-              <Clock className="h-3.5 w-3.5" />
-              <span>{formatRelativeTime(ticket.createdAt)}</span>
-            </div>
+              {/* Metadata */}
+              <div className="flex flex-col gap-2 text-xs text-muted-foreground">
+                {/* Created Time */}
+                <div className="flex items-center gap-1.5">
+                  <Clock className="h-3.5 w-3.5" />
+                  <span>{formatRelativeTime(ticket.createdAt)}</span>
+                </div>
 
-            {/* Requester */}
-            <div className="flex items-center gap-1.5">
-              <User className="h-3.5 w-3.5" />
-              <span>
-                <span className="font-medium">Requester:</span> {ticket.requester.name}
-              </span>
-            </div>
+                {/* Snoozed */}
+                {isSnoozed(ticket) && (
+                  <div className="flex items-center gap-1.5">
+                    <Hourglass className="h-3.5 w-3.5" />
+                    <span>Snoozed until {formatDateTime(ticket.waitingUntil!)}</span>
+                  </div>
+                )}
+
+                {/* Requester */}
+                <div className="flex items-center gap-1.5">
+                  <User className="h-3.5 w-3.5" />
+                  <span>
+                    <span className="font-medium">Requester:</span> {ticket.requester.name}
+                  </span>
+                </div>
 
-            {/* Assignee */}
-            <div className="flex items-center gap-2">
-              <span className="font-medium">Assigned to:</span>
-              {ticket.assignee ? (
-                <span>{ticket.assignee.name}</span>
-              ) : (
-                <span className="text-muted-foreground italic">Unassigned</span>
-              )}
+                {/* Assignee */}
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">Assigned to:</span>
+                  {ticket.assignee ? (
+                    <span>{ticket.assignee.name}</span>
+                  ) : (
+                    <span className="text-muted-foreground italic">Unassigned</span>
+                  )}
+                </div>
+              </div>
             </div>
           </div>
+        );
+      })}
+
+      {isLoadingMore && (
+        <div className="flex items-center justify-center py-4 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          Loading more tickets...
         </div>
-      ))}
+      )}
     </div>
   );
 }
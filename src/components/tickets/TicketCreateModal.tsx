@@ -4,6 +4,8 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } f
 import { Loader2 } from 'lucide-react';
 import { fetchWithAuth } from '@/lib/fetchWithAuth';
 import { DynamicTicketForm } from './DynamicTicketForm';
+import { DuplicateTicketsWarning } from './DuplicateTicketsWarning';
+import { useDuplicateTicketsQuery } from '@/hooks/useTicketsQuery';
 import type { FormField } from '@/types/formBuilder';
 import type { User } from '@/types';
 import { mergeWithDefaults } from '@/utils/defaultFormConfig';
@@ -37,6 +39,15 @@ export function TicketCreateModal({ open, onOpenChange, onSuccess }: TicketCreat
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Warn about open tickets that look like the one being created
+  const { data: duplicates = [] } = useDuplicateTicketsQuery(
+    {
+      title: fieldValues['system-title'] || '',
+      description: fieldValues['system-description'] || '',
+    },
+    open
+  );
+
   // Load form configuration and users when modal opens
   useEffect(() => {
     if (open) {
@@ -255,23 +266,29 @@ export function TicketCreateModal({ open, onOpenChange, onSuccess }: TicketCreat
             <span className="text-sm text-muted-foreground">Loading form configuration...</span>
           </div>
         ) : (
-          <DynamicTicketForm
-            allFields={allFields}
-            fieldValues={fieldValues}
-            onFieldValueChange={handleFieldValueChange}
-            showRequesterField={true}
-            showAssigneeField={true}
-            selectedRequesterId={selectedRequesterId}
-            onRequesterChange={setSelectedRequesterId}
-            selectedAssigneeId={selectedAssigneeId}
-            onAssigneeChange={setSelectedAssigneeId}
-            users={users}
-            ccUserIds={ccUserIds}
-            onCcUserIdsChange={setCcUserIds}
-            isLoading={isLoading}
-            onSubmit={handleSubmit}
-            errorMessage={error}
-          />
+          <>
+            <DuplicateTicketsWarning
+              candidates={duplicates}
+              getTicketUrl={(ticketId) => `/agent/tickets/${ticketId}`}
+            />
+            <DynamicTicketForm
+              allFields={allFields}
+              fieldValues={fieldValues}
+              onFieldValueChange={handleFieldValueChange}
+              showRequesterField={true}
+              showAssigneeField={true}
+              selectedRequesterId={selectedRequesterId}
+              onRequesterChange={setSelectedRequesterId}
+              selectedAssigneeId={selectedAssigneeId}
+              onAssigneeChange={setSelectedAssigneeId}
+              users={users}
+              ccUserIds={ccUserIds}
+              onCcUserIdsChange={setCcUserIds}
+              isLoading={isLoading}
+              onSubmit={handleSubmit}
+              errorMessage={error}
+            />
+          </>
         )}
       </DialogContent>
     </Dialog>
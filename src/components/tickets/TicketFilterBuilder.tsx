@@ -0,0 +1,292 @@
+import { useState, useEffect, useRef } from 'react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { MultiSelect } from '@/components/ui/multi-select';
+import { Filter, X } from 'lucide-react';
+import { fetchWithAuth } from '@/lib/fetchWithAuth';
+import { usersCache } from '@/lib/usersCache';
+import { countActiveFilters } from '@/lib/ticketFilters';
+import type { TicketFilter, TicketStatus, TicketPriority, User } from '@/types';
+import { ASSIGNEE_FILTER_ME, ASSIGNEE_FILTER_UNASSIGNED } from '@/types';
+
+const API_BASE = 'https://itsm-backend.joshua-r-klimek.workers.dev';
+
+const STATUS_OPTIONS: { value: TicketStatus; label: string }[] = [
+  { value: 'new', label: 'New' },
+  { value: 'open', label: 'Open' },
+  { value: 'in_progress', label: 'In Progress' },
+  { value: 'waiting', label: 'Waiting' },
+  { value: 'resolved', label: 'Resolved' },
+  { value: 'closed', label: 'Closed' },
+];
+
+const PRIORITY_OPTIONS: TicketPriority[] = ['low', 'medium', 'high', 'urgent'];
+
+interface TicketFilterBuilderProps {
+  filter: TicketFilter;
+  onApply: (filter: TicketFilter) => void;
+  availableTags: string[];
+}
+
+/**
+ * Format a Date for an <input type="date"> value
+ */
+function toDateInput(date?: Date): string {
+  if (!date || date.getFullYear() <= 1970 || date.getFullYear() >= 9999) return '';
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function TicketFilterBuilder({ filter, onApply, availableTags }: TicketFilterBuilderProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<TicketFilter>(filter);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [departments, setDepartments] = useState<string[]>([]);
+  const [agents, setAgents] = useState<User[]>([]);
+  const hasLoadedOptions = useRef(false);
+
+  const activeCount = countActiveFilters({ ...filter, searchQuery: undefined });
+
+  // Reset the draft to the applied filter whenever the popover opens
+  const handleOpenChange = (open: boolean) => {
+    if (open) {
+      setDraft(filter);
+    }
+    setIsOpen(open);
+  };
+
+  // Load filter options the first time the popover opens
+  useEffect(() => {
+    if (!isOpen || hasLoadedOptions.current) return;
+    hasLoadedOptions.current = true;
+
+    const fetchOptions = async () => {
+      try {
+        const [categoriesRes, departmentsRes] = await Promise.all([
+          fetchWithAuth(`${API_BASE}/api/config/categories`),
+          fetchWithAuth(`${API_BASE}/api/departments/unique`),
+        ]);
+
+        if (categoriesRes.ok) {
+          const data = await categoriesRes.json();
+          if (data.success) {
+            setCategories(data.categories || []);
+          }
+        }
+
+        if (departmentsRes.ok) {
+          const data = await departmentsRes.json();
+          if (data.success) {
+            setDepartments(data.departments || []);
+          }
+        }
+      } catch (error) {
+        console.error('Failed to fetch filter options:', error);
+      }
+    };
+
+    const loadAgents = async () => {
+      let users = usersCache.get();
+      if (!users) {
+        try {
+          const response = await fetchWithAuth(`${API_BASE}/api/users`);
+          const data = await response.json();
+          if (data.success) {
+            usersCache.set(data.users);
+            users = data.users;
+          }
+        } catch (error) {
+          console.error('Failed to fetch users:', error);
+        }
+      }
+      setAgents((users || []).filter((u) => ['agent', 'manager', 'admin'].includes(u.role)));
+    };
+
+    fetchOptions();
+    loadAgents();
+  }, [isOpen]);
+
+  const toggleValue = <T extends string>(key: 'status' | 'priority' | 'assignee', value: T) => {
+    setDraft((prev) => {
+      const current = (prev[key] as T[] | undefined) || [];
+      const next = current.includes(value) ? current.filter((v) => v !== value) : [...current, value];
+      return { ...prev, [key]: next.length > 0 ? next : undefined };
+    });
+  };
+
+  const setListValue = (key: 'category' | 'department' | 'tags', values: string[]) => {
+    setDraft((prev) => ({ ...prev, [key]: values.length > 0 ? values : undefined }));
+  };
+
+  const setDateBound = (bound: 'start' | 'end', value: string) => {
+    setDraft((prev) => {
+      const start = bound === 'start' ? value : toDateInput(prev.dateRange?.start);
+      const end = bound === 'end' ? value : toDateInput(prev.dateRange?.end);
+
+      if (!start && !end) {
+        return { ...prev, dateRange: undefined };
+      }
+
+      const [startYear, startMonth, startDay] = (start || '1970-01-01').split('-').map(Number);
+      const [endYear, endMonth, endDay] = (end || '9999-12-31').split('-').map(Number);
+
+      return {
+        ...prev,
+        dateRange: {
+          start: new Date(startYear, startMonth - 1, startDay),
+          end: new Date(endYear, endMonth - 1, endDay, 23, 59, 59, 999),
+        },
+      };
+    });
+  };
+
+  const handleApply = () => {
+    onApply({ ...draft, searchQuery: filter.searchQuery });
+    setIsOpen(false);
+  };
+
+  const handleClear = () => {
+    onApply({ searchQuery: filter.searchQuery });
+    setIsOpen(false);
+  };
+
+  const assigneeOptions = [
+    { value: ASSIGNEE_FILTER_ME, label: 'Me' },
+    { value: ASSIGNEE_FILTER_UNASSIGNED, label: 'Unassigned' },
+    ...agents.map((agent) => ({ value: String(agent.id), label: agent.name })),
+  ];
+
+  return (
+    <Popover open={isOpen} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant={activeCount > 0 ? 'default' : 'outline'} size="sm">
+          <Filter className="h-4 w-4 sm:mr-2" />
+          <span className="hidden sm:inline">Filters</span>
+          {activeCount > 0 && (
+            <span className="ml-2 px-1.5 py-0.5 text-xs font-semibold rounded-full bg-background text-foreground">
+              {activeCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-[420px] max-h-[70vh] overflow-y-auto space-y-4">
+        {/* Status */}
+        <div>
+          <Label className="text-xs text-muted-foreground mb-2 block">Status</Label>
+          <div className="flex flex-wrap gap-2">
+            {STATUS_OPTIONS.map((option) => (
+              <Badge
+                key={option.value}
+                variant={draft.status?.includes(option.value) ? 'default' : 'outline'}
+                className="cursor-pointer"
+                onClick={() => toggleValue('status', option.value)}
+              >
+                {option.label}
+              </Badge>
+            ))}
+          </div>
+        </div>
+
+        {/* Priority */}
+        <div>
+          <Label className="text-xs text-muted-foreground mb-2 block">Priority</Label>
+          <div className="flex flex-wrap gap-2">
+            {PRIORITY_OPTIONS.map((priority) => (
+              <Badge
+                key={priority}
+                variant={draft.priority?.includes(priority) ? 'default' : 'outline'}
+                className="cursor-pointer capitalize"
+                onClick={() => toggleValue('priority', priority)}
+              >
+                {priority}
+              </Badge>
+            ))}
+          </div>
+        </div>
+
+        {/* Assignee */}
+        <div>
+          <Label className="text-xs text-muted-foreground mb-2 block">Assignee</Label>
+          <div className="flex flex-wrap gap-2 max-h-28 overflow-y-auto">
+            {assigneeOptions.map((option) => (
+              <Badge
+                key={option.value}
+                variant={draft.assignee?.includes(option.value) ? 'default' : 'outline'}
+                className="cursor-pointer"
+                onClick={() => toggleValue('assignee', option.value)}
+              >
+                {option.label}
+              </Badge>
+            ))}
+          </div>
+        </div>
+
+        {/* Category */}
+        <div>
+          <Label className="text-xs text-muted-foreground mb-2 block">Category</Label>
+          <MultiSelect
+            options={categories}
+            selectedValues={draft.category || []}
+            onChange={(values) => setListValue('category', values)}
+            placeholder="Any category"
+          />
+        </div>
+
+        {/* Department */}
+        <div>
+          <Label className="text-xs text-muted-foreground mb-2 block">Department</Label>
+          <MultiSelect
+            options={departments}
+            selectedValues={draft.department || []}
+            onChange={(values) => setListValue('department', values)}
+            placeholder="Any department"
+          />
+        </div>
+
+        {/* Tags */}
+        <div>
+          <Label className="text-xs text-muted-foreground mb-2 block">Tags</Label>
+          <MultiSelect
+            options={availableTags}
+            selectedValues={draft.tags || []}
+            onChange={(values) => setListValue('tags', values)}
+            placeholder="Any tag"
+          />
+        </div>
+
+        {/* Created date range */}
+        <div>
+          <Label className="text-xs text-muted-foreground mb-2 block">Created</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              type="date"
+              value={toDateInput(draft.dateRange?.start)}
+              onChange={(e) => setDateBound('start', e.target.value)}
+            />
+            <span className="text-sm text-muted-foreground">to</span>
+            <Input
+              type="date"
+              value={toDateInput(draft.dateRange?.end)}
+              onChange={(e) => setDateBound('end', e.target.value)}
+            />
+          </div>
+        </div>
+
+        {/* Actions */}
+        <div className="flex justify-between pt-2 border-t">
+          <Button variant="ghost" size="sm" onClick={handleClear}>
+            <X className="h-4 w-4 mr-2" />
+            Clear
+          </Button>
+          <Button size="sm" onClick={handleApply}>
+            Apply Filters
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,65 @@
+import { Pencil } from 'lucide-react';
+import { getInitials } from '@/lib/utils';
+import { formatTypingNames } from '@/lib/presence';
+import type { TicketViewer } from '@/types';
+
+const MAX_AVATARS = 4;
+
+/**
+ * Stacked avatars of the other agents who have this ticket open
+ */
+export function PresenceAvatars({ viewers }: { viewers: TicketViewer[] }) {
+  if (viewers.length === 0) return null;
+
+  const shown = viewers.slice(0, MAX_AVATARS);
+  const hidden = viewers.slice(MAX_AVATARS);
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-xs text-muted-foreground hidden sm:inline">Also viewing</span>
+      <div className="flex -space-x-2">
+        {shown.map((viewer) => (
+          <div
+            key={viewer.userId}
+            className="relative h-7 w-7 rounded-full bg-primary flex items-center justify-center text-primary-foreground text-[10px] font-medium ring-2 ring-background"
+            title={viewer.isTyping ? `${viewer.name} (typing a reply)` : viewer.name}
+          >
+            {getInitials(viewer.name)}
+            {viewer.isTyping && (
+              <span className="absolute -bottom-0.5 -right-0.5 h-3.5 w-3.5 rounded-full bg-amber-500 ring-2 ring-background flex items-center justify-center">
+                <Pencil className="h-2 w-2 text-white" />
+              </span>
+            )}
+          </div>
+        ))}
+        {hidden.length > 0 && (
+          <div
+            className="h-7 w-7 rounded-full bg-muted flex items-center justify-center text-muted-foreground text-[10px] font-medium ring-2 ring-background"
+            title={hidden.map((viewer) => viewer.name).join(', ')}
+          >
+            +{hidden.length}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * "Alex is typing a reply" line for the reply box
+ */
+export function TypingIndicator({ viewers }: { viewers: TicketViewer[] }) {
+  const typingNames = viewers.filter((viewer) => viewer.isTyping).map((viewer) => viewer.name);
+  if (typingNames.length === 0) return null;
+
+  return (
+    <div className="flex items-center gap-1.5 text-xs text-amber-700 dark:text-amber-400">
+      <span className="flex gap-0.5">
+        <span className="h-1 w-1 rounded-full bg-current animate-bounce [animation-delay:-0.3s]" />
+        <span className="h-1 w-1 rounded-full bg-current animate-bounce [animation-delay:-0.15s]" />
+        <span className="h-1 w-1 rounded-full bg-current animate-bounce" />
+      </span>
+      {formatTypingNames(typingNames)}…
+    </div>
+  );
+}
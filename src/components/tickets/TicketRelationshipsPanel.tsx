@@ -0,0 +1,245 @@
+import { useState, useEffect, useRef } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Progress } from '@/components/ui/progress';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { SelectRoot as Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Link2, Plus, X, Loader2, Search } from 'lucide-react';
+import { StatusBadge } from './StatusBadge';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePermissions } from '@/hooks/usePermissions';
+import { useTicketSearchQuery } from '@/hooks/useTicketsQuery';
+import {
+  useTicketLinksQuery,
+  useTicketLinkMutations,
+  getChildProgress,
+  TICKET_LINK_LABELS,
+} from '@/hooks/useTicketLinks';
+import { cn } from '@/lib/utils';
+import type { Ticket, TicketLinkType } from '@/types';
+
+// Display order of link groups
+const LINK_GROUPS: TicketLinkType[] = ['parent', 'child', 'blocked_by', 'blocks', 'related'];
+
+const ADD_LINK_OPTIONS: { value: TicketLinkType; label: string }[] = [
+  { value: 'child', label: 'Add child ticket' },
+  { value: 'parent', label: 'Set parent ticket' },
+  { value: 'blocked_by', label: 'Blocked by' },
+  { value: 'blocks', label: 'Blocks' },
+  { value: 'related', label: 'Related to' },
+];
+
+interface TicketRelationshipsPanelProps {
+  ticket: Ticket;
+}
+
+export function TicketRelationshipsPanel({ ticket }: TicketRelationshipsPanelProps) {
+  const { user } = useAuth();
+  const { can } = usePermissions();
+  const canEdit = can('ticket:edit');
+
+  const { data, isLoading, refetch } = useTicketLinksQuery(ticket.id);
+  const { addLink, removeLink, setAutoResolveChildren } = useTicketLinkMutations(ticket.id);
+
+  // Resolving this ticket may auto-resolve its children on the server
+  const previousStatus = useRef(ticket.status);
+  useEffect(() => {
+    if (previousStatus.current !== ticket.status) {
+      previousStatus.current = ticket.status;
+      refetch();
+    }
+  }, [ticket.status, refetch]);
+
+  const [isAddOpen, setIsAddOpen] = useState(false);
+  const [linkType, setLinkType] = useState<TicketLinkType>('related');
+  const [searchQuery, setSearchQuery] = useState('');
+
+  const links = data?.links || [];
+  const progress = getChildProgress(links);
+  const hasParent = links.some((link) => link.type === 'parent');
+  const linkedIds = new Set(links.map((link) => link.ticket.id));
+
+  const { data: searchResults = [], isFetching: isSearching } = useTicketSearchQuery(searchQuery, isAddOpen);
+  const candidates = searchResults.filter((t) => t.id !== ticket.id && !linkedIds.has(t.id));
+
+  const handleOpenChange = (open: boolean) => {
+    setIsAddOpen(open);
+    if (!open) {
+      setSearchQuery('');
+    }
+  };
+
+  const handleAddLink = (linkedTicketId: string) => {
+    if (!user) return;
+    addLink.mutate(
+      { linkedTicketId, type: linkType, userId: user.id },
+      { onSuccess: () => handleOpenChange(false) }
+    );
+  };
+
+  const handleToggleAutoResolve = (enabled: boolean) => {
+    if (!user) return;
+    setAutoResolveChildren.mutate({ enabled, userId: user.id });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base flex items-center gap-2">
+            <Link2 className="h-4 w-4" />
+            Relationships
+          </CardTitle>
+          {canEdit && (
+            <Popover open={isAddOpen} onOpenChange={handleOpenChange}>
+              <PopoverTrigger asChild>
+                <Button variant="ghost" size="sm" className="h-6 text-xs px-2">
+                  <Plus className="h-3 w-3 mr-1" />
+                  Link
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent align="end" className="w-80 space-y-3">
+                <Select value={linkType} onValueChange={(value) => setLinkType(value as TicketLinkType)}>
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ADD_LINK_OPTIONS.map((option) => (
+                      <SelectItem
+                        key={option.value}
+                        value={option.value}
+                        disabled={option.value === 'parent' && hasParent}
+                      >
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                <div className="relative">
+                  <Search className="absolute left-2.5 top-2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    placeholder="Search by ticket ID or title..."
+                    className="h-8 pl-8 text-xs"
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                    autoFocus
+                  />
+                </div>
+
+                <div className="max-h-56 overflow-y-auto space-y-1">
+                  {isSearching && candidates.length === 0 ? (
+                    <div className="flex justify-center py-4">
+                      <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                    </div>
+                  ) : candidates.length === 0 ? (
+                    <p className="text-xs text-muted-foreground text-center py-4">
+                      {searchQuery.trim() ? 'No matching open tickets' : 'Type to search tickets'}
+                    </p>
+                  ) : (
+                    candidates.map((candidate) => (
+                      <button
+                        key={candidate.id}
+                        type="button"
+                        onClick={() => handleAddLink(candidate.id)}
+                        disabled={addLink.isPending}
+                        className="w-full flex items-center gap-2 px-2 py-1.5 rounded text-left hover:bg-accent disabled:opacity-50"
+                      >
+                        <span className="text-xs font-mono text-primary shrink-0">{candidate.id}</span>
+                        <span className="text-xs truncate">{candidate.title}</span>
+                      </button>
+                    ))
+                  )}
+                </div>
+              </PopoverContent>
+            </Popover>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4 text-xs">
+        {isLoading ? (
+          <div className="flex justify-center py-2">
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : links.length === 0 ? (
+          <p className="text-muted-foreground">No linked tickets</p>
+        ) : (
+          LINK_GROUPS.map((type) => {
+            const group = links.filter((link) => link.type === type);
+            if (group.length === 0) return null;
+
+            return (
+              <div key={type} className="space-y-1.5">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                    {TICKET_LINK_LABELS[type]}
+                  </h3>
+                  {type === 'child' && (
+                    <span className="text-muted-foreground">
+                      {progress.resolved}/{progress.total} resolved
+                    </span>
+                  )}
+                </div>
+
+                {/* Child ticket progress */}
+                {type === 'child' && (
+                  <Progress
+                    value={(progress.resolved / progress.total) * 100}
+                    className="h-1.5"
+                    indicatorClassName={progress.resolved === progress.total ? 'bg-green-600' : undefined}
+                  />
+                )}
+
+                {group.map((link) => {
+                  const isDone = link.ticket.status === 'resolved' || link.ticket.status === 'closed';
+                  return (
+                    <div key={link.id} className="flex items-center gap-2 group">
+                      <Link
+                        to={`/agent/tickets/${link.ticket.id}`}
+                        className="flex items-center gap-2 min-w-0 flex-1 hover:text-primary"
+                      >
+                        <span className={cn('font-mono shrink-0 text-primary', isDone && 'line-through opacity-60')}>
+                          {link.ticket.id}
+                        </span>
+                        <span className="truncate">{link.ticket.title}</span>
+                      </Link>
+                      <StatusBadge status={link.ticket.status} />
+                      {canEdit && (
+                        <button
+                          type="button"
+                          onClick={() => removeLink.mutate(link.id)}
+                          className="text-muted-foreground hover:text-destructive opacity-0 group-hover:opacity-100 transition-opacity"
+                          aria-label={`Remove link to ${link.ticket.id}`}
+                        >
+                          <X className="h-3.5 w-3.5" />
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            );
+          })
+        )}
+
+        {/* Auto-resolve children */}
+        {progress.total > 0 && (
+          <div className="flex items-center justify-between gap-3 pt-3 border-t">
+            <div>
+              <p className="font-medium">Auto-resolve children</p>
+              <p className="text-muted-foreground">Resolve open child tickets when this ticket is resolved</p>
+            </div>
+            <Switch
+              checked={data?.autoResolveChildren ?? false}
+              onCheckedChange={handleToggleAutoResolve}
+              disabled={!canEdit || setAutoResolveChildren.isPending}
+            />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,213 @@
+import { useState } from 'react';
+import { AlarmClock, CalendarClock, Loader2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn, formatDateTime, formatRelativeTime } from '@/lib/utils';
+import {
+  DUE_STATE_CLASSES,
+  formatDueIn,
+  getDueState,
+  getReminderPresets,
+  isDueTracked,
+  parseDateTimeLocalValue,
+  toDateTimeLocalValue,
+} from '@/lib/dueDates';
+import { useReminderMutations } from '@/hooks/useReminders';
+import type { TicketReminder, TicketStatus } from '@/types';
+
+interface DueDateEditorProps {
+  dueDate?: Date;
+  status: TicketStatus;
+  onChange: (dueDate: Date | null) => Promise<void>;
+  disabled?: boolean;
+}
+
+/**
+ * Due date row for the ticket sidebar, click to set or clear it
+ */
+export function DueDateEditor({ dueDate, status, onChange, disabled = false }: DueDateEditorProps) {
+  const [open, setOpen] = useState(false);
+  const [value, setValue] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const dueState = dueDate && isDueTracked(status) ? getDueState(dueDate) : null;
+  const parsed = parseDateTimeLocalValue(value);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setValue(dueDate ? toDateTimeLocalValue(dueDate) : '');
+    }
+    setOpen(nextOpen);
+  };
+
+  const save = async (next: Date | null) => {
+    setIsSaving(true);
+    await onChange(next);
+    setIsSaving(false);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          disabled={disabled}
+          className="text-right font-medium hover:underline disabled:no-underline disabled:cursor-default"
+          title={dueDate ? formatDateTime(dueDate) : 'Set a due date'}
+        >
+          {dueDate ? (
+            <>
+              <span>{formatDateTime(dueDate)}</span>
+              {dueState && dueState !== 'upcoming' && (
+                <span className={cn('block text-xs font-normal', DUE_STATE_CLASSES[dueState])}>{formatDueIn(dueDate)}</span>
+              )}
+            </>
+          ) : (
+            <span className="text-muted-foreground font-normal">Not set</span>
+          )}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-3" align="end">
+        <p className="text-sm font-medium flex items-center gap-2">
+          <CalendarClock className="h-4 w-4" />
+          Due date
+        </p>
+        <Input type="datetime-local" value={value} onChange={(e) => setValue(e.target.value)} />
+        <div className="flex items-center justify-between gap-2">
+          {dueDate ? (
+            <Button variant="ghost" size="sm" onClick={() => save(null)} disabled={isSaving}>
+              Clear
+            </Button>
+          ) : (
+            <span />
+          )}
+          <Button size="sm" onClick={() => parsed && save(parsed)} disabled={!parsed || isSaving}>
+            {isSaving && <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" />}
+            Save
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+interface ReminderPopoverProps {
+  ticketId: string;
+  userId: string;
+  reminders: TicketReminder[];
+  onChange: (reminders: TicketReminder[]) => void;
+}
+
+/**
+ * "Remind me" button: set a private follow-up that arrives as a notification
+ */
+export function ReminderPopover({ ticketId, userId, reminders, onChange }: ReminderPopoverProps) {
+  const { createReminder, deleteReminder } = useReminderMutations(ticketId, userId);
+  const [open, setOpen] = useState(false);
+  const [customValue, setCustomValue] = useState('');
+  const [note, setNote] = useState('');
+
+  const pending = reminders
+    .filter((reminder) => reminder.userId === userId && !reminder.firedAt)
+    .sort((a, b) => a.remindAt.getTime() - b.remindAt.getTime());
+  const customDate = parseDateTimeLocalValue(customValue);
+
+  const addReminder = (remindAt: Date) => {
+    createReminder.mutate(
+      { remindAt, note: note.trim() },
+      {
+        onSuccess: (reminder) => {
+          onChange([...reminders, reminder]);
+          setCustomValue('');
+          setNote('');
+          setOpen(false);
+        },
+      }
+    );
+  };
+
+  const cancelReminder = (reminderId: string) => {
+    deleteReminder.mutate(reminderId, {
+      onSuccess: () => onChange(reminders.filter((reminder) => reminder.id !== reminderId)),
+    });
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm">
+          <AlarmClock className="h-3.5 w-3.5 mr-1.5" />
+          {pending.length > 0 ? `Reminder ${formatRelativeTime(pending[0].remindAt)}` : 'Remind me'}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-3" align="end">
+        {pending.length > 0 && (
+          <div className="space-y-1.5">
+            <p className="text-xs font-medium text-muted-foreground">Your reminders</p>
+            {pending.map((reminder) => (
+              <div key={reminder.id} className="flex items-start justify-between gap-2 rounded-md border px-2 py-1.5 text-xs">
+                <div className="min-w-0">
+                  <p className="font-medium">{formatDateTime(reminder.remindAt)}</p>
+                  {reminder.note && <p className="text-muted-foreground truncate">{reminder.note}</p>}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-5 w-5 p-0"
+                  onClick={() => cancelReminder(reminder.id)}
+                  disabled={deleteReminder.isPending}
+                  title="Cancel reminder"
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <p className="text-xs font-medium text-muted-foreground">Remind me</p>
+          <Input
+            placeholder="Note (optional)"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            className="h-8 text-xs"
+          />
+          <div className="grid grid-cols-2 gap-1.5">
+            {getReminderPresets().map((preset) => (
+              <Button
+                key={preset.label}
+                variant="outline"
+                size="sm"
+                className="h-auto py-1.5 flex-col items-start text-left"
+                onClick={() => addReminder(preset.date)}
+                disabled={createReminder.isPending}
+              >
+                <span className="text-xs font-medium">{preset.label}</span>
+                <span className="text-[10px] text-muted-foreground font-normal">{formatDateTime(preset.date)}</span>
+              </Button>
+            ))}
+          </div>
+          <div className="flex items-center gap-1.5">
+            <Input
+              type="datetime-local"
+              value={customValue}
+              onChange={(e) => setCustomValue(e.target.value)}
+              className="h-8 text-xs"
+            />
+            <Button
+              size="sm"
+              className="h-8"
+              onClick={() => customDate && addReminder(customDate)}
+              disabled={!customDate || customDate.getTime() <= Date.now() || createReminder.isPending}
+            >
+              {createReminder.isPending ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : 'Set'}
+            </Button>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
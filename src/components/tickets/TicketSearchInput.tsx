@@ -0,0 +1,147 @@
+import { useState, useRef } from 'react';
+import { Input } from '@/components/ui/input';
+import { Search, AlertCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { getQuerySuggestions, type TicketQueryError } from '@/lib/ticketQuery';
+import type { TicketSearchOptions } from '@/hooks/useTicketQueryContext';
+
+interface TicketSearchInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  options?: TicketSearchOptions;
+  availableTags: string[];
+  errors: TicketQueryError[];
+}
+
+export function TicketSearchInput({ value, onChange, options, availableTags, errors }: TicketSearchInputProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [cursor, setCursor] = useState(0);
+  const [isFocused, setIsFocused] = useState(false);
+  const [highlightedIndex, setHighlightedIndex] = useState(0);
+  const [isDismissed, setIsDismissed] = useState(false);
+
+  const { start, end, suggestions } = getQuerySuggestions(value, cursor, {
+    ...options,
+    tags: availableTags,
+  });
+  const showSuggestions = isFocused && !isDismissed && suggestions.length > 0;
+  const activeIndex = Math.min(highlightedIndex, suggestions.length - 1);
+
+  const updateCursor = () => {
+    setCursor(inputRef.current?.selectionStart ?? value.length);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onChange(e.target.value);
+    setCursor(e.target.selectionStart ?? e.target.value.length);
+    setHighlightedIndex(0);
+    setIsDismissed(false);
+  };
+
+  // Replace the token under the cursor with the chosen suggestion
+  const applySuggestion = (index: number) => {
+    const suggestion = suggestions[index];
+    if (!suggestion) return;
+
+    const keepTyping = suggestion.insertText.endsWith(':');
+    const after = value.slice(end);
+    const separator = keepTyping || after.startsWith(' ') ? '' : ' ';
+    const next = `${value.slice(0, start)}${suggestion.insertText}${separator}${after}`;
+    const nextCursor = start + suggestion.insertText.length + separator.length;
+
+    onChange(next);
+    setCursor(nextCursor);
+    setHighlightedIndex(0);
+
+    requestAnimationFrame(() => {
+      inputRef.current?.setSelectionRange(nextCursor, nextCursor);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showSuggestions) return;
+
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setHighlightedIndex((activeIndex + 1) % suggestions.length);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setHighlightedIndex((activeIndex - 1 + suggestions.length) % suggestions.length);
+        break;
+      case 'Enter':
+      case 'Tab':
+        e.preventDefault();
+        applySuggestion(activeIndex);
+        break;
+      case 'Escape':
+        e.preventDefault();
+        setIsDismissed(true);
+        break;
+    }
+  };
+
+  return (
+    <div className="relative max-w-md w-full">
+      <Search className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground" />
+      <Input
+        ref={inputRef}
+        placeholder='Search tickets... e.g. status:open priority:>=high'
+        className={cn('pl-10 w-full', errors.length > 0 && 'border-red-500 focus-visible:ring-red-500')}
+        value={value}
+        onChange={handleChange}
+        onKeyDown={handleKeyDown}
+        onKeyUp={updateCursor}
+        onClick={updateCursor}
+        onFocus={() => setIsFocused(true)}
+        onBlur={() => setIsFocused(false)}
+        aria-invalid={errors.length > 0}
+        aria-autocomplete="list"
+        spellCheck={false}
+      />
+
+      {/* Autocomplete */}
+      {showSuggestions && (
+        <div className="absolute z-50 mt-1 w-full rounded-md border bg-popover text-popover-foreground shadow-md py-1">
+          {suggestions.map((suggestion, index) => (
+            <button
+              key={suggestion.insertText}
+              type="button"
+              // Keep focus in the input so the selection can be applied
+              onMouseDown={(e) => {
+                e.preventDefault();
+                applySuggestion(index);
+              }}
+              onMouseEnter={() => setHighlightedIndex(index)}
+              className={cn(
+                'w-full flex items-center justify-between gap-3 px-3 py-1.5 text-left text-sm',
+                index === activeIndex && 'bg-accent text-accent-foreground'
+              )}
+            >
+              <span className="font-mono">{suggestion.label}</span>
+              {suggestion.description && (
+                <span className="text-xs text-muted-foreground truncate">{suggestion.description}</span>
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Query errors */}
+      {errors.length > 0 && !showSuggestions && (
+        <div className="absolute z-40 mt-1 w-full space-y-0.5">
+          {errors.map((error) => (
+            <p key={`${error.start}-${error.message}`} className="flex items-center gap-1 text-xs text-red-600">
+              <AlertCircle className="h-3 w-3 shrink-0" />
+              <span className="truncate">
+                {error.message}
+                <span className="font-mono text-muted-foreground ml-1">{value.slice(error.start, error.end)}</span>
+              </span>
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
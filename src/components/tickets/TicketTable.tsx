@@ -1,5 +1,6 @@
+import { useRef, type ReactNode } from 'react';
 import { useNavigate } from 'react-router-dom';
-import type { Ticket, ColumnConfig, TicketStatus, TicketPriority } from '@/types';
+import type { Ticket, ColumnConfig, TicketStatus, TicketPriority, WaitingOptions } from '@/types';
 import { StatusBadge } from './StatusBadge';
 import { PriorityBadge } from './PriorityBadge';
 import { SLAIndicator } from './SLAIndicator';
@@ -7,21 +8,85 @@ import { InlineStatusSelect } from './InlineStatusSelect';
 import { InlinePrioritySelect } from './InlinePrioritySelect';
 import { InlineAssigneeSelect } from './InlineAssigneeSelect';
 import { SortableHeader, type SortDirection } from './SortableHeader';
-import { formatRelativeTime, formatDate, getInitials, type SortColumn } from '@/lib/utils';
+import { cn, formatRelativeTime, formatDate, getInitials, type SortColumn } from '@/lib/utils';
+import { isDueTracked, getDueState, formatDueIn, DUE_STATE_CLASSES } from '@/lib/dueDates';
 import { useViewPreferences } from '@/contexts/ViewPreferencesContext';
 import { TicketCards } from './TicketCards';
+import { useVirtualList, useIsDesktop } from '@/hooks/useVirtualList';
+import { useDraftTicketIds } from '@/hooks/useDrafts';
+import { useTagColors } from '@/hooks/useTags';
+import { TagBadge } from './TagBadge';
+import { Loader2, Link2, ListTree, CornerLeftUp, PenLine } from 'lucide-react';
 
 interface TicketTableProps {
   tickets: Ticket[];
   sortColumn: SortColumn | null;
   sortDirection: SortDirection;
   onSort: (column: SortColumn) => void;
-  onTicketUpdate?: (ticketId: string, field: 'status' | 'priority' | 'assignee', value: string | null) => Promise<void>;
+  onTicketUpdate?: (ticketId: string, field: 'status' | 'priority' | 'assignee', value: string | null, waiting?: WaitingOptions) => Promise<void>;
+  onEndReached?: () => void;
+  isLoadingMore?: boolean;
+  selectedIds?: Set<string>;
+  onSelectionChange?: (ticketIds: Set<string>) => void;
 }
 
-export function TicketTable({ tickets, sortColumn, sortDirection, onSort, onTicketUpdate }: TicketTableProps) {
+export function TicketTable({
+  tickets,
+  sortColumn,
+  sortDirection,
+  onSort,
+  onTicketUpdate,
+  onEndReached,
+  isLoadingMore,
+  selectedIds,
+  onSelectionChange,
+}: TicketTableProps) {
   const navigate = useNavigate();
   const { ticketColumns } = useViewPreferences();
+  const isDesktop = useIsDesktop();
+  const draftTicketIds = useDraftTicketIds();
+  const getTagColor = useTagColors();
+  const lastToggledIndex = useRef<number | null>(null);
+
+  // Toggle a row's checkbox; shift-click selects/deselects the range since the last toggled row
+  const handleToggleSelect = (index: number, shiftKey: boolean) => {
+    if (!selectedIds || !onSelectionChange) return;
+
+    const next = new Set(selectedIds);
+    const ticketId = tickets[index].id;
+    const shouldSelect = !selectedIds.has(ticketId);
+
+    if (shiftKey && lastToggledIndex.current !== null && lastToggledIndex.current < tickets.length) {
+      const start = Math.min(lastToggledIndex.current, index);
+      const end = Math.max(lastToggledIndex.current, index);
+      for (let i = start; i <= end; i++) {
+        if (shouldSelect) {
+          next.add(tickets[i].id);
+        } else {
+          next.delete(tickets[i].id);
+        }
+      }
+    } else if (shouldSelect) {
+      next.add(ticketId);
+    } else {
+      next.delete(ticketId);
+    }
+
+    lastToggledIndex.current = index;
+    onSelectionChange(next);
+  };
+
+  const handleToggleSelectAll = () => {
+    if (!selectedIds || !onSelectionChange) return;
+
+    const allSelected = tickets.length > 0 && tickets.every((t) => selectedIds.has(t.id));
+    onSelectionChange(allSelected ? new Set() : new Set(tickets.map((t) => t.id)));
+    lastToggledIndex.current = null;
+  };
+
+  const selection = selectedIds && onSelectionChange
+    ? { selectedIds, onToggle: handleToggleSelect, onToggleAll: handleToggleSelectAll }
+    : undefined;
 
   const handleRowClick = (ticket: Ticket) => {
     // Pass ticket data via navigation state for instant loading
@@ -31,9 +96,9 @@ export function TicketTable({ tickets, sortColumn, sortDirection, onSort, onTick
   };
 
   // Handlers for inline editing
-  const handleStatusChange = async (ticketId: string, newStatus: TicketStatus) => {
+  const handleStatusChange = async (ticketId: string, newStatus: TicketStatus, waiting?: WaitingOptions) => {
     if (onTicketUpdate) {
-      await onTicketUpdate(ticketId, 'status', newStatus);
+      await onTicketUpdate(ticketId, 'status', newStatus, waiting);
     }
   };
 
@@ -59,8 +124,15 @@ export function TicketTable({ tickets, sortColumn, sortDirection, onSort, onTick
     switch (column.id) {
       case 'id':
         return (
-          <span className="text-sm font-mono font-medium text-primary">
-            {ticket.id}
+          <span className="inline-flex items-center gap-1.5">
+            <span className="text-sm font-mono font-medium text-primary">
+              {ticket.id}
+            </span>
+            {draftTicketIds.has(ticket.id) && (
+              <span title="You have an unsent draft reply" className="text-amber-600 dark:text-amber-400">
+                <PenLine className="h-3.5 w-3.5" />
+              </span>
+            )}
           </span>
         );
 
@@ -75,7 +147,9 @@ export function TicketTable({ tickets, sortColumn, sortDirection, onSort, onTick
         return onTicketUpdate ? (
           <InlineStatusSelect
             status={ticket.status}
-            onStatusChange={(newStatus) => handleStatusChange(ticket.id, newStatus)}
+            waitingUntil={ticket.waitingUntil}
+            reopenOnReply={ticket.reopenOnReply}
+            onStatusChange={(newStatus, waiting) => handleStatusChange(ticket.id, newStatus, waiting)}
           />
         ) : (
           <StatusBadge status={ticket.status} />
@@ -127,7 +201,7 @@ export function TicketTable({ tickets, sortColumn, sortDirection, onSort, onTick
         );
 
       case 'sla':
-        return <SLAIndicator sla={ticket.sla} />;
+        return <SLAIndicator sla={ticket.sla} startedAt={ticket.createdAt} />;
 
       case 'created':
         return (
@@ -145,7 +219,13 @@ export function TicketTable({ tickets, sortColumn, sortDirection, onSort, onTick
 
       case 'dueDate':
         return ticket.dueDate ? (
-          <span className="text-sm text-muted-foreground">
+          <span
+            className={cn(
+              'text-sm',
+              isDueTracked(ticket.status) ? DUE_STATE_CLASSES[getDueState(ticket.dueDate)] : 'text-muted-foreground'
+            )}
+            title={isDueTracked(ticket.status) ? formatDueIn(ticket.dueDate) : undefined}
+          >
             {formatDate(ticket.dueDate)}
           </span>
         ) : (
@@ -157,12 +237,7 @@ export function TicketTable({ tickets, sortColumn, sortDirection, onSort, onTick
           <div className="flex flex-wrap gap-1">
             {ticket.tags && ticket.tags.length > 0 ? (
               ticket.tags.slice(0, 3).map((tag) => (
-                <span
-                  key={tag}
-                  className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-secondary text-secondary-foreground"
-                >
-                  {tag}
-                </span>
+                <TagBadge key={tag} tag={tag} color={getTagColor(tag)} />
               ))
             ) : (
               <span className="text-sm text-muted-foreground">—</span>
@@ -175,19 +250,141 @@ export function TicketTable({ tickets, sortColumn, sortDirection, onSort, onTick
           </div>
         );
 
+      case 'links': {
+        const childProgress = ticket.childProgress;
+        const hasLinks = !!ticket.parentId || !!ticket.linkCount || !!childProgress?.total;
+        if (!hasLinks) {
+          return <span className="text-sm text-muted-foreground">—</span>;
+        }
+
+        return (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            {ticket.parentId && (
+              <span title={`Child of ${ticket.parentId}`}>
+                <CornerLeftUp className="h-3.5 w-3.5" />
+              </span>
+            )}
+            {childProgress && childProgress.total > 0 && (
+              <span
+                className={cn(
+                  'inline-flex items-center gap-0.5',
+                  childProgress.resolved === childProgress.total && 'text-green-600'
+                )}
+                title={`${childProgress.resolved} of ${childProgress.total} child tickets resolved`}
+              >
+                <ListTree className="h-3.5 w-3.5" />
+                {childProgress.resolved}/{childProgress.total}
+              </span>
+            )}
+            {!!ticket.linkCount && (
+              <span className="inline-flex items-center gap-0.5" title={`${ticket.linkCount} linked tickets`}>
+                <Link2 className="h-3.5 w-3.5" />
+                {ticket.linkCount}
+              </span>
+            )}
+          </div>
+        );
+      }
+
       default:
         return null;
     }
   };
 
+  // Mobile: Card View
+  if (!isDesktop) {
+    return (
+      <div className="md:hidden">
+        <TicketCards
+          tickets={tickets}
+          onTicketUpdate={onTicketUpdate}
+          onEndReached={onEndReached}
+          isLoadingMore={isLoadingMore}
+          selection={selection}
+        />
+      </div>
+    );
+  }
+
+  // Desktop: Table View
+  return (
+    <TicketTableDesktop
+      tickets={tickets}
+      visibleColumns={visibleColumns}
+      sortColumn={sortColumn}
+      sortDirection={sortDirection}
+      onSort={onSort}
+      onRowClick={handleRowClick}
+      renderCellContent={renderCellContent}
+      onEndReached={onEndReached}
+      isLoadingMore={isLoadingMore}
+      selection={selection}
+    />
+  );
+}
+
+export interface TicketSelection {
+  selectedIds: Set<string>;
+  onToggle: (index: number, shiftKey: boolean) => void;
+  onToggleAll: () => void;
+}
+
+interface TicketTableDesktopProps {
+  tickets: Ticket[];
+  visibleColumns: ColumnConfig[];
+  sortColumn: SortColumn | null;
+  sortDirection: SortDirection;
+  onSort: (column: SortColumn) => void;
+  onRowClick: (ticket: Ticket) => void;
+  renderCellContent: (column: ColumnConfig, ticket: Ticket) => ReactNode;
+  onEndReached?: () => void;
+  isLoadingMore?: boolean;
+  selection?: TicketSelection;
+}
+
+// Virtualized desktop table (only rows near the viewport are mounted)
+function TicketTableDesktop({
+  tickets,
+  visibleColumns,
+  sortColumn,
+  sortDirection,
+  onSort,
+  onRowClick,
+  renderCellContent,
+  onEndReached,
+  isLoadingMore,
+  selection,
+}: TicketTableDesktopProps) {
+  const { listRef, virtualizer, items, paddingTop, paddingBottom } = useVirtualList<HTMLTableSectionElement>({
+    count: tickets.length,
+    estimateSize: 57,
+    onEndReached,
+  });
+
+  const columnCount = visibleColumns.length + (selection ? 1 : 0);
+  const selectedCount = selection ? tickets.filter((t) => selection.selectedIds.has(t.id)).length : 0;
+
   return (
     <>
-      {/* Desktop: Table View */}
       <div className="hidden md:block rounded-md border">
         <div className="overflow-x-auto">
           <table className="w-full">
           <thead className="bg-muted/50">
             <tr className="border-b">
+              {selection && (
+                <th className="w-10 px-4 py-3 text-left">
+                  <input
+                    type="checkbox"
+                    aria-label="Select all tickets"
+                    checked={tickets.length > 0 && selectedCount === tickets.length}
+                    ref={(el) => {
+                      if (el) el.indeterminate = selectedCount > 0 && selectedCount < tickets.length;
+                    }}
+                    onChange={selection.onToggleAll}
+                    className="h-4 w-4 rounded border-input text-primary cursor-pointer"
+                  />
+                </th>
+              )}
               {visibleColumns.map((column) => (
                 <th
                   key={column.id}
@@ -209,47 +406,83 @@ export function TicketTable({ tickets, sortColumn, sortDirection, onSort, onTick
               ))}
             </tr>
           </thead>
-          <tbody>
+          <tbody ref={listRef}>
             {tickets.length === 0 ? (
               <tr>
                 <td
-                  colSpan={visibleColumns.length}
+                  colSpan={columnCount}
                   className="px-4 py-8 text-center text-sm text-muted-foreground"
                 >
                   No tickets found
                 </td>
               </tr>
             ) : (
-              tickets.map((ticket) => (
-                <tr
-                  key={ticket.id}
-                  onClick={() => handleRowClick(ticket)}
-                  className="border-b hover:bg-muted/30 cursor-pointer transition-colors"
-                >
-                  {visibleColumns.map((column) => (
-                    <td
-                      key={column.id}
-                      className="px-4 py-3"
-                      style={{ width: column.width ? `${column.width}px` : 'auto' }}
+              <>
+                {/* Spacer for rows above the viewport */}
+                {paddingTop > 0 && (
+                  <tr aria-hidden="true">
+                    <td colSpan={columnCount} style={{ height: paddingTop, padding: 0 }} />
+                  </tr>
+                )}
+
+                {items.map((virtualRow) => {
+                  const ticket = tickets[virtualRow.index];
+                  const isSelected = selection?.selectedIds.has(ticket.id) ?? false;
+                  return (
+                    <tr
+                      key={ticket.id}
+                      data-index={virtualRow.index}
+                      ref={virtualizer.measureElement}
+                      onClick={() => onRowClick(ticket)}
+                      className={cn(
+                        'border-b hover:bg-muted/30 cursor-pointer transition-colors',
+                        isSelected && 'bg-primary/5'
+                      )}
                     >
-                      {renderCellContent(column, ticket)}
-                    </td>
-                  ))}
-                </tr>
-              ))
+                      {selection && (
+                        <td className="w-10 px-4 py-3" onClick={(e) => e.stopPropagation()}>
+                          <input
+                            type="checkbox"
+                            aria-label={`Select ${ticket.id}`}
+                            checked={isSelected}
+                            onChange={() => {}}
+                            onClick={(e) => selection.onToggle(virtualRow.index, e.shiftKey)}
+                            className="h-4 w-4 rounded border-input text-primary cursor-pointer"
+                          />
+                        </td>
+                      )}
+                      {visibleColumns.map((column) => (
+                        <td
+                          key={column.id}
+                          className="px-4 py-3"
+                          style={{ width: column.width ? `${column.width}px` : 'auto' }}
+                        >
+                          {renderCellContent(column, ticket)}
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+
+                {/* Spacer for rows below the viewport */}
+                {paddingBottom > 0 && (
+                  <tr aria-hidden="true">
+                    <td colSpan={columnCount} style={{ height: paddingBottom, padding: 0 }} />
+                  </tr>
+                )}
+              </>
             )}
           </tbody>
         </table>
       </div>
     </div>
 
-      {/* Mobile: Card View */}
-      <div className="md:hidden">
-        <TicketCards
-          tickets={tickets}
-          onTicketUpdate={onTicketUpdate}
-        />
-      </div>
+      {isLoadingMore && (
+        <div className="hidden md:flex items-center justify-center py-4 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          Loading more tickets...
+        </div>
+      )}
     </>
   );
 }
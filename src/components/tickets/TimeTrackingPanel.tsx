@@ -0,0 +1,176 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Clock, Play, Square, Plus, X, Loader2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTimeEntriesQuery, useTimeEntryMutations, useTicketTimer } from '@/hooks/useTimeTracking';
+import { formatTimeSpent, formatElapsed, parseTimeSpent } from '@/lib/timeTracking';
+import { formatRelativeTime } from '@/lib/utils';
+import type { Ticket } from '@/types';
+
+interface TimeTrackingPanelProps {
+  ticket: Ticket;
+}
+
+export function TimeTrackingPanel({ ticket }: TimeTrackingPanelProps) {
+  const { user } = useAuth();
+  const { data: entries = [], isLoading } = useTimeEntriesQuery(ticket.id);
+  const { addEntry, deleteEntry } = useTimeEntryMutations(ticket.id);
+  const timer = useTicketTimer(ticket.id, user?.id);
+
+  const [isAdding, setIsAdding] = useState(false);
+  const [timeInput, setTimeInput] = useState('');
+  const [description, setDescription] = useState('');
+
+  const totalMinutes = entries.reduce((sum, entry) => sum + entry.minutes, 0);
+  const myMinutes = entries
+    .filter((entry) => entry.userId === user?.id)
+    .reduce((sum, entry) => sum + entry.minutes, 0);
+  const parsedMinutes = parseTimeSpent(timeInput);
+
+  const handleStopTimer = () => {
+    if (!user) return;
+    const minutes = timer.stop();
+    addEntry.mutate({ userId: user.id, minutes, description: 'Timer' });
+  };
+
+  const resetForm = () => {
+    setIsAdding(false);
+    setTimeInput('');
+    setDescription('');
+  };
+
+  const handleAddEntry = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !parsedMinutes) return;
+    addEntry.mutate(
+      { userId: user.id, minutes: parsedMinutes, description: description.trim() },
+      { onSuccess: resetForm }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base flex items-center gap-2">
+            <Clock className="h-4 w-4" />
+            Time Tracking
+          </CardTitle>
+          {!isAdding && (
+            <Button variant="ghost" size="sm" className="h-6 text-xs px-2" onClick={() => setIsAdding(true)}>
+              <Plus className="h-3 w-3 mr-1" />
+              Log
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4 text-xs">
+        {/* Totals */}
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <p className="text-muted-foreground">Total</p>
+            <p className="text-lg font-semibold">{formatTimeSpent(totalMinutes)}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">You</p>
+            <p className="text-lg font-semibold">{formatTimeSpent(myMinutes)}</p>
+          </div>
+        </div>
+
+        {/* Timer */}
+        <div className="flex items-center justify-between gap-2 rounded-md border p-2">
+          <span className="font-mono text-sm tabular-nums">{formatElapsed(timer.elapsedMs)}</span>
+          {timer.isRunning ? (
+            <div className="flex items-center gap-1">
+              <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={timer.discard}>
+                Discard
+              </Button>
+              <Button
+                variant="destructive"
+                size="sm"
+                className="h-7 text-xs"
+                onClick={handleStopTimer}
+                disabled={addEntry.isPending}
+              >
+                <Square className="h-3 w-3 mr-1" />
+                Stop
+              </Button>
+            </div>
+          ) : (
+            <Button variant="outline" size="sm" className="h-7 text-xs" onClick={timer.start}>
+              <Play className="h-3 w-3 mr-1" />
+              Start timer
+            </Button>
+          )}
+        </div>
+
+        {/* Manual entry */}
+        {isAdding && (
+          <form onSubmit={handleAddEntry} className="space-y-2">
+            <Input
+              placeholder="Time spent (e.g. 45, 1h 30m)"
+              className="h-8 text-xs"
+              value={timeInput}
+              onChange={(e) => setTimeInput(e.target.value)}
+              autoFocus
+            />
+            {timeInput.trim() && !parsedMinutes && (
+              <p className="text-destructive">Enter minutes or a value like 1h 30m</p>
+            )}
+            <Input
+              placeholder="What did you work on? (optional)"
+              className="h-8 text-xs"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="ghost" size="sm" className="h-7 text-xs" onClick={resetForm}>
+                Cancel
+              </Button>
+              <Button type="submit" size="sm" className="h-7 text-xs" disabled={!parsedMinutes || addEntry.isPending}>
+                {addEntry.isPending && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                Log time
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {/* Entries */}
+        {isLoading ? (
+          <div className="flex justify-center py-2">
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-muted-foreground">No time logged yet</p>
+        ) : (
+          <div className="space-y-2 max-h-64 overflow-y-auto">
+            {entries.map((entry) => (
+              <div key={entry.id} className="flex items-start gap-2 group">
+                <span className="font-medium shrink-0 w-14">{formatTimeSpent(entry.minutes)}</span>
+                <div className="min-w-0 flex-1">
+                  <p className="truncate">{entry.description || 'No description'}</p>
+                  <p className="text-muted-foreground">
+                    {entry.userName || 'Unknown'} · {formatRelativeTime(entry.createdAt)}
+                  </p>
+                </div>
+                {entry.userId === user?.id && (
+                  <button
+                    type="button"
+                    onClick={() => deleteEntry.mutate(entry.id)}
+                    disabled={deleteEntry.isPending}
+                    className="text-muted-foreground hover:text-destructive opacity-0 group-hover:opacity-100 transition-opacity"
+                    aria-label="Delete time entry"
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
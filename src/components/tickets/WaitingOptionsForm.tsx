@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import { Hourglass, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { cn, formatDateTime } from '@/lib/utils';
+import { parseDateTimeLocalValue, toDateTimeLocalValue } from '@/lib/dueDates';
+import { getWaitingPresets } from '@/lib/waiting';
+import type { WaitingOptions } from '@/types';
+
+interface WaitingOptionsFormProps {
+  initial?: Partial<WaitingOptions>;
+  onConfirm: (options: WaitingOptions) => void | Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * Asks how long a ticket should wait on the requester before it comes back to the queue
+ */
+export function WaitingOptionsForm({ initial, onConfirm, onCancel }: WaitingOptionsFormProps) {
+  const [value, setValue] = useState(initial?.waitingUntil ? toDateTimeLocalValue(initial.waitingUntil) : '');
+  const [reopenOnReply, setReopenOnReply] = useState(initial?.reopenOnReply ?? true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const waitingUntil = parseDateTimeLocalValue(value);
+  const isPast = !!waitingUntil && waitingUntil.getTime() <= Date.now();
+
+  const handleConfirm = async () => {
+    setIsSaving(true);
+    try {
+      await onConfirm({ waitingUntil, reopenOnReply });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1.5">
+        <p className="text-xs font-medium text-muted-foreground">Wait until</p>
+        <div className="grid grid-cols-2 gap-1">
+          {getWaitingPresets().map((preset) => {
+            const presetValue = toDateTimeLocalValue(preset.date);
+            return (
+              <Button
+                key={preset.label}
+                type="button"
+                variant={presetValue === value ? 'secondary' : 'outline'}
+                size="sm"
+                className="h-auto flex-col items-start py-1.5"
+                onClick={() => setValue(presetValue)}
+              >
+                <span className="text-xs">{preset.label}</span>
+                <span className="text-[10px] font-normal text-muted-foreground">{formatDateTime(preset.date)}</span>
+              </Button>
+            );
+          })}
+        </div>
+        <Input type="datetime-local" value={value} onChange={(e) => setValue(e.target.value)} />
+        <p className={cn('text-xs', isPast ? 'text-destructive' : 'text-muted-foreground')}>
+          {isPast
+            ? 'Pick a time in the future'
+            : waitingUntil
+              ? 'Hidden from the queue until then'
+              : 'No date: stays in the queue as waiting'}
+        </p>
+      </div>
+
+      <Checkbox
+        checked={reopenOnReply}
+        onChange={(e) => setReopenOnReply(e.target.checked)}
+        label="Reopen when the requester replies"
+      />
+
+      <div className="flex items-center justify-between gap-2">
+        {value ? (
+          <Button type="button" variant="ghost" size="sm" onClick={() => setValue('')} disabled={isSaving}>
+            Clear date
+          </Button>
+        ) : (
+          <span />
+        )}
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" size="sm" onClick={onCancel} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button type="button" size="sm" onClick={handleConfirm} disabled={isSaving || isPast}>
+            {isSaving && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+            Set waiting
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface WaitingOptionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  initial?: Partial<WaitingOptions>;
+  onConfirm: (options: WaitingOptions) => void | Promise<void>;
+}
+
+export function WaitingOptionsDialog({ open, onOpenChange, initial, onConfirm }: WaitingOptionsDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Hourglass className="h-4 w-4" />
+            Waiting on requester
+          </DialogTitle>
+          <DialogDescription>Snooze the ticket until a date and choose what happens when the requester replies.</DialogDescription>
+        </DialogHeader>
+        {/* Remount on open so the form starts from the current values */}
+        {open && (
+          <WaitingOptionsForm
+            initial={initial}
+            onConfirm={async (options) => {
+              await onConfirm(options);
+              onOpenChange(false);
+            }}
+            onCancel={() => onOpenChange(false)}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
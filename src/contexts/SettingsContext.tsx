@@ -18,6 +18,10 @@ const DEFAULT_SETTINGS: SystemSettings = {
   enableAttachments: true,
   enableEmailToTicket: false,
   enableKnowledgeBase: true,
+  commentEditWindowMinutes: 15,
+  enableDraftSync: false,
+  waitingReminderDays: 3,
+  waitingAutoCloseDays: 0,
   emailFromName: 'ITSM Support',
   enableEmailNotifications: true,
   enableEmailReplies: false,
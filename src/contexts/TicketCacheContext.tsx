@@ -60,6 +60,9 @@ function deserializeCache<T>(data: string): Map<string, T> {
         if (value.ticket.sla) {
           value.ticket.sla.firstResponseDue = new Date(value.ticket.sla.firstResponseDue);
           value.ticket.sla.resolutionDue = new Date(value.ticket.sla.resolutionDue);
+          if (value.ticket.sla.nextResponseDue) value.ticket.sla.nextResponseDue = new Date(value.ticket.sla.nextResponseDue);
+          if (value.ticket.sla.pausedAt) value.ticket.sla.pausedAt = new Date(value.ticket.sla.pausedAt);
+          if (value.ticket.sla.firstRespondedAt) value.ticket.sla.firstRespondedAt = new Date(value.ticket.sla.firstRespondedAt);
         }
       }
 
@@ -1,17 +1,30 @@
-import { createContext, useContext, useState, useEffect, type ReactNode } from 'react';
+import { createContext, useContext, useState, useEffect, useMemo, type ReactNode } from 'react';
 import { useAuth } from './AuthContext';
-import type { ViewPreferences, ColumnConfig } from '@/types';
+import type { ViewPreferences, ColumnConfig, ActivitySortOrder } from '@/types';
 import { DEFAULT_TICKET_COLUMNS } from '@/lib/utils';
 import { fetchWithAuth } from '@/lib/fetchWithAuth';
 
 interface ViewPreferencesContextType {
   preferences: ViewPreferences | null;
   ticketColumns: ColumnConfig[];
+  activitySortOrder: ActivitySortOrder;
   isLoading: boolean;
   updateTicketColumns: (columns: ColumnConfig[]) => Promise<void>;
+  updateActivitySortOrder: (sortOrder: ActivitySortOrder) => Promise<void>;
   resetToDefault: () => Promise<void>;
 }
 
+/**
+ * Append columns added to the defaults after the user saved their preferences
+ */
+function withNewDefaultColumns(columns: ColumnConfig[]): ColumnConfig[] {
+  const missing = DEFAULT_TICKET_COLUMNS.filter((col) => !columns.some((saved) => saved.id === col.id));
+  if (missing.length === 0) return columns;
+
+  const nextOrder = Math.max(...columns.map((col) => col.order), -1) + 1;
+  return [...columns, ...missing.map((col, index) => ({ ...col, order: nextOrder + index }))];
+}
+
 const ViewPreferencesContext = createContext<ViewPreferencesContextType | undefined>(undefined);
 
 export function ViewPreferencesProvider({ children }: { children: ReactNode }) {
@@ -20,7 +33,12 @@ export function ViewPreferencesProvider({ children }: { children: ReactNode }) {
   const [isLoading, setIsLoading] = useState(true);
 
   // Get ticket columns from preferences or use defaults
-  const ticketColumns = preferences?.ticketList?.columns || DEFAULT_TICKET_COLUMNS;
+  const savedColumns = preferences?.ticketList?.columns;
+  const ticketColumns = useMemo(
+    () => (savedColumns ? withNewDefaultColumns(savedColumns) : DEFAULT_TICKET_COLUMNS),
+    [savedColumns]
+  );
+  const activitySortOrder = preferences?.activityFeed?.sortOrder || 'newest';
 
   // Load preferences from API when user changes
   useEffect(() => {
@@ -66,6 +84,7 @@ export function ViewPreferencesProvider({ children }: { children: ReactNode }) {
     if (!user?.id) return;
 
     const newPreferences: ViewPreferences = {
+      ...preferences,
       ticketList: {
         columns,
       },
@@ -94,10 +113,44 @@ export function ViewPreferencesProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // Applied immediately so the feed re-sorts without waiting for the save
+  const updateActivitySortOrder = async (sortOrder: ActivitySortOrder) => {
+    if (!user?.id) return;
+
+    const previousPreferences = preferences;
+    const newPreferences: ViewPreferences = {
+      ticketList: preferences?.ticketList || { columns: DEFAULT_TICKET_COLUMNS },
+      ...preferences,
+      activityFeed: { sortOrder },
+    };
+    setPreferences(newPreferences);
+
+    try {
+      const response = await fetchWithAuth(`/api/users/${user.id}/view-preferences`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ preferences: newPreferences }),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to update preferences');
+      }
+    } catch (error) {
+      console.error('Error updating activity sort order:', error);
+      setPreferences(previousPreferences);
+    }
+  };
+
   const resetToDefault = async () => {
     if (!user?.id) return;
 
+    // Only the ticket columns are reset, other view preferences are kept
     const defaultPreferences: ViewPreferences = {
+      ...preferences,
       ticketList: {
         columns: DEFAULT_TICKET_COLUMNS,
       },
@@ -130,8 +183,10 @@ export function ViewPreferencesProvider({ children }: { children: ReactNode }) {
       value={{
         preferences,
         ticketColumns,
+        activitySortOrder,
         isLoading,
         updateTicketColumns,
+        updateActivitySortOrder,
         resetToDefault,
       }}
     >
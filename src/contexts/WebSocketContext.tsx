@@ -28,6 +28,7 @@ interface WebSocketContextValue {
   subscribeToUser: (userId: string) => void;
   unsubscribeFromUser: (userId: string) => void;
   on: (eventType: string, handler: MessageHandler) => () => void;
+  send: (type: string, ticketId: string, data?: Record<string, unknown>) => void;
   reconnect: () => void;
 }
 
@@ -271,6 +272,15 @@ export function WebSocketProvider({ children }: { children: React.ReactNode }) {
     };
   }, []);
 
+  /**
+   * Send a message to a ticket channel (e.g. presence), dropped while disconnected
+   */
+  const send = useCallback((type: string, ticketId: string, data?: Record<string, unknown>) => {
+    if (wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(JSON.stringify({ type, ticketId, data }));
+    }
+  }, []);
+
   /**
    * Manual reconnect (resets attempt counter)
    */
@@ -301,6 +311,7 @@ export function WebSocketProvider({ children }: { children: React.ReactNode }) {
     subscribeToUser,
     unsubscribeFromUser,
     on,
+    send,
     reconnect,
   };
 
@@ -0,0 +1,88 @@
+import { useAuth } from '@/contexts/AuthContext';
+import { useSettings } from '@/contexts/SettingsContext';
+import { fetchWithAuth } from '@/lib/fetchWithAuth';
+import { toast } from '@/hooks/use-toast';
+import { canModifyActivity } from '@/lib/activityFeed';
+import { extractMentions } from '@/lib/mentions';
+import type { Activity } from '@/types';
+
+const API_BASE = 'https://itsm-backend.joshua-r-klimek.workers.dev';
+
+const DEFAULT_EDIT_WINDOW_MINUTES = 15;
+
+/**
+ * Edit and soft-delete for ticket comments and notes. The server keeps the previous
+ * version as a revision and broadcasts activity:updated / activity:deleted to other viewers.
+ */
+export function useActivityEditing(options: { ticketId?: string; onUpdated: (activity: Activity) => void }) {
+  const { ticketId, onUpdated } = options;
+  const { user } = useAuth();
+  const { settings } = useSettings();
+  const editWindowMinutes = settings?.commentEditWindowMinutes ?? DEFAULT_EDIT_WINDOW_MINUTES;
+
+  const canModify = (activity: Activity) => canModifyActivity(activity, user, editWindowMinutes);
+
+  const sendChange = async (activity: Activity, init: RequestInit, failureTitle: string): Promise<boolean> => {
+    try {
+      const response = await fetchWithAuth(`${API_BASE}/api/tickets/${ticketId}/activities/${activity.id}`, {
+        ...init,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || failureTitle);
+      }
+
+      onUpdated({
+        ...data.activity,
+        createdAt: new Date(data.activity.createdAt),
+      });
+      return true;
+    } catch (error) {
+      toast({
+        title: failureTitle,
+        description: error instanceof Error ? error.message : 'Failed to connect to server',
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  const editActivity = (activity: Activity, content: string) => {
+    if (!user || !ticketId) return Promise.resolve(false);
+
+    // Drop mentions whose "@name" was edited out; the backend only notifies newly added ones
+    const mentions = extractMentions(content, activity.mentions || []);
+    return sendChange(
+      activity,
+      {
+        method: 'PATCH',
+        body: JSON.stringify({
+          content,
+          content_format: activity.contentFormat || 'plain',
+          mentions: mentions.map((mention) => ({ user_id: mention.userId, name: mention.name })),
+          user_id: user.id,
+        }),
+      },
+      'Failed to edit message'
+    );
+  };
+
+  const deleteActivity = (activity: Activity) => {
+    if (!user || !ticketId) return Promise.resolve(false);
+
+    return sendChange(
+      activity,
+      {
+        method: 'DELETE',
+        body: JSON.stringify({ user_id: user.id }),
+      },
+      'Failed to delete message'
+    );
+  };
+
+  return { canModify, editActivity, deleteActivity };
+}
@@ -0,0 +1,215 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { fetchWithAuth } from '@/lib/fetchWithAuth';
+import { toast } from '@/hooks/use-toast';
+import type { AgentAssignmentStatus, AssignmentPool, AssignmentPoolInput } from '@/types/assignment';
+
+const API_BASE = 'https://itsm-backend.joshua-r-klimek.workers.dev';
+
+interface AssignmentPoolResponse extends Omit<AssignmentPool, 'id' | 'agentIds' | 'createdAt' | 'updatedAt'> {
+  id: string | number;
+  agentIds: (string | number)[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface AgentAssignmentStatusResponse extends Omit<AgentAssignmentStatus, 'userId' | 'awaySince' | 'lastAssignedAt'> {
+  userId: string | number;
+  awaySince?: string | null;
+  lastAssignedAt?: string | null;
+}
+
+/**
+ * Transform API pool data to add Date objects
+ */
+function transformPool(pool: AssignmentPoolResponse): AssignmentPool {
+  return {
+    ...pool,
+    id: String(pool.id),
+    agentIds: (pool.agentIds || []).map(String),
+    categories: pool.categories || [],
+    createdAt: new Date(pool.createdAt),
+    updatedAt: new Date(pool.updatedAt),
+  };
+}
+
+function transformAgentStatus(agent: AgentAssignmentStatusResponse): AgentAssignmentStatus {
+  return {
+    ...agent,
+    userId: String(agent.userId),
+    skills: agent.skills || [],
+    openTickets: agent.openTickets || 0,
+    awaySince: agent.awaySince ? new Date(agent.awaySince) : null,
+    lastAssignedAt: agent.lastAssignedAt ? new Date(agent.lastAssignedAt) : null,
+  };
+}
+
+async function fetchAssignmentPools(): Promise<AssignmentPool[]> {
+  const response = await fetchWithAuth(`${API_BASE}/api/assignment/pools`);
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to fetch assignment pools');
+  }
+
+  return ((data.pools || []) as AssignmentPoolResponse[]).map(transformPool);
+}
+
+/**
+ * Fetch availability, skills and open ticket counts for every agent
+ */
+async function fetchAgentStatuses(): Promise<AgentAssignmentStatus[]> {
+  const response = await fetchWithAuth(`${API_BASE}/api/assignment/agents`);
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to fetch agent availability');
+  }
+
+  return ((data.agents || []) as AgentAssignmentStatusResponse[]).map(transformAgentStatus);
+}
+
+/**
+ * React Query hook for team assignment pools
+ */
+export function useAssignmentPoolsQuery() {
+  return useQuery<AssignmentPool[], Error>({
+    queryKey: ['assignment-pools'],
+    queryFn: fetchAssignmentPools,
+    staleTime: 5 * 60 * 1000,
+    gcTime: 10 * 60 * 1000,
+    retry: 1,
+    refetchOnWindowFocus: false,
+  });
+}
+
+/**
+ * React Query hook for agent availability and workload
+ */
+export function useAgentStatusesQuery(enabled = true) {
+  return useQuery<AgentAssignmentStatus[], Error>({
+    queryKey: ['agent-statuses'],
+    queryFn: fetchAgentStatuses,
+    enabled,
+    staleTime: 60 * 1000,
+    gcTime: 5 * 60 * 1000,
+    retry: 1,
+  });
+}
+
+/**
+ * Mutation hooks for creating, updating and deleting assignment pools
+ */
+export function useAssignmentPoolMutations(userId?: string) {
+  const queryClient = useQueryClient();
+
+  const onError = (action: string) => (error: Error) => {
+    toast({
+      title: `Failed to ${action} pool`,
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+
+  const onSettled = () => {
+    queryClient.invalidateQueries({ queryKey: ['assignment-pools'] });
+  };
+
+  const savePool = async (url: string, method: 'POST' | 'PUT', body: object) => {
+    const response = await fetchWithAuth(url, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ ...body, updated_by_id: userId }),
+    });
+    const data = await response.json();
+
+    if (!data.success) {
+      throw new Error(data.error || 'Failed to save pool');
+    }
+
+    return transformPool(data.pool);
+  };
+
+  const createPool = useMutation({
+    mutationFn: (input: AssignmentPoolInput) => savePool(`${API_BASE}/api/assignment/pools`, 'POST', input),
+    onError: onError('create'),
+    onSettled,
+  });
+
+  const updatePool = useMutation({
+    mutationFn: ({ poolId, input }: { poolId: string; input: Partial<AssignmentPoolInput> }) =>
+      savePool(`${API_BASE}/api/assignment/pools/${poolId}`, 'PUT', input),
+    onError: onError('update'),
+    onSettled,
+  });
+
+  const deletePool = useMutation({
+    mutationFn: async (poolId: string) => {
+      const response = await fetchWithAuth(`${API_BASE}/api/assignment/pools/${poolId}`, {
+        method: 'DELETE',
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to delete pool');
+      }
+
+      return poolId;
+    },
+    onError: onError('delete'),
+    onSettled,
+  });
+
+  return { createPool, updatePool, deletePool };
+}
+
+/**
+ * Update an agent's availability or skills. Optimistic so the away toggle responds immediately.
+ */
+export function useAgentStatusMutation(updatedById?: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ userId, changes }: { userId: string; changes: Partial<Pick<AgentAssignmentStatus, 'available' | 'skills'>> }) => {
+      const response = await fetchWithAuth(`${API_BASE}/api/assignment/agents/${userId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ...changes, updated_by_id: updatedById }),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to update agent');
+      }
+
+      return transformAgentStatus(data.agent);
+    },
+    onMutate: async ({ userId, changes }) => {
+      await queryClient.cancelQueries({ queryKey: ['agent-statuses'] });
+      const previous = queryClient.getQueryData<AgentAssignmentStatus[]>(['agent-statuses']);
+      if (previous) {
+        queryClient.setQueryData<AgentAssignmentStatus[]>(
+          ['agent-statuses'],
+          previous.map((agent) => (agent.userId === userId ? { ...agent, ...changes } : agent))
+        );
+      }
+      return { previous };
+    },
+    onError: (error: Error, _variables, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(['agent-statuses'], context.previous);
+      }
+      toast({
+        title: 'Failed to update agent',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['agent-statuses'] });
+    },
+  });
+}
@@ -0,0 +1,187 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { fetchWithAuth } from '@/lib/fetchWithAuth';
+import { toast } from '@/hooks/use-toast';
+import type { AutomationRule, AutomationRuleInput, AutomationRun } from '@/types/automation';
+
+const API_BASE = 'https://itsm-backend.joshua-r-klimek.workers.dev';
+const RUN_LOG_LIMIT = 100;
+
+interface AutomationRuleResponse extends Omit<AutomationRule, 'id' | 'lastRunAt' | 'createdAt' | 'updatedAt'> {
+  id: string | number;
+  lastRunAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface AutomationRunResponse extends Omit<AutomationRun, 'id' | 'ruleId' | 'executedAt'> {
+  id: string | number;
+  ruleId: string | number;
+  executedAt: string;
+}
+
+/**
+ * Transform API rule data to add Date objects
+ */
+function transformRule(rule: AutomationRuleResponse): AutomationRule {
+  return {
+    ...rule,
+    id: String(rule.id),
+    conditions: rule.conditions || {},
+    actions: rule.actions || [],
+    lastRunAt: rule.lastRunAt ? new Date(rule.lastRunAt) : null,
+    createdAt: new Date(rule.createdAt),
+    updatedAt: new Date(rule.updatedAt),
+  };
+}
+
+function transformRun(run: AutomationRunResponse): AutomationRun {
+  return {
+    ...run,
+    id: String(run.id),
+    ruleId: String(run.ruleId),
+    actionsApplied: run.actionsApplied || [],
+    executedAt: new Date(run.executedAt),
+  };
+}
+
+async function fetchAutomationRules(): Promise<AutomationRule[]> {
+  const response = await fetchWithAuth(`${API_BASE}/api/automations/rules`);
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to fetch automation rules');
+  }
+
+  return ((data.rules || []) as AutomationRuleResponse[]).map(transformRule);
+}
+
+/**
+ * Fetch the most recent executions, optionally for a single rule
+ */
+async function fetchAutomationRuns(ruleId?: string): Promise<AutomationRun[]> {
+  const url = new URL(`${API_BASE}/api/automations/runs`);
+  url.searchParams.set('limit', String(RUN_LOG_LIMIT));
+  if (ruleId) {
+    url.searchParams.set('ruleId', ruleId);
+  }
+
+  const response = await fetchWithAuth(url.toString());
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to fetch automation log');
+  }
+
+  return ((data.runs || []) as AutomationRunResponse[]).map(transformRun);
+}
+
+/**
+ * React Query hook for automation rules
+ */
+export function useAutomationRulesQuery() {
+  return useQuery<AutomationRule[], Error>({
+    queryKey: ['automation-rules'],
+    queryFn: fetchAutomationRules,
+    staleTime: 5 * 60 * 1000,
+    gcTime: 10 * 60 * 1000,
+    retry: 1,
+    refetchOnWindowFocus: false,
+  });
+}
+
+/**
+ * React Query hook for the automation execution log
+ */
+export function useAutomationRunsQuery(ruleId?: string) {
+  return useQuery<AutomationRun[], Error>({
+    queryKey: ['automation-runs', ruleId ?? 'all'],
+    queryFn: () => fetchAutomationRuns(ruleId),
+    staleTime: 30 * 1000,
+    gcTime: 5 * 60 * 1000,
+    retry: 1,
+  });
+}
+
+/**
+ * Mutation hooks for creating, updating, toggling and deleting automation rules
+ */
+export function useAutomationMutations(userId?: string) {
+  const queryClient = useQueryClient();
+
+  const onError = (action: string) => (error: Error) => {
+    toast({
+      title: `Failed to ${action} automation`,
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+
+  const onSettled = () => {
+    queryClient.invalidateQueries({ queryKey: ['automation-rules'] });
+  };
+
+  const saveRule = async (url: string, method: 'POST' | 'PUT', body: object) => {
+    const response = await fetchWithAuth(url, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ ...body, updated_by_id: userId }),
+    });
+    const data = await response.json();
+
+    if (!data.success) {
+      throw new Error(data.error || 'Failed to save automation');
+    }
+
+    return transformRule(data.rule);
+  };
+
+  const createRule = useMutation({
+    mutationFn: (input: AutomationRuleInput) => saveRule(`${API_BASE}/api/automations/rules`, 'POST', input),
+    onError: onError('create'),
+    onSettled,
+  });
+
+  const updateRule = useMutation({
+    mutationFn: ({ ruleId, input }: { ruleId: string; input: Partial<AutomationRuleInput> }) =>
+      saveRule(`${API_BASE}/api/automations/rules/${ruleId}`, 'PUT', input),
+    onMutate: async ({ ruleId, input }) => {
+      await queryClient.cancelQueries({ queryKey: ['automation-rules'] });
+      const previous = queryClient.getQueryData<AutomationRule[]>(['automation-rules']);
+      if (previous) {
+        queryClient.setQueryData<AutomationRule[]>(
+          ['automation-rules'],
+          previous.map((rule) => (rule.id === ruleId ? { ...rule, ...input } : rule))
+        );
+      }
+      return { previous };
+    },
+    onError: (error: Error, _variables, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(['automation-rules'], context.previous);
+      }
+      onError('update')(error);
+    },
+    onSettled,
+  });
+
+  const deleteRule = useMutation({
+    mutationFn: async (ruleId: string) => {
+      const response = await fetchWithAuth(`${API_BASE}/api/automations/rules/${ruleId}`, {
+        method: 'DELETE',
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to delete automation');
+      }
+
+      return ruleId;
+    },
+    onError: onError('delete'),
+    onSettled,
+  });
+
+  return { createRule, updateRule, deleteRule };
+}
@@ -0,0 +1,165 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { fetchWithAuth } from '@/lib/fetchWithAuth';
+import { toast } from '@/hooks/use-toast';
+import { defaultWeeklyHours } from '@/lib/businessHours';
+import type { BusinessHoliday, BusinessHoursInterval, BusinessHoursSchedule, BusinessHoursScheduleInput, Weekday } from '@/types/sla';
+
+const API_BASE = 'https://itsm-backend.joshua-r-klimek.workers.dev';
+
+interface BusinessHoursResponse {
+  id: string | number;
+  name: string;
+  timezone: string;
+  weeklyHours?: Partial<Record<Weekday, BusinessHoursInterval[]>> | null;
+  holidays?: BusinessHoliday[] | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Transform API schedule data to add Date objects and fill in missing days
+ */
+function transformSchedule(schedule: BusinessHoursResponse): BusinessHoursSchedule {
+  const weeklyHours = defaultWeeklyHours();
+  if (schedule.weeklyHours) {
+    ([0, 1, 2, 3, 4, 5, 6] as Weekday[]).forEach((day) => {
+      weeklyHours[day] = schedule.weeklyHours?.[day] || [];
+    });
+  }
+
+  return {
+    id: String(schedule.id),
+    name: schedule.name,
+    timezone: schedule.timezone || 'UTC',
+    weeklyHours,
+    holidays: (schedule.holidays || []).slice().sort((a, b) => a.date.localeCompare(b.date)),
+    createdAt: new Date(schedule.createdAt),
+    updatedAt: new Date(schedule.updatedAt),
+  };
+}
+
+function toPayload(input: BusinessHoursScheduleInput, userId?: string) {
+  return {
+    name: input.name,
+    timezone: input.timezone,
+    weekly_hours: input.weeklyHours,
+    holidays: input.holidays,
+    updated_by_id: userId,
+  };
+}
+
+async function fetchBusinessHours(): Promise<BusinessHoursSchedule[]> {
+  const response = await fetchWithAuth(`${API_BASE}/api/sla/business-hours`);
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to fetch business hours');
+  }
+
+  return ((data.schedules || []) as BusinessHoursResponse[])
+    .map(transformSchedule)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * React Query hook for the business hours schedules SLA rules can count time in
+ */
+export function useBusinessHoursQuery(enabled = true) {
+  return useQuery<BusinessHoursSchedule[], Error>({
+    queryKey: ['business-hours'],
+    queryFn: fetchBusinessHours,
+    enabled,
+    staleTime: 10 * 60 * 1000,
+    gcTime: 30 * 60 * 1000,
+    retry: 1,
+    refetchOnWindowFocus: false,
+  });
+}
+
+/**
+ * Schedule lookup by ID. Only fetches the schedules once a caller needs one.
+ */
+export function useBusinessHoursSchedule(scheduleId?: string | null): BusinessHoursSchedule | undefined {
+  const { data: schedules = [] } = useBusinessHoursQuery(!!scheduleId);
+  return scheduleId ? schedules.find((schedule) => schedule.id === String(scheduleId)) : undefined;
+}
+
+/**
+ * Mutation hooks for creating, updating and deleting business hours schedules
+ */
+export function useBusinessHoursMutations(userId?: string) {
+  const queryClient = useQueryClient();
+
+  const onError = (action: string) => (error: Error) => {
+    toast({
+      title: `Failed to ${action} business hours`,
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+
+  const onSettled = () => {
+    queryClient.invalidateQueries({ queryKey: ['business-hours'] });
+  };
+
+  const createSchedule = useMutation({
+    mutationFn: async (input: BusinessHoursScheduleInput) => {
+      const response = await fetchWithAuth(`${API_BASE}/api/sla/business-hours`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(toPayload(input, userId)),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to create business hours');
+      }
+
+      return transformSchedule(data.schedule);
+    },
+    onError: onError('create'),
+    onSettled,
+  });
+
+  const updateSchedule = useMutation({
+    mutationFn: async ({ scheduleId, input }: { scheduleId: string; input: BusinessHoursScheduleInput }) => {
+      const response = await fetchWithAuth(`${API_BASE}/api/sla/business-hours/${scheduleId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(toPayload(input, userId)),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to update business hours');
+      }
+
+      return transformSchedule(data.schedule);
+    },
+    onError: onError('update'),
+    onSettled,
+  });
+
+  const deleteSchedule = useMutation({
+    mutationFn: async (scheduleId: string) => {
+      const response = await fetchWithAuth(`${API_BASE}/api/sla/business-hours/${scheduleId}`, {
+        method: 'DELETE',
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to delete business hours');
+      }
+
+      return scheduleId;
+    },
+    onError: onError('delete'),
+    onSettled,
+  });
+
+  return { createSchedule, updateSchedule, deleteSchedule };
+}
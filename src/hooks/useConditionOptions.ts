@@ -0,0 +1,112 @@
+import { useQuery } from '@tanstack/react-query';
+import { fetchWithAuth } from '@/lib/fetchWithAuth';
+import type { FormField } from '@/types/formBuilder';
+
+const API_BASE = 'https://itsm-backend.joshua-r-klimek.workers.dev';
+const FORM_CONFIG_STORAGE_KEY = 'itsm-form-configuration';
+
+// Custom form field that can be used as a rule condition
+export interface ConditionField {
+  id: string;
+  label: string;
+  type: string;
+  options?: string[]; // Undefined for checkbox fields (checked/unchecked)
+  enabled: boolean;
+}
+
+export interface ConditionOptions {
+  priorities: string[];
+  categories: string[];
+  departments: string[];
+  teams: string[];
+  locations: string[];
+  jobTitles: string[];
+  managers: string[];
+  customFields: ConditionField[];
+}
+
+/**
+ * Load a list endpoint, returning an empty list if it fails
+ */
+async function fetchList(path: string, field: string): Promise<string[]> {
+  try {
+    const response = await fetchWithAuth(`${API_BASE}${path}`);
+    const data = await response.json();
+    return data.success ? data[field] || [] : [];
+  } catch (error) {
+    console.error(`Failed to fetch ${field}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Dropdown, multiselect and checkbox fields from the form builder (excluding system priority/category)
+ */
+function toConditionFields(fields: FormField[]): ConditionField[] {
+  return fields
+    .filter((f) => {
+      if (f.type === 'checkbox') return true;
+      return (f.type === 'dropdown' || f.type === 'multiselect') &&
+        f.id !== 'system-priority' &&
+        f.id !== 'system-category' &&
+        !!f.options &&
+        f.options.length > 0;
+    })
+    .map((f) => ({
+      id: f.id,
+      label: f.label,
+      type: f.type,
+      options: f.options,
+      enabled: !f.hidden,
+    }));
+}
+
+async function fetchConditionFields(): Promise<ConditionField[]> {
+  try {
+    const response = await fetchWithAuth(`${API_BASE}/api/config/form`);
+    const data = await response.json();
+    if (data.success && data.config.fields) {
+      return toConditionFields(data.config.fields);
+    }
+  } catch (error) {
+    console.error('Failed to load form configuration from API, using localStorage:', error);
+  }
+
+  const saved = localStorage.getItem(FORM_CONFIG_STORAGE_KEY);
+  if (saved) {
+    try {
+      return toConditionFields(JSON.parse(saved).fields || []);
+    } catch (parseError) {
+      console.error('Failed to parse localStorage config:', parseError);
+    }
+  }
+  return [];
+}
+
+async function fetchConditionOptions(): Promise<ConditionOptions> {
+  const [priorities, categories, departments, teams, locations, jobTitles, managers, customFields] = await Promise.all([
+    fetchList('/api/config/priorities', 'priorities'),
+    fetchList('/api/config/categories', 'categories'),
+    fetchList('/api/departments/unique', 'departments'),
+    fetchList('/api/teams/unique', 'teams'),
+    fetchList('/api/locations/unique', 'locations'),
+    fetchList('/api/job-titles/unique', 'jobTitles'),
+    fetchList('/api/managers/unique', 'managers'),
+    fetchConditionFields(),
+  ]);
+
+  return { priorities, categories, departments, teams, locations, jobTitles, managers, customFields };
+}
+
+/**
+ * Values available for rule conditions (ticket fields, custom fields and requester profile fields)
+ */
+export function useConditionOptions() {
+  return useQuery<ConditionOptions, Error>({
+    queryKey: ['condition-options'],
+    queryFn: fetchConditionOptions,
+    staleTime: 5 * 60 * 1000,
+    gcTime: 10 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+}
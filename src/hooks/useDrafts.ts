@@ -0,0 +1,250 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { useSettings } from '@/contexts/SettingsContext';
+import { fetchWithAuth } from '@/lib/fetchWithAuth';
+import { draftStore, DRAFTS_CHANGED_EVENT } from '@/lib/drafts';
+import type { Draft, DraftKind } from '@/types/drafts';
+
+const API_BASE = 'https://itsm-backend.joshua-r-klimek.workers.dev';
+
+const SAVE_DEBOUNCE_MS = 1000;
+
+interface DraftResponse {
+  key: string;
+  kind: DraftKind;
+  ticketId?: string | number | null;
+  data: unknown;
+  updatedAt: number | string;
+}
+
+function transformDraft<T>(draft: DraftResponse): Draft<T> {
+  return {
+    key: draft.key,
+    kind: draft.kind,
+    ticketId: draft.ticketId ? String(draft.ticketId) : undefined,
+    data: draft.data as T,
+    updatedAt: Number(draft.updatedAt),
+  };
+}
+
+/**
+ * Server copies are best effort: local drafts still work if a sync request fails
+ */
+async function fetchServerDraft<T>(userId: string, key: string): Promise<Draft<T> | null> {
+  try {
+    const response = await fetchWithAuth(`${API_BASE}/api/drafts/${encodeURIComponent(key)}?user_id=${userId}`);
+    const data = await response.json();
+    return data.success && data.draft ? transformDraft<T>(data.draft) : null;
+  } catch (error) {
+    console.error('Error fetching draft:', error);
+    return null;
+  }
+}
+
+async function saveServerDraft(userId: string, draft: Draft): Promise<void> {
+  try {
+    await fetchWithAuth(`${API_BASE}/api/drafts/${encodeURIComponent(draft.key)}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        user_id: userId,
+        kind: draft.kind,
+        ticket_id: draft.ticketId || null,
+        data: draft.data,
+        updated_at: draft.updatedAt,
+      }),
+    });
+  } catch (error) {
+    console.error('Error syncing draft:', error);
+  }
+}
+
+async function deleteServerDraft(userId: string, key: string): Promise<void> {
+  try {
+    await fetchWithAuth(`${API_BASE}/api/drafts/${encodeURIComponent(key)}?user_id=${userId}`, {
+      method: 'DELETE',
+    });
+  } catch (error) {
+    console.error('Error deleting draft:', error);
+  }
+}
+
+async function fetchServerDrafts(userId: string): Promise<Draft[]> {
+  const response = await fetchWithAuth(`${API_BASE}/api/drafts?user_id=${userId}`);
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to fetch drafts');
+  }
+
+  return ((data.drafts || []) as DraftResponse[]).map((draft) => transformDraft(draft));
+}
+
+/**
+ * Autosave a form as a draft and restore it when the user comes back.
+ * Drafts are saved locally per user and, when draft sync is enabled in settings, on the
+ * server too so they follow the user to other devices. Saving waits until the stored
+ * draft has been loaded, so the empty initial form never overwrites it.
+ */
+export function useDraft<T>(options: {
+  key?: string;
+  kind: DraftKind;
+  ticketId?: string;
+  value: T;
+  isEmpty: (value: T) => boolean;
+  onRestore: (data: T) => void;
+  enabled?: boolean;
+}) {
+  const { key, kind, ticketId, value, isEmpty, onRestore, enabled = true } = options;
+  const { user } = useAuth();
+  const { settings } = useSettings();
+  const queryClient = useQueryClient();
+  const userId = user?.id;
+  const syncEnabled = settings?.enableDraftSync ?? false;
+
+  const [restoredAt, setRestoredAt] = useState<number | null>(null);
+  const loadedKeyRef = useRef<string | null>(null);
+  const pendingRef = useRef<{ key: string; value: T } | null>(null);
+
+  // Latest callbacks, so callers don't need to memoise them
+  const isEmptyRef = useRef(isEmpty);
+  const onRestoreRef = useRef(onRestore);
+  useEffect(() => {
+    isEmptyRef.current = isEmpty;
+    onRestoreRef.current = onRestore;
+  });
+
+  const persist = useCallback(
+    (draftKey: string, draftValue: T) => {
+      if (!userId) return;
+
+      if (isEmptyRef.current(draftValue)) {
+        draftStore.remove(userId, draftKey);
+        if (syncEnabled) {
+          deleteServerDraft(userId, draftKey).then(() => queryClient.invalidateQueries({ queryKey: ['drafts'] }));
+        }
+        return;
+      }
+
+      const draft: Draft<T> = { key: draftKey, kind, ticketId, data: draftValue, updatedAt: Date.now() };
+      draftStore.set(userId, draft);
+      if (syncEnabled) {
+        saveServerDraft(userId, draft).then(() => queryClient.invalidateQueries({ queryKey: ['drafts'] }));
+      }
+    },
+    [userId, kind, ticketId, syncEnabled, queryClient]
+  );
+
+  const flush = useCallback(() => {
+    if (pendingRef.current) {
+      persist(pendingRef.current.key, pendingRef.current.value);
+      pendingRef.current = null;
+    }
+  }, [persist]);
+
+  // Load the stored draft, preferring the newer of the local and server copies
+  useEffect(() => {
+    if (!enabled || !key || !userId) return;
+
+    let cancelled = false;
+    loadedKeyRef.current = null;
+
+    const load = async () => {
+      let draft = draftStore.get<T>(userId, key);
+      if (syncEnabled) {
+        const serverDraft = await fetchServerDraft<T>(userId, key);
+        if (serverDraft && (!draft || serverDraft.updatedAt > draft.updatedAt)) {
+          draft = serverDraft;
+        }
+      }
+      if (cancelled) return;
+
+      if (draft && !isEmptyRef.current(draft.data)) {
+        onRestoreRef.current(draft.data);
+        setRestoredAt(draft.updatedAt);
+      } else {
+        setRestoredAt(null);
+      }
+      loadedKeyRef.current = key;
+    };
+
+    load();
+
+    // Save whatever is still waiting for the debounce when leaving the page or ticket
+    return () => {
+      cancelled = true;
+      flush();
+    };
+  }, [enabled, key, userId, syncEnabled, flush]);
+
+  // Debounced autosave
+  useEffect(() => {
+    if (!key || loadedKeyRef.current !== key) return;
+
+    pendingRef.current = { key, value };
+    const timeoutId = setTimeout(flush, SAVE_DEBOUNCE_MS);
+    return () => clearTimeout(timeoutId);
+  }, [key, value, flush]);
+
+  // Closing the tab skips React cleanup
+  useEffect(() => {
+    window.addEventListener('beforeunload', flush);
+    return () => window.removeEventListener('beforeunload', flush);
+  }, [flush]);
+
+  // Call after the form was submitted, or to discard the draft
+  const clearDraft = useCallback(() => {
+    pendingRef.current = null;
+    setRestoredAt(null);
+    if (!key || !userId) return;
+
+    draftStore.remove(userId, key);
+    if (syncEnabled) {
+      deleteServerDraft(userId, key).then(() => queryClient.invalidateQueries({ queryKey: ['drafts'] }));
+    }
+  }, [key, userId, syncEnabled, queryClient]);
+
+  const dismissRestored = useCallback(() => setRestoredAt(null), []);
+
+  return { restoredAt, dismissRestored, clearDraft };
+}
+
+/**
+ * IDs of tickets the current user has an unsent reply draft for
+ */
+export function useDraftTicketIds(): Set<string> {
+  const { user } = useAuth();
+  const { settings } = useSettings();
+  const userId = user?.id;
+  const syncEnabled = settings?.enableDraftSync ?? false;
+  const [localDrafts, setLocalDrafts] = useState<Draft[]>(() => (userId ? draftStore.list(userId) : []));
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const refresh = () => setLocalDrafts(draftStore.list(userId));
+    refresh();
+    window.addEventListener(DRAFTS_CHANGED_EVENT, refresh);
+    window.addEventListener('storage', refresh);
+    return () => {
+      window.removeEventListener(DRAFTS_CHANGED_EVENT, refresh);
+      window.removeEventListener('storage', refresh);
+    };
+  }, [userId]);
+
+  const { data: serverDrafts = [] } = useQuery<Draft[], Error>({
+    queryKey: ['drafts', userId],
+    queryFn: () => fetchServerDrafts(userId as string),
+    enabled: !!userId && syncEnabled,
+    staleTime: 60 * 1000,
+    gcTime: 5 * 60 * 1000,
+    retry: false,
+  });
+
+  return new Set(
+    [...localDrafts, ...serverDrafts]
+      .filter((draft) => draft.kind === 'reply' && draft.ticketId)
+      .map((draft) => draft.ticketId as string)
+  );
+}
@@ -0,0 +1,162 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { fetchWithAuth } from '@/lib/fetchWithAuth';
+import { toast } from '@/hooks/use-toast';
+import type { Macro, MacroActions, MacroInput } from '@/types/macros';
+
+const API_BASE = 'https://itsm-backend.joshua-r-klimek.workers.dev';
+
+interface MacroResponse {
+  id: string | number;
+  name: string;
+  description?: string | null;
+  content: string;
+  visibility: string;
+  ownerId: string | number;
+  ownerName?: string | null;
+  actions?: MacroActions | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Transform API macro data to add Date objects
+ */
+function transformMacro(macro: MacroResponse): Macro {
+  return {
+    id: String(macro.id),
+    name: macro.name,
+    description: macro.description || undefined,
+    content: macro.content,
+    visibility: macro.visibility === 'shared' ? 'shared' : 'personal',
+    ownerId: String(macro.ownerId),
+    ownerName: macro.ownerName || undefined,
+    actions: macro.actions || {},
+    createdAt: new Date(macro.createdAt),
+    updatedAt: new Date(macro.updatedAt),
+  };
+}
+
+/**
+ * Build the API payload for a macro
+ */
+function toPayload(input: MacroInput, userId: string) {
+  return {
+    owner_id: userId,
+    name: input.name,
+    description: input.description || null,
+    content: input.content,
+    visibility: input.visibility,
+    actions: input.actions,
+  };
+}
+
+/**
+ * Fetch the current user's personal macros plus all shared macros
+ */
+async function fetchMacros(userId: string): Promise<Macro[]> {
+  const response = await fetchWithAuth(`${API_BASE}/api/macros?userId=${userId}`);
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to fetch macros');
+  }
+
+  return ((data.macros || []) as MacroResponse[])
+    .map(transformMacro)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * React Query hook for fetching reply macros
+ */
+export function useMacrosQuery(userId?: string) {
+  return useQuery<Macro[], Error>({
+    queryKey: ['macros', userId],
+    queryFn: () => fetchMacros(userId as string),
+    enabled: !!userId,
+    staleTime: 5 * 60 * 1000,
+    gcTime: 10 * 60 * 1000,
+    retry: 1,
+    refetchOnWindowFocus: false,
+  });
+}
+
+/**
+ * Mutation hooks for creating, updating and deleting macros
+ */
+export function useMacroMutations(userId?: string) {
+  const queryClient = useQueryClient();
+
+  const onError = (action: string) => (error: Error) => {
+    toast({
+      title: `Failed to ${action} macro`,
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+
+  const onSettled = () => {
+    queryClient.invalidateQueries({ queryKey: ['macros', userId] });
+  };
+
+  const createMacro = useMutation({
+    mutationFn: async (input: MacroInput) => {
+      const response = await fetchWithAuth(`${API_BASE}/api/macros`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(toPayload(input, userId as string)),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to create macro');
+      }
+
+      return transformMacro(data.macro);
+    },
+    onError: onError('create'),
+    onSettled,
+  });
+
+  const updateMacro = useMutation({
+    mutationFn: async ({ macroId, input }: { macroId: string; input: MacroInput }) => {
+      const response = await fetchWithAuth(`${API_BASE}/api/macros/${macroId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(toPayload(input, userId as string)),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to update macro');
+      }
+
+      return transformMacro(data.macro);
+    },
+    onError: onError('update'),
+    onSettled,
+  });
+
+  const deleteMacro = useMutation({
+    mutationFn: async (macroId: string) => {
+      const response = await fetchWithAuth(`${API_BASE}/api/macros/${macroId}`, {
+        method: 'DELETE',
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to delete macro');
+      }
+
+      return macroId;
+    },
+    onError: onError('delete'),
+    onSettled,
+  });
+
+  return { createMacro, updateMacro, deleteMacro };
+}
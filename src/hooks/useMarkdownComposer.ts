@@ -0,0 +1,112 @@
+import { useEffect, useRef, useState } from 'react';
+import { fetchWithAuth } from '@/lib/fetchWithAuth';
+import { toast } from '@/hooks/use-toast';
+import { applyMarkdownFormat, imageMarkdown, insertAtCursor, type MarkdownEdit, type MarkdownFormat } from '@/lib/markdown';
+
+const API_BASE = 'https://itsm-backend.joshua-r-klimek.workers.dev';
+
+interface UploadedAttachment {
+  id: string | number;
+  fileName: string;
+}
+
+export interface MarkdownComposer {
+  textareaRef: React.RefObject<HTMLTextAreaElement | null>;
+  isPreview: boolean;
+  setIsPreview: (isPreview: boolean) => void;
+  isUploadingImages: boolean;
+  applyFormat: (format: MarkdownFormat) => void;
+  insertImages: (files: File[]) => Promise<void>;
+  handlePaste: (e: React.ClipboardEvent<HTMLTextAreaElement>) => void;
+}
+
+/**
+ * State and editing helpers for a markdown reply box: toolbar formatting, a preview toggle
+ * and inline images, which are uploaded as ticket attachments and referenced from the text.
+ */
+export function useMarkdownComposer(options: {
+  ticketId?: string;
+  userId?: string;
+  value: string;
+  onChange: (value: string) => void;
+}): MarkdownComposer {
+  const { ticketId, userId, value, onChange } = options;
+  const textareaRef = useRef<HTMLTextAreaElement | null>(null);
+  const [isPreview, setIsPreview] = useState(false);
+  const [isUploadingImages, setIsUploadingImages] = useState(false);
+
+  // Uploads finish after the user may have kept typing, so insert into the latest text
+  const latestValueRef = useRef(value);
+  useEffect(() => {
+    latestValueRef.current = value;
+  }, [value]);
+
+  const getSelection = () => {
+    const textarea = textareaRef.current;
+    return textarea
+      ? { start: textarea.selectionStart, end: textarea.selectionEnd }
+      : { start: value.length, end: value.length };
+  };
+
+  const commitEdit = (edit: MarkdownEdit) => {
+    onChange(edit.value);
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(edit.selectionStart, edit.selectionEnd);
+    });
+  };
+
+  const applyFormat = (format: MarkdownFormat) => {
+    const { start, end } = getSelection();
+    commitEdit(applyMarkdownFormat(value, start, end, format));
+  };
+
+  const insertImages = async (files: File[]) => {
+    if (!ticketId || !userId || files.length === 0) return;
+
+    // Capture the cursor now, the upload may take a while
+    const { start, end } = getSelection();
+    setIsUploadingImages(true);
+    try {
+      const formData = new FormData();
+      files.forEach((file) => {
+        formData.append('files', file);
+      });
+      formData.append('user_id', userId);
+
+      const response = await fetchWithAuth(`${API_BASE}/api/tickets/${ticketId}/attachments/batch`, {
+        method: 'POST',
+        body: formData,
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to upload image');
+      }
+
+      const markdown = ((data.attachments || []) as UploadedAttachment[])
+        .map((attachment) => imageMarkdown(attachment.fileName, String(attachment.id)))
+        .join('\n');
+      commitEdit(insertAtCursor(latestValueRef.current, start, end, markdown));
+    } catch (error) {
+      toast({
+        title: 'Image upload failed',
+        description: error instanceof Error ? error.message : 'Failed to upload image',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsUploadingImages(false);
+    }
+  };
+
+  // Pasted images are uploaded and inserted inline; pasted text is left to the textarea
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const images = Array.from(e.clipboardData.files).filter((file) => file.type.startsWith('image/'));
+    if (images.length === 0) return;
+
+    e.preventDefault();
+    insertImages(images);
+  };
+
+  return { textareaRef, isPreview, setIsPreview, isUploadingImages, applyFormat, insertImages, handlePaste };
+}
@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/contexts/AuthContext';
 import { useWebSocket } from './useWebSocket';
 import type { Notification } from '@/types';
@@ -11,6 +12,7 @@ const REFRESH_INTERVAL = 30000; // 30 seconds
 export function useNotifications() {
   const { user } = useAuth();
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
   const { subscribeToUser, unsubscribeFromUser, on } = useWebSocket();
 
   const [notifications, setNotifications] = useState<Notification[]>([]);
@@ -160,6 +162,16 @@ export function useNotifications() {
       // Add notification to list
       addNotification(newNotification);
 
+      // A fired reminder drops off the upcoming reminders list
+      if (newNotification.type === 'reminder') {
+        queryClient.invalidateQueries({ queryKey: ['reminders'] });
+      }
+
+      // The server raises SLA warnings at 75% and 90% of a target, the ticket has joined the at-risk queue
+      if (newNotification.type === 'sla_warning') {
+        queryClient.invalidateQueries({ queryKey: ['tickets', 'counts'] });
+      }
+
       // Show toast notification
       toast({
         title: newNotification.title,
@@ -175,7 +187,7 @@ export function useNotifications() {
     return () => {
       unsubNotificationCreated();
     };
-  }, [on, addNotification, markAsRead, navigate]);
+  }, [on, addNotification, markAsRead, navigate, queryClient]);
 
   // Initial fetch and periodic refresh
   useEffect(() => {
@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * The current time for countdowns. Re-read every second while a deadline is under an hour away
+ * (when countdowns show seconds) and every 30 seconds otherwise.
+ */
+export function useNow(deadlines: Array<Date | null | undefined> = []): Date {
+  const [now, setNow] = useState(() => new Date());
+
+  const nearDeadline = deadlines.some((deadline) => deadline && Math.abs(deadline.getTime() - now.getTime()) < HOUR_MS);
+  const intervalMs = nearDeadline ? 1000 : 30 * 1000;
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), intervalMs);
+    return () => clearInterval(interval);
+  }, [intervalMs]);
+
+  return now;
+}
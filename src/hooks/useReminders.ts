@@ -0,0 +1,131 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { fetchWithAuth } from '@/lib/fetchWithAuth';
+import { toast } from '@/hooks/use-toast';
+import type { TicketReminder } from '@/types';
+
+const API_BASE = 'https://itsm-backend.joshua-r-klimek.workers.dev';
+
+export interface ReminderResponse {
+  id: string | number;
+  ticketId: string;
+  userId: string | number;
+  remindAt: string;
+  note?: string | null;
+  firedAt?: string | null;
+}
+
+/**
+ * Transform API reminder data to add Date objects
+ */
+export function transformReminder(reminder: ReminderResponse): TicketReminder {
+  return {
+    id: String(reminder.id),
+    ticketId: reminder.ticketId,
+    userId: String(reminder.userId),
+    remindAt: new Date(reminder.remindAt),
+    note: reminder.note || null,
+    firedAt: reminder.firedAt ? new Date(reminder.firedAt) : null,
+  };
+}
+
+// Dashboard rows carry the ticket they belong to
+export interface UpcomingReminder extends TicketReminder {
+  ticketTitle: string;
+}
+
+/**
+ * Fetch the current agent's reminders that haven't fired yet, soonest first
+ */
+async function fetchUpcomingReminders(userId: string): Promise<UpcomingReminder[]> {
+  const response = await fetchWithAuth(`${API_BASE}/api/reminders?user_id=${userId}&pending=true`);
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to fetch reminders');
+  }
+
+  return ((data.reminders || []) as Array<ReminderResponse & { ticketTitle?: string }>)
+    .map((reminder) => ({ ...transformReminder(reminder), ticketTitle: reminder.ticketTitle || '' }))
+    .sort((a, b) => a.remindAt.getTime() - b.remindAt.getTime());
+}
+
+/**
+ * React Query hook for the current agent's pending reminders
+ */
+export function useUpcomingRemindersQuery(userId?: string) {
+  return useQuery<UpcomingReminder[], Error>({
+    queryKey: ['reminders', userId],
+    queryFn: () => fetchUpcomingReminders(userId as string),
+    enabled: !!userId,
+    staleTime: 60 * 1000,
+    gcTime: 5 * 60 * 1000,
+    retry: 1,
+  });
+}
+
+/**
+ * Mutation hooks for setting and cancelling "remind me" follow-ups on a ticket
+ */
+export function useReminderMutations(ticketId: string, userId?: string) {
+  const queryClient = useQueryClient();
+
+  const onError = (action: string) => (error: Error) => {
+    toast({
+      title: `Failed to ${action} reminder`,
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+
+  const onSettled = () => {
+    queryClient.invalidateQueries({ queryKey: ['reminders', userId] });
+  };
+
+  const createReminder = useMutation({
+    mutationFn: async ({ remindAt, note }: { remindAt: Date; note?: string }) => {
+      const response = await fetchWithAuth(`${API_BASE}/api/tickets/${ticketId}/reminders`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          user_id: userId,
+          remind_at: remindAt.toISOString(),
+          note: note || null,
+        }),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to set reminder');
+      }
+
+      return transformReminder(data.reminder);
+    },
+    onError: onError('set'),
+    onSettled,
+  });
+
+  const deleteReminder = useMutation({
+    mutationFn: async (reminderId: string) => {
+      const response = await fetchWithAuth(`${API_BASE}/api/tickets/${ticketId}/reminders/${reminderId}`, {
+        method: 'DELETE',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ user_id: userId }),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to cancel reminder');
+      }
+
+      return reminderId;
+    },
+    onError: onError('cancel'),
+    onSettled,
+  });
+
+  return { createReminder, deleteReminder };
+}
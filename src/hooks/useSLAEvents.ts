@@ -0,0 +1,44 @@
+import { useQuery } from '@tanstack/react-query';
+import { fetchWithAuth } from '@/lib/fetchWithAuth';
+import type { SLAEvent } from '@/types/sla';
+
+const API_BASE = 'https://itsm-backend.joshua-r-klimek.workers.dev';
+
+interface SLAEventResponse extends Omit<SLAEvent, 'id' | 'createdAt'> {
+  id: string | number;
+  createdAt: string;
+}
+
+/**
+ * Fetch a ticket's SLA timeline, oldest first
+ */
+async function fetchSLAEvents(ticketId: string): Promise<SLAEvent[]> {
+  const response = await fetchWithAuth(`${API_BASE}/api/tickets/${ticketId}/sla-events`);
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to fetch SLA timeline');
+  }
+
+  return ((data.events || []) as SLAEventResponse[])
+    .map((event) => ({
+      ...event,
+      id: String(event.id),
+      createdAt: new Date(event.createdAt),
+    }))
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+}
+
+/**
+ * React Query hook for the starts, pauses, resumes and breaches of a ticket's SLA clocks
+ */
+export function useSLAEventsQuery(ticketId?: string, enabled = true) {
+  return useQuery<SLAEvent[], Error>({
+    queryKey: ['sla-events', ticketId],
+    queryFn: () => fetchSLAEvents(ticketId as string),
+    enabled: !!ticketId && enabled,
+    staleTime: 60 * 1000,
+    gcTime: 5 * 60 * 1000,
+    retry: 1,
+  });
+}
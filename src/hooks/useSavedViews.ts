@@ -0,0 +1,167 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { fetchWithAuth } from '@/lib/fetchWithAuth';
+import { normalizeFilter } from '@/lib/ticketFilters';
+import { toast } from '@/hooks/use-toast';
+import type { SavedView, SavedViewVisibility, TicketFilter } from '@/types';
+
+const API_BASE = 'https://itsm-backend.joshua-r-klimek.workers.dev';
+
+export interface SavedViewInput {
+  name: string;
+  filters: TicketFilter;
+  isDefault: boolean;
+  visibility: SavedViewVisibility;
+  team?: string | null;
+}
+
+interface SavedViewResponse {
+  id: string | number;
+  name: string;
+  userId: string | number;
+  filters: TicketFilter | null;
+  isDefault: boolean | number;
+  visibility: string;
+  team?: string | null;
+  createdAt: string;
+  updatedAt?: string | null;
+}
+
+/**
+ * Transform API saved view data to add Date objects
+ */
+function transformSavedView(view: SavedViewResponse): SavedView {
+  return {
+    id: String(view.id),
+    name: view.name,
+    userId: String(view.userId),
+    filters: normalizeFilter(view.filters),
+    isDefault: Boolean(view.isDefault),
+    visibility: view.visibility === 'team' ? 'team' : 'personal',
+    team: view.team ?? null,
+    createdAt: new Date(view.createdAt),
+    updatedAt: view.updatedAt ? new Date(view.updatedAt) : undefined,
+  };
+}
+
+/**
+ * Build the API payload for a saved view
+ */
+function toPayload(input: SavedViewInput, userId: string) {
+  return {
+    user_id: userId,
+    name: input.name,
+    filters: input.filters,
+    is_default: input.isDefault,
+    visibility: input.visibility,
+    team: input.visibility === 'team' ? input.team || null : null,
+  };
+}
+
+/**
+ * Fetch the current user's personal views plus views shared with their team
+ */
+async function fetchSavedViews(userId: string): Promise<SavedView[]> {
+  const response = await fetchWithAuth(`${API_BASE}/api/saved-views?userId=${userId}`);
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to fetch saved views');
+  }
+
+  return ((data.views || []) as SavedViewResponse[]).map(transformSavedView);
+}
+
+/**
+ * React Query hook for fetching saved ticket views
+ */
+export function useSavedViewsQuery(userId?: string) {
+  return useQuery<SavedView[], Error>({
+    queryKey: ['saved-views', userId],
+    queryFn: () => fetchSavedViews(userId as string),
+    enabled: !!userId,
+    staleTime: 5 * 60 * 1000,
+    gcTime: 10 * 60 * 1000,
+    retry: 1,
+    refetchOnWindowFocus: false,
+  });
+}
+
+/**
+ * Mutation hooks for creating, updating and deleting saved views
+ */
+export function useSavedViewMutations(userId?: string) {
+  const queryClient = useQueryClient();
+
+  const onError = (action: string) => (error: Error) => {
+    toast({
+      title: `Failed to ${action} view`,
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+
+  const onSettled = () => {
+    queryClient.invalidateQueries({ queryKey: ['saved-views', userId] });
+  };
+
+  const createView = useMutation({
+    mutationFn: async (input: SavedViewInput) => {
+      const response = await fetchWithAuth(`${API_BASE}/api/saved-views`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(toPayload(input, userId as string)),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to create view');
+      }
+
+      return transformSavedView(data.view);
+    },
+    onError: onError('save'),
+    onSettled,
+  });
+
+  const updateView = useMutation({
+    mutationFn: async ({ viewId, input }: { viewId: string; input: SavedViewInput }) => {
+      const response = await fetchWithAuth(`${API_BASE}/api/saved-views/${viewId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(toPayload(input, userId as string)),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to update view');
+      }
+
+      return transformSavedView(data.view);
+    },
+    onError: onError('update'),
+    onSettled,
+  });
+
+  const deleteView = useMutation({
+    mutationFn: async (viewId: string) => {
+      const response = await fetchWithAuth(`${API_BASE}/api/saved-views/${viewId}`, {
+        method: 'DELETE',
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to delete view');
+      }
+
+      return viewId;
+    },
+    onError: onError('delete'),
+    onSettled,
+  });
+
+  return { createView, updateView, deleteView };
+}
@@ -0,0 +1,149 @@
+import { useCallback, useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { fetchWithAuth } from '@/lib/fetchWithAuth';
+import { toast } from '@/hooks/use-toast';
+import { TAG_COLORS } from '@/lib/tags';
+import type { TagColor, TagInfo } from '@/types/tags';
+
+const API_BASE = 'https://itsm-backend.joshua-r-klimek.workers.dev';
+
+interface TagResponse {
+  name: string;
+  color?: string | null;
+  ticketCount?: number | null;
+}
+
+function transformTag(tag: TagResponse): TagInfo {
+  return {
+    name: tag.name,
+    color: TAG_COLORS.includes(tag.color as TagColor) ? (tag.color as TagColor) : null,
+    ticketCount: tag.ticketCount || 0,
+  };
+}
+
+/**
+ * Fetch every tag in use, with colours and ticket counts
+ */
+async function fetchTags(): Promise<TagInfo[]> {
+  const response = await fetchWithAuth(`${API_BASE}/api/tags`);
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to fetch tags');
+  }
+
+  return ((data.tags || []) as TagResponse[])
+    .map(transformTag)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * React Query hook for fetching ticket tags
+ */
+export function useTagsQuery() {
+  return useQuery<TagInfo[], Error>({
+    queryKey: ['tags'],
+    queryFn: fetchTags,
+    staleTime: 5 * 60 * 1000,
+    gcTime: 10 * 60 * 1000,
+    retry: 1,
+    refetchOnWindowFocus: false,
+  });
+}
+
+/**
+ * Colour lookup for tag badges (tags match case-insensitively)
+ */
+export function useTagColors(): (tag: string) => TagColor | null {
+  const { data: tags = [] } = useTagsQuery();
+
+  const colors = useMemo(
+    () => new Map(tags.map((tag) => [tag.name.toLowerCase(), tag.color])),
+    [tags]
+  );
+
+  return useCallback((tag: string) => colors.get(tag.toLowerCase()) ?? null, [colors]);
+}
+
+/**
+ * Mutation hooks for the tag admin: rename, recolour and merge.
+ * Renames and merges rewrite the tags on every ticket, so ticket lists are refreshed too.
+ */
+export function useTagMutations(userId?: string) {
+  const queryClient = useQueryClient();
+
+  const onError = (action: string) => (error: Error) => {
+    toast({
+      title: `Failed to ${action}`,
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+
+  const invalidateTags = () => {
+    queryClient.invalidateQueries({ queryKey: ['tags'] });
+  };
+
+  const invalidateTagsAndTickets = () => {
+    queryClient.invalidateQueries({ queryKey: ['tags'] });
+    queryClient.invalidateQueries({ queryKey: ['tickets'] });
+  };
+
+  const updateTag = async (name: string, changes: { name?: string; color?: TagColor | null }) => {
+    const response = await fetchWithAuth(`${API_BASE}/api/tags/${encodeURIComponent(name)}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ ...changes, user_id: userId }),
+    });
+    const data = await response.json();
+
+    if (!data.success) {
+      throw new Error(data.error || 'Failed to update tag');
+    }
+
+    return transformTag(data.tag);
+  };
+
+  const renameTag = useMutation({
+    mutationFn: ({ name, newName }: { name: string; newName: string }) => updateTag(name, { name: newName }),
+    onError: onError('rename tag'),
+    onSettled: invalidateTagsAndTickets,
+  });
+
+  const setTagColor = useMutation({
+    mutationFn: ({ name, color }: { name: string; color: TagColor | null }) => updateTag(name, { color }),
+    // Recolour straight away, the request only confirms it
+    onMutate: ({ name, color }) => {
+      queryClient.setQueryData<TagInfo[]>(['tags'], (old) =>
+        old?.map((tag) => (tag.name === name ? { ...tag, color } : tag))
+      );
+    },
+    onError: onError('change tag colour'),
+    onSettled: invalidateTags,
+  });
+
+  const mergeTags = useMutation({
+    mutationFn: async ({ sources, target }: { sources: string[]; target: string }) => {
+      const response = await fetchWithAuth(`${API_BASE}/api/tags/merge`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ sources, target, user_id: userId }),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to merge tags');
+      }
+
+      return transformTag(data.tag);
+    },
+    onError: onError('merge tags'),
+    onSettled: invalidateTagsAndTickets,
+  });
+
+  return { renameTag, setTagColor, mergeTags };
+}
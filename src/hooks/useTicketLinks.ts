@@ -0,0 +1,183 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { fetchWithAuth } from '@/lib/fetchWithAuth';
+import { toast } from '@/hooks/use-toast';
+import type { TicketLink, TicketLinkType, ChildTicketProgress } from '@/types';
+
+const API_BASE = 'https://itsm-backend.joshua-r-klimek.workers.dev';
+
+export const TICKET_LINK_LABELS: Record<TicketLinkType, string> = {
+  parent: 'Parent',
+  child: 'Child tickets',
+  blocked_by: 'Blocked by',
+  blocks: 'Blocks',
+  related: 'Related to',
+};
+
+export interface TicketRelationships {
+  links: TicketLink[];
+  autoResolveChildren: boolean;
+}
+
+interface TicketLinkResponse extends Omit<TicketLink, 'id' | 'createdAt'> {
+  id: string | number;
+  createdAt: string;
+}
+
+interface AddTicketLinkParams {
+  linkedTicketId: string;
+  type: TicketLinkType;
+  userId: string;
+}
+
+/**
+ * Count child tickets and how many of them are resolved or closed
+ */
+export function getChildProgress(links: TicketLink[]): ChildTicketProgress {
+  const children = links.filter((link) => link.type === 'child');
+  return {
+    total: children.length,
+    resolved: children.filter((link) => link.ticket.status === 'resolved' || link.ticket.status === 'closed').length,
+  };
+}
+
+/**
+ * Fetch a ticket's links and its child auto-resolve setting
+ */
+async function fetchTicketLinks(ticketId: string): Promise<TicketRelationships> {
+  const response = await fetchWithAuth(`${API_BASE}/api/tickets/${ticketId}/links`);
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to fetch ticket links');
+  }
+
+  return {
+    links: ((data.links || []) as TicketLinkResponse[]).map((link) => ({
+      ...link,
+      id: String(link.id),
+      createdAt: new Date(link.createdAt),
+    })),
+    autoResolveChildren: Boolean(data.autoResolveChildren),
+  };
+}
+
+/**
+ * React Query hook for a ticket's relationships
+ */
+export function useTicketLinksQuery(ticketId?: string) {
+  return useQuery<TicketRelationships, Error>({
+    queryKey: ['ticket-links', ticketId],
+    queryFn: () => fetchTicketLinks(ticketId as string),
+    enabled: !!ticketId,
+    staleTime: 60 * 1000,
+    gcTime: 5 * 60 * 1000,
+    retry: 1,
+  });
+}
+
+/**
+ * Mutation hooks for adding and removing links and toggling child auto-resolve.
+ * Links are two-sided, so every cached relationship list and the ticket lists are refreshed.
+ */
+export function useTicketLinkMutations(ticketId?: string) {
+  const queryClient = useQueryClient();
+
+  const onError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+
+  const onSettled = () => {
+    queryClient.invalidateQueries({ queryKey: ['ticket-links'] });
+    queryClient.invalidateQueries({ queryKey: ['tickets'] });
+  };
+
+  const addLink = useMutation({
+    mutationFn: async ({ linkedTicketId, type, userId }: AddTicketLinkParams) => {
+      const response = await fetchWithAuth(`${API_BASE}/api/tickets/${ticketId}/links`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          linked_ticket_id: linkedTicketId,
+          link_type: type,
+          created_by_id: userId,
+        }),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to link ticket');
+      }
+
+      return data.link as TicketLinkResponse;
+    },
+    onError: onError('Failed to link ticket'),
+    onSettled,
+  });
+
+  const removeLink = useMutation({
+    mutationFn: async (linkId: string) => {
+      const response = await fetchWithAuth(`${API_BASE}/api/tickets/${ticketId}/links/${linkId}`, {
+        method: 'DELETE',
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to remove link');
+      }
+
+      return linkId;
+    },
+    onMutate: async (linkId) => {
+      await queryClient.cancelQueries({ queryKey: ['ticket-links', ticketId] });
+      const previous = queryClient.getQueryData<TicketRelationships>(['ticket-links', ticketId]);
+      if (previous) {
+        queryClient.setQueryData<TicketRelationships>(['ticket-links', ticketId], {
+          ...previous,
+          links: previous.links.filter((link) => link.id !== linkId),
+        });
+      }
+      return { previous };
+    },
+    onError: (error: Error, _linkId, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(['ticket-links', ticketId], context.previous);
+      }
+      onError('Failed to remove link')(error);
+    },
+    onSettled,
+  });
+
+  const setAutoResolveChildren = useMutation({
+    mutationFn: async ({ enabled, userId }: { enabled: boolean; userId: string }) => {
+      const response = await fetchWithAuth(`${API_BASE}/api/tickets/${ticketId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          auto_resolve_children: enabled,
+          updated_by_id: userId,
+        }),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to update ticket');
+      }
+
+      return enabled;
+    },
+    onError: onError('Failed to update auto-resolve setting'),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['ticket-links', ticketId] });
+    },
+  });
+
+  return { addLink, removeLink, setAutoResolveChildren };
+}
@@ -0,0 +1,92 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useWebSocket } from '@/hooks/useWebSocket';
+import {
+  applyPresenceUpdate,
+  pruneViewers,
+  PRESENCE_HEARTBEAT_MS,
+  TYPING_THROTTLE_MS,
+} from '@/lib/presence';
+import type { TicketPresenceState, TicketPresenceUpdate, TicketViewer } from '@/types';
+
+const PRUNE_INTERVAL_MS = 2 * 1000;
+
+/**
+ * Who else has this ticket open, and whether they are typing a reply.
+ * Each client announces itself on the ticket channel with a heartbeat; the backend relays
+ * these as presence:updated events and nothing is stored, so stale viewers expire locally.
+ */
+export function useTicketPresence(ticketId?: string) {
+  const { user } = useAuth();
+  const { connected, on, send } = useWebSocket();
+  const [viewers, setViewers] = useState<TicketViewer[]>([]);
+  const knownViewerIdsRef = useRef<Set<string>>(new Set());
+  const lastTypingSentRef = useRef(0);
+
+  const announce = useCallback(
+    (state: TicketPresenceState) => {
+      if (!ticketId || !user) return;
+      send('presence', ticketId, { userId: user.id, name: user.name, state });
+    },
+    [ticketId, user, send]
+  );
+
+  useEffect(() => {
+    if (!ticketId || !user || !connected) return;
+
+    const knownViewerIds = knownViewerIdsRef.current;
+    announce('viewing');
+
+    const unsubPresence = on('presence:updated', (message: { ticketId?: string; data: TicketPresenceUpdate }) => {
+      const update = message.data;
+      if (message.ticketId !== ticketId || update.userId === user.id) return;
+
+      // Answer newcomers straight away so they don't wait for our next heartbeat
+      if (update.state === 'left') {
+        knownViewerIds.delete(update.userId);
+      } else if (!knownViewerIds.has(update.userId)) {
+        knownViewerIds.add(update.userId);
+        announce('viewing');
+      }
+      setViewers((prev) => applyPresenceUpdate(prev, update, Date.now()));
+    });
+
+    const heartbeat = setInterval(() => announce('viewing'), PRESENCE_HEARTBEAT_MS);
+    const prune = setInterval(() => {
+      setViewers((prev) => {
+        const pruned = pruneViewers(prev, Date.now());
+        if (pruned !== prev) {
+          knownViewerIds.clear();
+          pruned.forEach((viewer) => knownViewerIds.add(viewer.userId));
+        }
+        return pruned;
+      });
+    }, PRUNE_INTERVAL_MS);
+
+    return () => {
+      announce('left');
+      unsubPresence();
+      clearInterval(heartbeat);
+      clearInterval(prune);
+      knownViewerIds.clear();
+      setViewers([]);
+    };
+  }, [ticketId, user, connected, on, announce]);
+
+  // Throttled, call on every keystroke in the reply box
+  const notifyTyping = useCallback(() => {
+    const now = Date.now();
+    if (now - lastTypingSentRef.current < TYPING_THROTTLE_MS) return;
+    lastTypingSentRef.current = now;
+    announce('typing');
+  }, [announce]);
+
+  // Clear our typing indicator for others right away, e.g. after sending
+  const stopTyping = useCallback(() => {
+    if (lastTypingSentRef.current === 0) return;
+    lastTypingSentRef.current = 0;
+    announce('viewing');
+  }, [announce]);
+
+  return { viewers, notifyTyping, stopTyping };
+}
@@ -0,0 +1,69 @@
+import { useQuery } from '@tanstack/react-query';
+import { fetchWithAuth } from '@/lib/fetchWithAuth';
+import { usersCache } from '@/lib/usersCache';
+import type { TicketQueryContext } from '@/lib/ticketQuery';
+import type { User } from '@/types';
+
+const API_BASE = 'https://itsm-backend.joshua-r-klimek.workers.dev';
+
+export interface TicketSearchOptions extends TicketQueryContext {
+  departments: string[];
+}
+
+/**
+ * Load a config list, returning an empty list if the endpoint fails
+ */
+async function fetchList(path: string, field: string): Promise<string[]> {
+  try {
+    const response = await fetchWithAuth(`${API_BASE}${path}`);
+    const data = await response.json();
+    return data.success ? data[field] || [] : [];
+  } catch (error) {
+    console.error(`Failed to fetch ${field}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Users from the shared cache, refreshing it from the API when expired
+ */
+async function fetchUsers(): Promise<User[]> {
+  const cached = usersCache.get();
+  if (cached) return cached;
+
+  try {
+    const response = await fetchWithAuth(`${API_BASE}/api/users`);
+    const data = await response.json();
+    if (data.success) {
+      usersCache.set(data.users);
+      return data.users;
+    }
+  } catch (error) {
+    console.error('Failed to fetch users:', error);
+  }
+  return [];
+}
+
+async function fetchTicketSearchOptions(): Promise<TicketSearchOptions> {
+  const [priorities, categories, departments, users] = await Promise.all([
+    fetchList('/api/config/priorities', 'priorities'),
+    fetchList('/api/config/categories', 'categories'),
+    fetchList('/api/departments/unique', 'departments'),
+    fetchUsers(),
+  ]);
+
+  return { priorities, categories, departments, users };
+}
+
+/**
+ * Priorities, categories, departments and users used to validate and autocomplete search queries
+ */
+export function useTicketQueryContext() {
+  return useQuery<TicketSearchOptions, Error>({
+    queryKey: ['ticket-search-options'],
+    queryFn: fetchTicketSearchOptions,
+    staleTime: 5 * 60 * 1000,
+    gcTime: 10 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+}
@@ -1,23 +1,62 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import type { UseQueryOptions } from '@tanstack/react-query';
+import { useState, useEffect } from 'react';
+import { useQuery, useQueries, useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { UseQueryOptions, InfiniteData } from '@tanstack/react-query';
 import { fetchWithAuth } from '@/lib/fetchWithAuth';
-import type { Ticket, TicketStatus, TicketPriority } from '@/types';
+import type { Ticket, TicketStatus, TicketPriority, TicketFilter, ActivityRevision, WaitingOptions } from '@/types';
 import { toast } from '@/hooks/use-toast';
 import { usersCache } from '@/lib/usersCache';
+import { transformReminder } from './useReminders';
+import { waitingPayload } from '@/lib/waiting';
+import { transformSLAStatus } from '@/lib/sla';
+import { filterToSearchParams, isFilterEmpty } from '@/lib/ticketFilters';
+import { extractKeywords, findDuplicateTickets, type TicketDraftText, type DuplicateCandidate } from '@/lib/ticketSimilarity';
+import type { SortColumn, SortDirection } from '@/lib/utils';
 
 const API_BASE = 'https://itsm-backend.joshua-r-klimek.workers.dev';
 
+export const TICKETS_PAGE_SIZE = 50;
+
 interface FetchTicketsParams {
   statusFilter?: TicketStatus | 'all' | 'my_tickets' | 'closed';
   searchQuery?: string;
+  filter?: TicketFilter;
+  userId?: string;
+  sortColumn?: SortColumn | null;
+  sortDirection?: SortDirection;
+  pageSize?: number;
+  excludeSnoozed?: boolean; // Leave out waiting tickets snoozed until a later date
+  slaAtRisk?: boolean; // Only open tickets past 75% of an SLA target or already breached
 }
 
 interface TicketsResponse {
   success: boolean;
   tickets: any[];
+  nextCursor?: string | null;
+  total?: number;
   error?: string;
 }
 
+export interface TicketsPage {
+  tickets: Ticket[];
+  nextCursor: string | null;
+  total?: number;
+}
+
+export interface TicketCounts {
+  total: number;
+  byStatus: Partial<Record<TicketStatus, number>>;
+  assignedToMe: number;
+  unassigned: number;
+  snoozed: number;
+  atRisk: number; // Open tickets past 75% of an SLA target or already breached
+}
+
+interface FetchTicketCountsParams {
+  filter?: TicketFilter;
+  userId?: string;
+  excludeClosed?: boolean;
+}
+
 /**
  * Transform API ticket data to add Date objects
  */
@@ -28,21 +67,54 @@ function transformTicket(ticket: any): Ticket {
     updatedAt: new Date(ticket.updatedAt),
     dueDate: ticket.dueDate ? new Date(ticket.dueDate) : undefined,
     resolvedAt: ticket.resolvedAt ? new Date(ticket.resolvedAt) : undefined,
+    waitingUntil: ticket.waitingUntil ? new Date(ticket.waitingUntil) : undefined,
     closedAt: ticket.closedAt ? new Date(ticket.closedAt) : undefined,
-    sla: ticket.sla ? {
-      ...ticket.sla,
-      firstResponseDue: ticket.sla.firstResponseDue ? new Date(ticket.sla.firstResponseDue) : new Date(),
-      resolutionDue: ticket.sla.resolutionDue ? new Date(ticket.sla.resolutionDue) : new Date(),
-    } : null,
+    reminders: ticket.reminders ? ticket.reminders.map(transformReminder) : undefined,
+    sla: transformSLAStatus(ticket.sla),
   };
 }
 
 /**
- * Fetch tickets from API
+ * Stable string form of a filter for use in query keys
+ */
+function filterKey(filter?: TicketFilter): string {
+  return filter && !isFilterEmpty(filter) ? filterToSearchParams(filter).toString() : '';
+}
+
+/**
+ * Query key for a ticket list. Shared by the list hook and the login prefetch.
+ */
+function ticketsQueryKey(params: FetchTicketsParams) {
+  return [
+    'tickets',
+    params.statusFilter,
+    params.searchQuery,
+    filterKey(params.filter),
+    params.sortColumn ?? null,
+    params.sortDirection ?? null,
+    !!params.excludeSnoozed,
+    !!params.slaAtRisk,
+  ] as const;
+}
+
+/**
+ * Append a filter's criteria to a request URL
+ */
+function appendFilterParams(url: URL, filter?: TicketFilter) {
+  if (!filter || isFilterEmpty(filter)) return;
+  filterToSearchParams(filter).forEach((value, key) => {
+    url.searchParams.append(key, value);
+  });
+}
+
+/**
+ * Fetch one page of tickets from API (cursor pagination, server-side sorting)
  */
-async function fetchTickets(params: FetchTicketsParams): Promise<Ticket[]> {
+async function fetchTicketsPage(params: FetchTicketsParams, cursor: string | null): Promise<TicketsPage> {
   const url = new URL(`${API_BASE}/api/tickets`);
 
+  appendFilterParams(url, params.filter);
+
   // If viewing closed tickets specifically, fetch only closed
   if (params.statusFilter === 'closed') {
     url.searchParams.set('status', 'closed');
@@ -51,10 +123,37 @@ async function fetchTickets(params: FetchTicketsParams): Promise<Ticket[]> {
     url.searchParams.set('exclude_closed', 'true');
   }
 
+  // Used by the API to resolve the "me" assignee filter
+  if (params.userId) {
+    url.searchParams.set('userId', params.userId);
+  }
+
   if (params.searchQuery) {
     url.searchParams.set('search', params.searchQuery);
   }
 
+  if (params.excludeSnoozed) {
+    url.searchParams.set('exclude_snoozed', 'true');
+  }
+
+  if (params.slaAtRisk) {
+    url.searchParams.set('sla_at_risk', 'true');
+  }
+
+  if (params.sortColumn && params.sortDirection) {
+    url.searchParams.set('sort', params.sortColumn);
+    url.searchParams.set('order', params.sortDirection);
+  } else if (params.slaAtRisk) {
+    // The at-risk queue is worked soonest breach first, across every page
+    url.searchParams.set('sort', 'time_to_breach');
+    url.searchParams.set('order', 'asc');
+  }
+
+  url.searchParams.set('limit', String(params.pageSize ?? TICKETS_PAGE_SIZE));
+  if (cursor) {
+    url.searchParams.set('cursor', cursor);
+  }
+
   const response = await fetchWithAuth(url.toString());
   const data: TicketsResponse = await response.json();
 
@@ -62,45 +161,131 @@ async function fetchTickets(params: FetchTicketsParams): Promise<Ticket[]> {
     throw new Error(data.error || 'Failed to fetch tickets');
   }
 
-  return data.tickets.map(transformTicket);
+  return {
+    tickets: data.tickets.map(transformTicket),
+    nextCursor: data.nextCursor ?? null,
+    total: data.total,
+  };
 }
 
 /**
- * Fetch closed ticket count
+ * Fetch ticket counts from the dedicated count endpoint
  */
-async function fetchClosedTicketCount(): Promise<number> {
-  const url = new URL(`${API_BASE}/api/tickets`);
-  url.searchParams.set('status', 'closed');
+async function fetchTicketCounts(params: FetchTicketCountsParams = {}): Promise<TicketCounts> {
+  const url = new URL(`${API_BASE}/api/tickets/count`);
+
+  appendFilterParams(url, params.filter);
+
+  if (params.excludeClosed) {
+    url.searchParams.set('exclude_closed', 'true');
+  }
+
+  if (params.userId) {
+    url.searchParams.set('userId', params.userId);
+  }
 
   const response = await fetchWithAuth(url.toString());
-  const data: TicketsResponse = await response.json();
+  const data = await response.json();
 
   if (!data.success) {
-    throw new Error(data.error || 'Failed to fetch closed ticket count');
+    throw new Error(data.error || 'Failed to fetch ticket counts');
+  }
+
+  return {
+    total: data.total ?? 0,
+    byStatus: data.byStatus ?? {},
+    assignedToMe: data.assignedToMe ?? 0,
+    unassigned: data.unassigned ?? 0,
+    snoozed: data.snoozed ?? 0,
+    atRisk: data.atRisk ?? 0,
+  };
+}
+
+/**
+ * Fetch closed ticket count
+ */
+async function fetchClosedTicketCount(): Promise<number> {
+  const counts = await fetchTicketCounts({ filter: { status: ['closed'] } });
+  return counts.total;
+}
+
+/**
+ * Type guard for paginated ticket lists stored by useTicketsQuery
+ */
+function isTicketPages(data: unknown): data is InfiniteData<TicketsPage> {
+  return !!data && typeof data === 'object' && Array.isArray((data as InfiniteData<TicketsPage>).pages);
+}
+
+/**
+ * Apply a function to every ticket in a cached list (flat or paginated)
+ */
+function mapCachedTickets<T>(data: T, fn: (ticket: Ticket) => Ticket): T {
+  if (Array.isArray(data)) {
+    return data.map(fn) as T;
   }
 
-  return data.tickets.length;
+  if (isTicketPages(data)) {
+    return {
+      ...data,
+      pages: data.pages.map((page) => ({ ...page, tickets: page.tickets.map(fn) })),
+    } as T;
+  }
+
+  return data;
 }
 
 /**
  * React Query hook for fetching tickets
- * Provides automatic caching, background refetching, and request deduplication
+ * Loads pages on demand via fetchNextPage; data is the flattened list of loaded tickets
  */
-export function useTicketsQuery(
-  params: FetchTicketsParams,
-  options?: Omit<UseQueryOptions<Ticket[], Error>, 'queryKey' | 'queryFn'>
-) {
-  return useQuery<Ticket[], Error>({
-    queryKey: ['tickets', params.statusFilter, params.searchQuery],
-    queryFn: () => fetchTickets(params),
+export function useTicketsQuery(params: FetchTicketsParams) {
+  return useInfiniteQuery<TicketsPage, Error, Ticket[], ReturnType<typeof ticketsQueryKey>, string | null>({
+    queryKey: ticketsQueryKey(params),
+    queryFn: ({ pageParam }) => fetchTicketsPage(params, pageParam),
+    initialPageParam: null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    select: (data) => data.pages.flatMap((page) => page.tickets),
     staleTime: 2 * 60 * 1000, // Consider data fresh for 2 minutes
     gcTime: 5 * 60 * 1000, // Keep in cache for 5 minutes (formerly cacheTime)
     retry: 2,
     refetchOnWindowFocus: true,
+  });
+}
+
+/**
+ * React Query hook for fetching ticket counts (totals, per status, mine, unassigned)
+ */
+export function useTicketCountsQuery(
+  params: FetchTicketCountsParams = {},
+  options?: Omit<UseQueryOptions<TicketCounts, Error>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery<TicketCounts, Error>({
+    queryKey: ['tickets', 'counts', params.userId, filterKey(params.filter), !!params.excludeClosed],
+    queryFn: () => fetchTicketCounts(params),
+    staleTime: 60 * 1000,
+    gcTime: 5 * 60 * 1000,
+    retry: 2,
+    refetchOnWindowFocus: true,
     ...options,
   });
 }
 
+/**
+ * React Query hook for fetching the number of active tickets matching each filter
+ */
+export function useFilteredTicketCounts(filters: TicketFilter[], userId?: string): (number | undefined)[] {
+  return useQueries({
+    queries: filters.map((filter) => ({
+      queryKey: ['tickets', 'counts', userId, filterKey(filter), true],
+      queryFn: () => fetchTicketCounts({ filter, userId, excludeClosed: true }),
+      staleTime: 60 * 1000,
+      gcTime: 5 * 60 * 1000,
+      retry: 1,
+    })),
+    combine: (results) => results.map((result) => result.data?.total),
+  });
+}
+
 /**
  * React Query hook for fetching closed ticket count
  */
@@ -118,6 +303,163 @@ export function useClosedTicketCountQuery(
   });
 }
 
+/**
+ * Fetch open tickets similar to a draft and rank them as likely duplicates.
+ * With a requester ID only that requester's own tickets are compared.
+ */
+async function fetchDuplicateCandidates(draft: TicketDraftText, requesterId?: string): Promise<DuplicateCandidate[]> {
+  const url = new URL(`${API_BASE}/api/tickets/duplicates`);
+  url.searchParams.set('title', draft.title);
+  if (draft.description) {
+    url.searchParams.set('description', draft.description.slice(0, 500));
+  }
+  if (requesterId) {
+    url.searchParams.set('requester_id', requesterId);
+  }
+
+  const response = await fetchWithAuth(url.toString());
+  const data: TicketsResponse = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to check for duplicates');
+  }
+
+  const tickets = (data.tickets || []).map(transformTicket);
+  return findDuplicateTickets(
+    draft,
+    requesterId ? tickets.filter((ticket) => String(ticket.requester?.id) === requesterId) : tickets
+  );
+}
+
+/**
+ * React Query hook for likely duplicates of a ticket being created.
+ * Waits for typing to pause and for enough text to compare before querying.
+ * The portal passes the requester's ID so end users never see other people's tickets.
+ */
+export function useDuplicateTicketsQuery(draft: TicketDraftText, enabled = true, requesterId?: string) {
+  const { title, description = '' } = draft;
+  const [debouncedDraft, setDebouncedDraft] = useState<TicketDraftText>({ title, description });
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setDebouncedDraft({ title, description }), 500);
+    return () => clearTimeout(timeoutId);
+  }, [title, description]);
+
+  const keywordCount = extractKeywords(`${debouncedDraft.title} ${debouncedDraft.description || ''}`).size;
+
+  return useQuery<DuplicateCandidate[], Error>({
+    queryKey: ['ticket-duplicates', debouncedDraft.title, debouncedDraft.description || '', requesterId ?? null],
+    queryFn: () => fetchDuplicateCandidates(debouncedDraft, requesterId),
+    enabled: enabled && extractKeywords(debouncedDraft.title).size > 0 && keywordCount >= 2,
+    staleTime: 60 * 1000,
+    gcTime: 5 * 60 * 1000,
+    retry: false,
+    refetchOnWindowFocus: false,
+  });
+}
+
+/**
+ * Search open tickets by ID or title (used by ticket pickers)
+ */
+async function searchOpenTickets(query: string): Promise<Ticket[]> {
+  const url = new URL(`${API_BASE}/api/tickets`);
+  url.searchParams.set('search', query);
+  url.searchParams.set('exclude_closed', 'true');
+  url.searchParams.set('limit', '10');
+
+  const response = await fetchWithAuth(url.toString());
+  const data: TicketsResponse = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to search tickets');
+  }
+
+  return (data.tickets || []).map(transformTicket);
+}
+
+/**
+ * React Query hook for picking a ticket; debounces the query while the user types
+ */
+export function useTicketSearchQuery(query: string, enabled = true) {
+  const [debouncedQuery, setDebouncedQuery] = useState(query.trim());
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setDebouncedQuery(query.trim()), 300);
+    return () => clearTimeout(timeoutId);
+  }, [query]);
+
+  return useQuery<Ticket[], Error>({
+    queryKey: ['ticket-search', debouncedQuery],
+    queryFn: () => searchOpenTickets(debouncedQuery),
+    enabled: enabled && debouncedQuery.length > 0,
+    staleTime: 30 * 1000,
+    gcTime: 5 * 60 * 1000,
+    retry: false,
+    refetchOnWindowFocus: false,
+    placeholderData: (previous) => previous,
+  });
+}
+
+/**
+ * Fetch a single ticket by ID
+ */
+async function fetchTicket(ticketId: string): Promise<Ticket> {
+  const response = await fetchWithAuth(`${API_BASE}/api/tickets/${encodeURIComponent(ticketId)}`);
+  const data = await response.json();
+
+  if (!data.success || !data.ticket) {
+    throw new Error(data.error || `Ticket ${ticketId} not found`);
+  }
+
+  return transformTicket(data.ticket);
+}
+
+/**
+ * React Query hook for a single ticket (used outside the ticket detail page)
+ */
+export function useTicketQuery(ticketId?: string) {
+  return useQuery<Ticket, Error>({
+    queryKey: ['ticket', ticketId],
+    queryFn: () => fetchTicket(ticketId as string),
+    enabled: !!ticketId,
+    staleTime: 30 * 1000,
+    gcTime: 5 * 60 * 1000,
+    retry: false,
+    refetchOnWindowFocus: false,
+  });
+}
+
+/**
+ * Fetch the previous versions of an edited activity, newest first
+ */
+async function fetchActivityRevisions(ticketId: string, activityId: string): Promise<ActivityRevision[]> {
+  const response = await fetchWithAuth(
+    `${API_BASE}/api/tickets/${encodeURIComponent(ticketId)}/activities/${activityId}/revisions`
+  );
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to load revision history');
+  }
+
+  return data.revisions || [];
+}
+
+/**
+ * React Query hook for an activity's revision history (loaded when the history is opened)
+ */
+export function useActivityRevisionsQuery(ticketId: string, activityId: string, enabled = true) {
+  return useQuery<ActivityRevision[], Error>({
+    queryKey: ['activity-revisions', ticketId, activityId],
+    queryFn: () => fetchActivityRevisions(ticketId, activityId),
+    enabled,
+    staleTime: 0, // Edits can arrive over the WebSocket, so refetch whenever the history is opened
+    gcTime: 5 * 60 * 1000,
+    retry: false,
+    refetchOnWindowFocus: false,
+  });
+}
+
 /**
  * Hook to prefetch tickets (useful for login page)
  */
@@ -125,9 +467,10 @@ export function usePrefetchTickets() {
   const queryClient = useQueryClient();
 
   const prefetchTickets = async (params: FetchTicketsParams = {}) => {
-    await queryClient.prefetchQuery({
-      queryKey: ['tickets', params.statusFilter, params.searchQuery],
-      queryFn: () => fetchTickets(params),
+    await queryClient.prefetchInfiniteQuery({
+      queryKey: ticketsQueryKey(params),
+      queryFn: ({ pageParam }) => fetchTicketsPage(params, pageParam as string | null),
+      initialPageParam: null,
       staleTime: 2 * 60 * 1000,
     });
   };
@@ -146,28 +489,35 @@ export function usePrefetchTickets() {
 /**
  * Mutation hook for updating tickets
  */
+export type TicketUpdateField = 'status' | 'priority' | 'assignee' | 'tags';
+
 interface UpdateTicketParams {
   ticketId: string;
-  field: 'status' | 'priority' | 'assignee';
-  value: string | null;
+  field: TicketUpdateField;
+  value: string | string[] | null;
+  waiting?: WaitingOptions; // Only used when setting the status to waiting
   userId: string;
+  silent?: boolean; // Skip the error toast and refetch (bulk actions report failures and refetch once at the end)
 }
 
 export function useUpdateTicketMutation() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async ({ ticketId, field, value, userId }: UpdateTicketParams) => {
+    mutationFn: async ({ ticketId, field, value, waiting, userId }: UpdateTicketParams) => {
       const payload: any = {
         updated_by_id: userId,
       };
 
       if (field === 'status') {
         payload.status = value;
+        Object.assign(payload, waitingPayload(value === 'waiting' ? waiting : undefined));
       } else if (field === 'priority') {
         payload.priority = value;
       } else if (field === 'assignee') {
         payload.assignee_id = value === null ? null : Number(value);
+      } else if (field === 'tags') {
+        payload.tags = value;
       }
 
       const response = await fetchWithAuth(`${API_BASE}/api/tickets/${ticketId}`, {
@@ -187,23 +537,28 @@ export function useUpdateTicketMutation() {
       return transformTicket(data.ticket);
     },
     // Optimistic update: Update cache immediately before API call
-    onMutate: async ({ ticketId, field, value }) => {
+    onMutate: async ({ ticketId, field, value, waiting }) => {
       // Cancel any outgoing refetches to avoid overwriting optimistic update
       await queryClient.cancelQueries({ queryKey: ['tickets'] });
 
       // Snapshot the previous state for rollback
-      const previousTickets = queryClient.getQueriesData<Ticket[]>({ queryKey: ['tickets'] });
+      const previousTickets = queryClient.getQueriesData({ queryKey: ['tickets'] });
 
-      // Optimistically update all ticket queries
-      queryClient.setQueriesData<Ticket[]>({ queryKey: ['tickets'] }, (old) => {
-        if (!old || !Array.isArray(old)) return old;
+      // Optimistically update all ticket queries (flat lists and paginated lists)
+      queryClient.setQueriesData({ queryKey: ['tickets'] }, (old: unknown) => {
+        if (!old) return old;
 
-        return old.map((ticket): Ticket => {
+        return mapCachedTickets(old, (ticket): Ticket => {
           if (ticket.id !== ticketId) return ticket;
 
           // Update the specific field
           if (field === 'status') {
-            return { ...ticket, status: value as TicketStatus };
+            return {
+              ...ticket,
+              status: value as TicketStatus,
+              waitingUntil: value === 'waiting' ? waiting?.waitingUntil || undefined : undefined,
+              reopenOnReply: value === 'waiting' ? waiting?.reopenOnReply : undefined,
+            };
           } else if (field === 'priority') {
             return { ...ticket, priority: value as TicketPriority };
           } else if (field === 'assignee') {
@@ -225,6 +580,8 @@ export function useUpdateTicketMutation() {
             // Fallback: If cache miss, keep existing assignee until API responds
             // This is unlikely since InlineAssigneeSelect already loads users to cache
             return ticket;
+          } else if (field === 'tags') {
+            return { ...ticket, tags: (value as string[] | null) || [] };
           }
           return ticket;
         });
@@ -242,6 +599,8 @@ export function useUpdateTicketMutation() {
         });
       }
 
+      if (variables.silent) return;
+
       // Show error toast
       const fieldName = variables.field === 'assignee' ? 'assignee' : variables.field;
       toast({
@@ -253,17 +612,127 @@ export function useUpdateTicketMutation() {
     // On success, update cache with actual server data
     onSuccess: (updatedTicket) => {
       // Update all ticket queries with the actual server response
-      queryClient.setQueriesData<Ticket[]>({ queryKey: ['tickets'] }, (old) => {
-        if (!old || !Array.isArray(old)) return old;
+      queryClient.setQueriesData({ queryKey: ['tickets'] }, (old: unknown) => {
+        if (!old) return old;
 
-        return old.map((ticket) =>
+        return mapCachedTickets(old, (ticket) =>
           ticket.id === updatedTicket.id ? updatedTicket : ticket
         );
       });
     },
     // Always refetch in the background to ensure consistency
-    onSettled: () => {
+    onSettled: (_data, _error, variables) => {
+      if (variables.silent) return;
+
+      queryClient.invalidateQueries({ queryKey: ['tickets'] });
+      if (variables.field === 'tags') {
+        // Tag usage counts changed
+        queryClient.invalidateQueries({ queryKey: ['tags'] });
+      }
+    },
+  });
+}
+
+/**
+ * Mutation hook for deleting tickets
+ */
+interface DeleteTicketParams {
+  ticketId: string;
+  silent?: boolean; // Skip the refetch (bulk actions refetch once at the end)
+}
+
+export function useDeleteTicketMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ ticketId }: DeleteTicketParams) => {
+      const response = await fetchWithAuth(`${API_BASE}/api/tickets/${ticketId}`, {
+        method: 'DELETE',
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to delete ticket');
+      }
+
+      return ticketId;
+    },
+    onSuccess: (ticketId) => {
+      removeTicketFromCache(queryClient, ticketId);
+    },
+    onSettled: (_data, _error, variables) => {
+      if (variables.silent) return;
+
       queryClient.invalidateQueries({ queryKey: ['tickets'] });
     },
   });
 }
+
+/**
+ * Mutation hook for merging a ticket into another ticket
+ */
+interface MergeTicketParams {
+  sourceTicketId: string;
+  targetTicketId: string;
+  userId: string;
+  silent?: boolean; // Skip the refetch (bulk actions refetch once at the end)
+}
+
+export function useMergeTicketMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ sourceTicketId, targetTicketId, userId }: MergeTicketParams) => {
+      const response = await fetchWithAuth(`${API_BASE}/api/tickets/${targetTicketId}/merge`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          source_ticket_id: sourceTicketId,
+          merged_by_id: userId,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to merge ticket');
+      }
+
+      return transformTicket(data.ticket);
+    },
+    onSuccess: (_targetTicket, { sourceTicketId }) => {
+      removeTicketFromCache(queryClient, sourceTicketId);
+    },
+    onSettled: (_data, _error, variables) => {
+      if (variables.silent) return;
+
+      queryClient.invalidateQueries({ queryKey: ['tickets'] });
+    },
+  });
+}
+
+/**
+ * Remove a ticket from every cached ticket list (flat or paginated)
+ */
+function removeTicketFromCache(queryClient: ReturnType<typeof useQueryClient>, ticketId: string) {
+  queryClient.setQueriesData({ queryKey: ['tickets'] }, (old: unknown) => {
+    if (Array.isArray(old)) {
+      return (old as Ticket[]).filter((ticket) => ticket.id !== ticketId);
+    }
+
+    if (isTicketPages(old)) {
+      return {
+        ...old,
+        pages: old.pages.map((page) => ({
+          ...page,
+          tickets: page.tickets.filter((ticket) => ticket.id !== ticketId),
+        })),
+      };
+    }
+
+    return old;
+  });
+}
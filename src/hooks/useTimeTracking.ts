@@ -0,0 +1,190 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { fetchWithAuth } from '@/lib/fetchWithAuth';
+import { toast } from '@/hooks/use-toast';
+import type { TimeEntry } from '@/types';
+
+const API_BASE = 'https://itsm-backend.joshua-r-klimek.workers.dev';
+const TIMER_STORAGE_PREFIX = 'itsm-time-timer';
+
+interface TimeEntryResponse extends Omit<TimeEntry, 'id' | 'ticketId' | 'userId' | 'createdAt'> {
+  id: string | number;
+  ticketId: string;
+  userId: string | number;
+  createdAt: string;
+}
+
+interface AddTimeEntryParams {
+  userId: string;
+  minutes: number;
+  description?: string;
+}
+
+/**
+ * Transform API time entry data to add Date objects
+ */
+function transformTimeEntry(entry: TimeEntryResponse): TimeEntry {
+  return {
+    ...entry,
+    id: String(entry.id),
+    userId: String(entry.userId),
+    createdAt: new Date(entry.createdAt),
+  };
+}
+
+/**
+ * Fetch time logged against a ticket (newest first)
+ */
+async function fetchTimeEntries(ticketId: string): Promise<TimeEntry[]> {
+  const response = await fetchWithAuth(`${API_BASE}/api/tickets/${ticketId}/time-entries`);
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to fetch time entries');
+  }
+
+  return ((data.entries || []) as TimeEntryResponse[])
+    .map(transformTimeEntry)
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+/**
+ * React Query hook for a ticket's time entries
+ */
+export function useTimeEntriesQuery(ticketId?: string, enabled = true) {
+  return useQuery<TimeEntry[], Error>({
+    queryKey: ['time-entries', ticketId],
+    queryFn: () => fetchTimeEntries(ticketId as string),
+    enabled: enabled && !!ticketId,
+    staleTime: 60 * 1000,
+    gcTime: 5 * 60 * 1000,
+    retry: 1,
+  });
+}
+
+/**
+ * Mutation hooks for logging and deleting time on a ticket
+ */
+export function useTimeEntryMutations(ticketId?: string) {
+  const queryClient = useQueryClient();
+
+  const onSettled = () => {
+    queryClient.invalidateQueries({ queryKey: ['time-entries', ticketId] });
+  };
+
+  const addEntry = useMutation({
+    mutationFn: async ({ userId, minutes, description }: AddTimeEntryParams) => {
+      const response = await fetchWithAuth(`${API_BASE}/api/tickets/${ticketId}/time-entries`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          user_id: userId,
+          minutes,
+          description: description || null,
+        }),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to log time');
+      }
+
+      return transformTimeEntry(data.entry);
+    },
+    onSuccess: (entry) => {
+      queryClient.setQueryData<TimeEntry[]>(['time-entries', ticketId], (old) => [entry, ...(old || [])]);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Failed to log time',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+    onSettled,
+  });
+
+  const deleteEntry = useMutation({
+    mutationFn: async (entryId: string) => {
+      const response = await fetchWithAuth(`${API_BASE}/api/tickets/${ticketId}/time-entries/${entryId}`, {
+        method: 'DELETE',
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to delete time entry');
+      }
+
+      return entryId;
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Failed to delete time entry',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+    onSettled,
+  });
+
+  return { addEntry, deleteEntry };
+}
+
+/**
+ * Start/stop timer for a ticket.
+ * The start time is kept in localStorage so a running timer survives navigation and reloads.
+ */
+export function useTicketTimer(ticketId?: string, userId?: string) {
+  const storageKey = `${TIMER_STORAGE_PREFIX}-${userId}-${ticketId}`;
+
+  const readStartedAt = useCallback((): number | null => {
+    const saved = localStorage.getItem(storageKey);
+    return saved ? Number(saved) : null;
+  }, [storageKey]);
+
+  const [startedAt, setStartedAt] = useState<number | null>(readStartedAt);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Pick up the saved timer when switching tickets
+  useEffect(() => {
+    setStartedAt(readStartedAt());
+  }, [readStartedAt]);
+
+  // Tick once a second while running
+  useEffect(() => {
+    if (!startedAt) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [startedAt]);
+
+  const start = () => {
+    const timestamp = Date.now();
+    localStorage.setItem(storageKey, String(timestamp));
+    setStartedAt(timestamp);
+    setNow(timestamp);
+  };
+
+  // Stop the timer and return the elapsed time in whole minutes (at least 1)
+  const stop = (): number => {
+    const elapsed = startedAt ? Date.now() - startedAt : 0;
+    localStorage.removeItem(storageKey);
+    setStartedAt(null);
+    return Math.max(1, Math.round(elapsed / 60000));
+  };
+
+  const discard = () => {
+    localStorage.removeItem(storageKey);
+    setStartedAt(null);
+  };
+
+  return {
+    isRunning: startedAt !== null,
+    elapsedMs: startedAt ? Math.max(0, now - startedAt) : 0,
+    start,
+    stop,
+    discard,
+  };
+}
@@ -0,0 +1,80 @@
+import { useState, useEffect, useLayoutEffect, useRef } from 'react';
+import { useWindowVirtualizer } from '@tanstack/react-virtual';
+
+// Start loading the next page when this many items remain below the viewport
+const END_REACHED_THRESHOLD = 10;
+
+interface UseVirtualListOptions {
+  count: number;
+  estimateSize: number;
+  overscan?: number;
+  onEndReached?: () => void;
+}
+
+/**
+ * Window-scrolled list virtualization.
+ * Only rows near the viewport are rendered; spacer padding keeps the scroll height intact.
+ */
+export function useVirtualList<TElement extends HTMLElement>({
+  count,
+  estimateSize,
+  overscan = 8,
+  onEndReached,
+}: UseVirtualListOptions) {
+  const listRef = useRef<TElement>(null);
+  const [scrollMargin, setScrollMargin] = useState(0);
+
+  // Distance from the top of the document to the list (content above it scrolls with the window)
+  useLayoutEffect(() => {
+    const updateMargin = () => {
+      if (listRef.current) {
+        setScrollMargin(listRef.current.getBoundingClientRect().top + window.scrollY);
+      }
+    };
+
+    updateMargin();
+    window.addEventListener('resize', updateMargin);
+    return () => window.removeEventListener('resize', updateMargin);
+  }, [count]);
+
+  const virtualizer = useWindowVirtualizer({
+    count,
+    estimateSize: () => estimateSize,
+    overscan,
+    scrollMargin,
+  });
+
+  const items = virtualizer.getVirtualItems();
+  const firstItem = items[0];
+  const lastItem = items[items.length - 1];
+  const paddingTop = firstItem ? firstItem.start - scrollMargin : 0;
+  const paddingBottom = lastItem ? virtualizer.getTotalSize() - (lastItem.end - scrollMargin) : 0;
+  const lastIndex = lastItem?.index ?? -1;
+
+  // Notify when the user scrolls near the end of the loaded items
+  useEffect(() => {
+    if (onEndReached && count > 0 && lastIndex >= count - 1 - END_REACHED_THRESHOLD) {
+      onEndReached();
+    }
+  }, [lastIndex, count, onEndReached]);
+
+  return { listRef, virtualizer, items, paddingTop, paddingBottom };
+}
+
+/**
+ * Track whether the viewport is at least the Tailwind `md` breakpoint
+ */
+export function useIsDesktop(): boolean {
+  const query = '(min-width: 768px)';
+  const [isDesktop, setIsDesktop] = useState(() => window.matchMedia(query).matches);
+
+  useEffect(() => {
+    const mediaQuery = window.matchMedia(query);
+    const handleChange = (e: MediaQueryListEvent) => setIsDesktop(e.matches);
+
+    mediaQuery.addEventListener('change', handleChange);
+    return () => mediaQuery.removeEventListener('change', handleChange);
+  }, []);
+
+  return isDesktop;
+}
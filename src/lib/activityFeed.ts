@@ -0,0 +1,103 @@
+import type { Activity, ActivityType, User } from '@/types';
+
+export const ACTIVITY_TYPE_LABELS: Record<ActivityType, string> = {
+  comment: 'Replies',
+  internal_note: 'Internal notes',
+  attachment: 'Attachments',
+  status_change: 'Status',
+  assignment: 'Assignment',
+  priority_change: 'Priority',
+  cc_change: 'CC',
+  system: 'System',
+};
+
+const SYSTEM_ACTIVITY_TYPES: ActivityType[] = ['status_change', 'assignment', 'priority_change', 'cc_change', 'system'];
+
+export function isSystemActivity(activity: Activity): boolean {
+  return SYSTEM_ACTIVITY_TYPES.includes(activity.type);
+}
+
+/**
+ * Authors can edit or delete their own comments and notes within the edit window
+ * (0 = no limit); admins can always. Deleted activities can't be changed again.
+ */
+export function canModifyActivity(
+  activity: Activity,
+  user: Pick<User, 'id' | 'role'> | null | undefined,
+  editWindowMinutes: number,
+  now: Date = new Date()
+): boolean {
+  if (!user || activity.isDeleted) return false;
+  if (activity.type !== 'comment' && activity.type !== 'internal_note') return false;
+  if (user.role === 'admin') return true;
+  if (String(activity.author?.id) !== String(user.id)) return false;
+  if (editWindowMinutes <= 0) return true;
+
+  const ageMs = now.getTime() - new Date(activity.createdAt).getTime();
+  return ageMs <= editWindowMinutes * 60 * 1000;
+}
+
+export interface ActivityFilter {
+  types: ActivityType[]; // Empty = all types
+  flaggedOnly: boolean;
+  search: string;
+}
+
+export const EMPTY_ACTIVITY_FILTER: ActivityFilter = { types: [], flaggedOnly: false, search: '' };
+
+export function isActivityFilterActive(filter: ActivityFilter): boolean {
+  return filter.types.length > 0 || filter.flaggedOnly || !!filter.search.trim();
+}
+
+function matchesSearch(activity: Activity, query: string): boolean {
+  const attachmentNames = [
+    ...(activity.attachments || []).map((attachment) => attachment.fileName),
+    ...((activity.metadata?.attachments as { fileName?: string }[] | undefined) || []).map((a) => a.fileName || ''),
+  ];
+  return [activity.content, activity.author?.name || '', ...attachmentNames].some((text) =>
+    text.toLowerCase().includes(query)
+  );
+}
+
+export function filterActivities(activities: Activity[], filter: ActivityFilter): Activity[] {
+  const query = filter.search.trim().toLowerCase();
+  return activities.filter(
+    (activity) =>
+      (filter.types.length === 0 || filter.types.includes(activity.type)) &&
+      (!filter.flaggedOnly || !!activity.isFlagged) &&
+      (!query || matchesSearch(activity, query))
+  );
+}
+
+export type ActivityFeedRow =
+  | { kind: 'activity'; activity: Activity }
+  | { kind: 'system_group'; id: string; activities: Activity[] };
+
+/**
+ * Collapse runs of two or more consecutive system events into a single row
+ */
+export function groupSystemActivities(activities: Activity[]): ActivityFeedRow[] {
+  const rows: ActivityFeedRow[] = [];
+  let run: Activity[] = [];
+
+  const flushRun = () => {
+    if (run.length >= 2) {
+      rows.push({ kind: 'system_group', id: `group-${run[0].id}`, activities: run });
+    } else {
+      rows.push(...run.map((activity) => ({ kind: 'activity' as const, activity })));
+    }
+    run = [];
+  };
+
+  for (const activity of activities) {
+    if (isSystemActivity(activity)) {
+      run.push(activity);
+    } else {
+      flushRun();
+      rows.push({ kind: 'activity', activity });
+    }
+  }
+  flushRun();
+
+  return rows;
+}
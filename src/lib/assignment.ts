@@ -0,0 +1,163 @@
+import type {
+  AgentAssignmentStatus,
+  AssignmentCandidate,
+  AssignmentDecision,
+  AssignmentMethod,
+  AssignmentPool,
+  AssignmentSkipReason,
+  AssignmentStrategy,
+} from '@/types/assignment';
+
+export const ASSIGNMENT_STRATEGY_LABELS: Record<AssignmentStrategy, { label: string; description: string }> = {
+  manual: {
+    label: 'Manual',
+    description: 'New tickets stay unassigned until an agent picks them up or assigns them',
+  },
+  'round-robin': {
+    label: 'Round robin',
+    description: 'New tickets rotate across every available agent',
+  },
+  'team-based': {
+    label: 'Team based',
+    description: 'New tickets are routed to a team pool by category, then to an agent in that pool',
+  },
+};
+
+export const ASSIGNMENT_METHOD_LABELS: Record<AssignmentMethod, string> = {
+  rotation: 'Rotation',
+  least_open: 'Fewest open tickets',
+};
+
+export const ASSIGNMENT_SKIP_LABELS: Record<AssignmentSkipReason, string> = {
+  away: 'away',
+  at_capacity: 'at capacity',
+  no_skill: 'no matching skill',
+};
+
+function sameCategory(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Find the pool a category is routed to. Pools listing the category win over fallback pools (no categories).
+ */
+export function findPoolForCategory(pools: AssignmentPool[], category: string): AssignmentPool | undefined {
+  const enabled = pools.filter((pool) => pool.enabled);
+  return (
+    enabled.find((pool) => pool.categories.some((c) => sameCategory(c, category))) ||
+    enabled.find((pool) => pool.categories.length === 0)
+  );
+}
+
+// Agents never assigned come first, then the one who waited longest
+function lastAssignedTime(agent: AgentAssignmentStatus): number {
+  return agent.lastAssignedAt ? new Date(agent.lastAssignedAt).getTime() : 0;
+}
+
+function pickAgent(agents: AgentAssignmentStatus[], method: AssignmentMethod): AgentAssignmentStatus | undefined {
+  return [...agents].sort((a, b) => {
+    if (method === 'least_open' && a.openTickets !== b.openTickets) {
+      return a.openTickets - b.openTickets;
+    }
+    return lastAssignedTime(a) - lastAssignedTime(b);
+  })[0];
+}
+
+/**
+ * Work out who a new ticket in the given category would be assigned to.
+ * Mirrors the backend routing so settings can be previewed; returns null for manual assignment.
+ */
+export function selectAssignee(
+  category: string,
+  options: { strategy: AssignmentStrategy; pools: AssignmentPool[]; agents: AgentAssignmentStatus[] }
+): AssignmentDecision | null {
+  const { strategy, pools, agents } = options;
+  if (strategy === 'manual') return null;
+
+  const pool = strategy === 'team-based' ? findPoolForCategory(pools, category) : undefined;
+  const method: AssignmentMethod = pool?.method || 'rotation';
+  const members = strategy === 'team-based'
+    ? agents.filter((agent) => pool?.agentIds.includes(agent.userId))
+    : agents;
+  const capacity = pool?.maxOpenTickets;
+
+  const skipReasons = new Map<string, AssignmentSkipReason>();
+  for (const agent of members) {
+    if (!agent.available) {
+      skipReasons.set(agent.userId, 'away');
+    } else if (capacity && agent.openTickets >= capacity) {
+      skipReasons.set(agent.userId, 'at_capacity');
+    }
+  }
+
+  // Prefer agents skilled in the category, but only when at least one of them can take the ticket
+  const eligible = members.filter((agent) => !skipReasons.has(agent.userId));
+  const skilled = eligible.filter((agent) => agent.skills.some((skill) => sameCategory(skill, category)));
+  if (skilled.length > 0) {
+    for (const agent of eligible) {
+      if (!skilled.includes(agent)) skipReasons.set(agent.userId, 'no_skill');
+    }
+  }
+
+  const assignee = pickAgent(skilled.length > 0 ? skilled : eligible, method);
+  const candidates: AssignmentCandidate[] = members.map((agent) => ({
+    agentId: agent.userId,
+    agentName: agent.name,
+    openTickets: agent.openTickets,
+    skipped: skipReasons.get(agent.userId),
+  }));
+
+  return {
+    strategy,
+    method,
+    poolId: pool?.id ?? null,
+    poolName: pool?.name ?? null,
+    category,
+    matchedSkill: skilled.length > 0 ? category : null,
+    assigneeId: assignee?.userId ?? null,
+    candidates,
+  };
+}
+
+/**
+ * Explain an assignment decision as a list of short sentences, most important first
+ */
+export function describeAssignmentDecision(decision: AssignmentDecision): string[] {
+  const reasons: string[] = [];
+  const candidates = decision.candidates || [];
+  const assignee = candidates.find((c) => c.agentId === decision.assigneeId);
+
+  if (decision.strategy === 'team-based') {
+    reasons.push(
+      decision.poolName
+        ? `Team-based routing sent ${decision.category ? `the ${decision.category} category` : 'the ticket'} to the ${decision.poolName} pool`
+        : `No pool covers ${decision.category ? `the ${decision.category} category` : 'this ticket'}`
+    );
+  } else {
+    reasons.push('Round robin across all available agents');
+  }
+
+  if (decision.matchedSkill) {
+    const skilledCount = candidates.filter((c) => !c.skipped).length;
+    reasons.push(`${skilledCount} available agent${skilledCount === 1 ? ' has' : 's have'} the ${decision.matchedSkill} skill`);
+  }
+
+  if (assignee) {
+    reasons.push(
+      decision.method === 'least_open'
+        ? `${assignee.agentName} had the fewest open tickets (${assignee.openTickets})`
+        : `${assignee.agentName} was next in rotation`
+    );
+  } else if (decision.poolName || decision.strategy === 'round-robin') {
+    reasons.push('No agent was available, so the ticket was left unassigned');
+  }
+
+  const skipped = candidates.filter((c) => c.skipped);
+  if (skipped.length > 0) {
+    reasons.push(
+      `Skipped ${skipped.map((c) => `${c.agentName} (${ASSIGNMENT_SKIP_LABELS[c.skipped as AssignmentSkipReason]})`).join(', ')}`
+    );
+  }
+
+  return reasons;
+}
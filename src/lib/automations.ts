@@ -0,0 +1,206 @@
+import type { Ticket, User } from '@/types';
+import type {
+  AutomationAction,
+  AutomationCheck,
+  AutomationConditions,
+  AutomationDryRunResult,
+  AutomationEvent,
+  AutomationRule,
+  AutomationTimeBasis,
+  AutomationTrigger,
+} from '@/types/automation';
+import { formatTimeSpent } from '@/lib/timeTracking';
+
+export const AUTOMATION_EVENT_LABELS: Record<AutomationEvent, string> = {
+  ticket_created: 'Ticket created',
+  ticket_updated: 'Ticket updated',
+  activity_added: 'Comment or note added',
+  sla_warning: 'SLA warning',
+};
+
+export const AUTOMATION_TIME_BASIS_LABELS: Record<AutomationTimeBasis, string> = {
+  time_in_status: 'Time in status',
+  since_created: 'Time since created',
+  since_updated: 'Time since last update',
+};
+
+// Requester profile conditions and the User field they are read from
+const PROFILE_CONDITIONS: { key: keyof AutomationConditions; label: string; field: keyof User }[] = [
+  { key: 'department', label: 'Department', field: 'department' },
+  { key: 'team', label: 'Team', field: 'team' },
+  { key: 'location', label: 'Location', field: 'location' },
+  { key: 'jobTitle', label: 'Job title', field: 'job_title' },
+  { key: 'manager', label: 'Manager', field: 'manager' },
+];
+
+function formatStatus(status: string): string {
+  return status.replace('_', ' ');
+}
+
+/**
+ * Format a number of minutes as days when it divides evenly, e.g. "3 days" or "4h 30m"
+ */
+export function formatTriggerDuration(minutes: number): string {
+  if (minutes >= 1440 && minutes % 1440 === 0) {
+    const days = minutes / 1440;
+    return `${days} day${days === 1 ? '' : 's'}`;
+  }
+  return formatTimeSpent(minutes);
+}
+
+export function describeTrigger(trigger: AutomationTrigger): string {
+  if (trigger.type === 'event') {
+    return trigger.events.length > 0
+      ? trigger.events.map((event) => AUTOMATION_EVENT_LABELS[event]).join(' or ')
+      : 'No events selected';
+  }
+
+  const duration = formatTriggerDuration(trigger.afterMinutes);
+  switch (trigger.basis) {
+    case 'time_in_status':
+      return `${trigger.status ? `Status is ${formatStatus(trigger.status)}` : 'Status unchanged'} for more than ${duration}`;
+    case 'since_created':
+      return `Created more than ${duration} ago`;
+    case 'since_updated':
+      return `Not updated for more than ${duration}`;
+  }
+}
+
+export function describeAction(action: AutomationAction, getUserName?: (userId: string) => string | undefined): string {
+  switch (action.type) {
+    case 'set_field':
+      return `Set ${action.field} to ${action.field === 'status' ? formatStatus(action.value) : action.value}`;
+    case 'assign':
+      return action.assigneeId === null
+        ? 'Unassign ticket'
+        : `Assign to ${getUserName?.(action.assigneeId) || 'agent'}`;
+    case 'add_tags':
+      return `Add tags ${action.tags.join(', ')}`;
+    case 'internal_note':
+      return 'Post internal note';
+    case 'notify': {
+      const recipients = action.userIds.map((id) => getUserName?.(id) || 'user');
+      if (action.notifyAssignee) recipients.unshift('assignee');
+      return `Notify ${recipients.join(', ') || 'nobody'}`;
+    }
+  }
+}
+
+/**
+ * Validate that a rule can be saved, returning an error message or null
+ */
+export function validateAutomationRule(rule: Pick<AutomationRule, 'name' | 'trigger' | 'actions'>): string | null {
+  if (!rule.name.trim()) return 'Name is required';
+  if (rule.trigger.type === 'event' && rule.trigger.events.length === 0) return 'Select at least one event';
+  if (rule.trigger.type === 'time' && rule.trigger.afterMinutes <= 0) return 'Time threshold must be greater than zero';
+  if (rule.actions.length === 0) return 'Add at least one action';
+
+  for (const action of rule.actions) {
+    if (action.type === 'set_field' && !action.value) return `Choose a value for "${action.field}"`;
+    if (action.type === 'add_tags' && action.tags.length === 0) return 'Add at least one tag';
+    if (action.type === 'internal_note' && !action.content.trim()) return 'Internal note cannot be empty';
+    if (action.type === 'notify' && action.userIds.length === 0 && !action.notifyAssignee) {
+      return 'Choose who to notify';
+    }
+  }
+  return null;
+}
+
+function matchesList(expected: string[] | undefined, actual: string | undefined): boolean {
+  if (!expected || expected.length === 0) return true;
+  if (!actual) return false;
+  return expected.some((value) => value.toLowerCase() === actual.toLowerCase());
+}
+
+// Custom field values can be strings, arrays (multiselect) or booleans (checkbox)
+function customFieldValues(value: unknown): string[] {
+  if (value === undefined || value === null || value === '') return [];
+  if (Array.isArray(value)) return value.map(String);
+  return [String(value)];
+}
+
+function checkTrigger(trigger: AutomationTrigger, ticket: Ticket, now: Date): AutomationCheck {
+  if (trigger.type === 'event') {
+    return {
+      label: 'Trigger',
+      passed: true,
+      detail: `Runs on: ${describeTrigger(trigger)} (event not simulated)`,
+    };
+  }
+
+  // The ticket has no status change timestamp, so time in status is measured from the last update
+  const from = trigger.basis === 'since_created' ? ticket.createdAt : ticket.updatedAt;
+  const elapsedMinutes = Math.floor((now.getTime() - new Date(from).getTime()) / 60000);
+  const statusMatches = trigger.basis !== 'time_in_status' || !trigger.status || trigger.status === ticket.status;
+
+  return {
+    label: 'Trigger',
+    passed: statusMatches && elapsedMinutes >= trigger.afterMinutes,
+    detail: statusMatches
+      ? `${AUTOMATION_TIME_BASIS_LABELS[trigger.basis]}: ${formatTriggerDuration(Math.max(0, elapsedMinutes))} (needs ${formatTriggerDuration(trigger.afterMinutes)})`
+      : `Ticket is ${formatStatus(ticket.status)}, rule waits for ${formatStatus(trigger.status || '')}`,
+  };
+}
+
+/**
+ * Evaluate a rule against a ticket without applying anything.
+ * Every condition is reported so admins can see why a rule does or doesn't match.
+ */
+export function evaluateAutomation(
+  rule: Pick<AutomationRule, 'trigger' | 'conditions' | 'actions' | 'enabled'>,
+  ticket: Ticket,
+  options: { now?: Date; getUserName?: (userId: string) => string | undefined; customFieldLabels?: Record<string, string> } = {}
+): AutomationDryRunResult {
+  const now = options.now || new Date();
+  const { conditions } = rule;
+  const checks: AutomationCheck[] = [];
+
+  if (!rule.enabled) {
+    checks.push({ label: 'Enabled', passed: false, detail: 'Rule is disabled and will not run' });
+  }
+
+  checks.push(checkTrigger(rule.trigger, ticket, now));
+
+  const ticketConditions: { key: keyof AutomationConditions; label: string; actual?: string }[] = [
+    { key: 'status', label: 'Status', actual: ticket.status },
+    { key: 'priority', label: 'Priority', actual: ticket.priority },
+    { key: 'category', label: 'Category', actual: ticket.category },
+  ];
+
+  for (const { key, label, actual } of ticketConditions) {
+    const expected = conditions[key] as string[] | undefined;
+    if (!expected?.length) continue;
+    checks.push({
+      label,
+      passed: matchesList(expected, actual),
+      detail: `${actual ? formatStatus(actual) : 'none'} (needs ${expected.join(', ')})`,
+    });
+  }
+
+  for (const [fieldId, expected] of Object.entries(conditions.customFields || {})) {
+    if (!expected.length) continue;
+    const actual = customFieldValues(ticket.customFields?.[fieldId]);
+    checks.push({
+      label: options.customFieldLabels?.[fieldId] || fieldId,
+      passed: actual.some((value) => matchesList(expected, value)),
+      detail: `${actual.join(', ') || 'empty'} (needs ${expected.join(', ')})`,
+    });
+  }
+
+  for (const { key, label, field } of PROFILE_CONDITIONS) {
+    const expected = conditions[key] as string[] | undefined;
+    if (!expected?.length) continue;
+    const actual = ticket.requester?.[field] as string | undefined;
+    checks.push({
+      label: `Requester ${label.toLowerCase()}`,
+      passed: matchesList(expected, actual),
+      detail: `${actual || 'not set'} (needs ${expected.join(', ')})`,
+    });
+  }
+
+  return {
+    matched: checks.every((check) => check.passed),
+    checks,
+    actions: rule.actions.map((action) => describeAction(action, options.getUserName)),
+  };
+}
@@ -0,0 +1,236 @@
+import type { BusinessHoursInterval, BusinessHoursSchedule, Weekday } from '@/types/sla';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MINUTES = 24 * 60;
+
+// Upper bound on interval/gap steps when walking a schedule, a few years of working days
+const MAX_STEPS = 5000;
+
+export const WEEKDAYS: Weekday[] = [1, 2, 3, 4, 5, 6, 0];
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  0: 'Sunday',
+  1: 'Monday',
+  2: 'Tuesday',
+  3: 'Wednesday',
+  4: 'Thursday',
+  5: 'Friday',
+  6: 'Saturday',
+};
+
+const WEEKDAY_BY_SHORT_NAME: Record<string, Weekday> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+export const DEFAULT_WORKDAY: BusinessHoursInterval = { start: '09:00', end: '17:00' };
+
+export function defaultWeeklyHours(): Record<Weekday, BusinessHoursInterval[]> {
+  return {
+    0: [],
+    1: [{ ...DEFAULT_WORKDAY }],
+    2: [{ ...DEFAULT_WORKDAY }],
+    3: [{ ...DEFAULT_WORKDAY }],
+    4: [{ ...DEFAULT_WORKDAY }],
+    5: [{ ...DEFAULT_WORKDAY }],
+    6: [],
+  };
+}
+
+export function getBrowserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * "HH:mm" to minutes since midnight, "24:00" allowed as the end of the day
+ */
+export function parseTimeOfDay(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+  if (!match) return null;
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return Number(match[2]) < 60 && minutes <= DAY_MINUTES ? minutes : null;
+}
+
+/**
+ * Problems with a day's intervals, or null when they are usable
+ */
+export function validateIntervals(intervals: BusinessHoursInterval[]): string | null {
+  const parsed = intervals.map((interval) => [parseTimeOfDay(interval.start), parseTimeOfDay(interval.end)]);
+  if (parsed.some(([start, end]) => start === null || end === null)) return 'Use HH:mm times';
+  if (parsed.some(([start, end]) => (start as number) >= (end as number))) return 'End must be after start';
+
+  const sorted = [...parsed].sort((a, b) => (a[0] as number) - (b[0] as number));
+  for (let i = 1; i < sorted.length; i++) {
+    if ((sorted[i][0] as number) < (sorted[i - 1][1] as number)) return 'Intervals overlap';
+  }
+  return null;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: isValidTimeZone(timeZone) ? timeZone : 'UTC',
+      hourCycle: 'h23',
+      weekday: 'short',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+interface ZonedMoment {
+  dateKey: string; // yyyy-MM-dd
+  weekday: Weekday;
+  minuteOfDay: number; // Fractional, seconds included
+}
+
+function toZonedMoment(date: Date, timeZone: string): ZonedMoment {
+  const parts = Object.fromEntries(getFormatter(timeZone).formatToParts(date).map((part) => [part.type, part.value]));
+  const seconds = date.getUTCSeconds() + date.getUTCMilliseconds() / 1000;
+  return {
+    dateKey: `${parts.year}-${parts.month}-${parts.day}`,
+    weekday: WEEKDAY_BY_SHORT_NAME[parts.weekday] ?? 0,
+    minuteOfDay: Number(parts.hour) * 60 + Number(parts.minute) + seconds / 60,
+  };
+}
+
+/**
+ * Working intervals for the day containing the moment, in minutes since midnight
+ */
+function workingIntervals(schedule: BusinessHoursSchedule, moment: ZonedMoment): Array<[number, number]> {
+  if (schedule.holidays.some((holiday) => holiday.date === moment.dateKey)) return [];
+
+  return (schedule.weeklyHours[moment.weekday] || [])
+    .map((interval): [number, number] => [parseTimeOfDay(interval.start) ?? 0, parseTimeOfDay(interval.end) ?? 0])
+    .filter(([start, end]) => end > start)
+    .sort((a, b) => a[0] - b[0]);
+}
+
+function hasWorkingTime(schedule: BusinessHoursSchedule): boolean {
+  return WEEKDAYS.some((day) => workingIntervals(schedule, { dateKey: '', weekday: day, minuteOfDay: 0 }).length > 0);
+}
+
+/**
+ * Walk the schedule from a start time, calling visit for each working stretch until it returns false.
+ * Gaps (nights, weekends, holidays) are skipped.
+ */
+function walkWorkingTime(
+  schedule: BusinessHoursSchedule,
+  from: Date,
+  visit: (stretchStart: number, stretchMinutes: number) => boolean
+): void {
+  if (!hasWorkingTime(schedule)) return;
+
+  let time = from.getTime();
+  for (let step = 0; step < MAX_STEPS; step++) {
+    const moment = toZonedMoment(new Date(time), schedule.timezone);
+    const intervals = workingIntervals(schedule, moment);
+    const current = intervals.find(([start, end]) => moment.minuteOfDay >= start && moment.minuteOfDay < end);
+
+    if (current) {
+      const minutes = current[1] - moment.minuteOfDay;
+      if (!visit(time, minutes)) return;
+      time += minutes * MINUTE_MS;
+    } else {
+      // Jump to the next interval today, or to midnight
+      const next = intervals.find(([start]) => start > moment.minuteOfDay);
+      time += ((next ? next[0] : DAY_MINUTES) - moment.minuteOfDay) * MINUTE_MS;
+    }
+  }
+}
+
+export function isWithinBusinessHours(schedule: BusinessHoursSchedule, date: Date = new Date()): boolean {
+  const moment = toZonedMoment(date, schedule.timezone);
+  return workingIntervals(schedule, moment).some(([start, end]) => moment.minuteOfDay >= start && moment.minuteOfDay < end);
+}
+
+/**
+ * Working minutes between two times. Negative when the end is before the start.
+ */
+export function businessMinutesBetween(schedule: BusinessHoursSchedule, from: Date, to: Date): number {
+  if (to.getTime() < from.getTime()) return -businessMinutesBetween(schedule, to, from);
+
+  let total = 0;
+  walkWorkingTime(schedule, from, (stretchStart, stretchMinutes) => {
+    const remaining = (to.getTime() - stretchStart) / MINUTE_MS;
+    if (remaining <= 0) return false;
+    total += Math.min(stretchMinutes, remaining);
+    return remaining > stretchMinutes;
+  });
+  return total;
+}
+
+/**
+ * The time a target of this many working minutes runs out, or null if the schedule has no working time
+ */
+export function addBusinessMinutes(schedule: BusinessHoursSchedule, from: Date, minutes: number): Date | null {
+  let remaining = minutes;
+  let result: Date | null = minutes <= 0 ? from : null;
+
+  walkWorkingTime(schedule, from, (stretchStart, stretchMinutes) => {
+    if (result) return false;
+    if (remaining <= stretchMinutes) {
+      result = new Date(stretchStart + remaining * MINUTE_MS);
+      return false;
+    }
+    remaining -= stretchMinutes;
+    return true;
+  });
+  return result;
+}
+
+/**
+ * When working time next starts (the given time itself if it is within business hours)
+ */
+export function nextBusinessTime(schedule: BusinessHoursSchedule, from: Date = new Date()): Date | null {
+  let result: Date | null = null;
+  walkWorkingTime(schedule, from, (stretchStart) => {
+    result = new Date(stretchStart);
+    return false;
+  });
+  return result;
+}
+
+/**
+ * Short summary of the weekly hours, e.g. "Mon–Fri 09:00–17:00"
+ */
+export function describeWeeklyHours(schedule: Pick<BusinessHoursSchedule, 'weeklyHours'>): string {
+  const dayText = (day: Weekday) =>
+    (schedule.weeklyHours[day] || []).map((interval) => `${interval.start}–${interval.end}`).join(', ');
+
+  const groups: Array<{ days: Weekday[]; text: string }> = [];
+  for (const day of WEEKDAYS) {
+    const text = dayText(day);
+    const last = groups[groups.length - 1];
+    if (last && last.text === text) {
+      last.days.push(day);
+    } else {
+      groups.push({ days: [day], text });
+    }
+  }
+
+  const summary = groups
+    .filter((group) => group.text)
+    .map((group) => {
+      const first = WEEKDAY_LABELS[group.days[0]].slice(0, 3);
+      const last = WEEKDAY_LABELS[group.days[group.days.length - 1]].slice(0, 3);
+      return `${group.days.length > 1 ? `${first}–${last}` : first} ${group.text}`;
+    })
+    .join(' · ');
+
+  return summary || 'No working hours';
+}
@@ -0,0 +1,42 @@
+import type { CsatRating, TicketStatus } from '@/types';
+
+export const CSAT_RATINGS: CsatRating[] = [1, 2, 3, 4, 5];
+
+export const CSAT_RATING_LABELS: Record<CsatRating, string> = {
+  1: 'Very dissatisfied',
+  2: 'Dissatisfied',
+  3: 'Neutral',
+  4: 'Satisfied',
+  5: 'Very satisfied',
+};
+
+/**
+ * Requesters are asked for a rating once their ticket is resolved or closed
+ */
+export function canRateTicket(status: TicketStatus): boolean {
+  return status === 'resolved' || status === 'closed';
+}
+
+/**
+ * Ratings of 4 and 5 count towards the CSAT score
+ */
+export function isSatisfiedRating(rating: number): boolean {
+  return rating >= 4;
+}
+
+/**
+ * Parse a rating from a URL parameter (survey emails link straight to a star)
+ */
+export function parseCsatRating(value: string | null | undefined): CsatRating | null {
+  const rating = Number(value);
+  return CSAT_RATINGS.includes(rating as CsatRating) ? (rating as CsatRating) : null;
+}
+
+/**
+ * Text colour for a CSAT score (percentage of satisfied responses)
+ */
+export function csatScoreColor(score: number): string {
+  if (score >= 85) return 'text-green-600 dark:text-green-400';
+  if (score >= 70) return 'text-yellow-600 dark:text-yellow-400';
+  return 'text-red-600 dark:text-red-400';
+}
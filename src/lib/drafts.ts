@@ -0,0 +1,84 @@
+import type { Draft } from '@/types/drafts';
+
+const DRAFTS_KEY_PREFIX = 'itsm_drafts_';
+const DRAFT_TTL = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+// Fired on window whenever this tab changes a draft (the storage event only covers other tabs)
+export const DRAFTS_CHANGED_EVENT = 'itsm:drafts-changed';
+
+export const NEW_TICKET_DRAFT_KEY = 'new_ticket';
+
+export function replyDraftKey(ticketId: string): string {
+  return `reply:${ticketId}`;
+}
+
+// Kept apart from the agent composer's draft, which can be an internal note, so it never lands in the portal
+export function portalReplyDraftKey(ticketId: string): string {
+  return `portal-reply:${ticketId}`;
+}
+
+function storageKey(userId: string): string {
+  return `${DRAFTS_KEY_PREFIX}${userId}`;
+}
+
+function readAll(userId: string): Record<string, Draft> {
+  try {
+    const stored = localStorage.getItem(storageKey(userId));
+    if (!stored) return {};
+
+    const drafts: Record<string, Draft> = JSON.parse(stored);
+    const now = Date.now();
+    return Object.fromEntries(Object.entries(drafts).filter(([, draft]) => now - draft.updatedAt < DRAFT_TTL));
+  } catch (error) {
+    console.error('Error reading drafts:', error);
+    return {};
+  }
+}
+
+function writeAll(userId: string, drafts: Record<string, Draft>): void {
+  try {
+    if (Object.keys(drafts).length === 0) {
+      localStorage.removeItem(storageKey(userId));
+    } else {
+      localStorage.setItem(storageKey(userId), JSON.stringify(drafts));
+    }
+    window.dispatchEvent(new Event(DRAFTS_CHANGED_EVENT));
+  } catch (error) {
+    console.error('Error saving drafts:', error);
+  }
+}
+
+/**
+ * Drafts kept in localStorage, one entry per user holding all of their drafts
+ */
+export const draftStore = {
+  get<T>(userId: string, key: string): Draft<T> | null {
+    return (readAll(userId)[key] as Draft<T> | undefined) || null;
+  },
+
+  list(userId: string): Draft[] {
+    return Object.values(readAll(userId));
+  },
+
+  set(userId: string, draft: Draft): void {
+    writeAll(userId, { ...readAll(userId), [draft.key]: draft });
+  },
+
+  remove(userId: string, key: string): void {
+    const drafts = readAll(userId);
+    if (!(key in drafts)) return;
+    delete drafts[key];
+    writeAll(userId, drafts);
+  },
+};
+
+/**
+ * Drop values that can't be stored as JSON (selected files) from a ticket form
+ */
+export function serializableFieldValues(fieldValues: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(fieldValues).filter(
+      ([, value]) => !(value instanceof File) && !(Array.isArray(value) && value.some((item) => item instanceof File))
+    )
+  );
+}
@@ -0,0 +1,75 @@
+import { formatDistance } from 'date-fns';
+import type { TicketStatus } from '@/types';
+
+export type DueState = 'overdue' | 'due_soon' | 'upcoming';
+
+// Tickets due within this window count as "due soon"
+export const DUE_SOON_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Hour used by the "tomorrow" and "next week" reminder presets
+const REMINDER_MORNING_HOUR = 9;
+
+/**
+ * Due dates stop mattering once a ticket is resolved or closed
+ */
+export function isDueTracked(status: TicketStatus): boolean {
+  return status !== 'resolved' && status !== 'closed';
+}
+
+export function getDueState(dueDate: Date, now: Date = new Date()): DueState {
+  const remaining = dueDate.getTime() - now.getTime();
+  if (remaining < 0) return 'overdue';
+  if (remaining <= DUE_SOON_WINDOW_MS) return 'due_soon';
+  return 'upcoming';
+}
+
+/**
+ * @example "Due in about 3 hours", "Overdue by 2 days"
+ */
+export function formatDueIn(dueDate: Date, now: Date = new Date()): string {
+  const distance = formatDistance(dueDate, now);
+  return dueDate.getTime() < now.getTime() ? `Overdue by ${distance}` : `Due in ${distance}`;
+}
+
+export const DUE_STATE_CLASSES: Record<DueState, string> = {
+  overdue: 'text-red-600 dark:text-red-400',
+  due_soon: 'text-amber-600 dark:text-amber-400',
+  upcoming: 'text-muted-foreground',
+};
+
+/**
+ * Quick picks for "remind me" follow-ups
+ */
+export function getReminderPresets(now: Date = new Date()): Array<{ label: string; date: Date }> {
+  const inHours = (hours: number) => new Date(now.getTime() + hours * 60 * 60 * 1000);
+
+  const tomorrowMorning = new Date(now);
+  tomorrowMorning.setDate(now.getDate() + 1);
+  tomorrowMorning.setHours(REMINDER_MORNING_HOUR, 0, 0, 0);
+
+  // Next Monday, or the Monday after if today is Monday
+  const nextWeek = new Date(now);
+  nextWeek.setDate(now.getDate() + (((8 - now.getDay()) % 7) || 7));
+  nextWeek.setHours(REMINDER_MORNING_HOUR, 0, 0, 0);
+
+  return [
+    { label: 'In 1 hour', date: inHours(1) },
+    { label: 'In 4 hours', date: inHours(4) },
+    { label: 'Tomorrow morning', date: tomorrowMorning },
+    { label: 'Next week', date: nextWeek },
+  ];
+}
+
+/**
+ * Value for an <input type="datetime-local">, in the browser's local time
+ */
+export function toDateTimeLocalValue(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+export function parseDateTimeLocalValue(value: string): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
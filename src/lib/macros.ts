@@ -0,0 +1,100 @@
+import type { Ticket, User } from '@/types';
+import type { Macro, MacroActions } from '@/types/macros';
+
+export interface MacroContext {
+  ticket: Ticket;
+  agent: Pick<User, 'name' | 'email'>;
+}
+
+export const MACRO_PLACEHOLDERS: { token: string; description: string }[] = [
+  { token: '{{requester.name}}', description: 'Requester full name' },
+  { token: '{{requester.firstName}}', description: 'Requester first name' },
+  { token: '{{requester.email}}', description: 'Requester email' },
+  { token: '{{ticket.id}}', description: 'Ticket ID' },
+  { token: '{{ticket.title}}', description: 'Ticket title' },
+  { token: '{{ticket.status}}', description: 'Current status' },
+  { token: '{{ticket.priority}}', description: 'Current priority' },
+  { token: '{{agent.name}}', description: 'Your name' },
+  { token: '{{agent.email}}', description: 'Your email' },
+];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+function resolvePlaceholder(key: string, { ticket, agent }: MacroContext): string | undefined {
+  switch (key) {
+    case 'requester.name':
+      return ticket.requester?.name;
+    case 'requester.firstName':
+      return ticket.requester?.name?.split(' ')[0];
+    case 'requester.email':
+      return ticket.requester?.email;
+    case 'ticket.id':
+      return ticket.id;
+    case 'ticket.title':
+      return ticket.title;
+    case 'ticket.status':
+      return ticket.status.replace('_', ' ');
+    case 'ticket.priority':
+      return ticket.priority;
+    case 'agent.name':
+      return agent.name;
+    case 'agent.email':
+      return agent.email;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Fill in {{placeholders}} in macro content.
+ * Unknown placeholders are left untouched so typos stay visible to the agent.
+ */
+export function renderMacro(content: string, context: MacroContext): string {
+  return content.replace(PLACEHOLDER_PATTERN, (match, key: string) => resolvePlaceholder(key, context) ?? match);
+}
+
+/**
+ * Find a "/query" being typed at the cursor.
+ * The slash must start the text or follow whitespace, and the query cannot contain whitespace.
+ */
+export function getSlashCommand(text: string, cursor: number): { start: number; query: string } | null {
+  const before = text.slice(0, cursor);
+  const match = /(^|\s)\/([^\s/]*)$/.exec(before);
+  if (!match) return null;
+  return { start: cursor - match[2].length - 1, query: match[2] };
+}
+
+/**
+ * Filter macros by name for the slash picker, prefix matches first
+ */
+export function filterMacros(macros: Macro[], query: string): Macro[] {
+  const q = query.toLowerCase();
+  if (!q) return macros;
+  const matches = macros.filter((macro) => macro.name.toLowerCase().includes(q));
+  return [
+    ...matches.filter((macro) => macro.name.toLowerCase().startsWith(q)),
+    ...matches.filter((macro) => !macro.name.toLowerCase().startsWith(q)),
+  ];
+}
+
+export function hasMacroActions(actions: MacroActions): boolean {
+  return !!(
+    actions.status ||
+    actions.priority ||
+    actions.assigneeId !== undefined ||
+    (actions.addTags && actions.addTags.length > 0)
+  );
+}
+
+/**
+ * Human readable summary of what a macro changes, e.g. "Status → Resolved • +tag billing"
+ */
+export function describeMacroActions(actions: MacroActions, assigneeName?: string): string {
+  const parts: string[] = [];
+  if (actions.status) parts.push(`Status → ${actions.status.replace('_', ' ')}`);
+  if (actions.priority) parts.push(`Priority → ${actions.priority}`);
+  if (actions.assigneeId === null) parts.push('Unassign');
+  else if (actions.assigneeId) parts.push(`Assign → ${assigneeName || 'agent'}`);
+  if (actions.addTags?.length) parts.push(actions.addTags.map((tag) => `+${tag}`).join(' '));
+  return parts.join(' • ');
+}
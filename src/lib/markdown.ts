@@ -0,0 +1,143 @@
+import { defaultUrlTransform } from 'react-markdown';
+import { splitMentions } from '@/lib/mentions';
+import type { ActivityMention } from '@/types';
+
+export type MarkdownFormat =
+  | 'bold'
+  | 'italic'
+  | 'code'
+  | 'codeBlock'
+  | 'bulletList'
+  | 'orderedList'
+  | 'quote'
+  | 'link';
+
+export interface MarkdownEdit {
+  value: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+// Placeholder text inserted when nothing is selected, then left selected so it can be typed over
+const FORMAT_PLACEHOLDERS: Record<MarkdownFormat, string> = {
+  bold: 'bold text',
+  italic: 'italic text',
+  code: 'code',
+  codeBlock: 'code',
+  bulletList: 'List item',
+  orderedList: 'List item',
+  quote: 'Quote',
+  link: 'link text',
+};
+
+const MENTION_PROTOCOL = 'mention:';
+const ATTACHMENT_PATH = /^\/api\/attachments\/[\w-]+\/download$/;
+
+function wrapSelection(value: string, start: number, end: number, before: string, after: string, placeholder: string): MarkdownEdit {
+  const selected = value.slice(start, end) || placeholder;
+  return {
+    value: `${value.slice(0, start)}${before}${selected}${after}${value.slice(end)}`,
+    selectionStart: start + before.length,
+    selectionEnd: start + before.length + selected.length,
+  };
+}
+
+// Prefix every selected line, expanding the selection to whole lines
+function prefixLines(value: string, start: number, end: number, prefix: (index: number) => string, placeholder: string): MarkdownEdit {
+  const lineStart = value.lastIndexOf('\n', start - 1) + 1;
+  const selected = value.slice(lineStart, end) || placeholder;
+  const prefixed = selected.split('\n').map((line, index) => `${prefix(index)}${line}`).join('\n');
+  return {
+    value: `${value.slice(0, lineStart)}${prefixed}${value.slice(end)}`,
+    selectionStart: lineStart,
+    selectionEnd: lineStart + prefixed.length,
+  };
+}
+
+/**
+ * Apply a toolbar format to the selected text of a markdown textarea
+ */
+export function applyMarkdownFormat(value: string, start: number, end: number, format: MarkdownFormat): MarkdownEdit {
+  const placeholder = FORMAT_PLACEHOLDERS[format];
+
+  switch (format) {
+    case 'bold':
+      return wrapSelection(value, start, end, '**', '**', placeholder);
+    case 'italic':
+      return wrapSelection(value, start, end, '_', '_', placeholder);
+    case 'code':
+      return wrapSelection(value, start, end, '`', '`', placeholder);
+    case 'codeBlock': {
+      // Fences must start on their own line
+      const before = start > 0 && value[start - 1] !== '\n' ? '\n```\n' : '```\n';
+      return wrapSelection(value, start, end, before, '\n```\n', placeholder);
+    }
+    case 'bulletList':
+      return prefixLines(value, start, end, () => '- ', placeholder);
+    case 'orderedList':
+      return prefixLines(value, start, end, (index) => `${index + 1}. `, placeholder);
+    case 'quote':
+      return prefixLines(value, start, end, () => '> ', placeholder);
+    case 'link': {
+      const edit = wrapSelection(value, start, end, '[', '](https://)', placeholder);
+      // Select the URL so it can be pasted over
+      const urlStart = edit.selectionEnd + 2;
+      return { ...edit, selectionStart: urlStart, selectionEnd: urlStart + 'https://'.length };
+    }
+  }
+}
+
+/**
+ * Insert text at the cursor, replacing any selection
+ */
+export function insertAtCursor(value: string, start: number, end: number, text: string): MarkdownEdit {
+  const cursor = start + text.length;
+  return {
+    value: `${value.slice(0, start)}${text}${value.slice(end)}`,
+    selectionStart: cursor,
+    selectionEnd: cursor,
+  };
+}
+
+/**
+ * Markdown for an uploaded image attachment. Stored as a relative path so each viewer's
+ * download link is built when the activity is rendered.
+ */
+export function imageMarkdown(fileName: string, attachmentId: string): string {
+  const alt = fileName.replace(/[[\]]/g, '');
+  return `![${alt}](/api/attachments/${attachmentId}/download)`;
+}
+
+/**
+ * Single newlines are line breaks in the composer, so keep them in the rendered output.
+ * Fenced code blocks are left untouched.
+ */
+export function preserveLineBreaks(markdown: string): string {
+  return markdown
+    .split(/(```[\s\S]*?(?:```|$))/)
+    .map((part, index) => (index % 2 === 1 ? part : part.replace(/([^\n])\n(?!\n)/g, '$1  \n')))
+    .join('');
+}
+
+/**
+ * Turn "@name" mentions into links with a mention: URL so they can be rendered as chips
+ */
+export function linkMentions(markdown: string, mentions: ActivityMention[] = []): string {
+  return splitMentions(markdown, mentions)
+    .map((segment) => (segment.mention ? `[${segment.text}](${MENTION_PROTOCOL}${segment.mention.userId})` : segment.text))
+    .join('');
+}
+
+export function getMentionedUserId(href: string | undefined): string | null {
+  return href?.startsWith(MENTION_PROTOCOL) ? href.slice(MENTION_PROTOCOL.length) : null;
+}
+
+/**
+ * Sanitise URLs in rendered markdown: mention links are kept, images may only point at
+ * ticket attachments, and everything else goes through react-markdown's safe protocol check.
+ */
+export function markdownUrlTransform(url: string, key: string): string {
+  if (key === 'href' && url.startsWith(MENTION_PROTOCOL)) return url;
+  if (key === 'src') return ATTACHMENT_PATH.test(url) ? url : '';
+  return defaultUrlTransform(url);
+}
@@ -0,0 +1,74 @@
+import type { ActivityMention, User } from '@/types';
+
+const MAX_QUERY_LENGTH = 30;
+
+/**
+ * Find an "@query" being typed at the cursor. The query may contain spaces so full names can be typed,
+ * but a trailing space ends it (an inserted mention is followed by a space).
+ */
+export function getMentionQuery(text: string, cursor: number): { start: number; query: string } | null {
+  const before = text.slice(0, cursor);
+  const match = /(^|\s)@([^@\n]*)$/.exec(before);
+  if (!match || match[2].length > MAX_QUERY_LENGTH || /\s$/.test(match[2])) return null;
+  return { start: cursor - match[2].length - 1, query: match[2] };
+}
+
+/**
+ * Filter users for the mention picker by name or email, name prefix matches first
+ */
+export function filterMentionUsers(users: User[], query: string): User[] {
+  const q = query.trim().toLowerCase();
+  if (!q) return users;
+  const matches = users.filter(
+    (user) => user.name.toLowerCase().includes(q) || user.email.toLowerCase().startsWith(q)
+  );
+  return [
+    ...matches.filter((user) => user.name.toLowerCase().startsWith(q)),
+    ...matches.filter((user) => !user.name.toLowerCase().startsWith(q)),
+  ];
+}
+
+/**
+ * Keep the mentions whose "@name" is still in the content, once per user
+ */
+export function extractMentions(content: string, mentions: ActivityMention[]): ActivityMention[] {
+  const seen = new Set<string>();
+  return mentions.filter((mention) => {
+    if (seen.has(mention.userId) || !content.includes(`@${mention.name}`)) return false;
+    seen.add(mention.userId);
+    return true;
+  });
+}
+
+export type MentionSegment = { text: string; mention?: ActivityMention };
+
+/**
+ * Split content into plain text and "@name" segments so mentions can be rendered as chips
+ */
+export function splitMentions(content: string, mentions: ActivityMention[] = []): MentionSegment[] {
+  if (mentions.length === 0) return [{ text: content }];
+
+  // Longest names first so "@Sam Lee" wins over "@Sam"
+  const sorted = [...mentions].sort((a, b) => b.name.length - a.name.length);
+  const segments: MentionSegment[] = [];
+  let plainStart = 0;
+  let index = 0;
+
+  while (index < content.length) {
+    const mention = content[index] === '@'
+      ? sorted.find((m) => content.startsWith(`@${m.name}`, index))
+      : undefined;
+
+    if (mention) {
+      if (index > plainStart) segments.push({ text: content.slice(plainStart, index) });
+      segments.push({ text: `@${mention.name}`, mention });
+      index += mention.name.length + 1;
+      plainStart = index;
+    } else {
+      index++;
+    }
+  }
+
+  if (plainStart < content.length) segments.push({ text: content.slice(plainStart) });
+  return segments;
+}
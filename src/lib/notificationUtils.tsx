@@ -1,4 +1,4 @@
-import { Bell, Info, MessageSquare, AlertCircle, CheckCircle } from 'lucide-react';
+import { Bell, Info, MessageSquare, AlertCircle, CheckCircle, AtSign, CalendarClock, AlarmClock } from 'lucide-react';
 
 export interface NotificationIconConfig {
   icon: React.ReactNode;
@@ -40,8 +40,23 @@ export function getNotificationIcon(type: string): NotificationIconConfig {
       };
     case 'mention':
       return {
-        icon: <Bell className="h-4 w-4" />,
-        colorClass: 'text-gray-500',
+        icon: <AtSign className="h-4 w-4" />,
+        colorClass: 'text-purple-500',
+      };
+    case 'ticket_due_soon':
+      return {
+        icon: <CalendarClock className="h-4 w-4" />,
+        colorClass: 'text-amber-500',
+      };
+    case 'ticket_overdue':
+      return {
+        icon: <CalendarClock className="h-4 w-4" />,
+        colorClass: 'text-red-500',
+      };
+    case 'reminder':
+      return {
+        icon: <AlarmClock className="h-4 w-4" />,
+        colorClass: 'text-blue-500',
       };
     default:
       return {
@@ -0,0 +1,71 @@
+import type { Activity, TicketPresenceUpdate, TicketViewer } from '@/types';
+
+export const PRESENCE_HEARTBEAT_MS = 20 * 1000;
+export const PRESENCE_TIMEOUT_MS = 45 * 1000; // A bit over two missed heartbeats
+export const TYPING_THROTTLE_MS = 3 * 1000;
+export const TYPING_TIMEOUT_MS = 6 * 1000;
+
+/**
+ * Apply a presence update from another agent to the current viewer list
+ */
+export function applyPresenceUpdate(viewers: TicketViewer[], update: TicketPresenceUpdate, now: number): TicketViewer[] {
+  const others = viewers.filter((viewer) => viewer.userId !== update.userId);
+  if (update.state === 'left') return others;
+
+  const existing = viewers.find((viewer) => viewer.userId === update.userId);
+  const isTyping = update.state === 'typing';
+  return [
+    ...others,
+    {
+      userId: update.userId,
+      name: update.name,
+      isTyping,
+      lastSeenAt: now,
+      typingAt: isTyping ? now : existing?.typingAt,
+    },
+  ].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Drop viewers that stopped sending heartbeats and clear stale typing flags.
+ * Returns the same array when nothing changed so state updates can bail out.
+ */
+export function pruneViewers(viewers: TicketViewer[], now: number): TicketViewer[] {
+  let changed = false;
+  const pruned = viewers
+    .filter((viewer) => {
+      const expired = now - viewer.lastSeenAt > PRESENCE_TIMEOUT_MS;
+      changed = changed || expired;
+      return !expired;
+    })
+    .map((viewer) => {
+      if (viewer.isTyping && now - (viewer.typingAt ?? 0) > TYPING_TIMEOUT_MS) {
+        changed = true;
+        return { ...viewer, isTyping: false };
+      }
+      return viewer;
+    });
+  return changed ? pruned : viewers;
+}
+
+/**
+ * "Alex is typing", "Alex and Sam are typing", "Alex, Sam and 2 others are typing"
+ */
+export function formatTypingNames(names: string[]): string {
+  if (names.length === 1) return `${names[0]} is typing a reply`;
+  if (names.length === 2) return `${names[0]} and ${names[1]} are typing replies`;
+  return `${names[0]}, ${names[1]} and ${names.length - 2} other${names.length > 3 ? 's' : ''} are typing replies`;
+}
+
+/**
+ * Public replies posted by someone else since the agent started writing theirs
+ */
+export function findCollidingReplies(activities: Activity[], since: Date, currentUserId?: string): Activity[] {
+  return activities.filter(
+    (activity) =>
+      activity.type === 'comment' &&
+      !activity.isDeleted &&
+      String(activity.author?.id) !== String(currentUserId) &&
+      new Date(activity.createdAt).getTime() > since.getTime()
+  );
+}
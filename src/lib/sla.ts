@@ -0,0 +1,283 @@
+import { addBusinessMinutes, businessMinutesBetween, isWithinBusinessHours } from '@/lib/businessHours';
+import type { SLAStatus, Ticket, TicketStatus, User, UserRole } from '@/types';
+import type {
+  BusinessHoursSchedule,
+  EscalationActions,
+  SLAClock,
+  SLAEscalationStep,
+  SLARule,
+} from '@/types/sla';
+
+const MINUTE_MS = 60 * 1000;
+
+// Statuses that pause the clock on rules created before pause statuses were configurable
+export const DEFAULT_SLA_PAUSE_STATUSES: TicketStatus[] = ['waiting'];
+
+export const SLA_CLOCK_LABELS: Record<SLAClock, string> = {
+  first_response: 'First response',
+  next_response: 'Next response',
+  resolution: 'Resolution',
+};
+
+export type SLAPauseReason = 'status' | 'business_hours';
+
+export interface SLAClockState {
+  remainingMinutes: number; // Negative once overdue
+  pausedBy: SLAPauseReason | null;
+}
+
+/**
+ * Time left on an SLA clock. A clock paused by the ticket's status stays frozen at the
+ * moment it was paused, and a clock on a business hours schedule only runs in working time.
+ */
+export function getSLAClockState(
+  due: Date,
+  schedule: BusinessHoursSchedule | undefined,
+  now: Date = new Date(),
+  pausedAt?: Date | null
+): SLAClockState {
+  const countFrom = pausedAt && pausedAt.getTime() < now.getTime() ? pausedAt : now;
+  const remainingMinutes = schedule
+    ? businessMinutesBetween(schedule, countFrom, due)
+    : (due.getTime() - countFrom.getTime()) / MINUTE_MS;
+
+  let pausedBy: SLAPauseReason | null = null;
+  if (pausedAt) {
+    pausedBy = 'status';
+  } else if (schedule && remainingMinutes > 0 && !isWithinBusinessHours(schedule, now)) {
+    pausedBy = 'business_hours';
+  }
+
+  return { remainingMinutes, pausedBy };
+}
+
+// Share of a target elapsed from which a ticket is at risk (the server alerts its assignee at 75% and 90%)
+export const SLA_AT_RISK_PERCENT = 75;
+
+// Clocks with a countdown, next response targets only run while a reply is waiting
+export type SLACountdownClock = Extract<SLAClock, 'first_response' | 'resolution'>;
+
+export interface SLAClockProgress extends SLAClockState {
+  clock: SLACountdownClock;
+  due: Date;
+  breached: boolean;
+  percentElapsed: number | null; // Null when the clock's start is unknown
+}
+
+/**
+ * Live state of a ticket's first response and resolution clocks, leaving out a first response
+ * clock that stopped when an agent replied. Time the clock spent paused is counted as elapsed,
+ * since the server moves the due date back when it resumes.
+ */
+export function getSLAClockProgress(
+  sla: SLAStatus,
+  schedule: BusinessHoursSchedule | undefined,
+  now: Date = new Date(),
+  startedAt?: Date
+): SLAClockProgress[] {
+  const clocks: { clock: SLACountdownClock; due: Date; breached: boolean }[] = [
+    { clock: 'resolution', due: sla.resolutionDue, breached: sla.resolutionBreached },
+  ];
+  if (!sla.firstRespondedAt) {
+    clocks.unshift({ clock: 'first_response', due: sla.firstResponseDue, breached: sla.firstResponseBreached });
+  }
+
+  return clocks.map(({ clock, due, breached }) => {
+    const state = getSLAClockState(due, schedule, now, sla.pausedAt);
+
+    let percentElapsed: number | null = null;
+    if (startedAt) {
+      const total = schedule
+        ? businessMinutesBetween(schedule, startedAt, due)
+        : (due.getTime() - startedAt.getTime()) / MINUTE_MS;
+      percentElapsed = total > 0 ? ((total - state.remainingMinutes) / total) * 100 : 100;
+    }
+
+    return { ...state, clock, due, breached: breached || state.remainingMinutes < 0, percentElapsed };
+  });
+}
+
+/**
+ * The clock closest to breaching (or furthest past it), which orders the at-risk queue
+ */
+export function getNextSLABreach(clocks: SLAClockProgress[]): SLAClockProgress | null {
+  return clocks.reduce<SLAClockProgress | null>(
+    (soonest, clock) => (!soonest || clock.remainingMinutes < soonest.remainingMinutes ? clock : soonest),
+    null
+  );
+}
+
+/**
+ * The clock that breaches next on an open ticket, or null once it's resolved or when it has no SLA
+ */
+export function getTicketSLABreach(
+  ticket: Pick<Ticket, 'sla' | 'status' | 'createdAt'>,
+  schedule: BusinessHoursSchedule | undefined,
+  now: Date = new Date()
+): SLAClockProgress | null {
+  if (!ticket.sla || ticket.status === 'resolved' || ticket.status === 'closed') return null;
+  return getNextSLABreach(getSLAClockProgress(ticket.sla, schedule, now, ticket.createdAt));
+}
+
+export function isSLAAtRisk(progress: SLAClockProgress | null): boolean {
+  return !!progress && (progress.breached || (progress.percentElapsed ?? 0) >= SLA_AT_RISK_PERCENT);
+}
+
+/**
+ * Ticking remaining time, e.g. "12m 05s", "3h 20m" or "2d 4h". Seconds are only shown in the last hour.
+ */
+export function formatSLACountdown(minutes: number, inBusinessTime = false): string {
+  const totalSeconds = Math.floor(Math.abs(minutes) * 60);
+  const hours = Math.floor(totalSeconds / 3600);
+  const mins = Math.floor((totalSeconds % 3600) / 60);
+
+  if (hours < 1) return `${mins}m ${String(totalSeconds % 60).padStart(2, '0')}s`;
+  if (hours < 24 || inBusinessTime) return `${hours}h ${String(mins).padStart(2, '0')}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
+
+/**
+ * Compact remaining time, e.g. "45m", "6h" or "3d". Business time stays in hours, a "day" of it isn't 24 hours.
+ */
+export function formatSLARemaining(minutes: number, inBusinessTime = false): string {
+  const hours = Math.floor(minutes / 60);
+  if (hours < 1) return `${Math.floor(minutes)}m`;
+  if (hours < 24 || inBusinessTime) return `${hours}h`;
+  return `${Math.floor(hours / 24)}d`;
+}
+
+interface SLAStatusResponse
+  extends Omit<SLAStatus, 'firstResponseDue' | 'resolutionDue' | 'nextResponseDue' | 'pausedAt' | 'firstRespondedAt'> {
+  firstResponseDue?: string | null;
+  firstRespondedAt?: string | null;
+  resolutionDue?: string | null;
+  nextResponseDue?: string | null;
+  pausedAt?: string | null;
+}
+
+/**
+ * Transform a ticket's SLA from the API to add Date objects
+ */
+export function transformSLAStatus(sla: SLAStatusResponse | null | undefined): SLAStatus | undefined {
+  if (!sla) return undefined;
+
+  return {
+    ...sla,
+    firstResponseDue: sla.firstResponseDue ? new Date(sla.firstResponseDue) : new Date(),
+    resolutionDue: sla.resolutionDue ? new Date(sla.resolutionDue) : new Date(),
+    nextResponseDue: sla.nextResponseDue ? new Date(sla.nextResponseDue) : null,
+    pausedAt: sla.pausedAt ? new Date(sla.pausedAt) : null,
+    firstRespondedAt: sla.firstRespondedAt ? new Date(sla.firstRespondedAt) : null,
+  };
+}
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  user: 'users',
+  agent: 'agents',
+  manager: 'managers',
+  admin: 'admins',
+};
+
+export function createEscalationStep(clock: SLAEscalationStep['clock'] = 'resolution'): SLAEscalationStep {
+  return {
+    id: `step-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    clock,
+    threshold: 75,
+    thresholdUnit: 'percent',
+    actions: {},
+  };
+}
+
+/**
+ * A rule's escalation chain. Rules saved before chains existed get their single escalation as one step.
+ */
+export function getEscalationSteps(rule: Pick<SLARule, 'escalation' | 'escalationSteps'>): SLAEscalationStep[] {
+  if (rule.escalationSteps) return rule.escalationSteps;
+  if (!rule.escalation?.enabled) return [];
+
+  return [
+    {
+      id: 'legacy-escalation',
+      clock: 'resolution',
+      threshold: rule.escalation.afterMinutes,
+      thresholdUnit: 'minutes',
+      actions: { newPriority: rule.escalation.newPriority },
+    },
+  ];
+}
+
+/**
+ * When a step fires, e.g. "At 75% of resolution" or "After 2h of first response"
+ */
+export function formatEscalationThreshold(step: Pick<SLAEscalationStep, 'clock' | 'threshold' | 'thresholdUnit'>): string {
+  const clock = SLA_CLOCK_LABELS[step.clock].toLowerCase();
+  if (step.thresholdUnit === 'percent') return `At ${step.threshold}% of ${clock}`;
+
+  const hours = Math.floor(step.threshold / 60);
+  const minutes = step.threshold % 60;
+  const duration = hours > 0 ? (minutes > 0 ? `${hours}h ${minutes}m` : `${hours}h`) : `${minutes}m`;
+  return `After ${duration} of ${clock}`;
+}
+
+/**
+ * Human readable list of what a step does
+ */
+export function describeEscalationActions(actions: EscalationActions, users: User[] = []): string[] {
+  const descriptions: string[] = [];
+
+  if (actions.newPriority) {
+    descriptions.push(`Set priority to ${actions.newPriority}`);
+  }
+  if (actions.reassign?.value) {
+    descriptions.push(
+      actions.reassign.type === 'team'
+        ? `Reassign to the ${actions.reassign.value} team`
+        : `Reassign to ${actions.reassign.value} (manager)`
+    );
+  }
+
+  const userIds = actions.notifyUserIds || [];
+  const names = userIds.map((userId) => users.find((u) => u.id === userId)?.name).filter(Boolean) as string[];
+  const unknownCount = userIds.length - names.length;
+  const recipients = [
+    ...names,
+    ...(unknownCount > 0 ? [`${unknownCount} ${names.length > 0 ? 'other ' : ''}user${unknownCount === 1 ? '' : 's'}`] : []),
+    ...(actions.notifyRoles || []).map((role) => `all ${ROLE_LABELS[role]}`),
+  ];
+  if (recipients.length > 0) {
+    descriptions.push(`Notify ${recipients.join(', ')}`);
+  }
+  if (actions.internalNote?.trim()) {
+    descriptions.push('Add an internal note');
+  }
+
+  return descriptions;
+}
+
+/**
+ * Problems with a step, or null when it can be saved
+ */
+export function validateEscalationStep(step: SLAEscalationStep): string | null {
+  if (!(step.threshold > 0)) return 'Threshold must be greater than 0';
+  if (step.thresholdUnit === 'percent' && step.threshold > 500) return 'Use a percentage up to 500%';
+  if (step.actions.reassign && !step.actions.reassign.value) return 'Choose who to reassign to';
+  if (describeEscalationActions(step.actions).length === 0) return 'Add at least one action';
+  return null;
+}
+
+/**
+ * When a rule's targets fall due for a ticket created at the given time
+ */
+export function computeSLADueDates(
+  rule: Pick<SLARule, 'targets'>,
+  start: Date,
+  schedule?: BusinessHoursSchedule
+): { firstResponseDue: Date | null; resolutionDue: Date | null } {
+  const addMinutes = (minutes: number) =>
+    schedule ? addBusinessMinutes(schedule, start, minutes) : new Date(start.getTime() + minutes * MINUTE_MS);
+
+  return {
+    firstResponseDue: addMinutes(rule.targets.firstResponseMinutes),
+    resolutionDue: addMinutes(rule.targets.resolutionMinutes),
+  };
+}
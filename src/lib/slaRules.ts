@@ -0,0 +1,227 @@
+import type { Ticket } from '@/types';
+import type {
+  SLAConditionCheck,
+  SLAConditions,
+  SLARule,
+  SLARuleEvaluation,
+  SLARuleWarning,
+  SLASampleTicket,
+} from '@/types/sla';
+
+type ListConditionKey = Exclude<keyof SLAConditions, 'customFields'>;
+
+// Conditions on the ticket itself, then on the requester's profile
+const CONDITION_DIMENSIONS: { key: ListConditionKey; label: string }[] = [
+  { key: 'priority', label: 'Priority' },
+  { key: 'category', label: 'Category' },
+  { key: 'department', label: 'Requester department' },
+  { key: 'team', label: 'Requester team' },
+  { key: 'location', label: 'Requester location' },
+  { key: 'jobTitle', label: 'Requester job title' },
+  { key: 'manager', label: 'Requester manager' },
+];
+
+// Cap on uncovered combinations listed, beyond it they are summarised
+const MAX_UNCOVERED_WARNINGS = 8;
+
+function matchesList(expected: string[] | undefined, actual: string | undefined): boolean {
+  if (!expected || expected.length === 0) return true;
+  if (!actual) return false;
+  return expected.some((value) => value.toLowerCase() === actual.toLowerCase());
+}
+
+// Custom field values can be strings, arrays (multiselect) or booleans (checkbox)
+function customFieldValues(value: unknown): string[] {
+  if (value === undefined || value === null || value === '') return [];
+  if (Array.isArray(value)) return value.map(String);
+  return [String(value)];
+}
+
+/**
+ * The attributes of an existing ticket that SLA conditions look at
+ */
+export function ticketToSLASample(ticket: Ticket): SLASampleTicket {
+  return {
+    priority: ticket.priority,
+    category: ticket.category,
+    department: ticket.requester?.department,
+    team: ticket.requester?.team,
+    location: ticket.requester?.location,
+    jobTitle: ticket.requester?.job_title,
+    manager: ticket.requester?.manager,
+    customFields: ticket.customFields,
+  };
+}
+
+/**
+ * Check a rule against a ticket, reporting every condition so admins can see why it does or doesn't match
+ */
+export function evaluateSLARule(
+  rule: SLARule,
+  sample: SLASampleTicket,
+  customFieldLabels: Record<string, string> = {}
+): SLARuleEvaluation {
+  const checks: SLAConditionCheck[] = [];
+
+  if (!rule.enabled) {
+    checks.push({ label: 'Enabled', passed: false, detail: 'Rule is disabled' });
+  }
+
+  for (const { key, label } of CONDITION_DIMENSIONS) {
+    const expected = rule.conditions[key];
+    if (!expected?.length) continue;
+    const actual = sample[key];
+    checks.push({
+      label,
+      passed: matchesList(expected, actual),
+      detail: `${actual || 'not set'} (needs ${expected.join(', ')})`,
+    });
+  }
+
+  for (const [fieldId, expected] of Object.entries(rule.conditions.customFields || {})) {
+    if (!expected.length) continue;
+    const actual = customFieldValues(sample.customFields?.[fieldId]);
+    checks.push({
+      label: customFieldLabels[fieldId] || fieldId,
+      passed: actual.some((value) => matchesList(expected, value)),
+      detail: `${actual.join(', ') || 'empty'} (needs ${expected.join(', ')})`,
+    });
+  }
+
+  if (checks.length === 0) {
+    checks.push({ label: 'Conditions', passed: true, detail: 'No conditions, applies to every ticket' });
+  }
+
+  return { rule, matched: checks.every((check) => check.passed), checks };
+}
+
+/**
+ * Rules are checked in the order they are listed and the first enabled rule that matches applies
+ */
+export function findMatchingSLARule(
+  rules: SLARule[],
+  sample: SLASampleTicket,
+  customFieldLabels: Record<string, string> = {}
+): { evaluations: SLARuleEvaluation[]; matchedRule: SLARule | null } {
+  const evaluations = rules.map((rule) => evaluateSLARule(rule, sample, customFieldLabels));
+  return { evaluations, matchedRule: evaluations.find((evaluation) => evaluation.matched)?.rule || null };
+}
+
+/**
+ * The rule's conditions as lower-cased value sets, keyed by dimension. Unconstrained dimensions are left out.
+ */
+function conditionSets(rule: SLARule): Map<string, Set<string>> {
+  const sets = new Map<string, Set<string>>();
+  for (const { key } of CONDITION_DIMENSIONS) {
+    const values = rule.conditions[key];
+    if (values?.length) sets.set(key, new Set(values.map((value) => value.toLowerCase())));
+  }
+  for (const [fieldId, values] of Object.entries(rule.conditions.customFields || {})) {
+    if (values.length) sets.set(`custom:${fieldId}`, new Set(values.map((value) => value.toLowerCase())));
+  }
+  return sets;
+}
+
+// Some ticket could match both rules
+function overlaps(a: Map<string, Set<string>>, b: Map<string, Set<string>>): boolean {
+  for (const [key, values] of a) {
+    const other = b.get(key);
+    if (other && ![...values].some((value) => other.has(value))) return false;
+  }
+  return true;
+}
+
+// Every ticket that matches b also matches a
+function covers(a: Map<string, Set<string>>, b: Map<string, Set<string>>): boolean {
+  for (const [key, values] of a) {
+    const other = b.get(key);
+    if (!other || ![...other].every((value) => values.has(value))) return false;
+  }
+  return true;
+}
+
+function describeOverlap(a: SLARule, b: SLARule): string {
+  const parts = CONDITION_DIMENSIONS.flatMap(({ key, label }) => {
+    const first = a.conditions[key];
+    const second = b.conditions[key];
+    if (!first?.length && !second?.length) return [];
+    const shared = first?.length && second?.length
+      ? first.filter((value) => matchesList(second, value))
+      : first?.length ? first : second || [];
+    return [`${label} ${shared.join('/')}`];
+  });
+  return parts.length > 0 ? parts.slice(0, 3).join(', ') : 'the same custom field values';
+}
+
+/**
+ * Look for enabled rules that can never apply because an earlier rule catches all their tickets,
+ * rules that compete for the same tickets, and priority/category combinations no rule covers
+ */
+export function analyzeSLARules(
+  rules: SLARule[],
+  options: { priorities?: string[]; categories?: string[] } = {}
+): SLARuleWarning[] {
+  const warnings: SLARuleWarning[] = [];
+  const enabled = rules.filter((rule) => rule.enabled);
+  const sets = new Map(enabled.map((rule) => [rule.id, conditionSets(rule)]));
+  const shadowed = new Set<string>();
+
+  enabled.forEach((later, j) => {
+    // A shadowed rule never applies, so it can't compete with later rules either
+    const earlierRules = enabled.slice(0, j).filter((rule) => !shadowed.has(rule.id));
+    const laterSets = sets.get(later.id) as Map<string, Set<string>>;
+
+    const shadowedBy = earlierRules.find((earlier) => covers(sets.get(earlier.id) as Map<string, Set<string>>, laterSets));
+    if (shadowedBy) {
+      warnings.push({
+        type: 'shadowed',
+        message: `"${later.name}" never applies: "${shadowedBy.name}" is listed first and matches all of its tickets`,
+        ruleIds: [later.id, shadowedBy.id],
+      });
+      shadowed.add(later.id);
+      return;
+    }
+
+    for (const earlier of earlierRules) {
+      if (overlaps(sets.get(earlier.id) as Map<string, Set<string>>, laterSets)) {
+        warnings.push({
+          type: 'overlap',
+          message: `"${earlier.name}" and "${later.name}" both match tickets with ${describeOverlap(earlier, later)}. "${earlier.name}" wins because it is listed first.`,
+          ruleIds: [earlier.id, later.id],
+        });
+      }
+    }
+  });
+
+  // Only rules without requester or custom field conditions cover a combination for every requester
+  const broadRules = enabled.filter((rule) =>
+    [...(sets.get(rule.id) as Map<string, Set<string>>).keys()].every((key) => key === 'priority' || key === 'category')
+  );
+  const priorities: Array<string | undefined> = options.priorities?.length ? options.priorities : [undefined];
+  const categories: Array<string | undefined> = options.categories?.length ? options.categories : [undefined];
+  if (!options.priorities?.length && !options.categories?.length) return warnings;
+
+  const uncovered: SLARuleWarning[] = [];
+  for (const priority of priorities) {
+    const missing = categories.filter(
+      (category) => !broadRules.some((rule) => evaluateSLARule(rule, { priority, category }).matched)
+    );
+    if (missing.length === 0) continue;
+
+    const subject = priority ? `${priority} priority tickets` : 'tickets';
+    const inCategories = missing.length === categories.length || !missing[0] ? '' : ` in ${missing.join(', ')}`;
+    uncovered.push({ type: 'uncovered', message: `No rule covers ${subject}${inCategories}`, ruleIds: [] });
+  }
+
+  if (uncovered.length > MAX_UNCOVERED_WARNINGS) {
+    warnings.push(...uncovered.slice(0, MAX_UNCOVERED_WARNINGS), {
+      type: 'uncovered',
+      message: `…and ${uncovered.length - MAX_UNCOVERED_WARNINGS} more priorities without full coverage`,
+      ruleIds: [],
+    });
+  } else {
+    warnings.push(...uncovered);
+  }
+
+  return warnings;
+}
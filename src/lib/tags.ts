@@ -0,0 +1,87 @@
+import type { TagColor, TagInfo } from '@/types/tags';
+
+export const TAG_COLORS: TagColor[] = ['gray', 'red', 'orange', 'amber', 'green', 'teal', 'blue', 'indigo', 'purple', 'pink'];
+
+// Full class names so Tailwind keeps them in the build
+const TAG_COLOR_CLASSES: Record<TagColor, string> = {
+  gray: 'bg-gray-100 text-gray-800 border-gray-200 dark:bg-gray-800 dark:text-gray-200 dark:border-gray-700',
+  red: 'bg-red-100 text-red-800 border-red-200 dark:bg-red-950 dark:text-red-200 dark:border-red-900',
+  orange: 'bg-orange-100 text-orange-800 border-orange-200 dark:bg-orange-950 dark:text-orange-200 dark:border-orange-900',
+  amber: 'bg-amber-100 text-amber-800 border-amber-200 dark:bg-amber-950 dark:text-amber-200 dark:border-amber-900',
+  green: 'bg-green-100 text-green-800 border-green-200 dark:bg-green-950 dark:text-green-200 dark:border-green-900',
+  teal: 'bg-teal-100 text-teal-800 border-teal-200 dark:bg-teal-950 dark:text-teal-200 dark:border-teal-900',
+  blue: 'bg-blue-100 text-blue-800 border-blue-200 dark:bg-blue-950 dark:text-blue-200 dark:border-blue-900',
+  indigo: 'bg-indigo-100 text-indigo-800 border-indigo-200 dark:bg-indigo-950 dark:text-indigo-200 dark:border-indigo-900',
+  purple: 'bg-purple-100 text-purple-800 border-purple-200 dark:bg-purple-950 dark:text-purple-200 dark:border-purple-900',
+  pink: 'bg-pink-100 text-pink-800 border-pink-200 dark:bg-pink-950 dark:text-pink-200 dark:border-pink-900',
+};
+
+// Solid swatches for the colour picker
+export const TAG_SWATCH_CLASSES: Record<TagColor, string> = {
+  gray: 'bg-gray-400',
+  red: 'bg-red-500',
+  orange: 'bg-orange-500',
+  amber: 'bg-amber-500',
+  green: 'bg-green-500',
+  teal: 'bg-teal-500',
+  blue: 'bg-blue-500',
+  indigo: 'bg-indigo-500',
+  purple: 'bg-purple-500',
+  pink: 'bg-pink-500',
+};
+
+// Chart fills matching the badge colours
+export const TAG_CHART_COLORS: Record<TagColor, string> = {
+  gray: '#6b7280',
+  red: '#ef4444',
+  orange: '#f97316',
+  amber: '#f59e0b',
+  green: '#22c55e',
+  teal: '#14b8a6',
+  blue: '#3b82f6',
+  indigo: '#6366f1',
+  purple: '#a855f7',
+  pink: '#ec4899',
+};
+
+export function tagColorClasses(color: TagColor | null | undefined): string {
+  return color ? TAG_COLOR_CLASSES[color] : 'bg-secondary text-secondary-foreground border-transparent';
+}
+
+/**
+ * Clean up a tag typed by an agent: trim, collapse whitespace and drop separators
+ */
+export function normalizeTag(input: string): string {
+  return input.replace(/[,#]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Tags are compared case-insensitively, so "VPN" and "vpn" are the same tag.
+ * Returns the existing spelling when the tag is already known.
+ */
+export function resolveTag(input: string, knownTags: string[]): string {
+  const tag = normalizeTag(input);
+  return knownTags.find((known) => known.toLowerCase() === tag.toLowerCase()) || tag;
+}
+
+export function hasTag(tags: string[], tag: string): boolean {
+  return tags.some((existing) => existing.toLowerCase() === tag.toLowerCase());
+}
+
+/**
+ * Autocomplete suggestions: tags starting with the query first, then tags containing it,
+ * each ordered by how many tickets use them. Tags already on the ticket are left out.
+ */
+export function suggestTags(query: string, tags: TagInfo[], exclude: string[], limit = 8): TagInfo[] {
+  const needle = normalizeTag(query).toLowerCase();
+  const available = tags.filter((tag) => !hasTag(exclude, tag.name));
+  const byUsage = (a: TagInfo, b: TagInfo) => b.ticketCount - a.ticketCount || a.name.localeCompare(b.name);
+
+  if (!needle) return [...available].sort(byUsage).slice(0, limit);
+
+  const prefix = available.filter((tag) => tag.name.toLowerCase().startsWith(needle)).sort(byUsage);
+  const contains = available
+    .filter((tag) => !tag.name.toLowerCase().startsWith(needle) && tag.name.toLowerCase().includes(needle))
+    .sort(byUsage);
+  return [...prefix, ...contains].slice(0, limit);
+}
@@ -0,0 +1,244 @@
+import type { Ticket, TicketFilter, TicketFilterExclusions, TicketStatus, TicketPriority } from '@/types';
+import { ASSIGNEE_FILTER_ME, ASSIGNEE_FILTER_UNASSIGNED } from '@/types';
+
+// URL parameter names used to encode a TicketFilter
+const LIST_PARAMS = ['status', 'priority', 'category', 'assignee', 'department', 'tags'] as const;
+const DATE_FROM_PARAM = 'from';
+const DATE_TO_PARAM = 'to';
+const SEARCH_PARAM = 'q';
+const PHRASE_PARAM = 'phrase';
+const EXCLUDE_PREFIX = 'not_';
+
+type ListFilterKey = (typeof LIST_PARAMS)[number];
+
+/**
+ * Check whether a filter has any exclusions
+ */
+function hasExclusions(exclude?: TicketFilterExclusions): boolean {
+  return !!exclude && LIST_PARAMS.some((key) => (exclude[key]?.length ?? 0) > 0);
+}
+
+/**
+ * Check whether a filter has no active criteria
+ */
+export function isFilterEmpty(filter: TicketFilter): boolean {
+  const hasList = LIST_PARAMS.some((key) => (filter[key]?.length ?? 0) > 0);
+  return !hasList && !filter.dateRange && !filter.searchQuery && !filter.phrases?.length && !hasExclusions(filter.exclude);
+}
+
+/**
+ * Count the number of active criteria in a filter (used for badges)
+ */
+export function countActiveFilters(filter: TicketFilter): number {
+  let count = LIST_PARAMS.filter((key) => (filter[key]?.length ?? 0) > 0).length;
+  if (filter.dateRange) count++;
+  if (filter.searchQuery) count++;
+  if (filter.phrases?.length) count++;
+  count += LIST_PARAMS.filter((key) => (filter.exclude?.[key]?.length ?? 0) > 0).length;
+  return count;
+}
+
+/**
+ * Check if a ticket matches every criterion of a filter.
+ * Values within one criterion are OR'd, criteria are AND'd together.
+ */
+export function matchesTicketFilter(ticket: Ticket, filter: TicketFilter, currentUserId?: string): boolean {
+  if (filter.status?.length && !filter.status.includes(ticket.status)) return false;
+  if (filter.priority?.length && !filter.priority.includes(ticket.priority)) return false;
+  if (filter.category?.length && !matchesCategory(ticket, filter.category)) return false;
+  if (filter.department?.length && !matchesDepartment(ticket, filter.department)) return false;
+  if (filter.assignee?.length && !matchesAssignee(ticket, filter.assignee, currentUserId)) return false;
+  if (filter.tags?.length && !matchesTags(ticket, filter.tags)) return false;
+
+  const exclude = filter.exclude;
+  if (exclude) {
+    if (exclude.status?.includes(ticket.status)) return false;
+    if (exclude.priority?.includes(ticket.priority)) return false;
+    if (exclude.category?.length && matchesCategory(ticket, exclude.category)) return false;
+    if (exclude.department?.length && matchesDepartment(ticket, exclude.department)) return false;
+    if (exclude.assignee?.length && matchesAssignee(ticket, exclude.assignee, currentUserId)) return false;
+    if (exclude.tags?.length && matchesTags(ticket, exclude.tags)) return false;
+  }
+
+  if (filter.dateRange) {
+    const created = ticket.createdAt.getTime();
+    if (created < filter.dateRange.start.getTime() || created > filter.dateRange.end.getTime()) return false;
+  }
+
+  // Every search word must appear in one of the searchable fields
+  if (filter.searchQuery) {
+    const words = filter.searchQuery.toLowerCase().split(/\s+/).filter(Boolean);
+    const matchesSearch = words.every((word) =>
+      ticket.id.toLowerCase().includes(word) ||
+      ticket.title.toLowerCase().includes(word) ||
+      ticket.requester?.name.toLowerCase().includes(word) ||
+      ticket.category.toLowerCase().includes(word)
+    );
+    if (!matchesSearch) return false;
+  }
+
+  // Quoted phrases must appear verbatim (case-insensitive) in the title or description
+  if (filter.phrases?.length) {
+    const text = `${ticket.title}\n${ticket.description || ''}`.toLowerCase();
+    if (!filter.phrases.every((phrase) => text.includes(phrase.toLowerCase()))) return false;
+  }
+
+  return true;
+}
+
+function matchesCategory(ticket: Ticket, categories: string[]): boolean {
+  const category = ticket.category.toLowerCase();
+  return categories.some((value) => value.toLowerCase() === category);
+}
+
+function matchesDepartment(ticket: Ticket, departments: string[]): boolean {
+  return !!ticket.department && departments.includes(ticket.department);
+}
+
+function matchesAssignee(ticket: Ticket, assignees: string[], currentUserId?: string): boolean {
+  const assigneeId = ticket.assignee ? String(ticket.assignee.id) : null;
+  return assignees.some((value) => {
+    if (value === ASSIGNEE_FILTER_UNASSIGNED) return assigneeId === null;
+    if (value === ASSIGNEE_FILTER_ME) return assigneeId !== null && assigneeId === String(currentUserId);
+    return assigneeId === value;
+  });
+}
+
+function matchesTags(ticket: Ticket, tags: string[]): boolean {
+  const ticketTags = (ticket.tags || []).map((tag) => tag.toLowerCase());
+  return tags.some((tag) => ticketTags.includes(tag.toLowerCase()));
+}
+
+/**
+ * Format a date bound for URL parameters: YYYY-MM-DD (local time) when it falls on a day boundary,
+ * otherwise a full ISO timestamp so relative ages like created:<4h keep their precision
+ */
+function toDateParam(date: Date, endOfDay: boolean): string {
+  const isDayBoundary = endOfDay
+    ? date.getHours() === 23 && date.getMinutes() === 59 && date.getSeconds() === 59 && date.getMilliseconds() === 999
+    : date.getHours() === 0 && date.getMinutes() === 0 && date.getSeconds() === 0 && date.getMilliseconds() === 0;
+  if (!isDayBoundary) return date.toISOString();
+
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Parse a YYYY-MM-DD or ISO timestamp URL parameter, returning null for invalid input
+ */
+function fromDateParam(value: string | null, endOfDay: boolean): Date | null {
+  if (value && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    const timestamp = new Date(value);
+    return isNaN(timestamp.getTime()) ? null : timestamp;
+  }
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const [year, month, day] = value.split('-').map(Number);
+  const date = endOfDay
+    ? new Date(year, month - 1, day, 23, 59, 59, 999)
+    : new Date(year, month - 1, day);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Write a filter into URL search params, replacing any previous filter params.
+ * Other params (e.g. the active view) are preserved.
+ */
+export function filterToSearchParams(filter: TicketFilter, base?: URLSearchParams): URLSearchParams {
+  const params = new URLSearchParams(base);
+
+  LIST_PARAMS.forEach((key) => {
+    params.delete(key);
+    params.delete(`${EXCLUDE_PREFIX}${key}`);
+  });
+  params.delete(DATE_FROM_PARAM);
+  params.delete(DATE_TO_PARAM);
+  params.delete(SEARCH_PARAM);
+  params.delete(PHRASE_PARAM);
+
+  LIST_PARAMS.forEach((key) => {
+    (filter[key] as string[] | undefined)?.forEach((value) => params.append(key, value));
+    (filter.exclude?.[key] as string[] | undefined)?.forEach((value) =>
+      params.append(`${EXCLUDE_PREFIX}${key}`, value)
+    );
+  });
+
+  if (filter.dateRange) {
+    params.set(DATE_FROM_PARAM, toDateParam(filter.dateRange.start, false));
+    params.set(DATE_TO_PARAM, toDateParam(filter.dateRange.end, true));
+  }
+
+  if (filter.searchQuery) {
+    params.set(SEARCH_PARAM, filter.searchQuery);
+  }
+
+  filter.phrases?.forEach((phrase) => params.append(PHRASE_PARAM, phrase));
+
+  return params;
+}
+
+/**
+ * Read a filter from URL search params
+ */
+export function searchParamsToFilter(params: URLSearchParams): TicketFilter {
+  const filter: TicketFilter = {};
+
+  LIST_PARAMS.forEach((key: ListFilterKey) => {
+    const values = params.getAll(key).filter(Boolean);
+    if (values.length === 0) return;
+
+    if (key === 'status') {
+      filter.status = values as TicketStatus[];
+    } else if (key === 'priority') {
+      filter.priority = values as TicketPriority[];
+    } else {
+      filter[key] = values;
+    }
+  });
+
+  const start = fromDateParam(params.get(DATE_FROM_PARAM), false);
+  const end = fromDateParam(params.get(DATE_TO_PARAM), true);
+  if (start || end) {
+    filter.dateRange = {
+      start: start ?? new Date(0),
+      end: end ?? new Date(9999, 11, 31, 23, 59, 59, 999),
+    };
+  }
+
+  const exclude: TicketFilterExclusions = {};
+  LIST_PARAMS.forEach((key: ListFilterKey) => {
+    const values = params.getAll(`${EXCLUDE_PREFIX}${key}`).filter(Boolean);
+    if (values.length > 0) {
+      (exclude as Record<ListFilterKey, string[]>)[key] = values;
+    }
+  });
+  if (hasExclusions(exclude)) {
+    filter.exclude = exclude;
+  }
+
+  const searchQuery = params.get(SEARCH_PARAM);
+  if (searchQuery) {
+    filter.searchQuery = searchQuery;
+  }
+
+  const phrases = params.getAll(PHRASE_PARAM).filter(Boolean);
+  if (phrases.length > 0) {
+    filter.phrases = phrases;
+  }
+
+  return filter;
+}
+
+/**
+ * Normalize a filter loaded from the API (dates arrive as strings)
+ */
+export function normalizeFilter(raw?: TicketFilter | null): TicketFilter {
+  if (!raw) return {};
+  return {
+    ...raw,
+    dateRange: raw.dateRange
+      ? { start: new Date(raw.dateRange.start), end: new Date(raw.dateRange.end) }
+      : undefined,
+  };
+}
@@ -0,0 +1,498 @@
+import type { TicketFilter, TicketFilterExclusions, TicketStatus, TicketPriority, User } from '@/types';
+import { ASSIGNEE_FILTER_ME, ASSIGNEE_FILTER_UNASSIGNED } from '@/types';
+
+/**
+ * Structured ticket search syntax, e.g.
+ *   status:open,waiting priority:>=high assignee:me -tag:billing created:<7d "printer jam"
+ *
+ * Keys narrow the list (comma = OR within a key), a leading "-" excludes matches,
+ * quoted text must appear verbatim and any remaining words are searched as free text.
+ */
+
+export const DEFAULT_PRIORITY_ORDER: TicketPriority[] = ['low', 'medium', 'high', 'urgent'];
+
+const STATUS_VALUES: TicketStatus[] = ['new', 'open', 'in_progress', 'waiting', 'resolved', 'closed'];
+
+export const QUERY_KEYS = ['status', 'priority', 'assignee', 'category', 'department', 'tag', 'created'] as const;
+
+type QueryKey = (typeof QUERY_KEYS)[number];
+
+const KEY_ALIASES: Record<string, QueryKey> = {
+  status: 'status',
+  priority: 'priority',
+  assignee: 'assignee',
+  assigned: 'assignee',
+  category: 'category',
+  department: 'department',
+  dept: 'department',
+  tag: 'tag',
+  tags: 'tag',
+  created: 'created',
+};
+
+const KEY_DESCRIPTIONS: Record<QueryKey, string> = {
+  status: 'Ticket status, e.g. status:open,waiting',
+  priority: 'Priority or range, e.g. priority:>=high',
+  assignee: 'me, none or an agent name',
+  category: 'Ticket category',
+  department: 'Requester department',
+  tag: 'Ticket tag',
+  created: 'Age or date, e.g. created:<7d or created:2024-01-01..2024-01-31',
+};
+
+const RELATIVE_UNITS: Record<string, number> = {
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+export interface TicketQueryContext {
+  priorities?: string[];
+  categories?: string[];
+  users?: User[];
+}
+
+export interface TicketQueryError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface ParsedTicketQuery {
+  filter: TicketFilter;
+  errors: TicketQueryError[];
+}
+
+export interface QuerySuggestion {
+  label: string;
+  insertText: string;
+  description?: string;
+}
+
+interface QueryToken {
+  raw: string;
+  start: number;
+  end: number;
+  negated: boolean;
+  key?: string;
+  value: string;
+  quoted: boolean;
+}
+
+/**
+ * Split a query into tokens, keeping quoted values together
+ */
+function tokenize(input: string, errors: TicketQueryError[]): QueryToken[] {
+  const tokens: QueryToken[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    let text = '';
+    let quoted = false;
+    let unterminated = false;
+
+    while (i < input.length && !/\s/.test(input[i])) {
+      if (input[i] === '"') {
+        const close = input.indexOf('"', i + 1);
+        quoted = true;
+        if (close === -1) {
+          text += input.slice(i + 1);
+          i = input.length;
+          unterminated = true;
+          break;
+        }
+        text += input.slice(i + 1, close);
+        i = close + 1;
+      } else {
+        text += input[i];
+        i++;
+      }
+    }
+
+    if (unterminated) {
+      errors.push({ message: 'Missing closing quote', start, end: input.length });
+    }
+
+    const raw = input.slice(start, i);
+    const negated = raw.startsWith('-') && raw.length > 1;
+    const body = negated ? text.slice(1) : text;
+    const keyMatch = !raw.startsWith('"') && !raw.startsWith('-"') ? /^([a-z_]+):(.*)$/i.exec(body) : null;
+
+    tokens.push({
+      raw,
+      start,
+      end: i,
+      negated,
+      key: keyMatch ? keyMatch[1].toLowerCase() : undefined,
+      value: keyMatch ? keyMatch[2] : body,
+      quoted,
+    });
+  }
+
+  return tokens;
+}
+
+function splitValues(value: string): string[] {
+  return value.split(',').map((v) => v.trim()).filter(Boolean);
+}
+
+function addValues<K extends keyof TicketFilterExclusions>(
+  target: TicketFilter | TicketFilterExclusions,
+  key: K,
+  values: NonNullable<TicketFilterExclusions[K]>
+) {
+  const existing = (target[key] || []) as string[];
+  (target as Record<K, string[]>)[key] = [...existing, ...values.filter((v) => !existing.includes(v))];
+}
+
+/**
+ * Resolve a status value, accepting labels such as "in progress" or "in-progress"
+ */
+function resolveStatus(value: string): TicketStatus | undefined {
+  const normalized = value.toLowerCase().replace(/[\s-]+/g, '_');
+  return STATUS_VALUES.find((status) => status === normalized);
+}
+
+/**
+ * Expand a priority comparison (e.g. ">=high") into the list of matching priorities
+ */
+function resolvePriorities(value: string, order: string[]): string[] | string {
+  const match = /^(>=|<=|>|<|=)?(.+)$/.exec(value);
+  if (!match) return `Invalid priority "${value}"`;
+
+  const [, op = '=', name] = match;
+  const index = order.findIndex((p) => p.toLowerCase() === name.toLowerCase());
+  if (index === -1) return `Unknown priority "${name}"`;
+
+  switch (op) {
+    case '>=':
+      return order.slice(index);
+    case '>':
+      return order.slice(index + 1);
+    case '<=':
+      return order.slice(0, index + 1);
+    case '<':
+      return order.slice(0, index);
+    default:
+      return [order[index]];
+  }
+}
+
+/**
+ * Resolve an assignee value to a filter value ("me", "unassigned" or a user id)
+ */
+function resolveAssignee(value: string, users: User[]): string | undefined {
+  const lower = value.toLowerCase();
+  if (lower === 'me') return ASSIGNEE_FILTER_ME;
+  if (lower === 'none' || lower === 'unassigned') return ASSIGNEE_FILTER_UNASSIGNED;
+
+  const user = users.find(
+    (u) =>
+      String(u.id) === value ||
+      u.email?.toLowerCase() === lower ||
+      u.name.toLowerCase() === lower ||
+      u.name.toLowerCase().replace(/\s+/g, '.') === lower
+  );
+  return user ? String(user.id) : undefined;
+}
+
+function parseDate(value: string, endOfDay: boolean): Date | undefined {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return undefined;
+  const [, year, month, day] = match.map(Number);
+  return endOfDay
+    ? new Date(year, month - 1, day, 23, 59, 59, 999)
+    : new Date(year, month - 1, day);
+}
+
+/**
+ * Convert a created: value into a date range.
+ * Relative ages compare against now: "<7d" means created within the last 7 days.
+ */
+function resolveCreated(value: string, now: Date): { start: Date; end: Date } | string {
+  const min = new Date(0);
+  const max = new Date(9999, 11, 31, 23, 59, 59, 999);
+
+  if (value.includes('..')) {
+    const [from, to] = value.split('..');
+    const start = from ? parseDate(from, false) : min;
+    const end = to ? parseDate(to, true) : max;
+    if (!start || !end) return `Invalid date range "${value}" (use YYYY-MM-DD..YYYY-MM-DD)`;
+    return { start, end };
+  }
+
+  const match = /^(>=|<=|>|<|=)?(.+)$/.exec(value);
+  if (!match) return `Invalid created value "${value}"`;
+  const [, op = '=', operand] = match;
+
+  const relative = /^(\d+)([hdw])$/i.exec(operand);
+  if (relative) {
+    if (op === '=') return `Use < or > with relative ages, e.g. created:<${operand}`;
+    const boundary = new Date(now.getTime() - Number(relative[1]) * RELATIVE_UNITS[relative[2].toLowerCase()]);
+    // Younger than the age means created after the boundary
+    return op.startsWith('<') ? { start: boundary, end: max } : { start: min, end: boundary };
+  }
+
+  const startOfDay = parseDate(operand, false);
+  const endOfDay = parseDate(operand, true);
+  if (!startOfDay || !endOfDay) return `Invalid date "${operand}" (use YYYY-MM-DD or an age like 7d)`;
+
+  switch (op) {
+    case '>':
+      return { start: new Date(endOfDay.getTime() + 1), end: max };
+    case '>=':
+      return { start: startOfDay, end: max };
+    case '<':
+      return { start: min, end: new Date(startOfDay.getTime() - 1) };
+    case '<=':
+      return { start: min, end: endOfDay };
+    default:
+      return { start: startOfDay, end: endOfDay };
+  }
+}
+
+/**
+ * Parse a structured search query into a ticket filter.
+ * Invalid tokens are reported with their position and otherwise ignored.
+ */
+export function parseTicketQuery(
+  input: string,
+  context: TicketQueryContext = {},
+  now: Date = new Date()
+): ParsedTicketQuery {
+  const errors: TicketQueryError[] = [];
+  const filter: TicketFilter = {};
+  const exclude: TicketFilterExclusions = {};
+  const words: string[] = [];
+  const phrases: string[] = [];
+  const priorityOrder = context.priorities?.length ? context.priorities : DEFAULT_PRIORITY_ORDER;
+
+  for (const token of tokenize(input, errors)) {
+    const fail = (message: string) => errors.push({ message, start: token.start, end: token.end });
+
+    if (!token.key) {
+      if (!token.value) continue;
+      if (token.negated) {
+        fail('Negation is only supported for keys, e.g. -status:closed');
+      } else if (token.quoted) {
+        phrases.push(token.value);
+      } else {
+        words.push(token.value);
+      }
+      continue;
+    }
+
+    const key = KEY_ALIASES[token.key];
+    if (!key) {
+      fail(`Unknown key "${token.key}"`);
+      continue;
+    }
+
+    const values = splitValues(token.value);
+    if (values.length === 0) {
+      fail(`Missing value for ${key}:`);
+      continue;
+    }
+
+    const target = token.negated ? exclude : filter;
+
+    switch (key) {
+      case 'status': {
+        const statuses = values.map(resolveStatus);
+        const invalid = values.filter((_, i) => !statuses[i]);
+        if (invalid.length > 0) {
+          fail(`Unknown status "${invalid[0]}"`);
+          break;
+        }
+        addValues(target, 'status', statuses as TicketStatus[]);
+        break;
+      }
+      case 'priority': {
+        const priorities: string[] = [];
+        for (const value of values) {
+          const result = resolvePriorities(value, priorityOrder);
+          if (typeof result === 'string') {
+            fail(result);
+            break;
+          }
+          priorities.push(...result);
+        }
+        if (priorities.length > 0) {
+          addValues(target, 'priority', priorities as TicketPriority[]);
+        }
+        break;
+      }
+      case 'category': {
+        const known = context.categories;
+        const resolved = values.map((value) =>
+          known?.length ? known.find((c) => c.toLowerCase() === value.toLowerCase()) : value
+        );
+        const invalid = values.filter((_, i) => !resolved[i]);
+        if (invalid.length > 0) {
+          fail(`Unknown category "${invalid[0]}"`);
+          break;
+        }
+        addValues(target, 'category', resolved as string[]);
+        break;
+      }
+      case 'assignee': {
+        const resolved = values.map((value) => resolveAssignee(value, context.users || []));
+        const invalid = values.filter((_, i) => !resolved[i]);
+        if (invalid.length > 0) {
+          fail(`Unknown assignee "${invalid[0]}"`);
+          break;
+        }
+        addValues(target, 'assignee', resolved as string[]);
+        break;
+      }
+      case 'department':
+        addValues(target, 'department', values);
+        break;
+      case 'tag':
+        addValues(target, 'tags', values);
+        break;
+      case 'created': {
+        if (token.negated) {
+          fail('created: cannot be negated; use < or > instead');
+          break;
+        }
+        const result = resolveCreated(token.value, now);
+        if (typeof result === 'string') {
+          fail(result);
+          break;
+        }
+        // Successive created: tokens narrow the range
+        filter.dateRange = filter.dateRange
+          ? {
+              start: new Date(Math.max(filter.dateRange.start.getTime(), result.start.getTime())),
+              end: new Date(Math.min(filter.dateRange.end.getTime(), result.end.getTime())),
+            }
+          : result;
+        break;
+      }
+    }
+  }
+
+  if (Object.keys(exclude).length > 0) filter.exclude = exclude;
+  if (words.length > 0) filter.searchQuery = words.join(' ');
+  if (phrases.length > 0) filter.phrases = phrases;
+
+  errors.sort((a, b) => a.start - b.start);
+  return { filter, errors };
+}
+
+/**
+ * Combine the builder filter with a parsed query; keys present in the query take precedence
+ */
+export function mergeQueryFilter(base: TicketFilter, query: TicketFilter): TicketFilter {
+  const merged: TicketFilter = { ...base };
+  (Object.keys(query) as (keyof TicketFilter)[]).forEach((key) => {
+    if (query[key] !== undefined) {
+      (merged as Record<string, unknown>)[key] = query[key];
+    }
+  });
+  return merged;
+}
+
+/**
+ * Find the token under the cursor
+ */
+function tokenAt(input: string, cursor: number): { start: number; end: number; text: string } {
+  let start = cursor;
+  while (start > 0 && !/\s/.test(input[start - 1])) start--;
+  let end = cursor;
+  while (end < input.length && !/\s/.test(input[end])) end++;
+  return { start, end, text: input.slice(start, cursor) };
+}
+
+/**
+ * Suggest keys or values for the token under the cursor.
+ * Returns the range to replace so the caller can splice in the chosen suggestion.
+ */
+export function getQuerySuggestions(
+  input: string,
+  cursor: number,
+  context: TicketQueryContext & { departments?: string[]; tags?: string[] } = {}
+): { start: number; end: number; suggestions: QuerySuggestion[] } {
+  const { start, end, text } = tokenAt(input, cursor);
+  const negation = text.startsWith('-') ? '-' : '';
+  const body = text.slice(negation.length);
+  const colon = body.indexOf(':');
+
+  if (!body || text.startsWith('"')) {
+    return { start, end, suggestions: [] };
+  }
+
+  // Suggest keys while the user is still typing the key name
+  if (colon === -1) {
+    const suggestions = QUERY_KEYS.filter((key) => key.startsWith(body.toLowerCase()) && key !== body.toLowerCase()).map(
+      (key) => ({
+        label: `${negation}${key}:`,
+        insertText: `${negation}${key}:`,
+        description: KEY_DESCRIPTIONS[key],
+      })
+    );
+    return { start, end, suggestions };
+  }
+
+  const key = KEY_ALIASES[body.slice(0, colon).toLowerCase()];
+  if (!key) return { start, end, suggestions: [] };
+
+  // Only complete the last value in a comma-separated list
+  const valueText = body.slice(colon + 1);
+  const lastComma = valueText.lastIndexOf(',');
+  const prefix = `${negation}${body.slice(0, colon + 1)}${valueText.slice(0, lastComma + 1)}`;
+  const partial = valueText.slice(lastComma + 1).replace(/^"/, '');
+  const operator = key === 'priority' ? /^(>=|<=|>|<|=)?/.exec(partial)?.[0] || '' : '';
+  const needle = partial.slice(operator.length).toLowerCase();
+
+  let values: string[] = [];
+  switch (key) {
+    case 'status':
+      values = STATUS_VALUES;
+      break;
+    case 'priority':
+      values = context.priorities?.length ? context.priorities : DEFAULT_PRIORITY_ORDER;
+      break;
+    case 'category':
+      values = context.categories || [];
+      break;
+    case 'department':
+      values = context.departments || [];
+      break;
+    case 'tag':
+      values = context.tags || [];
+      break;
+    case 'assignee':
+      values = [
+        'me',
+        'none',
+        ...(context.users || [])
+          .filter((u) => ['agent', 'manager', 'admin'].includes(u.role))
+          .map((u) => u.name),
+      ];
+      break;
+    case 'created':
+      values = ['<1d', '<7d', '<30d', '>30d'];
+      break;
+  }
+
+  const suggestions = values
+    .filter((value) => value.toLowerCase().includes(needle) && value.toLowerCase() !== needle)
+    .slice(0, 8)
+    .map((value) => {
+      const formatted = /\s/.test(value) ? `"${value}"` : value;
+      return {
+        label: value,
+        insertText: `${prefix}${operator}${formatted}`,
+      };
+    });
+
+  return { start, end, suggestions };
+}
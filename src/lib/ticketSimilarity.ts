@@ -0,0 +1,86 @@
+import type { Ticket } from '@/types';
+
+// Tickets scoring at or above this are shown as likely duplicates
+export const DUPLICATE_THRESHOLD = 0.35;
+
+const TITLE_WEIGHT = 0.7;
+const DESCRIPTION_WEIGHT = 0.3;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'can', 'her', 'was', 'one', 'our', 'out',
+  'has', 'have', 'had', 'with', 'this', 'that', 'from', 'they', 'will', 'would', 'there', 'their',
+  'what', 'when', 'which', 'been', 'into', 'just', 'some', 'than', 'then', 'them', 'these', 'does',
+  'doesnt', 'dont', 'cant', 'cannot', 'any', 'get', 'got', 'please', 'help', 'issue', 'problem',
+  'working', 'work', 'able', 'also', 'its', 'now', 'need', 'since', 'today', 'anyone', 'still',
+]);
+
+export interface TicketDraftText {
+  title: string;
+  description?: string;
+}
+
+export interface DuplicateCandidate {
+  ticket: Ticket;
+  score: number;
+}
+
+/**
+ * Lowercased, de-duplicated significant words from free text
+ */
+export function extractKeywords(text: string): Set<string> {
+  const words = text
+    .toLowerCase()
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter((word) => word.length > 2 && !STOP_WORDS.has(word))
+    // Light stemming so "printers" matches "printer"
+    .map((word) => (word.length > 4 && word.endsWith('s') ? word.slice(0, -1) : word));
+
+  return new Set(words);
+}
+
+/**
+ * Overlap between two keyword sets relative to the smaller set (0 to 1)
+ */
+function overlap(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach((word) => {
+    if (b.has(word)) shared++;
+  });
+  return shared / Math.min(a.size, b.size);
+}
+
+/**
+ * Weighted title/description similarity between a draft and an existing ticket
+ */
+export function ticketSimilarity(draft: TicketDraftText, ticket: Pick<Ticket, 'title' | 'description'>): number {
+  const titleScore = overlap(extractKeywords(draft.title), extractKeywords(ticket.title));
+  const draftDescription = extractKeywords(draft.description || '');
+
+  // Without a description only the title can be compared
+  if (draftDescription.size === 0) return titleScore;
+
+  const descriptionScore = overlap(
+    new Set([...extractKeywords(draft.title), ...draftDescription]),
+    extractKeywords(`${ticket.title} ${ticket.description || ''}`)
+  );
+  return titleScore * TITLE_WEIGHT + descriptionScore * DESCRIPTION_WEIGHT;
+}
+
+/**
+ * Rank open tickets by similarity to a draft, keeping only likely duplicates
+ */
+export function findDuplicateTickets(
+  draft: TicketDraftText,
+  tickets: Ticket[],
+  limit = 5
+): DuplicateCandidate[] {
+  return tickets
+    .filter((ticket) => ticket.status !== 'closed' && ticket.status !== 'resolved')
+    .map((ticket) => ({ ticket, score: ticketSimilarity(draft, ticket) }))
+    .filter((candidate) => candidate.score >= DUPLICATE_THRESHOLD)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
@@ -0,0 +1,43 @@
+/**
+ * Format logged minutes as hours and minutes (work time never rolls over into days)
+ * @example formatTimeSpent(95) => "1h 35m"
+ */
+export function formatTimeSpent(minutes: number): string {
+  const rounded = Math.max(0, Math.round(minutes));
+  const hours = Math.floor(rounded / 60);
+  const mins = rounded % 60;
+  if (hours === 0) return `${mins}m`;
+  return mins > 0 ? `${hours}h ${mins}m` : `${hours}h`;
+}
+
+/**
+ * Format a running timer as H:MM:SS
+ */
+export function formatElapsed(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${hours}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+}
+
+/**
+ * Parse a time-spent value typed by an agent into minutes.
+ * Accepts plain minutes ("45"), hours ("1.5h") and combinations ("1h 30m").
+ * Returns null when the value is empty or invalid.
+ */
+export function parseTimeSpent(input: string): number | null {
+  const value = input.trim().toLowerCase();
+  if (!value) return null;
+
+  if (/^\d+$/.test(value)) {
+    const minutes = Number(value);
+    return minutes > 0 ? minutes : null;
+  }
+
+  const match = /^(?:(\d+(?:\.\d+)?)\s*h(?:ours?|rs?)?)?\s*(?:(\d+)\s*m(?:in(?:utes?|s)?)?)?$/.exec(value);
+  if (!match || (!match[1] && !match[2])) return null;
+
+  const minutes = Math.round(Number(match[1] || 0) * 60) + Number(match[2] || 0);
+  return minutes > 0 ? minutes : null;
+}
@@ -184,7 +184,7 @@ export function generateAvatarColor(seed: string): string {
 // Ticket sorting utilities
 import type { Ticket, User, UserRole } from '@/types';
 
-export type SortColumn = 'id' | 'title' | 'status' | 'priority' | 'assignee' | 'requester' | 'sla' | 'updated';
+export type SortColumn = 'id' | 'title' | 'status' | 'priority' | 'assignee' | 'requester' | 'sla' | 'updated' | 'dueDate';
 export type UserSortColumn = 'name' | 'email' | 'role' | 'department' | 'team' | 'status' | 'lastLogin';
 export type SortDirection = 'asc' | 'desc' | null;
 
@@ -257,6 +257,14 @@ export function sortTickets(
         comparison = a.updatedAt.getTime() - b.updatedAt.getTime();
         break;
 
+      case 'dueDate':
+        // Tickets without a due date go last when ascending, first when descending
+        if (!a.dueDate && !b.dueDate) comparison = 0;
+        else if (!a.dueDate) comparison = 1;
+        else if (!b.dueDate) comparison = -1;
+        else comparison = a.dueDate.getTime() - b.dueDate.getTime();
+        break;
+
       default:
         comparison = 0;
     }
@@ -459,4 +467,13 @@ export const DEFAULT_TICKET_COLUMNS: ColumnConfig[] = [
     sortable: false,
     resizable: true,
   },
+  {
+    id: 'links',
+    label: 'Links',
+    visible: true,
+    order: 13,
+    width: 100,
+    sortable: false,
+    resizable: false,
+  },
 ];
@@ -0,0 +1,41 @@
+import type { Ticket, WaitingOptions } from '@/types';
+
+// Hour used by the day based "wait until" presets
+const WAITING_MORNING_HOUR = 9;
+
+/**
+ * A waiting ticket with a wait until date in the future is snoozed and left out of the default queue
+ */
+export function isSnoozed(ticket: Pick<Ticket, 'status' | 'waitingUntil'>, now: Date = new Date()): boolean {
+  return ticket.status === 'waiting' && !!ticket.waitingUntil && ticket.waitingUntil.getTime() > now.getTime();
+}
+
+/**
+ * Quick picks for how long a ticket waits on the requester
+ */
+export function getWaitingPresets(now: Date = new Date()): Array<{ label: string; date: Date }> {
+  const inDays = (days: number) => {
+    const date = new Date(now);
+    date.setDate(now.getDate() + days);
+    date.setHours(WAITING_MORNING_HOUR, 0, 0, 0);
+    return date;
+  };
+
+  return [
+    { label: 'Tomorrow', date: inDays(1) },
+    { label: 'In 3 days', date: inDays(3) },
+    { label: 'In 1 week', date: inDays(7) },
+    { label: 'In 2 weeks', date: inDays(14) },
+  ];
+}
+
+/**
+ * Request fields for the waiting options. Any other status clears them, so a reopened
+ * ticket doesn't keep an old snooze date.
+ */
+export function waitingPayload(waiting?: WaitingOptions) {
+  return {
+    waiting_until: waiting?.waitingUntil ? waiting.waitingUntil.toISOString() : null,
+    reopen_on_reply: waiting?.reopenOnReply ?? false,
+  };
+}
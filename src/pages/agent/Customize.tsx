@@ -3,7 +3,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import type { FormField, FormFieldType, FormConfiguration } from '@/types/formBuilder';
-import type { SLARule } from '@/types/sla';
+import type { BusinessHoursSchedule, BusinessHoursScheduleInput, SLARule } from '@/types/sla';
 import type { BrandingConfiguration } from '@/types/branding';
 import { DEFAULT_BRANDING } from '@/types/branding';
 import { useBranding } from '@/contexts/BrandingContext';
@@ -14,12 +14,29 @@ import FieldPropertiesDrawer from '@/components/customize/FieldPropertiesDrawer'
 import FormBuilderHeader from '@/components/customize/FormBuilderHeader';
 import SLAList from '@/components/sla/SLAList';
 import SLAForm from '@/components/sla/SLAForm';
+import BusinessHoursList from '@/components/sla/BusinessHoursList';
+import BusinessHoursForm from '@/components/sla/BusinessHoursForm';
+import SLATester from '@/components/sla/SLATester';
 import BrandingCustomizer from '@/components/branding/BrandingCustomizer';
 import BrandingPreview from '@/components/branding/BrandingPreview';
+import MacroList from '@/components/macros/MacroList';
+import MacroForm from '@/components/macros/MacroForm';
+import AutomationList from '@/components/automations/AutomationList';
+import AutomationForm from '@/components/automations/AutomationForm';
+import AutomationLog from '@/components/automations/AutomationLog';
+import AutomationDryRun from '@/components/automations/AutomationDryRun';
+import TagManager from '@/components/tags/TagManager';
 import { Plus, Save, RotateCcw, ShieldCheck } from 'lucide-react';
 import { mergeWithDefaults } from '@/utils/defaultFormConfig';
 import { fetchWithAuth } from '@/lib/fetchWithAuth';
 import { usePermissions } from '@/hooks/usePermissions';
+import { useAuth } from '@/contexts/AuthContext';
+import { useMacrosQuery, useMacroMutations } from '@/hooks/useMacros';
+import { useBusinessHoursQuery, useBusinessHoursMutations } from '@/hooks/useBusinessHours';
+import { useTicketQueryContext } from '@/hooks/useTicketQueryContext';
+import { useAutomationRulesQuery, useAutomationMutations } from '@/hooks/useAutomations';
+import type { Macro, MacroInput } from '@/types/macros';
+import type { AutomationRule, AutomationRuleInput } from '@/types/automation';
 
 const STORAGE_KEY = 'itsm-form-configuration';
 const BRANDING_STORAGE_KEY = 'itsm-branding-configuration';
@@ -27,6 +44,7 @@ const API_BASE = 'https://itsm-backend.joshua-r-klimek.workers.dev';
 
 export default function Customize() {
   const { can } = usePermissions();
+  const { user } = useAuth();
   const [fields, setFields] = useState<FormField[]>([]);
   const [selectedFieldId, setSelectedFieldId] = useState<string | null>(null);
   const [isDrawerOpen, setIsDrawerOpen] = useState(false);
@@ -44,6 +62,29 @@ export default function Customize() {
   const [editingSlaRule, setEditingSlaRule] = useState<SLARule | null>(null);
   const [slaSaveMessage, setSlaSaveMessage] = useState<string>('');
 
+  // Business hours state
+  const { data: businessHours = [] } = useBusinessHoursQuery();
+  const { createSchedule, updateSchedule, deleteSchedule } = useBusinessHoursMutations(user?.id);
+  const [showScheduleForm, setShowScheduleForm] = useState(false);
+  const [editingSchedule, setEditingSchedule] = useState<BusinessHoursSchedule | null>(null);
+  const [scheduleSaveMessage, setScheduleSaveMessage] = useState<string>('');
+
+  // Macro state
+  const { data: macros = [] } = useMacrosQuery(user?.id);
+  const { createMacro, updateMacro, deleteMacro } = useMacroMutations(user?.id);
+  const { data: ticketOptions } = useTicketQueryContext();
+  const [showMacroForm, setShowMacroForm] = useState(false);
+  const [editingMacro, setEditingMacro] = useState<Macro | null>(null);
+  const [macroSaveMessage, setMacroSaveMessage] = useState<string>('');
+
+  // Automation state
+  const { data: automationRules = [] } = useAutomationRulesQuery();
+  const { createRule, updateRule, deleteRule } = useAutomationMutations(user?.id);
+  const [showAutomationForm, setShowAutomationForm] = useState(false);
+  const [editingAutomation, setEditingAutomation] = useState<AutomationRule | null>(null);
+  const [automationSaveMessage, setAutomationSaveMessage] = useState<string>('');
+  const [dryRunRuleId, setDryRunRuleId] = useState('');
+
   // Branding state from context
   const { branding: contextBranding, updateBranding: updateContextBranding } = useBranding();
   const [localBranding, setLocalBranding] = useState<BrandingConfiguration>(contextBranding);
@@ -610,6 +651,143 @@ export default function Customize() {
     setEditingSlaRule(null);
   };
 
+  // Business hours handlers
+  const handleSaveSchedule = async (input: BusinessHoursScheduleInput) => {
+    try {
+      if (editingSchedule) {
+        await updateSchedule.mutateAsync({ scheduleId: editingSchedule.id, input });
+        setScheduleSaveMessage('Business hours updated successfully!');
+      } else {
+        await createSchedule.mutateAsync(input);
+        setScheduleSaveMessage('Business hours created successfully!');
+      }
+      setShowScheduleForm(false);
+      setEditingSchedule(null);
+      setTimeout(() => setScheduleSaveMessage(''), 3000);
+    } catch (error) {
+      // Mutation hooks already show a toast
+      console.error('Failed to save business hours:', error);
+    }
+  };
+
+  const handleEditSchedule = (schedule: BusinessHoursSchedule) => {
+    setEditingSchedule(schedule);
+    setShowScheduleForm(true);
+  };
+
+  const handleDeleteSchedule = (schedule: BusinessHoursSchedule) => {
+    const usedBy = slaRules.filter((rule) => rule.businessHoursId === schedule.id);
+    const message = usedBy.length > 0
+      ? `${usedBy.length} SLA rule${usedBy.length === 1 ? ' uses' : 's use'} "${schedule.name}" and will count time around the clock instead. Delete it anyway?`
+      : 'Are you sure you want to delete this business hours schedule?';
+
+    if (confirm(message)) {
+      deleteSchedule.mutate(schedule.id, {
+        onSuccess: () => {
+          setSlaRules((rules) =>
+            rules.map((rule) => (rule.businessHoursId === schedule.id ? { ...rule, businessHoursId: null } : rule))
+          );
+          setScheduleSaveMessage('Business hours deleted successfully!');
+          setTimeout(() => setScheduleSaveMessage(''), 3000);
+        },
+      });
+    }
+  };
+
+  const handleCancelScheduleForm = () => {
+    setShowScheduleForm(false);
+    setEditingSchedule(null);
+  };
+
+  // Macro handlers
+  const handleSaveMacro = async (input: MacroInput) => {
+    try {
+      if (editingMacro) {
+        await updateMacro.mutateAsync({ macroId: editingMacro.id, input });
+        setMacroSaveMessage('Macro updated successfully!');
+      } else {
+        await createMacro.mutateAsync(input);
+        setMacroSaveMessage('Macro created successfully!');
+      }
+      setShowMacroForm(false);
+      setEditingMacro(null);
+      setTimeout(() => setMacroSaveMessage(''), 3000);
+    } catch (error) {
+      // Mutation hooks already show a toast
+      console.error('Failed to save macro:', error);
+    }
+  };
+
+  const handleEditMacro = (macro: Macro) => {
+    setEditingMacro(macro);
+    setShowMacroForm(true);
+  };
+
+  const handleDeleteMacro = (macroId: string) => {
+    if (confirm('Are you sure you want to delete this macro?')) {
+      deleteMacro.mutate(macroId, {
+        onSuccess: () => {
+          setMacroSaveMessage('Macro deleted successfully!');
+          setTimeout(() => setMacroSaveMessage(''), 3000);
+        },
+      });
+    }
+  };
+
+  const handleCancelMacroForm = () => {
+    setShowMacroForm(false);
+    setEditingMacro(null);
+  };
+
+  // Automation handlers
+  const getUserName = (userId: string) => ticketOptions?.users?.find((u) => u.id === userId)?.name;
+
+  const showAutomationMessage = (message: string) => {
+    setAutomationSaveMessage(message);
+    setTimeout(() => setAutomationSaveMessage(''), 3000);
+  };
+
+  const handleSaveAutomation = async (input: AutomationRuleInput) => {
+    try {
+      if (editingAutomation) {
+        await updateRule.mutateAsync({ ruleId: editingAutomation.id, input });
+        showAutomationMessage('Automation updated successfully!');
+      } else {
+        await createRule.mutateAsync(input);
+        showAutomationMessage('Automation created successfully!');
+      }
+      setShowAutomationForm(false);
+      setEditingAutomation(null);
+    } catch (error) {
+      // Mutation hooks already show a toast
+      console.error('Failed to save automation:', error);
+    }
+  };
+
+  const handleEditAutomation = (rule: AutomationRule) => {
+    setEditingAutomation(rule);
+    setShowAutomationForm(true);
+  };
+
+  const handleDeleteAutomation = (ruleId: string) => {
+    if (confirm('Are you sure you want to delete this automation?')) {
+      deleteRule.mutate(ruleId, {
+        onSuccess: () => showAutomationMessage('Automation deleted successfully!'),
+      });
+    }
+  };
+
+  const handleToggleAutomationEnabled = (ruleId: string) => {
+    const rule = automationRules.find((r) => r.id === ruleId);
+    if (!rule) return;
+    updateRule.mutate({ ruleId, input: { enabled: !rule.enabled } });
+  };
+
+  const handleCancelAutomationForm = () => {
+    setShowAutomationForm(false);
+    setEditingAutomation(null);
+  };
+
   // Branding handlers
   const handleUpdateBranding = (updatedBranding: BrandingConfiguration) => {
     setLocalBranding(updatedBranding);
@@ -696,9 +874,12 @@ export default function Customize() {
   return (
     <div className="space-y-6 pb-6">
       <Tabs defaultValue="form-builder" className="w-full">
-        <TabsList className="grid w-full max-w-md grid-cols-3">
+        <TabsList className="grid w-full max-w-3xl grid-cols-6">
           <TabsTrigger value="form-builder">Ticket Form Builder</TabsTrigger>
           <TabsTrigger value="sla">SLA Configuration</TabsTrigger>
+          <TabsTrigger value="automations">Automations</TabsTrigger>
+          <TabsTrigger value="macros">Macros</TabsTrigger>
+          <TabsTrigger value="tags">Tags</TabsTrigger>
           <TabsTrigger value="branding">Portal Branding</TabsTrigger>
         </TabsList>
 
@@ -798,12 +979,14 @@ export default function Customize() {
               {showSlaForm ? (
                 <SLAForm
                   rule={editingSlaRule}
+                  schedules={businessHours}
                   onSave={handleSaveSla}
                   onCancel={handleCancelSlaForm}
                 />
               ) : (
                 <SLAList
                   rules={slaRules}
+                  schedules={businessHours}
                   onEdit={handleEditSla}
                   onDelete={handleDeleteSla}
                   onToggleEnabled={handleToggleSlaEnabled}
@@ -811,6 +994,193 @@ export default function Customize() {
               )}
             </CardContent>
           </Card>
+
+          {!showSlaForm && slaRules.length > 0 && (
+            <Card className="mt-6">
+              <CardHeader>
+                <CardTitle>SLA Tester</CardTitle>
+                <p className="text-sm text-muted-foreground mt-1">
+                  See which rule a ticket gets, why, and when its targets fall due
+                </p>
+              </CardHeader>
+              <CardContent>
+                <SLATester rules={slaRules} schedules={businessHours} />
+              </CardContent>
+            </Card>
+          )}
+
+          <Card className="mt-6">
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle>Business Hours</CardTitle>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Working hours and holidays that SLA rules can count time in
+                  </p>
+                </div>
+                {!showScheduleForm && (
+                  <div className="flex items-center gap-2">
+                    {scheduleSaveMessage && (
+                      <span className="text-sm text-green-600 mr-2">{scheduleSaveMessage}</span>
+                    )}
+                    <Button size="sm" onClick={() => setShowScheduleForm(true)}>
+                      <Plus className="h-4 w-4 mr-2" />
+                      Create Schedule
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent>
+              {showScheduleForm ? (
+                <BusinessHoursForm
+                  schedule={editingSchedule}
+                  onSave={handleSaveSchedule}
+                  onCancel={handleCancelScheduleForm}
+                />
+              ) : (
+                <BusinessHoursList
+                  schedules={businessHours}
+                  rules={slaRules}
+                  onEdit={handleEditSchedule}
+                  onDelete={handleDeleteSchedule}
+                />
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {/* Automations Tab */}
+        <TabsContent value="automations" className="mt-6 space-y-6">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle>Automations</CardTitle>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Update, assign and follow up on tickets automatically when events happen or time passes
+                  </p>
+                </div>
+                {!showAutomationForm && (
+                  <div className="flex items-center gap-2">
+                    {automationSaveMessage && (
+                      <span className="text-sm text-green-600 mr-2">{automationSaveMessage}</span>
+                    )}
+                    <Button size="sm" onClick={() => setShowAutomationForm(true)}>
+                      <Plus className="h-4 w-4 mr-2" />
+                      Create Automation
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent>
+              {showAutomationForm ? (
+                <AutomationForm
+                  rule={editingAutomation}
+                  isSaving={createRule.isPending || updateRule.isPending}
+                  onSave={handleSaveAutomation}
+                  onCancel={handleCancelAutomationForm}
+                />
+              ) : (
+                <AutomationList
+                  rules={automationRules}
+                  getUserName={getUserName}
+                  onEdit={handleEditAutomation}
+                  onDelete={handleDeleteAutomation}
+                  onToggleEnabled={handleToggleAutomationEnabled}
+                  onDryRun={setDryRunRuleId}
+                />
+              )}
+            </CardContent>
+          </Card>
+
+          {!showAutomationForm && automationRules.length > 0 && (
+            <>
+              <Card>
+                <CardHeader>
+                  <CardTitle>Dry Run</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <AutomationDryRun
+                    rules={automationRules}
+                    ruleId={dryRunRuleId}
+                    onRuleChange={setDryRunRuleId}
+                    getUserName={getUserName}
+                  />
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Execution Log</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <AutomationLog rules={automationRules} />
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </TabsContent>
+
+        {/* Macros Tab */}
+        <TabsContent value="macros" className="mt-6">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle>Macros</CardTitle>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Canned replies with placeholders that can also update the ticket when sent
+                  </p>
+                </div>
+                {!showMacroForm && (
+                  <div className="flex items-center gap-2">
+                    {macroSaveMessage && (
+                      <span className="text-sm text-green-600 mr-2">{macroSaveMessage}</span>
+                    )}
+                    <Button size="sm" onClick={() => setShowMacroForm(true)}>
+                      <Plus className="h-4 w-4 mr-2" />
+                      Create Macro
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent>
+              {showMacroForm ? (
+                <MacroForm
+                  macro={editingMacro}
+                  isSaving={createMacro.isPending || updateMacro.isPending}
+                  onSave={handleSaveMacro}
+                  onCancel={handleCancelMacroForm}
+                />
+              ) : (
+                <MacroList
+                  macros={macros}
+                  currentUserId={user?.id}
+                  getUserName={getUserName}
+                  onEdit={handleEditMacro}
+                  onDelete={handleDeleteMacro}
+                />
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {/* Tags Tab */}
+        <TabsContent value="tags" className="mt-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Tags</CardTitle>
+              <p className="text-sm text-muted-foreground mt-1">
+                Rename and colour ticket tags, or merge duplicates into a single tag
+              </p>
+            </CardHeader>
+            <CardContent>
+              <TagManager />
+            </CardContent>
+          </Card>
         </TabsContent>
 
         {/* Portal Branding Tab */}
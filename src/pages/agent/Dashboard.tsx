@@ -1,13 +1,15 @@
 import { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Ticket, AlertTriangle, CheckCircle2, Clock, Loader2, ExternalLink, AlertCircle, UserCheck } from 'lucide-react';
+import { Ticket, AlertTriangle, CheckCircle2, Clock, Loader2, ExternalLink, AlertCircle, UserCheck, CalendarClock, AlarmClock } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { StatusBadge } from '@/components/tickets/StatusBadge';
 import { PriorityBadge } from '@/components/tickets/PriorityBadge';
 import { SLAIndicator } from '@/components/tickets/SLAIndicator';
 import { Link } from 'react-router-dom';
-import { getInitials } from '@/lib/utils';
+import { getInitials, formatDateTime } from '@/lib/utils';
+import { getDueState, formatDueIn, DUE_STATE_CLASSES } from '@/lib/dueDates';
+import { useUpcomingRemindersQuery } from '@/hooks/useReminders';
 import type { Ticket as TicketType } from '@/types';
 import { fetchWithAuth } from '@/lib/fetchWithAuth';
 
@@ -29,17 +31,26 @@ interface AgentLogin {
   lastLogin: string | null;
 }
 
+type DueTicketResponse = Omit<TicketType, 'createdAt' | 'updatedAt' | 'dueDate'> & {
+  createdAt: string;
+  updatedAt: string;
+  dueDate?: string | null;
+};
+
 export default function Dashboard() {
   const { user } = useAuth();
   const [metrics, setMetrics] = useState<DashboardMetrics | null>(null);
   const [recentTickets, setRecentTickets] = useState<TicketType[]>([]);
   const [slaWarnings, setSlaWarnings] = useState<TicketType[]>([]);
+  const [dueTickets, setDueTickets] = useState<TicketType[]>([]);
   const [agentLogins, setAgentLogins] = useState<AgentLogin[]>([]);
   const [isLoadingMetrics, setIsLoadingMetrics] = useState(true);
   const [isLoadingRecent, setIsLoadingRecent] = useState(true);
   const [isLoadingSLA, setIsLoadingSLA] = useState(true);
+  const [isLoadingDue, setIsLoadingDue] = useState(true);
   const [isLoadingAgents, setIsLoadingAgents] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const { data: upcomingReminders = [], isLoading: isLoadingReminders } = useUpcomingRemindersQuery(user?.id);
 
   // Fetch dashboard metrics
   useEffect(() => {
@@ -56,6 +67,44 @@ export default function Dashboard() {
     fetchSLAWarnings();
   }, []);
 
+  // Fetch due soon and overdue tickets
+  useEffect(() => {
+    const fetchDueTickets = async () => {
+      setIsLoadingDue(true);
+      try {
+        const url = new URL(`${API_BASE}/api/dashboard/recent-tickets`);
+        url.searchParams.set('limit', '10');
+        url.searchParams.set('type', 'due_soon');
+        if (user?.id) {
+          url.searchParams.set('user_id', user.id);
+        }
+
+        const response = await fetchWithAuth(url.toString());
+        const data = await response.json();
+
+        if (data.success) {
+          // Transform date strings to Date objects
+          const transformedTickets = (data.tickets as DueTicketResponse[])
+            .filter((ticket) => ticket.dueDate)
+            .map((ticket) => ({
+              ...ticket,
+              createdAt: new Date(ticket.createdAt),
+              updatedAt: new Date(ticket.updatedAt),
+              dueDate: new Date(ticket.dueDate as string),
+            }))
+            .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+          setDueTickets(transformedTickets);
+        }
+      } catch (err) {
+        console.error('Error fetching due tickets:', err);
+      } finally {
+        setIsLoadingDue(false);
+      }
+    };
+
+    fetchDueTickets();
+  }, [user?.id]);
+
   // Fetch agent logins
   useEffect(() => {
     fetchAgentLogins();
@@ -174,6 +223,32 @@ export default function Dashboard() {
     { title: 'Resolved Today', value: metrics.resolvedToday.toString(), icon: CheckCircle2, color: 'text-green-600' },
   ] : [];
 
+  const overdueTickets = dueTickets.filter((ticket) => getDueState(ticket.dueDate!) === 'overdue');
+  const dueSoonTickets = dueTickets.filter((ticket) => getDueState(ticket.dueDate!) !== 'overdue');
+
+  const renderDueTicket = (ticket: TicketType) => (
+    <Link
+      key={ticket.id}
+      to={`/agent/tickets/${ticket.id}`}
+      className="block p-2 sm:p-3 rounded-lg border hover:bg-accent transition-colors"
+    >
+      <div className="flex items-start justify-between gap-2">
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-1.5 sm:gap-2 mb-1 flex-wrap">
+            <span className="text-xs sm:text-sm font-mono text-muted-foreground">{ticket.id}</span>
+            <StatusBadge status={ticket.status} />
+            <PriorityBadge priority={ticket.priority} />
+          </div>
+          <p className="text-xs sm:text-sm font-medium truncate">{ticket.title}</p>
+          <p className={`text-xs mt-0.5 sm:mt-1 ${DUE_STATE_CLASSES[getDueState(ticket.dueDate!)]}`}>
+            {formatDueIn(ticket.dueDate!)}
+          </p>
+        </div>
+        <ExternalLink className="h-3.5 w-3.5 sm:h-4 sm:w-4 text-muted-foreground flex-shrink-0" />
+      </div>
+    </Link>
+  );
+
   const isOnline = (lastLogin: string | null) => {
     if (!lastLogin) return false;
     const fiveMinutes = 5 * 60 * 1000;
@@ -228,6 +303,92 @@ export default function Dashboard() {
         </div>
       )}
 
+      {/* Due Soon & Overdue, and My Reminders */}
+      <div className="grid gap-3 sm:gap-4 md:grid-cols-2">
+        <Card>
+          <CardHeader className="p-4 sm:p-6 pb-3 sm:pb-6">
+            <CardTitle className="flex items-center gap-1.5 sm:gap-2 text-base sm:text-lg">
+              <CalendarClock className="h-4 w-4 sm:h-5 sm:w-5" />
+              Due Soon & Overdue
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="p-4 pt-0 sm:p-6 sm:pt-0">
+            {isLoadingDue ? (
+              <div className="flex items-center justify-center py-6 sm:py-8">
+                <Loader2 className="h-5 w-5 sm:h-6 sm:w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : dueTickets.length === 0 ? (
+              <p className="text-xs sm:text-sm text-muted-foreground text-center py-6 sm:py-8">
+                Nothing due in the next 24 hours
+              </p>
+            ) : (
+              <div className="space-y-3 sm:space-y-4">
+                {overdueTickets.length > 0 && (
+                  <div className="space-y-2 sm:space-y-3">
+                    <p className="text-xs font-medium uppercase tracking-wide text-red-600 dark:text-red-400">
+                      Overdue ({overdueTickets.length})
+                    </p>
+                    {overdueTickets.map(renderDueTicket)}
+                  </div>
+                )}
+                {dueSoonTickets.length > 0 && (
+                  <div className="space-y-2 sm:space-y-3">
+                    <p className="text-xs font-medium uppercase tracking-wide text-amber-600 dark:text-amber-400">
+                      Due Soon ({dueSoonTickets.length})
+                    </p>
+                    {dueSoonTickets.map(renderDueTicket)}
+                  </div>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="p-4 sm:p-6 pb-3 sm:pb-6">
+            <CardTitle className="flex items-center gap-1.5 sm:gap-2 text-base sm:text-lg">
+              <AlarmClock className="h-4 w-4 sm:h-5 sm:w-5" />
+              My Reminders
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="p-4 pt-0 sm:p-6 sm:pt-0">
+            {isLoadingReminders ? (
+              <div className="flex items-center justify-center py-6 sm:py-8">
+                <Loader2 className="h-5 w-5 sm:h-6 sm:w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : upcomingReminders.length === 0 ? (
+              <p className="text-xs sm:text-sm text-muted-foreground text-center py-6 sm:py-8">
+                No upcoming reminders
+              </p>
+            ) : (
+              <div className="space-y-2 sm:space-y-3">
+                {upcomingReminders.slice(0, 5).map((reminder) => (
+                  <Link
+                    key={reminder.id}
+                    to={`/agent/tickets/${reminder.ticketId}`}
+                    className="block p-2 sm:p-3 rounded-lg border hover:bg-accent transition-colors"
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-1.5 sm:gap-2 mb-1">
+                          <span className="text-xs sm:text-sm font-mono text-muted-foreground">{reminder.ticketId}</span>
+                          <span className="text-xs text-muted-foreground">{formatDateTime(reminder.remindAt)}</span>
+                        </div>
+                        <p className="text-xs sm:text-sm font-medium truncate">{reminder.ticketTitle}</p>
+                        {reminder.note && (
+                          <p className="text-xs text-muted-foreground truncate mt-0.5 sm:mt-1">{reminder.note}</p>
+                        )}
+                      </div>
+                      <ExternalLink className="h-3.5 w-3.5 sm:h-4 sm:w-4 text-muted-foreground flex-shrink-0" />
+                    </div>
+                  </Link>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
       {/* Recent Tickets, SLA Warnings, and Agent Logins */}
       <div className="grid gap-3 sm:gap-4 md:grid-cols-2 lg:grid-cols-3">
         {/* Recent Tickets */}
@@ -303,7 +464,7 @@ export default function Dashboard() {
                         </div>
                         <p className="text-xs sm:text-sm font-medium truncate">{ticket.title}</p>
                         <div className="mt-1.5 sm:mt-2">
-                          <SLAIndicator sla={ticket.sla} />
+                          <SLAIndicator sla={ticket.sla} startedAt={ticket.createdAt} />
                         </div>
                       </div>
                       <ExternalLink className="h-3.5 w-3.5 sm:h-4 sm:w-4 text-muted-foreground flex-shrink-0" />
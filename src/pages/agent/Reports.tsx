@@ -9,17 +9,23 @@ import SLAPerformanceReport from '@/components/reports/SLAPerformanceReport';
 import AgentPerformanceReport from '@/components/reports/AgentPerformanceReport';
 import TicketTrendsReport from '@/components/reports/TicketTrendsReport';
 import TicketLifecycleReport from '@/components/reports/TicketLifecycleReport';
+import TimeTrackingReport, { type TimeTrackingReportData } from '@/components/reports/TimeTrackingReport';
+import CsatReport, { type CsatReportData } from '@/components/reports/CsatReport';
 import { fetchWithAuth } from '@/lib/fetchWithAuth';
 import { usePermissions } from '@/hooks/usePermissions';
+import { useSettings } from '@/contexts/SettingsContext';
+import { useTagsQuery } from '@/hooks/useTags';
 import { ShieldCheck } from 'lucide-react';
 
 const API_BASE = import.meta.env.VITE_API_BASE_URL || 'https://itsm-backend.joshua-r-klimek.workers.dev';
 
 type DateRange = '7' | '30' | '60' | '90';
-type ReportType = 'sla' | 'agent' | 'trends' | 'lifecycle';
+type ReportType = 'sla' | 'agent' | 'trends' | 'lifecycle' | 'csat' | 'time';
 
 export default function Reports() {
   const { can } = usePermissions();
+  const { settings } = useSettings();
+  const timeTrackingEnabled = settings?.enableTimeTracking ?? false;
   const [activeReport, setActiveReport] = useState<ReportType>('sla');
   const [dateRange, setDateRange] = useState<DateRange>('30');
   const [loading, setLoading] = useState(false);
@@ -28,6 +34,8 @@ export default function Reports() {
   const [agentData, setAgentData] = useState(null);
   const [trendsData, setTrendsData] = useState(null);
   const [lifecycleData, setLifecycleData] = useState(null);
+  const [csatData, setCsatData] = useState<CsatReportData | null>(null);
+  const [timeData, setTimeData] = useState<TimeTrackingReportData | null>(null);
 
   // Filter options and state
   const [availablePriorities, setAvailablePriorities] = useState<string[]>([]);
@@ -35,6 +43,8 @@ export default function Reports() {
   const [selectedPriorities, setSelectedPriorities] = useState<string[]>([]);
   const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
   const [selectedDepartments, setSelectedDepartments] = useState<string[]>([]);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const { data: tagList = [] } = useTagsQuery();
 
   // Fetch filter options on mount
   useEffect(() => {
@@ -89,6 +99,8 @@ export default function Reports() {
         agent: '/api/reports/agent-performance',
         trends: '/api/reports/ticket-trends',
         lifecycle: '/api/reports/ticket-lifecycle',
+        csat: '/api/reports/csat',
+        time: '/api/reports/time-tracking',
       }[reportType];
 
       const response = await fetchWithAuth(`${API_BASE}${endpoint}`, {
@@ -103,6 +115,7 @@ export default function Reports() {
           priority: selectedPriorities,
           category: selectedCategories,
           department: selectedDepartments,
+          tags: selectedTags,
         }),
       });
 
@@ -126,6 +139,12 @@ export default function Reports() {
           case 'lifecycle':
             setLifecycleData(result.data);
             break;
+          case 'csat':
+            setCsatData(result.data);
+            break;
+          case 'time':
+            setTimeData(result.data);
+            break;
         }
       }
     } catch (error) {
@@ -135,10 +154,17 @@ export default function Reports() {
     }
   };
 
+  // Fall back to the default report if time tracking is switched off
+  useEffect(() => {
+    if (!timeTrackingEnabled && activeReport === 'time') {
+      setActiveReport('sla');
+    }
+  }, [timeTrackingEnabled, activeReport]);
+
   // Fetch data when date range, filters, or active report changes
   useEffect(() => {
     fetchReportData(activeReport);
-  }, [dateRange, activeReport, selectedPriorities, selectedCategories, selectedDepartments]);
+  }, [dateRange, activeReport, selectedPriorities, selectedCategories, selectedDepartments, selectedTags]);
 
   // Helper functions for filter management
   const togglePriority = (priority: string) => {
@@ -157,13 +183,22 @@ export default function Reports() {
     );
   };
 
+  const toggleTag = (tag: string) => {
+    setSelectedTags(prev =>
+      prev.includes(tag)
+        ? prev.filter(t => t !== tag)
+        : [...prev, tag]
+    );
+  };
+
   const clearFilters = () => {
     setSelectedPriorities([]);
     setSelectedCategories([]);
     setSelectedDepartments([]);
+    setSelectedTags([]);
   };
 
-  const hasActiveFilters = selectedPriorities.length > 0 || selectedCategories.length > 0 || selectedDepartments.length > 0;
+  const hasActiveFilters = selectedPriorities.length > 0 || selectedCategories.length > 0 || selectedDepartments.length > 0 || selectedTags.length > 0;
 
   // Generate filter summary for CSV
   const generateFilterSummary = (): string => {
@@ -177,6 +212,9 @@ export default function Reports() {
     if (selectedDepartments.length > 0) {
       filters.push(`Departments: ${selectedDepartments.join(', ')}`);
     }
+    if (selectedTags.length > 0) {
+      filters.push(`Tags: ${selectedTags.join(', ')}`);
+    }
 
     if (filters.length === 0) {
       return 'Filters: None (All data)\\n';
@@ -215,6 +253,18 @@ export default function Reports() {
           csvContent = filterSummary + '\\n' + generateLifecycleCSV(lifecycleData);
         }
         break;
+      case 'csat':
+        if (csatData) {
+          filename = `customer-satisfaction-${dateRange}days.csv`;
+          csvContent = filterSummary + '\\n' + generateCsatCSV(csatData);
+        }
+        break;
+      case 'time':
+        if (timeData) {
+          filename = `time-tracking-${dateRange}days.csv`;
+          csvContent = filterSummary + '\\n' + generateTimeTrackingCSV(timeData);
+        }
+        break;
     }
 
     if (csvContent) {
@@ -339,6 +389,28 @@ export default function Reports() {
                   </div>
                 </div>
               )}
+
+              {/* Tag Filters */}
+              {tagList.length > 0 && (
+                <div className="flex-1 min-w-[200px]">
+                  <div className="flex items-center gap-2 mb-2">
+                    <Filter className="h-3 w-3 text-muted-foreground" />
+                    <span className="text-xs font-medium text-muted-foreground">Tag</span>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {tagList.map(tag => (
+                      <Badge
+                        key={tag.name}
+                        variant={selectedTags.includes(tag.name) ? 'default' : 'outline'}
+                        className="cursor-pointer"
+                        onClick={() => toggleTag(tag.name)}
+                      >
+                        {tag.name}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
           </div>
         </CardContent>
@@ -346,11 +418,13 @@ export default function Reports() {
 
       {/* Report Tabs */}
       <Tabs value={activeReport} onValueChange={(value) => setActiveReport(value as ReportType)}>
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className={`grid w-full ${timeTrackingEnabled ? 'grid-cols-6' : 'grid-cols-5'}`}>
           <TabsTrigger value="sla">SLA Performance</TabsTrigger>
           <TabsTrigger value="agent">Agent Performance</TabsTrigger>
           <TabsTrigger value="trends">Ticket Trends</TabsTrigger>
           <TabsTrigger value="lifecycle">Lifecycle Analysis</TabsTrigger>
+          <TabsTrigger value="csat">Satisfaction</TabsTrigger>
+          {timeTrackingEnabled && <TabsTrigger value="time">Time Tracking</TabsTrigger>}
         </TabsList>
 
         <TabsContent value="sla" className="mt-6">
@@ -368,6 +442,16 @@ export default function Reports() {
         <TabsContent value="lifecycle" className="mt-6">
           <TicketLifecycleReport data={lifecycleData} loading={loading} />
         </TabsContent>
+
+        <TabsContent value="csat" className="mt-6">
+          <CsatReport data={csatData} loading={loading} />
+        </TabsContent>
+
+        {timeTrackingEnabled && (
+          <TabsContent value="time" className="mt-6">
+            <TimeTrackingReport data={timeData} loading={loading} />
+          </TabsContent>
+        )}
       </Tabs>
     </div>
   );
@@ -413,6 +497,14 @@ function generateTrendsCSV(data: any): string {
     csv += `"${item.category}",${item.count},${item.percentage}%\n`;
   });
 
+  if (data.topTags?.length) {
+    csv += '\nTop Tags\n';
+    csv += 'Tag,Count,Percentage\n';
+    data.topTags.forEach((item: { tag: string; count: number; percentage: number }) => {
+      csv += `"${item.tag}",${item.count},${item.percentage}%\n`;
+    });
+  }
+
   return csv;
 }
 
@@ -430,3 +522,63 @@ function generateLifecycleCSV(data: any): string {
 
   return csv;
 }
+
+function generateTimeTrackingCSV(data: TimeTrackingReportData): string {
+  let csv = 'Time Tracking Report\n\n';
+  csv += 'Summary\n';
+  csv += 'Total Minutes,Total Hours,Entries,Tickets\n';
+  csv += `${data.summary.total_minutes},${(data.summary.total_minutes / 60).toFixed(2)},${data.summary.entry_count},${data.summary.ticket_count}\n\n`;
+
+  csv += 'By Agent\n';
+  csv += 'Agent,Email,Total Minutes,Total Hours,Tickets,Entries\n';
+  data.byAgent.forEach((agent) => {
+    csv += `"${agent.name}",${agent.email},${agent.total_minutes},${(agent.total_minutes / 60).toFixed(2)},${agent.ticket_count},${agent.entry_count}\n`;
+  });
+
+  csv += '\nBy Category\n';
+  csv += 'Category,Total Minutes,Total Hours,Tickets\n';
+  data.byCategory.forEach((item) => {
+    csv += `"${item.category}",${item.total_minutes},${(item.total_minutes / 60).toFixed(2)},${item.ticket_count}\n`;
+  });
+
+  csv += '\nBy Agent and Category\n';
+  csv += 'Agent,Category,Total Minutes\n';
+  data.byAgentCategory.forEach((item) => {
+    csv += `"${item.agent_name}","${item.category}",${item.total_minutes}\n`;
+  });
+
+  return csv;
+}
+
+function generateCsatCSV(data: CsatReportData): string {
+  let csv = 'Customer Satisfaction Report\n\n';
+  csv += 'Summary\n';
+  csv += 'Surveys Sent,Responses,Average Rating,CSAT Score\n';
+  csv += `${data.summary.surveys_sent},${data.summary.responses},${data.summary.average_rating.toFixed(2)},${data.summary.csat_score.toFixed(1)}%\n\n`;
+
+  csv += 'Rating Distribution\n';
+  csv += 'Rating,Responses\n';
+  data.distribution.forEach((item) => {
+    csv += `${item.rating},${item.count}\n`;
+  });
+
+  csv += '\nBy Agent\n';
+  csv += 'Agent,Email,Responses,Average Rating,CSAT Score\n';
+  data.byAgent.forEach((agent) => {
+    csv += `"${agent.name}",${agent.email},${agent.responses},${agent.average_rating.toFixed(2)},${agent.csat_score.toFixed(1)}%\n`;
+  });
+
+  csv += '\nBy Category\n';
+  csv += 'Category,Responses,Average Rating,CSAT Score\n';
+  data.byCategory.forEach((item) => {
+    csv += `"${item.category}",${item.responses},${item.average_rating.toFixed(2)},${item.csat_score.toFixed(1)}%\n`;
+  });
+
+  csv += '\nBy Period\n';
+  csv += 'Period,Responses,Average Rating,CSAT Score\n';
+  data.byPeriod.forEach((item) => {
+    csv += `${item.period},${item.responses},${item.average_rating.toFixed(2)},${item.csat_score.toFixed(1)}%\n`;
+  });
+
+  return csv;
+}
@@ -9,9 +9,20 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useSettings } from '@/contexts/SettingsContext';
 import { useAuth } from '@/contexts/AuthContext';
 import { usePermissions } from '@/hooks/usePermissions';
-import { Loader2, Save, ShieldCheck, Mail, Settings2, Lock, Users } from 'lucide-react';
+import { useAssignmentPoolsQuery, useAssignmentPoolMutations, useAgentStatusesQuery, useAgentStatusMutation } from '@/hooks/useAssignment';
+import { useConditionOptions } from '@/hooks/useConditionOptions';
+import { useTicketQueryContext } from '@/hooks/useTicketQueryContext';
+import { ASSIGNMENT_STRATEGY_LABELS } from '@/lib/assignment';
+import AssignmentPoolForm from '@/components/assignment/AssignmentPoolForm';
+import AssignmentPoolList from '@/components/assignment/AssignmentPoolList';
+import AgentWorkloadTable from '@/components/assignment/AgentWorkloadTable';
+import AssignmentPreview from '@/components/assignment/AssignmentPreview';
+import { Loader2, Save, ShieldCheck, Mail, Settings2, Lock, Users, Shuffle, Plus, UserCheck, FlaskConical } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import type { SettingsFormData, UserRole } from '@/types';
+import type { AgentAssignmentStatus, AssignmentPool, AssignmentPoolInput, AssignmentStrategy } from '@/types/assignment';
+
+const ASSIGNMENT_STRATEGIES = Object.keys(ASSIGNMENT_STRATEGY_LABELS) as AssignmentStrategy[];
 
 export default function Settings() {
   const { settings, isLoading: settingsLoading, updateSettings } = useSettings();
@@ -20,6 +31,17 @@ export default function Settings() {
   const { toast } = useToast();
   const [isSaving, setIsSaving] = useState(false);
   const [formData, setFormData] = useState<SettingsFormData | null>(null);
+  const [showPoolForm, setShowPoolForm] = useState(false);
+  const [editingPool, setEditingPool] = useState<AssignmentPool | null>(null);
+
+  const { data: pools = [] } = useAssignmentPoolsQuery();
+  const { data: agentStatuses = [], isLoading: agentStatusesLoading } = useAgentStatusesQuery(canManageSettings);
+  const { createPool, updatePool, deletePool } = useAssignmentPoolMutations(user?.id);
+  const updateAgentStatus = useAgentStatusMutation(user?.id);
+  const { data: conditionOptions } = useConditionOptions();
+  const { data: ticketOptions } = useTicketQueryContext();
+  const agents = (ticketOptions?.users || []).filter((u) => u.role !== 'user');
+  const categories = conditionOptions?.categories || [];
 
   useEffect(() => {
     if (settings) {
@@ -27,6 +49,11 @@ export default function Settings() {
         general: {
           allowPublicSignup: settings.allowPublicSignup,
           enableKnowledgeBase: settings.enableKnowledgeBase,
+          defaultAssignment: settings.defaultAssignment,
+          commentEditWindowMinutes: settings.commentEditWindowMinutes,
+          enableDraftSync: settings.enableDraftSync,
+          waitingReminderDays: settings.waitingReminderDays,
+          waitingAutoCloseDays: settings.waitingAutoCloseDays,
         },
         email: {
           emailDomain: settings.emailDomain || '',
@@ -104,6 +131,54 @@ export default function Settings() {
     }
   };
 
+  // Assignment pool handlers
+  const getUserName = (userId: string) => agents.find((u) => u.id === userId)?.name;
+
+  const handleSavePool = async (input: AssignmentPoolInput) => {
+    try {
+      if (editingPool) {
+        await updatePool.mutateAsync({ poolId: editingPool.id, input });
+      } else {
+        await createPool.mutateAsync(input);
+      }
+      toast({ title: editingPool ? 'Pool updated' : 'Pool created', description: `${input.name} has been saved.` });
+      setShowPoolForm(false);
+      setEditingPool(null);
+    } catch (error) {
+      // Mutation hooks already show a toast
+      console.error('Failed to save pool:', error);
+    }
+  };
+
+  const handleEditPool = (pool: AssignmentPool) => {
+    setEditingPool(pool);
+    setShowPoolForm(true);
+  };
+
+  const handleDeletePool = (poolId: string) => {
+    if (confirm('Are you sure you want to delete this pool?')) {
+      deletePool.mutate(poolId);
+    }
+  };
+
+  const handleTogglePoolEnabled = (poolId: string) => {
+    const pool = pools.find((p) => p.id === poolId);
+    if (!pool) return;
+    updatePool.mutate({ poolId, input: { enabled: !pool.enabled } });
+  };
+
+  const handleCancelPoolForm = () => {
+    setShowPoolForm(false);
+    setEditingPool(null);
+  };
+
+  const handleUpdateAgentStatus = (
+    userId: string,
+    changes: Partial<Pick<AgentAssignmentStatus, 'available' | 'skills'>>
+  ) => {
+    updateAgentStatus.mutate({ userId, changes });
+  };
+
   // Helper to get permission description
   const getPermissionInfo = (permission: string) => {
     const descriptions: Record<string, { label: string; description: string }> = {
@@ -157,8 +232,9 @@ export default function Settings() {
       </div>
 
       <Tabs defaultValue="general" className="space-y-4">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="general">General</TabsTrigger>
+          <TabsTrigger value="assignment">Assignment</TabsTrigger>
           <TabsTrigger value="email">Email</TabsTrigger>
           <TabsTrigger value="security">Security</TabsTrigger>
           <TabsTrigger value="permissions">Permissions</TabsTrigger>
@@ -191,6 +267,207 @@ export default function Settings() {
                   }
                 />
               </div>
+
+              <div className="flex items-center justify-between gap-4">
+                <div className="space-y-0.5">
+                  <Label htmlFor="commentEditWindowMinutes">Comment Edit Window (minutes)</Label>
+                  <p className="text-sm text-muted-foreground">
+                    How long authors can edit or delete their own comments after posting. Admins can always edit. 0 = no limit
+                  </p>
+                </div>
+                <Input
+                  id="commentEditWindowMinutes"
+                  type="number"
+                  min="0"
+                  className="w-24"
+                  value={formData.general.commentEditWindowMinutes}
+                  onChange={(e) =>
+                    setFormData({
+                      ...formData,
+                      general: { ...formData.general, commentEditWindowMinutes: parseInt(e.target.value) || 0 },
+                    })
+                  }
+                />
+              </div>
+
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label>Sync Drafts Across Devices</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Unsent replies and ticket forms are always saved in the browser. When enabled they are also stored on the server so users can continue on another device
+                  </p>
+                </div>
+                <Switch
+                  checked={formData.general.enableDraftSync}
+                  onCheckedChange={(checked) =>
+                    setFormData({ ...formData, general: { ...formData.general, enableDraftSync: checked } })
+                  }
+                />
+              </div>
+
+              <div className="flex items-center justify-between gap-4">
+                <div className="space-y-0.5">
+                  <Label htmlFor="waitingReminderDays">Waiting Reminder (days)</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Email the requester a reminder when a waiting ticket has had no reply for this many days. Counted from the wait until date when one is set. 0 = no reminder
+                  </p>
+                </div>
+                <Input
+                  id="waitingReminderDays"
+                  type="number"
+                  min="0"
+                  className="w-24"
+                  value={formData.general.waitingReminderDays}
+                  onChange={(e) =>
+                    setFormData({
+                      ...formData,
+                      general: { ...formData.general, waitingReminderDays: parseInt(e.target.value) || 0 },
+                    })
+                  }
+                />
+              </div>
+
+              <div className="flex items-center justify-between gap-4">
+                <div className="space-y-0.5">
+                  <Label htmlFor="waitingAutoCloseDays">Auto-Close Waiting Tickets (days)</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Close waiting tickets that have had no reply from the requester for this many days. Should be longer than the reminder so requesters are warned first. 0 = never close automatically
+                  </p>
+                </div>
+                <Input
+                  id="waitingAutoCloseDays"
+                  type="number"
+                  min="0"
+                  className="w-24"
+                  value={formData.general.waitingAutoCloseDays}
+                  onChange={(e) =>
+                    setFormData({
+                      ...formData,
+                      general: { ...formData.general, waitingAutoCloseDays: parseInt(e.target.value) || 0 },
+                    })
+                  }
+                />
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {/* Assignment Tab */}
+        <TabsContent value="assignment" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <Shuffle className="h-5 w-5" />
+                <CardTitle>Assignment Strategy</CardTitle>
+              </div>
+              <CardDescription>
+                Choose how new tickets are assigned to agents. Agents marked away are never auto-assigned.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="grid gap-3 md:grid-cols-3">
+              {ASSIGNMENT_STRATEGIES.map((strategy) => {
+                const isSelected = formData.general.defaultAssignment === strategy;
+                return (
+                  <button
+                    key={strategy}
+                    type="button"
+                    onClick={() =>
+                      setFormData({ ...formData, general: { ...formData.general, defaultAssignment: strategy } })
+                    }
+                    className={`rounded-lg border p-4 text-left transition-colors ${
+                      isSelected ? 'border-primary bg-primary/5' : 'border-border hover:bg-muted/50'
+                    }`}
+                  >
+                    <div className="font-medium text-sm">{ASSIGNMENT_STRATEGY_LABELS[strategy].label}</div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {ASSIGNMENT_STRATEGY_LABELS[strategy].description}
+                    </p>
+                  </button>
+                );
+              })}
+            </CardContent>
+          </Card>
+
+          {showPoolForm ? (
+            <AssignmentPoolForm
+              pool={editingPool}
+              agents={agents}
+              teams={conditionOptions?.teams || []}
+              categories={categories}
+              isSaving={createPool.isPending || updatePool.isPending}
+              onSave={handleSavePool}
+              onCancel={handleCancelPoolForm}
+            />
+          ) : (
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <Users className="h-5 w-5" />
+                      <CardTitle>Team Pools</CardTitle>
+                    </div>
+                    <CardDescription className="mt-1.5">
+                      Route ticket categories to a group of agents
+                      {formData.general.defaultAssignment !== 'team-based' && ' (only used with team based assignment)'}
+                    </CardDescription>
+                  </div>
+                  <Button onClick={() => setShowPoolForm(true)}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Create Pool
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <AssignmentPoolList
+                  pools={pools}
+                  agentStatuses={agentStatuses}
+                  getUserName={getUserName}
+                  onEdit={handleEditPool}
+                  onDelete={handleDeletePool}
+                  onToggleEnabled={handleTogglePoolEnabled}
+                />
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <UserCheck className="h-5 w-5" />
+                <CardTitle>Agent Availability</CardTitle>
+              </div>
+              <CardDescription>
+                Open ticket counts drive load balancing. Agents are preferred for categories listed in their skills.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <AgentWorkloadTable
+                agents={agentStatuses}
+                categories={categories}
+                isLoading={agentStatusesLoading}
+                onUpdate={handleUpdateAgentStatus}
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <FlaskConical className="h-5 w-5" />
+                <CardTitle>Routing Preview</CardTitle>
+              </div>
+              <CardDescription>
+                See who would receive a new ticket with the current configuration
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <AssignmentPreview
+                strategy={formData.general.defaultAssignment}
+                pools={pools}
+                agents={agentStatuses}
+                categories={categories}
+              />
             </CardContent>
           </Card>
         </TabsContent>
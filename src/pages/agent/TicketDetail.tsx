@@ -1,8 +1,16 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import { useParams, useNavigate, useLocation } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/contexts/AuthContext';
+import { useSettings } from '@/contexts/SettingsContext';
 import { useWebSocket } from '@/hooks/useWebSocket';
 import { usePermissions } from '@/hooks/usePermissions';
+import { useMacrosQuery } from '@/hooks/useMacros';
+import { useMarkdownComposer } from '@/hooks/useMarkdownComposer';
+import { useActivityEditing } from '@/hooks/useActivityEditing';
+import { useTicketPresence } from '@/hooks/useTicketPresence';
+import { useDraft } from '@/hooks/useDrafts';
+import { transformReminder, type ReminderResponse } from '@/hooks/useReminders';
 import { useTicketCache } from '@/contexts/TicketCacheContext';
 import { usersCache } from '@/lib/usersCache';
 import { fetchWithAuth } from '@/lib/fetchWithAuth';
@@ -10,16 +18,38 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { SelectRoot as Select, SelectContent, SelectItem, SelectTrigger } from '@/components/ui/select';
-import { Textarea } from '@/components/ui/textarea';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { StatusBadge } from '@/components/tickets/StatusBadge';
 import { PriorityBadge } from '@/components/tickets/PriorityBadge';
-import { SLAIndicator } from '@/components/tickets/SLAIndicator';
+import { SLACountdowns } from '@/components/tickets/SLAIndicator';
+import { SLATimeline } from '@/components/tickets/SLATimeline';
 import { ActivityFeed } from '@/components/tickets/ActivityFeed';
 import { CustomFieldsDisplay } from '@/components/tickets/CustomFieldsDisplay';
+import { MergeTicketDialog } from '@/components/tickets/MergeTicketDialog';
+import { TicketRelationshipsPanel } from '@/components/tickets/TicketRelationshipsPanel';
+import { TimeTrackingPanel } from '@/components/tickets/TimeTrackingPanel';
+import { MacroComposerTextarea } from '@/components/tickets/MacroComposerTextarea';
+import { MarkdownToolbar } from '@/components/tickets/MarkdownToolbar';
+import { MarkdownContent } from '@/components/tickets/MarkdownContent';
+import { PresenceAvatars, TypingIndicator } from '@/components/tickets/TicketPresence';
+import { DraftRestoredBanner } from '@/components/tickets/DraftRestoredBanner';
+import { CsatStars } from '@/components/tickets/CsatRating';
+import { TagEditor } from '@/components/tickets/TagEditor';
+import { DueDateEditor, ReminderPopover } from '@/components/tickets/TicketSchedule';
+import { WaitingOptionsDialog } from '@/components/tickets/WaitingOptionsForm';
 import { UserMultiSelect } from '@/components/ui/user-multi-select';
-import { formatDate, getInitials } from '@/lib/utils';
-import type { Ticket, Activity, User } from '@/types';
+import { formatDate, formatDateTime, getInitials } from '@/lib/utils';
+import { parseTimeSpent } from '@/lib/timeTracking';
+import { describeMacroActions, hasMacroActions } from '@/lib/macros';
+import { extractMentions } from '@/lib/mentions';
+import { findCollidingReplies } from '@/lib/presence';
+import { replyDraftKey } from '@/lib/drafts';
+import { canRateTicket, CSAT_RATING_LABELS } from '@/lib/csat';
+import { isSnoozed, waitingPayload } from '@/lib/waiting';
+import { transformSLAStatus } from '@/lib/sla';
+import type { Ticket, Activity, ActivityMention, User, WaitingOptions } from '@/types';
+import type { Macro, MacroActions } from '@/types/macros';
+import type { ReplyDraftData } from '@/types/drafts';
 import {
   ArrowLeft,
   Trash2,
@@ -32,6 +62,11 @@ import {
   AlertTriangle,
   Search,
   Check,
+  GitMerge,
+  Clock,
+  Zap,
+  Smile,
+  Hourglass,
 } from 'lucide-react';
 
 const API_BASE = 'https://itsm-backend.joshua-r-klimek.workers.dev';
@@ -43,6 +78,9 @@ export default function TicketDetail() {
   const { user } = useAuth();
   const { can } = usePermissions();
   const ticketCache = useTicketCache();
+  const queryClient = useQueryClient();
+  const { settings } = useSettings();
+  const timeTrackingEnabled = settings?.enableTimeTracking ?? false;
 
   // Try to get ticket from navigation state or cache first
   const [ticket, setTicket] = useState<Ticket | null>(
@@ -55,6 +93,61 @@ export default function TicketDetail() {
 
   const [replyType, setReplyType] = useState<'public' | 'internal'>('public');
   const [replyContent, setReplyContent] = useState('');
+  const [replyTimeSpent, setReplyTimeSpent] = useState('');
+  const [pendingMacro, setPendingMacro] = useState<Macro | null>(null);
+  const [replyMentions, setReplyMentions] = useState<ActivityMention[]>([]);
+  const { data: macros = [] } = useMacrosQuery(user?.id);
+  const presence = useTicketPresence(id);
+  // When the agent started writing the current reply, to warn about replies posted meanwhile
+  const [replyStartedAt, setReplyStartedAt] = useState<Date | null>(null);
+  const [collisionWarning, setCollisionWarning] = useState<{ replies: Activity[]; newStatus?: string } | null>(null);
+
+  const handleReplyContentChange = (value: string) => {
+    setReplyContent(value);
+    if (!value.trim()) {
+      setReplyStartedAt(null);
+      return;
+    }
+    if (!replyStartedAt) setReplyStartedAt(new Date());
+    presence.notifyTyping();
+  };
+  const replyComposer = useMarkdownComposer({ ticketId: id, userId: user?.id, value: replyContent, onChange: handleReplyContentChange });
+
+  // Autosave the reply so it survives navigating away or an idle logout
+  const replyDraftValue = useMemo<ReplyDraftData>(
+    () => ({ content: replyContent, replyType, mentions: replyMentions }),
+    [replyContent, replyType, replyMentions]
+  );
+  const replyDraft = useDraft<ReplyDraftData>({
+    key: id ? replyDraftKey(id) : undefined,
+    kind: 'reply',
+    ticketId: id,
+    value: replyDraftValue,
+    isEmpty: (draft) => !draft.content.trim(),
+    onRestore: (draft) => {
+      setReplyContent(draft.content);
+      setReplyType(draft.replyType);
+      setReplyMentions(draft.mentions || []);
+      setReplyStartedAt(new Date());
+    },
+  });
+
+  const handleDiscardReplyDraft = () => {
+    replyDraft.clearDraft();
+    setReplyContent('');
+    setReplyMentions([]);
+    setReplyStartedAt(null);
+  };
+
+  // Replace an edited or deleted activity in the feed and cache
+  const replaceActivity = useCallback((updated: Activity) => {
+    setActivities(prev => {
+      const updatedActivities = prev.map(activity => (activity.id === updated.id ? updated : activity));
+      if (id) ticketCache.setActivities(id, updatedActivities);
+      return updatedActivities;
+    });
+  }, [id, ticketCache]);
+  const activityEditing = useActivityEditing({ ticketId: id, onUpdated: replaceActivity });
   const [isSending, setIsSending] = useState(false);
   const [replyingToActivity, setReplyingToActivity] = useState<Activity | null>(null);
   const [showStatusOptions, setShowStatusOptions] = useState(false);
@@ -66,6 +159,9 @@ export default function TicketDetail() {
   const [tempCCUserIds, setTempCCUserIds] = useState<string[]>([]);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [showMergeDialog, setShowMergeDialog] = useState(false);
+  const [showWaitingDialog, setShowWaitingDialog] = useState(false);
+  const [isReplyWaiting, setIsReplyWaiting] = useState(false); // The dialog was opened by a reply moving the ticket to waiting
 
   // Assignee dropdown state
   const [assigneeDropdownOpen, setAssigneeDropdownOpen] = useState(false);
@@ -98,6 +194,17 @@ export default function TicketDetail() {
             status: message.data.status ?? prev.status,
             priority: message.data.priority ?? prev.priority,
             assignee: message.data.assignee ?? prev.assignee,
+            mergedIntoId: message.data.mergedIntoId ?? prev.mergedIntoId,
+            tags: message.data.tags ?? prev.tags,
+            dueDate: message.data.dueDate !== undefined
+              ? (message.data.dueDate ? new Date(message.data.dueDate) : undefined)
+              : prev.dueDate,
+            csat: message.data.csat ?? prev.csat,
+            // A requester reply can reopen a waiting ticket, which clears its wait until date
+            waitingUntil: message.data.waitingUntil !== undefined
+              ? (message.data.waitingUntil ? new Date(message.data.waitingUntil) : undefined)
+              : prev.waitingUntil,
+            reopenOnReply: message.data.reopenOnReply ?? prev.reopenOnReply,
           };
           // Update cache with latest data
           if (id) ticketCache.setTicket(id, updatedTicket);
@@ -141,13 +248,27 @@ export default function TicketDetail() {
       }
     });
 
+    // Edits and soft deletes carry the full updated activity
+    const handleActivityChanged = (message: { ticketId?: string; data: Activity }) => {
+      if (message.ticketId === id) {
+        replaceActivity({
+          ...message.data,
+          createdAt: new Date(message.data.createdAt),
+        });
+      }
+    };
+    const unsubActivityUpdated = on('activity:updated', handleActivityChanged);
+    const unsubActivityDeleted = on('activity:deleted', handleActivityChanged);
+
     // Cleanup listeners
     return () => {
       unsubTicketUpdated();
       unsubActivityCreated();
       unsubActivityFlagged();
+      unsubActivityUpdated();
+      unsubActivityDeleted();
     };
-  }, [id, on]);
+  }, [id, on, replaceActivity, ticketCache]);
 
   // Fetch ticket, activities, and users (optimized with cache)
   useEffect(() => {
@@ -195,6 +316,19 @@ export default function TicketDetail() {
     loadData();
   }, [id]);
 
+  // A merged ticket only points at its target, so send viewers there
+  useEffect(() => {
+    if (!id || !ticket?.mergedIntoId || ticket.mergedIntoId === id) return;
+
+    const targetId = ticket.mergedIntoId;
+    ticketCache.invalidateTicket(id);
+    ticketCache.invalidateActivities(targetId);
+    setTicket(null);
+    setActivities([]);
+    setIsLoading(true);
+    navigate(`/agent/tickets/${targetId}`, { replace: true, state: { mergedFrom: id } });
+  }, [id, ticket?.mergedIntoId, navigate, ticketCache]);
+
   // Click outside to close assignee dropdown
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -230,11 +364,9 @@ export default function TicketDetail() {
           dueDate: ticketData.ticket.dueDate ? new Date(ticketData.ticket.dueDate) : undefined,
           resolvedAt: ticketData.ticket.resolvedAt ? new Date(ticketData.ticket.resolvedAt) : undefined,
           closedAt: ticketData.ticket.closedAt ? new Date(ticketData.ticket.closedAt) : undefined,
-          sla: ticketData.ticket.sla ? {
-            ...ticketData.ticket.sla,
-            firstResponseDue: ticketData.ticket.sla.firstResponseDue ? new Date(ticketData.ticket.sla.firstResponseDue) : new Date(),
-            resolutionDue: ticketData.ticket.sla.resolutionDue ? new Date(ticketData.ticket.sla.resolutionDue) : new Date(),
-          } : null,
+          waitingUntil: ticketData.ticket.waitingUntil ? new Date(ticketData.ticket.waitingUntil) : undefined,
+          reminders: ((ticketData.ticket.reminders || []) as ReminderResponse[]).map(transformReminder),
+          sla: transformSLAStatus(ticketData.ticket.sla),
         };
         setTicket(transformedTicket);
         ticketCache.setTicket(id!, transformedTicket); // Cache the ticket
@@ -324,7 +456,7 @@ export default function TicketDetail() {
   }
 
   // Handler for Quick Actions changes
-  const handleQuickActionChange = async (field: 'status' | 'priority' | 'assignee', value: string) => {
+  const handleQuickActionChange = async (field: 'status' | 'priority' | 'assignee', value: string, waiting?: WaitingOptions) => {
     if (!ticket || !user) return;
 
     setIsSaving(true);
@@ -335,6 +467,7 @@ export default function TicketDetail() {
 
       if (field === 'status') {
         payload.status = value;
+        Object.assign(payload, waitingPayload(value === 'waiting' ? waiting : undefined));
       } else if (field === 'priority') {
         payload.priority = value;
       } else if (field === 'assignee') {
@@ -358,6 +491,10 @@ export default function TicketDetail() {
           status: data.ticket.status,
           priority: data.ticket.priority,
           assignee: data.ticket.assignee,
+          waitingUntil: data.ticket.waitingUntil ? new Date(data.ticket.waitingUntil) : undefined,
+          reopenOnReply: data.ticket.reopenOnReply ?? false,
+          // Pause statuses stop and restart the SLA clock on the server
+          sla: transformSLAStatus(data.ticket.sla) ?? ticket.sla,
           updatedAt: new Date(data.ticket.updatedAt),
         };
         setTicket(updatedTicket);
@@ -376,6 +513,142 @@ export default function TicketDetail() {
     }
   };
 
+  const handleDueDateChange = async (dueDate: Date | null) => {
+    if (!ticket || !user) return;
+
+    try {
+      const response = await fetchWithAuth(`${API_BASE}/api/tickets/${id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          due_date: dueDate ? dueDate.toISOString() : null,
+          updated_by_id: user.id,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        const updatedTicket = { ...ticket, dueDate: dueDate || undefined, updatedAt: new Date(data.ticket.updatedAt) };
+        setTicket(updatedTicket);
+        ticketCache.setTicket(id!, updatedTicket);
+        queryClient.invalidateQueries({ queryKey: ['tickets'] });
+      } else {
+        alert('Failed to update due date: ' + (data.error || 'Unknown error'));
+      }
+    } catch (error) {
+      console.error('Error updating due date:', error);
+      alert('Failed to connect to server');
+    }
+  };
+
+  const handleTagsChange = async (tags: string[]) => {
+    if (!ticket || !user) return;
+
+    // Show the change straight away and roll back if the save fails
+    const previousTags = ticket.tags;
+    setTicket({ ...ticket, tags });
+
+    try {
+      const response = await fetchWithAuth(`${API_BASE}/api/tickets/${id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          tags,
+          updated_by_id: user.id,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        const updatedTicket = { ...ticket, tags: data.ticket.tags ?? tags, updatedAt: new Date(data.ticket.updatedAt) };
+        setTicket(updatedTicket);
+        ticketCache.setTicket(id!, updatedTicket);
+        queryClient.invalidateQueries({ queryKey: ['tags'] });
+      } else {
+        setTicket((prev) => (prev ? { ...prev, tags: previousTags } : prev));
+        alert('Failed to update tags: ' + (data.error || 'Unknown error'));
+      }
+    } catch (error) {
+      console.error('Error updating tags:', error);
+      setTicket((prev) => (prev ? { ...prev, tags: previousTags } : prev));
+      alert('Failed to connect to server');
+    }
+  };
+
+  // Apply the ticket changes of a macro used in the reply (status from "Send as" wins)
+  const handleApplyMacroActions = async (actions: MacroActions, statusOverride?: string, waiting?: WaitingOptions) => {
+    if (!ticket || !user) return;
+
+    const payload: Record<string, unknown> = {
+      updated_by_id: user.id,
+    };
+
+    const status = statusOverride || actions.status;
+    if (status && status !== ticket.status) {
+      payload.status = status;
+      Object.assign(payload, waitingPayload(status === 'waiting' ? waiting : undefined));
+    }
+    if (actions.priority && actions.priority !== ticket.priority) {
+      payload.priority = actions.priority;
+    }
+    if (actions.assigneeId !== undefined) {
+      payload.assignee_id = actions.assigneeId === null ? null : Number(actions.assigneeId);
+    }
+    const tags = actions.addTags?.length
+      ? Array.from(new Set([...(ticket.tags || []), ...actions.addTags]))
+      : ticket.tags;
+    if (tags !== ticket.tags) {
+      payload.tags = tags;
+    }
+
+    if (Object.keys(payload).length === 1) return;
+
+    setIsSaving(true);
+    try {
+      const response = await fetchWithAuth(`${API_BASE}/api/tickets/${id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(payload),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        const updatedTicket = {
+          ...ticket,
+          status: data.ticket.status,
+          priority: data.ticket.priority,
+          assignee: data.ticket.assignee,
+          tags: data.ticket.tags || tags,
+          waitingUntil: data.ticket.waitingUntil ? new Date(data.ticket.waitingUntil) : undefined,
+          reopenOnReply: data.ticket.reopenOnReply ?? false,
+          sla: transformSLAStatus(data.ticket.sla) ?? ticket.sla,
+          updatedAt: new Date(data.ticket.updatedAt),
+        };
+        setTicket(updatedTicket);
+        ticketCache.setTicket(id!, updatedTicket);
+      } else {
+        alert('Failed to apply macro: ' + (data.error || 'Unknown error'));
+      }
+    } catch (error) {
+      console.error('Error applying macro:', error);
+      alert('Failed to connect to server');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Active agents other than yourself can be @mentioned
+  const mentionableUsers = users.filter(u => u.role !== 'user' && u.active !== false && !u.isDeleted && u.id !== user?.id);
+
   // Filter users for assignee dropdown
   const filteredAssignableUsers = users
     .filter(u => u.role !== 'user')
@@ -434,9 +707,36 @@ export default function TicketDetail() {
     }
   };
 
+  // A time spent that can't be parsed would be dropped on send, so the reply waits until it's fixed
+  const isReplyTimeInvalid = timeTrackingEnabled && !!replyTimeSpent.trim() && !parseTimeSpent(replyTimeSpent);
+
+  // Check whether someone else replied while this public reply was being written before sending it
+  const requestSendReply = (newStatus?: string) => {
+    const replies =
+      replyType === 'public' && replyStartedAt ? findCollidingReplies(activities, replyStartedAt, user?.id) : [];
+    if (replies.length > 0) {
+      setShowStatusOptions(false);
+      setCollisionWarning({ replies, newStatus });
+      return;
+    }
+    sendReplyAs(newStatus);
+  };
+
+  // Moving to waiting, by "Send as" or by the reply's macro, asks for the snooze and reopen options before the reply goes out
+  const sendReplyAs = (newStatus?: string) => {
+    const macroStatus = pendingMacro && hasMacroActions(pendingMacro.actions) ? pendingMacro.actions.status : undefined;
+    if ((newStatus ?? macroStatus) === 'waiting' && ticket?.status !== 'waiting') {
+      setShowStatusOptions(false);
+      setIsReplyWaiting(true);
+      setShowWaitingDialog(true);
+      return;
+    }
+    handleSendReply(newStatus);
+  };
+
   // Handler for sending reply or note with optional status change
-  const handleSendReply = async (newStatus?: string) => {
-    if (!replyContent.trim() || !user) return;
+  const handleSendReply = async (newStatus?: string, waiting?: WaitingOptions) => {
+    if (!replyContent.trim() || !user || isReplyTimeInvalid) return;
 
     setIsSending(true);
     try {
@@ -445,6 +745,7 @@ export default function TicketDetail() {
         author_id: user.id,
         type: replyType === 'internal' ? 'internal_note' : 'comment',
         isInternal: replyType === 'internal',
+        content_format: 'markdown',
       };
 
       // If replying to an activity, include parent_activity_id
@@ -452,6 +753,18 @@ export default function TicketDetail() {
         payload.parent_activity_id = replyingToActivity.id;
       }
 
+      // Mentioned agents are notified by the backend
+      const mentions = extractMentions(replyContent, replyMentions);
+      if (mentions.length > 0) {
+        payload.mentions = mentions.map((mention) => ({ user_id: mention.userId, name: mention.name }));
+      }
+
+      // Log time spent on this reply as a time entry
+      const replyMinutes = timeTrackingEnabled ? parseTimeSpent(replyTimeSpent) : null;
+      if (replyMinutes) {
+        payload.time_spent_minutes = replyMinutes;
+      }
+
       const response = await fetchWithAuth(`${API_BASE}/api/tickets/${id}/activities`, {
         method: 'POST',
         headers: {
@@ -496,17 +809,32 @@ export default function TicketDetail() {
         ticketCache.addActivity(id!, newActivity); // Update cache
 
         setReplyContent('');
+        replyDraft.clearDraft();
+        setReplyStartedAt(null);
+        presence.stopTyping();
+        setReplyTimeSpent('');
+        setPendingMacro(null);
+        setReplyMentions([]);
+        replyComposer.setIsPreview(false);
         setReplyingToActivity(null); // Clear reply context
         setShowStatusOptions(false); // Close status options
         setAttachmentFiles([]); // Clear attachments
 
+        if (replyMinutes) {
+          queryClient.invalidateQueries({ queryKey: ['time-entries', id] });
+        }
+
         // No need to refresh - attachments are already in the activity
         // WebSocket will sync with other users
 
-        // If status change requested, update the ticket status
-        if (newStatus && newStatus !== ticket?.status) {
-          await handleQuickActionChange('status', newStatus);
+        // If a macro was used, apply its ticket changes together with any requested status
+        if (pendingMacro && hasMacroActions(pendingMacro.actions)) {
+          await handleApplyMacroActions(pendingMacro.actions, newStatus, waiting);
+        } else if (newStatus && newStatus !== ticket?.status) {
+          await handleQuickActionChange('status', newStatus, waiting);
+        }
 
+        if (newStatus && newStatus !== ticket?.status) {
           // Navigate back to tickets list if status is waiting, resolved, or closed
           if (newStatus === 'waiting' || newStatus === 'resolved' || newStatus === 'closed') {
             navigate('/agent/tickets');
@@ -586,6 +914,18 @@ export default function TicketDetail() {
     setTempCCUserIds([]);
   };
 
+  // After merging, continue on the target ticket
+  const handleTicketMerged = (target: Ticket) => {
+    if (!id) return;
+
+    ticketCache.invalidateTicket(id);
+    ticketCache.invalidateActivities(id);
+    ticketCache.invalidateActivities(target.id);
+    setTicket(target);
+    setActivities([]);
+    navigate(`/agent/tickets/${target.id}`, { replace: true, state: { ticket: target, mergedFrom: id } });
+  };
+
   // Handler for deleting ticket
   const handleDeleteTicket = async () => {
     if (!id) return;
@@ -616,6 +956,56 @@ export default function TicketDetail() {
   return (
     <div className="space-y-6">
       {/* Delete Confirmation Modal */}
+      {/* Someone else replied while this reply was being written */}
+      <Dialog open={!!collisionWarning} onOpenChange={(open) => !open && setCollisionWarning(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <div className="flex items-center gap-2">
+              <div className="h-10 w-10 rounded-full bg-amber-500/10 flex items-center justify-center">
+                <AlertTriangle className="h-5 w-5 text-amber-600" />
+              </div>
+              <DialogTitle>New reply since you started typing</DialogTitle>
+            </div>
+            <DialogDescription className="pt-3">
+              {collisionWarning?.replies.length === 1
+                ? `${collisionWarning.replies[0].author.name} replied to this ticket while you were writing.`
+                : `${collisionWarning?.replies.length} replies were posted while you were writing.`}{' '}
+              Check they don't already answer the requester before sending yours.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="max-h-48 overflow-y-auto space-y-2">
+            {collisionWarning?.replies.map((reply) => (
+              <div key={reply.id} className="rounded-md border bg-muted/30 p-2 text-xs">
+                <span className="font-medium">{reply.author.name}</span>
+                <p className="text-muted-foreground mt-0.5 line-clamp-3 whitespace-pre-wrap">{reply.content}</p>
+              </div>
+            ))}
+          </div>
+          <DialogFooter className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => {
+                // They've now seen these replies, so only warn about newer ones
+                setReplyStartedAt(new Date());
+                setCollisionWarning(null);
+              }}
+            >
+              Review Conversation
+            </Button>
+            <Button
+              onClick={() => {
+                const newStatus = collisionWarning?.newStatus;
+                setCollisionWarning(null);
+                sendReplyAs(newStatus);
+              }}
+            >
+              <Send className="h-3.5 w-3.5 mr-1.5" />
+              Send Anyway
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       <Dialog open={showDeleteModal} onOpenChange={setShowDeleteModal}>
         <DialogContent>
           <DialogHeader>
@@ -667,6 +1057,35 @@ export default function TicketDetail() {
         </DialogContent>
       </Dialog>
 
+      <MergeTicketDialog
+        open={showMergeDialog}
+        onOpenChange={setShowMergeDialog}
+        ticket={ticket}
+        onMerged={handleTicketMerged}
+      />
+
+      <WaitingOptionsDialog
+        open={showWaitingDialog}
+        onOpenChange={(open) => {
+          setShowWaitingDialog(open);
+          if (!open) setIsReplyWaiting(false);
+        }}
+        initial={ticket.status === 'waiting' ? { waitingUntil: ticket.waitingUntil, reopenOnReply: ticket.reopenOnReply } : undefined}
+        onConfirm={(options) =>
+          isReplyWaiting ? handleSendReply('waiting', options) : handleQuickActionChange('status', 'waiting', options)
+        }
+      />
+
+      {/* Merged ticket notice */}
+      {location.state?.mergedFrom && (
+        <div className="flex items-center gap-2 rounded-md border border-blue-200 bg-blue-50 dark:border-blue-800 dark:bg-blue-950 px-4 py-2 text-sm text-blue-800 dark:text-blue-200">
+          <GitMerge className="h-4 w-4 shrink-0" />
+          <span>
+            Ticket <span className="font-semibold">{location.state.mergedFrom}</span> was merged into this ticket.
+          </span>
+        </div>
+      )}
+
       {/* Header */}
       <div className="flex items-center justify-between">
         <div className="flex items-center gap-3">
@@ -686,8 +1105,27 @@ export default function TicketDetail() {
             <p className="text-xs text-muted-foreground">Created {formatDate(ticket.createdAt)}</p>
           </div>
         </div>
-        {can('ticket:delete') && (
-          <div className="flex items-center gap-2">
+        <div className="flex items-center gap-2">
+          <PresenceAvatars viewers={presence.viewers} />
+          {user && (
+            <ReminderPopover
+              ticketId={ticket.id}
+              userId={user.id}
+              reminders={ticket.reminders || []}
+              onChange={(reminders) => setTicket((prev) => (prev ? { ...prev, reminders } : prev))}
+            />
+          )}
+          {can('ticket:edit') && ticket.status !== 'closed' && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowMergeDialog(true)}
+            >
+              <GitMerge className="h-3.5 w-3.5 mr-1.5" />
+              Merge into…
+            </Button>
+          )}
+          {can('ticket:delete') && (
             <Button
               variant="destructive"
               size="sm"
@@ -697,8 +1135,8 @@ export default function TicketDetail() {
               <Trash2 className="h-3.5 w-3.5 mr-1.5" />
               Delete Ticket
             </Button>
-          </div>
-        )}
+          )}
+        </div>
       </div>
 
       <div className="grid gap-6 lg:grid-cols-3">
@@ -752,17 +1190,70 @@ export default function TicketDetail() {
                     </Button>
                   </div>
                 )}
-                <Textarea
-                  placeholder={
-                    replyType === 'public'
-                      ? 'Type your reply to the user...'
-                      : 'Add an internal note (only visible to agents)...'
-                  }
-                  rows={2}
-                  value={replyContent}
-                  onChange={(e) => setReplyContent(e.target.value)}
-                  className="resize-none text-sm"
-                />
+                {/* Pending macro actions */}
+                {pendingMacro && hasMacroActions(pendingMacro.actions) && (
+                  <div className="flex items-center gap-2 p-2 bg-primary/5 border border-primary/20 rounded-md text-xs">
+                    <Zap className="h-3.5 w-3.5 text-primary shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <span className="font-medium">{pendingMacro.name}</span>
+                      <span className="text-muted-foreground ml-1.5">
+                        will apply on send:{' '}
+                        {describeMacroActions(
+                          pendingMacro.actions,
+                          users.find((u) => u.id === pendingMacro.actions.assigneeId)?.name
+                        )}
+                      </span>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0"
+                      onClick={() => setPendingMacro(null)}
+                      title="Don't apply macro actions"
+                    >
+                      ✕
+                    </Button>
+                  </div>
+                )}
+                {replyDraft.restoredAt && (
+                  <DraftRestoredBanner
+                    savedAt={replyDraft.restoredAt}
+                    onDiscard={handleDiscardReplyDraft}
+                    onDismiss={replyDraft.dismissRestored}
+                  />
+                )}
+                <TypingIndicator viewers={presence.viewers} />
+                <MarkdownToolbar composer={replyComposer} disabled={isSending} />
+                {replyComposer.isPreview ? (
+                  <div className="min-h-[60px] max-h-64 overflow-y-auto rounded-md border border-input px-3 py-2">
+                    {replyContent.trim() ? (
+                      <MarkdownContent content={replyContent} mentions={replyMentions} currentUserId={user?.id} />
+                    ) : (
+                      <p className="text-sm text-muted-foreground">Nothing to preview</p>
+                    )}
+                  </div>
+                ) : (
+                  <MacroComposerTextarea
+                    textareaRef={replyComposer.textareaRef}
+                    onPaste={replyComposer.handlePaste}
+                    placeholder={
+                      replyType === 'public'
+                        ? 'Type your reply to the user... (type / for macros, @ to mention)'
+                        : 'Add an internal note (only visible to agents, @ to mention)...'
+                    }
+                    rows={2}
+                    value={replyContent}
+                    onChange={handleReplyContentChange}
+                    macros={macros}
+                    context={user ? { ticket, agent: user } : null}
+                    onMacroApplied={setPendingMacro}
+                    mentionableUsers={mentionableUsers}
+                    onMention={(mentioned) =>
+                      setReplyMentions((prev) => [...prev, { userId: mentioned.id, name: mentioned.name }])
+                    }
+                    className="resize-none text-sm"
+                  />
+                )}
                 <div className="flex items-center justify-between">
                   <div className="flex flex-col gap-2 flex-1">
                     <div className="flex items-center gap-2">
@@ -810,6 +1301,24 @@ export default function TicketDetail() {
                           </p>
                         </div>
                       </div>
+                      {timeTrackingEnabled && (
+                        <div className="flex items-center gap-1.5 ml-2">
+                          <Clock className="h-3.5 w-3.5 text-muted-foreground" />
+                          <input
+                            type="text"
+                            value={replyTimeSpent}
+                            onChange={(e) => setReplyTimeSpent(e.target.value)}
+                            placeholder="Time spent"
+                            title="Optional time spent, e.g. 15 or 1h 30m"
+                            className={`h-7 w-24 rounded-md border bg-background px-2 text-xs ${
+                              isReplyTimeInvalid ? 'border-destructive' : 'border-input'
+                            }`}
+                          />
+                          {isReplyTimeInvalid && (
+                            <span className="text-xs text-destructive">Use a time like 15m or 1h 30m</span>
+                          )}
+                        </div>
+                      )}
                     </div>
                     {attachmentFiles.length > 0 && (
                       <div className="flex flex-wrap gap-1">
@@ -832,8 +1341,8 @@ export default function TicketDetail() {
                     <Button
                       size="sm"
                       className="h-7 text-xs"
-                      onClick={() => handleSendReply()}
-                      disabled={isSending || !replyContent.trim()}
+                      onClick={() => requestSendReply()}
+                      disabled={isSending || !replyContent.trim() || isReplyTimeInvalid}
                     >
                       {isSending ? (
                         <>
@@ -855,8 +1364,8 @@ export default function TicketDetail() {
                         <Button
                           size="sm"
                           className="h-7 text-xs rounded-r-none border-r-0 flex-[7]"
-                          onClick={() => handleSendReply()}
-                          disabled={isSending || !replyContent.trim()}
+                          onClick={() => requestSendReply()}
+                          disabled={isSending || !replyContent.trim() || isReplyTimeInvalid}
                         >
                           {isSending ? (
                             <>
@@ -875,7 +1384,7 @@ export default function TicketDetail() {
                           size="sm"
                           className="h-7 w-7 p-0 rounded-l-none flex-[3]"
                           onClick={() => setShowStatusOptions(!showStatusOptions)}
-                          disabled={isSending || !replyContent.trim()}
+                          disabled={isSending || !replyContent.trim() || isReplyTimeInvalid}
                         >
                           <ChevronDown className="h-3.5 w-3.5" />
                         </Button>
@@ -889,8 +1398,8 @@ export default function TicketDetail() {
                               size="sm"
                               variant="ghost"
                               className="h-7 text-xs justify-start"
-                              onClick={() => handleSendReply(statusOption.value)}
-                              disabled={isSending}
+                              onClick={() => requestSendReply(statusOption.value)}
+                              disabled={isSending || isReplyTimeInvalid}
                             >
                               <Send className="h-3.5 w-3.5 mr-1.5" />
                               Send & Mark as {statusOption.label}
@@ -911,20 +1420,26 @@ export default function TicketDetail() {
                 currentUserId={user?.id}
                 onReply={(activity) => setReplyingToActivity(activity)}
                 onFlag={handleFlagActivity}
+                canModify={activityEditing.canModify}
+                onEdit={activityEditing.editActivity}
+                onDelete={activityEditing.deleteActivity}
               />
             </CardContent>
           </Card>
         </div>
 
         {/* Right Column - Sidebar */}
-        <div>
+        <div className="space-y-6">
           <Card>
             <CardHeader className="pb-3">
               <CardTitle className="text-base leading-snug mb-2">{ticket.title}</CardTitle>
               <div className="flex items-center gap-1.5 flex-wrap">
                 <Select
                   value={ticket.status}
-                  onValueChange={(value) => handleQuickActionChange('status', value)}
+                  onValueChange={(value) =>
+                    // Waiting asks how long first
+                    value === 'waiting' ? setShowWaitingDialog(true) : handleQuickActionChange('status', value)
+                  }
                   disabled={isSaving}
                 >
                   <SelectTrigger className="h-auto w-auto border-0 p-0 hover:opacity-80">
@@ -956,6 +1471,25 @@ export default function TicketDetail() {
                 </Select>
                 <Badge variant="outline" className="text-xs">{ticket.category}</Badge>
               </div>
+              {ticket.status === 'waiting' && (
+                <button
+                  type="button"
+                  onClick={() => setShowWaitingDialog(true)}
+                  disabled={isSaving}
+                  className="mt-2 flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground text-left"
+                  title="Change waiting options"
+                >
+                  <Hourglass className="h-3 w-3 flex-shrink-0" />
+                  <span>
+                    {isSnoozed(ticket)
+                      ? `Snoozed until ${formatDateTime(ticket.waitingUntil!)}`
+                      : ticket.waitingUntil
+                        ? `Wait ended ${formatDateTime(ticket.waitingUntil)}`
+                        : 'Waiting, no date set'}
+                    {ticket.reopenOnReply && ' · reopens on reply'}
+                  </span>
+                </button>
+              )}
             </CardHeader>
             <CardContent className="space-y-4 text-xs">
               {/* Description */}
@@ -1060,16 +1594,19 @@ export default function TicketDetail() {
               {ticket.sla && (
                 <div className="pb-3 border-b space-y-2">
                   <h3 className="text-xs font-semibold mb-2 uppercase tracking-wide text-muted-foreground">SLA Status</h3>
-                  <div className="flex items-center justify-between">
-                    <span className="text-muted-foreground">Resolution Due</span>
-                    <SLAIndicator sla={ticket.sla} />
-                  </div>
-                  <div className="flex items-center justify-between">
-                    <span className="text-muted-foreground">First Response</span>
-                    <span className={ticket.sla.firstResponseBreached ? 'text-red-500 font-medium' : 'text-green-600 font-medium'}>
-                      {ticket.sla.firstResponseBreached ? 'Breached' : 'Met'}
-                    </span>
-                  </div>
+                  <SLACountdowns ticket={ticket} />
+                  {(ticket.sla.nextResponseDue || ticket.sla.nextResponseBreached) && (
+                    <div className="flex items-center justify-between">
+                      <span className="text-muted-foreground">Next Response</span>
+                      {ticket.sla.nextResponseBreached ? (
+                        <span className="text-red-500 font-medium">Breached</span>
+                      ) : (
+                        <span className="font-medium" title="Due for the requester's latest reply">
+                          {formatDateTime(ticket.sla.nextResponseDue as Date)}
+                        </span>
+                      )}
+                    </div>
+                  )}
                 </div>
               )}
 
@@ -1188,23 +1725,22 @@ export default function TicketDetail() {
                   <span className="text-muted-foreground">Department</span>
                   <span className="font-medium">{ticket.department}</span>
                 </div>
-                <div className="flex items-start justify-between gap-2">
+                <div className="space-y-1">
                   <span className="text-muted-foreground">Tags</span>
-                  <div className="flex flex-wrap gap-1 justify-end">
-                    {ticket.tags.map((tag) => (
-                      <Badge key={tag} variant="secondary" className="text-xs h-5 px-2">
-                        {tag}
-                      </Badge>
-                    ))}
-                  </div>
+                  <TagEditor tags={ticket.tags} onChange={handleTagsChange} disabled={!!ticket.mergedIntoId} />
                 </div>
 
                 {/* Custom Fields - seamlessly integrated */}
                 <CustomFieldsDisplay ticket={ticket} variant="agent" />
 
-                <div className="flex items-center justify-between">
+                <div className="flex items-start justify-between gap-2">
                   <span className="text-muted-foreground">Due Date</span>
-                  <span className="font-medium">{ticket.dueDate ? formatDate(ticket.dueDate) : 'Not set'}</span>
+                  <DueDateEditor
+                    dueDate={ticket.dueDate}
+                    status={ticket.status}
+                    onChange={handleDueDateChange}
+                    disabled={!can('ticket:edit') || !!ticket.mergedIntoId}
+                  />
                 </div>
                 <div className="flex items-center justify-between">
                   <span className="text-muted-foreground">Updated</span>
@@ -1223,6 +1759,39 @@ export default function TicketDetail() {
               </div>
             </CardContent>
           </Card>
+
+          {(ticket.csat || canRateTicket(ticket.status)) && (
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base flex items-center gap-2">
+                  <Smile className="h-4 w-4" />
+                  Customer Satisfaction
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="text-sm">
+                {ticket.csat ? (
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <CsatStars value={ticket.csat.rating} />
+                      <span className="font-medium">{CSAT_RATING_LABELS[ticket.csat.rating]}</span>
+                    </div>
+                    {ticket.csat.comment && (
+                      <p className="rounded-md bg-muted px-3 py-2 text-sm italic">"{ticket.csat.comment}"</p>
+                    )}
+                    <p className="text-xs text-muted-foreground">Rated {formatDate(ticket.csat.submittedAt)}</p>
+                  </div>
+                ) : (
+                  <p className="text-muted-foreground">Awaiting rating from {ticket.requester.name}</p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          <TicketRelationshipsPanel ticket={ticket} />
+
+          <SLATimeline ticket={ticket} />
+
+          {timeTrackingEnabled && <TimeTrackingPanel ticket={ticket} />}
         </div>
       </div>
     </div>
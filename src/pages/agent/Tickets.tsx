@@ -1,20 +1,39 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Search, Plus, Loader2, User, UserCheck, Settings, RefreshCw } from 'lucide-react';
+import { Plus, Loader2, User, UserCheck, Settings, RefreshCw, BookmarkPlus, Hourglass, AlarmClock } from 'lucide-react';
 import { TicketTable } from '@/components/tickets/TicketTable';
 import { TicketCreateModal } from '@/components/tickets/TicketCreateModal';
 import { ColumnCustomizer } from '@/components/tickets/ColumnCustomizer';
 import { StatusTabs } from '@/components/tickets/StatusTabs';
+import { SavedViewTabs } from '@/components/tickets/SavedViewTabs';
+import { SaveViewDialog } from '@/components/tickets/SaveViewDialog';
+import { TicketFilterBuilder } from '@/components/tickets/TicketFilterBuilder';
+import { BulkActionBar } from '@/components/tickets/BulkActionBar';
+import { TicketSearchInput } from '@/components/tickets/TicketSearchInput';
+import { TagFilterChips } from '@/components/tickets/TagFilterChips';
 import { useAuth } from '@/contexts/AuthContext';
 import { usePermissions } from '@/hooks/usePermissions';
 import { useViewPreferences } from '@/contexts/ViewPreferencesContext';
 import { useWebSocket } from '@/hooks/useWebSocket';
 import { useTicketCache } from '@/contexts/TicketCacheContext';
-import { useTicketsQuery, useClosedTicketCountQuery, useUpdateTicketMutation } from '@/hooks/useTicketsQuery';
+import { useTicketsQuery, useClosedTicketCountQuery, useTicketCountsQuery, useUpdateTicketMutation } from '@/hooks/useTicketsQuery';
+import { useTicketQueryContext } from '@/hooks/useTicketQueryContext';
+import { useSavedViewsQuery, useSavedViewMutations, type SavedViewInput } from '@/hooks/useSavedViews';
+import { useTagsQuery } from '@/hooks/useTags';
+import { useBusinessHoursQuery } from '@/hooks/useBusinessHours';
+import { useNow } from '@/hooks/useNow';
 import { sortTickets, type SortColumn, type SortDirection } from '@/lib/utils';
-import type { Ticket, TicketStatus } from '@/types';
+import { filterToSearchParams, searchParamsToFilter, matchesTicketFilter, isFilterEmpty } from '@/lib/ticketFilters';
+import { parseTicketQuery, mergeQueryFilter } from '@/lib/ticketQuery';
+import { isSnoozed } from '@/lib/waiting';
+import { getTicketSLABreach, isSLAAtRisk } from '@/lib/sla';
+import type { Ticket, TicketStatus, TicketFilter, SavedView, WaitingOptions } from '@/types';
+import { ASSIGNEE_FILTER_ME, ASSIGNEE_FILTER_UNASSIGNED } from '@/types';
+
+const VIEW_PARAM = 'view';
 
 export default function Tickets() {
   const { user } = useAuth();
@@ -22,13 +41,38 @@ export default function Tickets() {
   const { isLoading: isPreferencesLoading } = useViewPreferences();
   const { subscribeToGlobal, unsubscribeFromGlobal, on } = useWebSocket();
   const ticketCache = useTicketCache();
+  const queryClient = useQueryClient();
   const updateTicketMutation = useUpdateTicketMutation();
 
+  // Filter state lives in the URL so views can be bookmarked and shared
+  const [searchParams, setSearchParams] = useSearchParams();
+  const advancedFilter = useMemo(() => searchParamsToFilter(searchParams), [searchParams]);
+  const searchQuery = advancedFilter.searchQuery || '';
+  const activeViewId = searchParams.get(VIEW_PARAM);
+
+  // The search box accepts structured queries (status:open -tag:billing ...); keys override the builder
+  const { data: searchOptions } = useTicketQueryContext();
+  const parsedQuery = useMemo(() => parseTicketQuery(searchQuery, searchOptions), [searchQuery, searchOptions]);
+  const queryFilter = useMemo(
+    () => mergeQueryFilter({ ...advancedFilter, searchQuery: undefined }, parsedQuery.filter),
+    [advancedFilter, parsedQuery]
+  );
+  const freeTextQuery = parsedQuery.filter.searchQuery || '';
+
+  // Saved views
+  const { data: savedViews = [], isSuccess: savedViewsLoaded } = useSavedViewsQuery(user?.id);
+  const { createView, updateView, deleteView } = useSavedViewMutations(user?.id);
+  const [isSaveViewOpen, setIsSaveViewOpen] = useState(false);
+  const [editingView, setEditingView] = useState<SavedView | null>(null);
+  const hasAppliedDefaultView = useRef(false);
+
   // UI state
-  const [searchQuery, setSearchQuery] = useState('');
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [isColumnCustomizerOpen, setIsColumnCustomizerOpen] = useState(false);
 
+  // Bulk selection state
+  const [selectedTicketIds, setSelectedTicketIds] = useState<Set<string>>(new Set());
+
   // Sorting state
   const [sortColumn, setSortColumn] = useState<SortColumn | null>(null);
   const [sortDirection, setSortDirection] = useState<SortDirection>(null);
@@ -37,22 +81,95 @@ export default function Tickets() {
   const [statusFilter, setStatusFilter] = useState<TicketStatus | 'all' | 'my_tickets'>('all');
   const [showMyTickets, setShowMyTickets] = useState(false);
   const [showUnassigned, setShowUnassigned] = useState(false);
+  const [showSnoozed, setShowSnoozed] = useState(false);
+  const [showAtRisk, setShowAtRisk] = useState(false);
+
+  const activeView = savedViews.find((v) => v.id === activeViewId) || null;
+
+  // Views that only target closed tickets need the closed ticket list from the API
+  const effectiveStatus: TicketStatus | 'all' | 'my_tickets' =
+    queryFilter.status?.length && queryFilter.status.every((s) => s === 'closed')
+      ? 'closed'
+      : statusFilter;
+
+  // Snoozed tickets stay out of the queue until their wait until date, unless asked for
+  const hideSnoozed = !showSnoozed && effectiveStatus !== 'waiting';
+
+  // Criteria sent to the API so each page only contains matching tickets
+  const serverFilter = useMemo((): TicketFilter => {
+    const filter: TicketFilter = { ...queryFilter, searchQuery: undefined };
+
+    if (!filter.status?.length && effectiveStatus !== 'all' && effectiveStatus !== 'my_tickets') {
+      filter.status = [effectiveStatus];
+    }
+
+    if (!filter.assignee?.length) {
+      if (effectiveStatus === 'my_tickets' || showMyTickets) {
+        filter.assignee = [ASSIGNEE_FILTER_ME];
+      } else if (showUnassigned) {
+        filter.assignee = [ASSIGNEE_FILTER_UNASSIGNED];
+      }
+    }
+
+    return filter;
+  }, [queryFilter, effectiveStatus, showMyTickets, showUnassigned]);
 
   // React Query hooks - automatic caching and request deduplication
   const {
     data: ticketsData = [],
     isLoading: isLoadingTickets,
     error: ticketsError,
-    refetch: refetchTickets
+    refetch: refetchTickets,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
   } = useTicketsQuery({
-    statusFilter,
-    searchQuery: searchQuery || undefined,
+    statusFilter: effectiveStatus,
+    searchQuery: freeTextQuery || undefined,
+    filter: serverFilter,
+    userId: user?.id,
+    sortColumn,
+    sortDirection,
+    excludeSnoozed: hideSnoozed,
+    slaAtRisk: showAtRisk,
   });
 
   const {
     data: closedTicketCount = 0,
   } = useClosedTicketCountQuery();
 
+  const { data: ticketCounts } = useTicketCountsQuery({ userId: user?.id, excludeClosed: true });
+
+  // Infinite scroll: load the next page when the list nears its end
+  const handleEndReached = useCallback(() => {
+    if (hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  // Write a filter (and optionally the active view) to the URL
+  const applyFilter = useCallback((filter: TicketFilter, viewId: string | null = activeViewId) => {
+    const base = new URLSearchParams(searchParams);
+    if (viewId) {
+      base.set(VIEW_PARAM, viewId);
+    } else {
+      base.delete(VIEW_PARAM);
+    }
+    setSearchParams(filterToSearchParams(filter, base), { replace: true });
+  }, [searchParams, setSearchParams, activeViewId]);
+
+  // Open the default view when the page is visited without filters in the URL
+  useEffect(() => {
+    if (!savedViewsLoaded || hasAppliedDefaultView.current) return;
+    hasAppliedDefaultView.current = true;
+
+    // Shared views carry their owner's default flag, only your own default opens
+    const defaultView = savedViews.find((v) => v.isDefault && v.userId === String(user?.id));
+    if (defaultView && !activeViewId && isFilterEmpty(advancedFilter)) {
+      applyFilter(defaultView.filters, defaultView.id);
+    }
+  }, [savedViewsLoaded, savedViews, activeViewId, advancedFilter, applyFilter, user?.id]);
+
   // Cache tickets for instant detail page loading
   useEffect(() => {
     if (ticketsData) {
@@ -76,21 +193,28 @@ export default function Tickets() {
     const unsubTicketCreated = on('ticket:created', () => {
       // Refetch tickets to get the new ticket with proper backend transform
       refetchTickets();
+      queryClient.invalidateQueries({ queryKey: ['tickets', 'counts'] });
     });
 
     return () => {
       unsubTicketCreated();
     };
-  }, [on, refetchTickets]);
+  }, [on, refetchTickets, queryClient]);
 
   // Handle inline ticket updates using React Query mutation with optimistic updates
-  const handleTicketUpdate = async (ticketId: string, field: 'status' | 'priority' | 'assignee', value: string | null) => {
+  const handleTicketUpdate = async (
+    ticketId: string,
+    field: 'status' | 'priority' | 'assignee',
+    value: string | null,
+    waiting?: WaitingOptions
+  ) => {
     if (!user) return;
 
     const updatedTicket = await updateTicketMutation.mutateAsync({
       ticketId,
       field,
       value,
+      waiting,
       userId: user.id,
     });
 
@@ -98,6 +222,62 @@ export default function Tickets() {
     ticketCache.setTicket(ticketId, updatedTicket);
   };
 
+  const handleSearchChange = (value: string) => {
+    applyFilter({ ...advancedFilter, searchQuery: value || undefined });
+  };
+
+  const handleStatusChange = (status: TicketStatus | 'all' | 'my_tickets') => {
+    setStatusFilter(status);
+    // Leaving a saved view drops its filters but keeps the search text
+    if (activeViewId) {
+      applyFilter({ searchQuery: advancedFilter.searchQuery }, null);
+    }
+  };
+
+  const handleSelectView = (view: SavedView) => {
+    setStatusFilter('all');
+    applyFilter(view.filters, view.id);
+  };
+
+  const handleSaveView = async (input: Omit<SavedViewInput, 'filters'>) => {
+    if (editingView) {
+      await updateView.mutateAsync({
+        viewId: editingView.id,
+        input: { ...input, filters: editingView.filters },
+      });
+      return;
+    }
+
+    const created = await createView.mutateAsync({ ...input, filters: advancedFilter });
+    applyFilter(advancedFilter, created.id);
+  };
+
+  const handleUpdateViewFilters = (view: SavedView) => {
+    updateView.mutate({
+      viewId: view.id,
+      input: { ...view, filters: advancedFilter },
+    });
+  };
+
+  const handleToggleDefaultView = (view: SavedView) => {
+    updateView.mutate({
+      viewId: view.id,
+      input: { ...view, isDefault: !view.isDefault },
+    });
+  };
+
+  const handleDeleteView = (view: SavedView) => {
+    if (!confirm(`Delete the view "${view.name}"?`)) return;
+
+    deleteView.mutate(view.id, {
+      onSuccess: () => {
+        if (activeViewId === view.id) {
+          applyFilter({ searchQuery: advancedFilter.searchQuery }, null);
+        }
+      },
+    });
+  };
+
   // Handle sort
   const handleSort = (column: SortColumn) => {
     if (sortColumn === column) {
@@ -116,21 +296,26 @@ export default function Tickets() {
     }
   };
 
+  // Time to breach of each open ticket's next SLA target, refreshed as the clocks run
+  const { data: businessHours = [] } = useBusinessHoursQuery();
+  const now = useNow();
+  const slaBreaches = useMemo(() => {
+    const schedules = new Map(businessHours.map((schedule) => [schedule.id, schedule]));
+    return new Map(ticketsData.map((ticket) => [
+      ticket.id,
+      getTicketSLABreach(ticket, ticket.sla?.businessHoursId ? schedules.get(ticket.sla.businessHoursId) : undefined, now),
+    ]));
+  }, [ticketsData, businessHours, now]);
+
   // Filter tickets based on all active filters
   const filteredTickets = ticketsData.filter((ticket) => {
-    // Search filter
-    if (searchQuery) {
-      const searchLower = searchQuery.toLowerCase();
-      const matchesSearch =
-        ticket.id.toLowerCase().includes(searchLower) ||
-        ticket.title.toLowerCase().includes(searchLower) ||
-        ticket.requester?.name.toLowerCase().includes(searchLower) ||
-        ticket.category.toLowerCase().includes(searchLower);
-      if (!matchesSearch) return false;
+    // Search query, saved view and filter builder criteria
+    if (!matchesTicketFilter(ticket, { ...queryFilter, searchQuery: freeTextQuery || undefined }, user?.id)) {
+      return false;
     }
 
     // Status filter - handle special cases
-    if (statusFilter === 'my_tickets') {
+    if (effectiveStatus === 'my_tickets') {
       // Show only tickets assigned to current user (excluding closed)
       if (ticket.assignee?.id !== user?.id) {
         return false;
@@ -139,7 +324,7 @@ export default function Tickets() {
       if (ticket.status === 'closed') {
         return false;
       }
-    } else if (statusFilter === 'all') {
+    } else if (effectiveStatus === 'all') {
       // Exclude closed tickets from "All Tickets" view
       // (Backend already filters, but double-check for safety)
       if (ticket.status === 'closed') {
@@ -147,7 +332,7 @@ export default function Tickets() {
       }
     } else {
       // Filter by specific status (statusFilter is a TicketStatus here)
-      if (ticket.status !== statusFilter) {
+      if (ticket.status !== effectiveStatus) {
         return false;
       }
     }
@@ -162,19 +347,48 @@ export default function Tickets() {
       return false;
     }
 
+    if (hideSnoozed && isSnoozed(ticket)) {
+      return false;
+    }
+
+    if (showAtRisk && !isSLAAtRisk(slaBreaches.get(ticket.id) ?? null)) {
+      return false;
+    }
+
     return true;
   });
 
   // Apply sorting
-  const sortedAndFilteredTickets = sortTickets(filteredTickets, sortColumn, sortDirection);
+  // The server orders the at-risk queue by time to breach, re-sorted here as the clocks run between refetches
+  const sortedAndFilteredTickets = showAtRisk && !sortColumn
+    ? [...filteredTickets].sort((a, b) =>
+      (slaBreaches.get(a.id)?.remainingMinutes ?? Infinity) - (slaBreaches.get(b.id)?.remainingMinutes ?? Infinity)
+    )
+    : sortTickets(filteredTickets, sortColumn, sortDirection);
+
+  // Selected tickets that are still in the visible list
+  const selectedTickets = sortedAndFilteredTickets.filter((t) => selectedTicketIds.has(t.id));
 
   // Count My Tickets (from active tickets only - exclude closed)
-  const myTicketsCount = ticketsData.filter(t =>
+  const myTicketsCount = ticketCounts?.assignedToMe ?? ticketsData.filter(t =>
     t.assignee?.id === user?.id && t.status !== 'closed'
   ).length;
-  const unassignedCount = ticketsData.filter(t =>
+  const unassignedCount = ticketCounts?.unassigned ?? ticketsData.filter(t =>
     !t.assignee && t.status !== 'closed'
   ).length;
+  const snoozedCount = ticketCounts?.snoozed ?? ticketsData.filter((t) => isSnoozed(t)).length;
+  const atRiskCount = ticketCounts?.atRisk ?? 0;
+
+  // Known tags plus any seen on loaded tickets (for the filter builder and search)
+  const { data: tagList = [] } = useTagsQuery();
+  const availableTags = useMemo(
+    () => Array.from(new Set([...tagList.map((tag) => tag.name), ...ticketsData.flatMap((t) => t.tags || [])])).sort(),
+    [tagList, ticketsData]
+  );
+
+  // Detect unsaved changes to the active view's filters
+  const isActiveViewModified = !!activeView &&
+    filterToSearchParams(activeView.filters).toString() !== filterToSearchParams(advancedFilter).toString();
 
   return (
     <div className="space-y-6">
@@ -189,22 +403,52 @@ export default function Tickets() {
         onOpenChange={setIsColumnCustomizerOpen}
       />
 
+      <SaveViewDialog
+        open={isSaveViewOpen}
+        onOpenChange={(open) => {
+          setIsSaveViewOpen(open);
+          if (!open) setEditingView(null);
+        }}
+        view={editingView}
+        defaultTeam={user?.team}
+        onSave={handleSaveView}
+      />
+
       <Card>
         <CardHeader>
           <div className="flex flex-row items-center gap-2">
             {/* Search - Smaller fixed width */}
-            <div className="relative max-w-md">
-              <Search className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground" />
-              <Input
-                placeholder="Search tickets..."
-                className="pl-10 w-full"
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-              />
-            </div>
+            <TicketSearchInput
+              value={searchQuery}
+              onChange={handleSearchChange}
+              options={searchOptions}
+              availableTags={availableTags}
+              errors={parsedQuery.errors}
+            />
 
             {/* Filter buttons */}
             <div className="flex items-center gap-2 ml-auto">
+              <TicketFilterBuilder
+                filter={advancedFilter}
+                onApply={(filter) => applyFilter(filter)}
+                availableTags={availableTags}
+              />
+
+              {!activeView && !isFilterEmpty(advancedFilter) && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    setEditingView(null);
+                    setIsSaveViewOpen(true);
+                  }}
+                  title="Save current filters as a view"
+                >
+                  <BookmarkPlus className="h-4 w-4 sm:mr-2" />
+                  <span className="hidden sm:inline">Save View</span>
+                </Button>
+              )}
+
               <Button
                 variant="outline"
                 size="sm"
@@ -251,6 +495,38 @@ export default function Tickets() {
                   )}
                 </Button>
 
+                <Button
+                  variant={showSnoozed ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setShowSnoozed(!showSnoozed)}
+                  className="hidden md:flex"
+                  title="Show waiting tickets snoozed until a later date"
+                >
+                  <Hourglass className="h-4 w-4 sm:mr-2" />
+                  <span className="hidden sm:inline">Snoozed</span>
+                  {snoozedCount > 0 && (
+                    <span className="ml-2 px-1.5 py-0.5 text-xs font-semibold rounded-full bg-background text-foreground">
+                      {snoozedCount}
+                    </span>
+                  )}
+                </Button>
+
+                <Button
+                  variant={showAtRisk ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setShowAtRisk(!showAtRisk)}
+                  className="hidden md:flex"
+                  title="Open tickets past 75% of an SLA target or already breached, soonest breach first"
+                >
+                  <AlarmClock className="h-4 w-4 sm:mr-2" />
+                  <span className="hidden sm:inline">At Risk</span>
+                  {atRiskCount > 0 && (
+                    <span className="ml-2 px-1.5 py-0.5 text-xs font-semibold rounded-full bg-background text-foreground">
+                      {atRiskCount}
+                    </span>
+                  )}
+                </Button>
+
                 <Button
                   variant="outline"
                   size="sm"
@@ -271,14 +547,31 @@ export default function Tickets() {
           </div>
         </CardHeader>
 
-        {/* Status Filter Tabs */}
+        {/* Status Filter Tabs + Saved Views */}
         <StatusTabs
           activeTickets={ticketsData.filter(t => t.status !== 'closed')}
-          activeStatus={statusFilter}
-          onStatusChange={setStatusFilter}
+          activeStatus={activeView ? null : statusFilter}
+          onStatusChange={handleStatusChange}
           currentUser={user}
           closedTicketsCount={closedTicketCount}
-        />
+          counts={ticketCounts}
+        >
+          <SavedViewTabs
+            views={savedViews}
+            activeTickets={ticketsData.filter(t => t.status !== 'closed')}
+            activeViewId={activeViewId}
+            isActiveViewModified={isActiveViewModified}
+            currentUser={user}
+            onSelect={handleSelectView}
+            onEdit={(view) => {
+              setEditingView(view);
+              setIsSaveViewOpen(true);
+            }}
+            onUpdateFilters={handleUpdateViewFilters}
+            onToggleDefault={handleToggleDefaultView}
+            onDelete={handleDeleteView}
+          />
+        </StatusTabs>
 
         <CardContent className="pt-6">
           {isLoadingTickets || isPreferencesLoading ? (
@@ -298,13 +591,29 @@ export default function Tickets() {
               </Button>
             </div>
           ) : (
-            <TicketTable
-              tickets={sortedAndFilteredTickets}
-              sortColumn={sortColumn}
-              sortDirection={sortDirection}
-              onSort={handleSort}
-              onTicketUpdate={handleTicketUpdate}
-            />
+            <>
+              <TagFilterChips
+                selectedTags={advancedFilter.tags || []}
+                onChange={(tags) => applyFilter({ ...advancedFilter, tags: tags.length > 0 ? tags : undefined })}
+              />
+              {can('ticket:edit') && (
+                <BulkActionBar
+                  selectedTickets={selectedTickets}
+                  onSelectionChange={setSelectedTicketIds}
+                />
+              )}
+              <TicketTable
+                tickets={sortedAndFilteredTickets}
+                sortColumn={sortColumn}
+                sortDirection={sortDirection}
+                onSort={handleSort}
+                onTicketUpdate={handleTicketUpdate}
+                onEndReached={handleEndReached}
+                isLoadingMore={isFetchingNextPage}
+                selectedIds={can('ticket:edit') ? selectedTicketIds : undefined}
+                onSelectionChange={can('ticket:edit') ? setSelectedTicketIds : undefined}
+              />
+            </>
           )}
         </CardContent>
       </Card>
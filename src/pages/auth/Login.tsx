@@ -46,7 +46,7 @@ export default function Login() {
         // For agents/managers/admins, prefetch tickets data
         if (['agent', 'manager', 'admin'].includes(userDataForRedirect.role)) {
           // Fire prefetch requests in background (don't await - let them complete while navigating)
-          prefetchTickets({ statusFilter: 'all' });
+          prefetchTickets({ statusFilter: 'all', excludeSnoozed: true });
           prefetchClosedCount();
           navigate('/agent/dashboard');
         } else {
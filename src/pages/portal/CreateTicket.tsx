@@ -13,6 +13,12 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { Send, FileText, AlertCircle, Lightbulb, Loader2, X } from 'lucide-react';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
+import { DuplicateTicketsWarning } from '@/components/tickets/DuplicateTicketsWarning';
+import { useDuplicateTicketsQuery } from '@/hooks/useTicketsQuery';
+import { useDraft } from '@/hooks/useDrafts';
+import { DraftRestoredBanner } from '@/components/tickets/DraftRestoredBanner';
+import { NEW_TICKET_DRAFT_KEY, serializableFieldValues } from '@/lib/drafts';
+import type { NewTicketDraftData } from '@/types/drafts';
 import type { FormConfiguration, FormField } from '@/types/formBuilder';
 import type { User, TicketPriority } from '@/types';
 import { getPriorityColor } from '@/lib/utils';
@@ -44,6 +50,7 @@ export default function CreateTicket() {
   // All form fields (system + custom) in order
   const [allFields, setAllFields] = useState<FormField[]>([]);
   const [fieldValues, setFieldValues] = useState<Record<string, any>>({});
+  const [initialFieldValues, setInitialFieldValues] = useState<Record<string, unknown>>({});
 
   // Users for CC field
   const [users, setUsers] = useState<User[]>([]);
@@ -52,6 +59,16 @@ export default function CreateTicket() {
   // Articles for suggestions
   const [articles, setArticles] = useState<Article[]>([]);
 
+  // The requester's own open tickets that look like the one being written
+  const { data: duplicates = [] } = useDuplicateTicketsQuery(
+    {
+      title: fieldValues['system-title'] || '',
+      description: fieldValues['system-description'] || '',
+    },
+    !!user,
+    user ? String(user.id) : undefined
+  );
+
   // Load form configuration from API (fallback to localStorage)
   useEffect(() => {
     const loadFormConfig = async () => {
@@ -127,11 +144,38 @@ export default function CreateTicket() {
         }
       });
       setFieldValues(initialValues);
+      setInitialFieldValues(initialValues);
     };
 
     loadFormConfig();
   }, []);
 
+  // Autosave the form once the configuration has loaded; selected files can't be kept
+  const draftValue = useMemo<NewTicketDraftData>(
+    () => ({ fieldValues: serializableFieldValues(fieldValues), ccUserIds }),
+    [fieldValues, ccUserIds]
+  );
+  const ticketDraft = useDraft<NewTicketDraftData>({
+    key: NEW_TICKET_DRAFT_KEY,
+    kind: 'new_ticket',
+    value: draftValue,
+    isEmpty: (draft) =>
+      !String(draft.fieldValues['system-title'] || '').trim() &&
+      !String(draft.fieldValues['system-description'] || '').trim() &&
+      draft.ccUserIds.length === 0,
+    onRestore: (draft) => {
+      setFieldValues(prev => ({ ...prev, ...draft.fieldValues }));
+      setCcUserIds(draft.ccUserIds || []);
+    },
+    enabled: allFields.length > 0,
+  });
+
+  const handleDiscardDraft = () => {
+    ticketDraft.clearDraft();
+    setFieldValues(initialFieldValues);
+    setCcUserIds([]);
+  };
+
   // Fetch users if CC field exists in configuration
   useEffect(() => {
     const hasCCField = allFields.some(field => field.type === 'cc_users');
@@ -228,6 +272,7 @@ export default function CreateTicket() {
 
       if (data.success) {
         const ticketId = data.ticket.id;
+        ticketDraft.clearDraft();
 
         // Upload any file attachments
         const fileFields = allFields.filter((f) => f.type === 'file');
@@ -779,9 +824,23 @@ export default function CreateTicket() {
             </CardHeader>
             <CardContent>
               <form onSubmit={handleSubmit} className="space-y-4">
+                {ticketDraft.restoredAt && (
+                  <DraftRestoredBanner
+                    savedAt={ticketDraft.restoredAt}
+                    onDiscard={handleDiscardDraft}
+                    onDismiss={ticketDraft.dismissRestored}
+                  />
+                )}
+
                 {/* Render visible fields based on conditional logic */}
                 {visibleFields.filter(field => !field.hidden).map((field) => renderField(field))}
 
+                {/* Possible duplicates */}
+                <DuplicateTicketsWarning
+                  candidates={duplicates}
+                  getTicketUrl={(ticketId) => `/portal/tickets/${ticketId}`}
+                />
+
                 {/* File Upload Loading Indicator */}
                 {isUploadingFiles && (
                   <div className="flex items-center gap-3 p-4 bg-blue-50 dark:bg-blue-950 border border-blue-200 dark:border-blue-800 rounded-lg">
@@ -301,7 +301,7 @@ export default function MyTickets() {
 
                       {/* SLA Indicator - Below on mobile, Right side on desktop */}
                       <div className="sm:flex-shrink-0 pt-2 sm:pt-0 border-t sm:border-t-0">
-                        <SLAIndicator sla={ticket.sla} />
+                        <SLAIndicator sla={ticket.sla} startedAt={ticket.createdAt} />
                       </div>
                     </div>
                   </div>
@@ -1,7 +1,10 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { useWebSocket } from '@/hooks/useWebSocket';
+import { useMarkdownComposer } from '@/hooks/useMarkdownComposer';
+import { useActivityEditing } from '@/hooks/useActivityEditing';
+import { useDraft } from '@/hooks/useDrafts';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -19,8 +22,15 @@ import { PriorityBadge } from '@/components/tickets/PriorityBadge';
 import { SLAIndicator } from '@/components/tickets/SLAIndicator';
 import { ActivityFeed } from '@/components/tickets/ActivityFeed';
 import { CustomFieldsDisplay } from '@/components/tickets/CustomFieldsDisplay';
+import { MarkdownToolbar } from '@/components/tickets/MarkdownToolbar';
+import { MarkdownContent } from '@/components/tickets/MarkdownContent';
+import { DraftRestoredBanner } from '@/components/tickets/DraftRestoredBanner';
+import { CsatPrompt } from '@/components/tickets/CsatRating';
+import { canRateTicket } from '@/lib/csat';
+import { portalReplyDraftKey } from '@/lib/drafts';
 import { formatDate, getInitials } from '@/lib/utils';
-import type { Ticket, Activity } from '@/types';
+import type { Ticket, Activity, CsatRating } from '@/types';
+import type { ReplyDraftData } from '@/types/drafts';
 import { ArrowLeft, Send, Loader2, Paperclip } from 'lucide-react';
 import { fetchWithAuth } from '@/lib/fetchWithAuth';
 
@@ -41,6 +51,27 @@ export default function TicketDetail() {
   const [showReopenDialog, setShowReopenDialog] = useState(false);
   const [attachmentFiles, setAttachmentFiles] = useState<File[]>([]);
   const [isUploadingAttachments, setIsUploadingAttachments] = useState(false);
+  const commentComposer = useMarkdownComposer({ ticketId: id, userId: user?.id, value: comment, onChange: setComment });
+
+  // Autosave the comment so it survives navigating away or an idle logout
+  const commentDraftValue = useMemo<ReplyDraftData>(
+    () => ({ content: comment, replyType: 'public', mentions: [] }),
+    [comment]
+  );
+  const commentDraft = useDraft<ReplyDraftData>({
+    key: id ? portalReplyDraftKey(id) : undefined,
+    kind: 'reply',
+    ticketId: id,
+    value: commentDraftValue,
+    isEmpty: (draft) => !draft.content.trim(),
+    onRestore: (draft) => setComment(draft.content),
+  });
+
+  // Replace an edited or deleted activity in the feed
+  const replaceActivity = (updated: Activity) => {
+    setActivities(prev => prev.map(activity => (activity.id === updated.id ? updated : activity)));
+  };
+  const activityEditing = useActivityEditing({ ticketId: id, onUpdated: replaceActivity });
 
   // WebSocket for real-time updates
   const { subscribeToTicket, unsubscribeFromTicket, on } = useWebSocket();
@@ -67,6 +98,7 @@ export default function TicketDetail() {
             ...prev,
             status: message.data.status ?? prev.status,
             priority: message.data.priority ?? prev.priority,
+            csat: message.data.csat ?? prev.csat,
           };
         });
       }
@@ -90,10 +122,24 @@ export default function TicketDetail() {
       }
     });
 
+    // Edits and soft deletes carry the full updated activity
+    const handleActivityChanged = (message: { ticketId?: string; data: Activity }) => {
+      if (message.ticketId === id && !message.data.isInternal) {
+        replaceActivity({
+          ...message.data,
+          createdAt: new Date(message.data.createdAt),
+        });
+      }
+    };
+    const unsubActivityUpdated = on('activity:updated', handleActivityChanged);
+    const unsubActivityDeleted = on('activity:deleted', handleActivityChanged);
+
     // Cleanup listeners
     return () => {
       unsubTicketUpdated();
       unsubActivityCreated();
+      unsubActivityUpdated();
+      unsubActivityDeleted();
     };
   }, [id, on]);
 
@@ -182,6 +228,7 @@ export default function TicketDetail() {
         author_id: user!.id,
         type: 'comment',
         isInternal: false,
+        content_format: 'markdown',
       };
 
       const response = await fetchWithAuth(`${API_BASE}/api/tickets/${id}/activities`, {
@@ -226,7 +273,9 @@ export default function TicketDetail() {
         };
         setActivities([newActivity, ...activities]);
         setComment('');
+        commentDraft.clearDraft();
         setAttachmentFiles([]);
+        commentComposer.setIsPreview(false);
 
         // Refresh ticket data to get updated attachments
         fetchTicketData();
@@ -260,6 +309,38 @@ export default function TicketDetail() {
     }
   };
 
+  const handleSubmitCsat = async (rating: CsatRating, csatComment: string): Promise<boolean> => {
+    if (!user) return false;
+
+    try {
+      const response = await fetchWithAuth(`${API_BASE}/api/tickets/${id}/csat`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          rating,
+          comment: csatComment || null,
+          user_id: user.id,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setTicket((prev) => (prev ? { ...prev, csat: data.csat } : prev));
+        return true;
+      }
+
+      alert('Failed to submit feedback: ' + (data.error || 'Unknown error'));
+      return false;
+    } catch (error) {
+      console.error('Error submitting feedback:', error);
+      alert('Failed to connect to server');
+      return false;
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="max-w-4xl mx-auto space-y-6">
@@ -329,13 +410,36 @@ export default function TicketDetail() {
             {canComment ? (
               <CardContent className="border-b p-3">
                 <form onSubmit={handleSubmitComment} className="space-y-2">
-                  <Textarea
-                    placeholder="Add a comment or reply..."
-                    value={comment}
-                    onChange={(e) => setComment(e.target.value)}
-                    rows={3}
-                    className="resize-none text-sm"
-                  />
+                  {commentDraft.restoredAt && (
+                    <DraftRestoredBanner
+                      savedAt={commentDraft.restoredAt}
+                      onDiscard={() => {
+                        commentDraft.clearDraft();
+                        setComment('');
+                      }}
+                      onDismiss={commentDraft.dismissRestored}
+                    />
+                  )}
+                  <MarkdownToolbar composer={commentComposer} disabled={isSending} />
+                  {commentComposer.isPreview ? (
+                    <div className="min-h-[76px] max-h-64 overflow-y-auto rounded-md border border-input px-3 py-2">
+                      {comment.trim() ? (
+                        <MarkdownContent content={comment} currentUserId={user?.id} />
+                      ) : (
+                        <p className="text-sm text-muted-foreground">Nothing to preview</p>
+                      )}
+                    </div>
+                  ) : (
+                    <Textarea
+                      ref={commentComposer.textareaRef}
+                      placeholder="Add a comment or reply..."
+                      value={comment}
+                      onChange={(e) => setComment(e.target.value)}
+                      onPaste={commentComposer.handlePaste}
+                      rows={3}
+                      className="resize-none text-sm"
+                    />
+                  )}
                   <div className="flex items-center justify-between">
                     <div className="flex flex-col gap-2 flex-1">
                       <div className="flex items-center gap-2">
@@ -419,7 +523,13 @@ export default function TicketDetail() {
             {/* Activity Feed - Scrollable Below */}
             <CardContent className="flex-1 overflow-y-auto p-3 [&::-webkit-scrollbar]:w-2 [&::-webkit-scrollbar-track]:bg-transparent [&::-webkit-scrollbar-thumb]:bg-muted [&::-webkit-scrollbar-thumb]:rounded-full [&::-webkit-scrollbar-thumb]:hover:bg-muted-foreground/40">
               {activities.length > 0 ? (
-                <ActivityFeed activities={activities} currentUserId={user?.id} />
+                <ActivityFeed
+                  activities={activities}
+                  currentUserId={user?.id}
+                  canModify={activityEditing.canModify}
+                  onEdit={activityEditing.editActivity}
+                  onDelete={activityEditing.deleteActivity}
+                />
               ) : (
                 <p className="text-sm text-muted-foreground text-center py-8">
                   No updates yet. An agent will respond shortly.
@@ -431,6 +541,18 @@ export default function TicketDetail() {
 
         {/* Sidebar */}
         <div className="space-y-6">
+          {/* Satisfaction Survey */}
+          {(ticket.csat || canRateTicket(ticket.status)) && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">How did we do?</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <CsatPrompt csat={ticket.csat} onSubmit={handleSubmitCsat} />
+              </CardContent>
+            </Card>
+          )}
+
           {/* Ticket Info */}
           <Card>
             <CardHeader>
@@ -514,7 +636,7 @@ export default function TicketDetail() {
               {ticket.sla && (
                 <div>
                   <p className="text-muted-foreground mb-1">SLA Status</p>
-                  <SLAIndicator sla={ticket.sla} />
+                  <SLAIndicator sla={ticket.sla} startedAt={ticket.createdAt} />
                 </div>
               )}
 
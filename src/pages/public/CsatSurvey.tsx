@@ -0,0 +1,123 @@
+import { useState, useEffect } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { CsatPrompt } from '@/components/tickets/CsatRating';
+import { parseCsatRating } from '@/lib/csat';
+import type { CsatRating, TicketCsat } from '@/types';
+
+const API_BASE = 'https://itsm-backend.joshua-r-klimek.workers.dev';
+
+interface CsatSurvey {
+  ticketId: string;
+  ticketTitle: string;
+  csat: TicketCsat | null;
+}
+
+/**
+ * Satisfaction survey opened from the link in the ticket resolved email.
+ * The token identifies the ticket, so requesters can answer without logging in.
+ */
+export default function CsatSurvey() {
+  const { token } = useParams();
+  const [searchParams] = useSearchParams();
+  const initialRating = parseCsatRating(searchParams.get('rating'));
+
+  const [survey, setSurvey] = useState<CsatSurvey | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+
+    // Plain fetch: this page is public and must not redirect to the login page
+    const fetchSurvey = async () => {
+      try {
+        const response = await fetch(`${API_BASE}/api/csat/${encodeURIComponent(token)}`);
+        const data = await response.json();
+
+        if (data.success) {
+          setSurvey(data.survey);
+        } else {
+          setError(data.error || 'This survey link is invalid or has expired');
+        }
+      } catch (err) {
+        console.error('Error fetching survey:', err);
+        setError('Failed to connect to server');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchSurvey();
+  }, [token]);
+
+  const handleSubmit = async (rating: CsatRating, comment: string): Promise<boolean> => {
+    if (!token) return false;
+
+    try {
+      const response = await fetch(`${API_BASE}/api/csat/${encodeURIComponent(token)}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ rating, comment: comment || null }),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setSurvey((prev) => (prev ? { ...prev, csat: data.csat } : prev));
+        return true;
+      }
+
+      alert('Failed to submit feedback: ' + (data.error || 'Unknown error'));
+      return false;
+    } catch (err) {
+      console.error('Error submitting feedback:', err);
+      alert('Failed to connect to server');
+      return false;
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <div className="w-full max-w-md">
+        {/* Logo/Brand */}
+        <div className="flex justify-center mb-8">
+          <div className="flex items-center space-x-2">
+            <div className="h-12 w-12 rounded-lg bg-primary flex items-center justify-center">
+              <span className="text-primary-foreground font-bold text-2xl">IT</span>
+            </div>
+            <span className="font-bold text-2xl">ITSM</span>
+          </div>
+        </div>
+
+        <Card>
+          {isLoading ? (
+            <CardContent className="py-12 flex justify-center">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </CardContent>
+          ) : error || !survey ? (
+            <CardContent className="py-12 text-center">
+              <p className="font-medium">Survey unavailable</p>
+              <p className="text-sm text-muted-foreground mt-1">{error}</p>
+            </CardContent>
+          ) : (
+            <>
+              <CardHeader className="space-y-1">
+                <CardTitle className="text-2xl font-bold">How did we do?</CardTitle>
+                <CardDescription>
+                  Rate the support you received on {survey.ticketId}: {survey.ticketTitle}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <CsatPrompt csat={survey.csat} initialRating={initialRating} onSubmit={handleSubmit} />
+              </CardContent>
+            </>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -13,6 +13,9 @@ const SignUp = lazyWithRetry(() => import('@/pages/auth/SignUp'));
 const ForgotPassword = lazyWithRetry(() => import('@/pages/auth/ForgotPassword'));
 const ChangePasswordFirstLogin = lazyWithRetry(() => import('@/pages/auth/ChangePasswordFirstLogin'));
 
+// Public pages
+const CsatSurvey = lazyWithRetry(() => import('@/pages/public/CsatSurvey'));
+
 // Portal pages
 const PortalCreateTicket = lazyWithRetry(() => import('@/pages/portal/CreateTicket'));
 const PortalMyTickets = lazyWithRetry(() => import('@/pages/portal/MyTickets'));
@@ -89,6 +92,14 @@ export const router = createBrowserRouter([
       },
     ],
   },
+  {
+    path: '/survey/:token',
+    element: (
+      <Lazy>
+        <CsatSurvey />
+      </Lazy>
+    ),
+  },
   {
     path: '/portal',
     element: (
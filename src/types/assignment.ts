@@ -0,0 +1,54 @@
+import type { SystemSettings } from './index';
+
+export type AssignmentStrategy = SystemSettings['defaultAssignment'];
+
+// How an agent is picked from the candidates of a pool
+export type AssignmentMethod = 'rotation' | 'least_open';
+
+export interface AssignmentPool {
+  id: string;
+  name: string;
+  team: string;
+  agentIds: string[];
+  categories: string[]; // Categories routed to this pool, empty = fallback for unmatched tickets
+  method: AssignmentMethod;
+  maxOpenTickets?: number | null; // Agents at or above this are skipped
+  enabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type AssignmentPoolInput = Omit<AssignmentPool, 'id' | 'createdAt' | 'updatedAt'>;
+
+// An agent's availability, skills and current workload
+export interface AgentAssignmentStatus {
+  userId: string;
+  name: string;
+  team?: string;
+  available: boolean;
+  awaySince?: Date | null;
+  skills: string[]; // Categories the agent is preferred for
+  openTickets: number;
+  lastAssignedAt?: Date | null;
+}
+
+export type AssignmentSkipReason = 'away' | 'at_capacity' | 'no_skill';
+
+export interface AssignmentCandidate {
+  agentId: string;
+  agentName: string;
+  openTickets: number;
+  skipped?: AssignmentSkipReason;
+}
+
+// Stored in the metadata of 'assignment' activities so agents can see why a ticket was routed to them
+export interface AssignmentDecision {
+  strategy: AssignmentStrategy;
+  method: AssignmentMethod;
+  poolId?: string | null;
+  poolName?: string | null;
+  category?: string | null;
+  matchedSkill?: string | null;
+  assigneeId: string | null;
+  candidates: AssignmentCandidate[];
+}
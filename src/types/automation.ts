@@ -0,0 +1,70 @@
+import type { SLAConditions } from './sla';
+import type { TicketStatus } from './index';
+
+export type AutomationEvent = 'ticket_created' | 'ticket_updated' | 'activity_added' | 'sla_warning';
+
+// What a time-based trigger measures the elapsed time from
+export type AutomationTimeBasis = 'time_in_status' | 'since_created' | 'since_updated';
+
+export type AutomationTrigger =
+  | { type: 'event'; events: AutomationEvent[] }
+  | { type: 'time'; basis: AutomationTimeBasis; status?: TicketStatus; afterMinutes: number };
+
+// Same shape as SLA conditions, plus the ticket status
+export interface AutomationConditions extends SLAConditions {
+  status?: string[];
+}
+
+export type AutomationFieldName = 'status' | 'priority' | 'category';
+
+export type AutomationAction =
+  | { type: 'set_field'; field: AutomationFieldName; value: string }
+  | { type: 'assign'; assigneeId: string | null }
+  | { type: 'add_tags'; tags: string[] }
+  | { type: 'internal_note'; content: string }
+  | { type: 'notify'; userIds: string[]; notifyAssignee: boolean; message: string };
+
+export type AutomationActionType = AutomationAction['type'];
+
+export interface AutomationRule {
+  id: string;
+  name: string;
+  description?: string;
+  enabled: boolean;
+  trigger: AutomationTrigger;
+  conditions: AutomationConditions;
+  actions: AutomationAction[];
+  runCount?: number;
+  lastRunAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type AutomationRuleInput = Omit<AutomationRule, 'id' | 'runCount' | 'lastRunAt' | 'createdAt' | 'updatedAt'>;
+
+export type AutomationRunStatus = 'success' | 'failed' | 'skipped';
+
+// One entry of the execution log
+export interface AutomationRun {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  ticketId: string;
+  trigger: string;
+  status: AutomationRunStatus;
+  actionsApplied: string[];
+  error?: string | null;
+  executedAt: Date;
+}
+
+export interface AutomationCheck {
+  label: string;
+  passed: boolean;
+  detail: string;
+}
+
+export interface AutomationDryRunResult {
+  matched: boolean;
+  checks: AutomationCheck[];
+  actions: string[];
+}
@@ -0,0 +1,23 @@
+import type { ActivityMention } from './index';
+
+export type DraftKind = 'reply' | 'new_ticket';
+
+// An unsent reply or ticket form, saved per user so it survives navigation and logouts
+export interface Draft<T = unknown> {
+  key: string; // reply:<ticketId> or new_ticket
+  kind: DraftKind;
+  ticketId?: string;
+  data: T;
+  updatedAt: number;
+}
+
+export interface ReplyDraftData {
+  content: string;
+  replyType: 'public' | 'internal';
+  mentions: ActivityMention[];
+}
+
+export interface NewTicketDraftData {
+  fieldValues: Record<string, unknown>; // File values are left out, they can't be stored
+  ccUserIds: string[];
+}
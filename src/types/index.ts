@@ -88,7 +88,13 @@ export interface SLAStatus {
   firstResponseBreached: boolean;
   resolutionBreached: boolean;
   status: SLAStatusType;
+  firstRespondedAt?: Date | null; // Set once an agent has replied, stops the first response clock
   timeRemaining?: number;
+  businessHoursId?: string | null; // Schedule the targets are counted in, unset = around the clock
+  nextResponseDue?: Date | null; // Set while a requester reply is waiting on an answer
+  nextResponseBreached?: boolean;
+  pausedAt?: Date | null; // Set while the ticket's status pauses the clock
+  pauseStatuses?: TicketStatus[];
 }
 
 // Attachment interface
@@ -107,8 +113,10 @@ export interface TimeEntry {
   id: string;
   ticketId: string;
   userId: string;
+  userName?: string;
   minutes: number;
   description?: string;
+  activityId?: string | null; // Set when the time was logged with a reply
   createdAt: Date;
 }
 
@@ -136,6 +144,57 @@ export interface Ticket {
   sla: SLAStatus;
   ccUsers: User[];
   timeTracking: TimeEntry[];
+  mergedIntoId?: string | null; // Set once this ticket has been merged into another
+  parentId?: string | null;
+  linkCount?: number;
+  childProgress?: ChildTicketProgress;
+  autoResolveChildren?: boolean; // Resolve open child tickets when this ticket is resolved
+  csat?: TicketCsat | null; // Requester's satisfaction rating, once submitted
+  reminders?: TicketReminder[]; // The current agent's own follow-up reminders
+  waitingUntil?: Date; // Snoozed: a waiting ticket stays out of the default queue until this time
+  reopenOnReply?: boolean; // Move a waiting ticket back to open when the requester replies
+}
+
+// Chosen when a ticket is set to waiting
+export interface WaitingOptions {
+  waitingUntil: Date | null;
+  reopenOnReply: boolean;
+}
+
+// Private "remind me" follow-up an agent set on a ticket, delivered as a notification
+export interface TicketReminder {
+  id: string;
+  ticketId: string;
+  userId: string;
+  remindAt: Date;
+  note?: string | null;
+  firedAt?: Date | null;
+}
+
+// Customer satisfaction survey, offered to the requester once a ticket is resolved or closed
+export type CsatRating = 1 | 2 | 3 | 4 | 5;
+
+export interface TicketCsat {
+  rating: CsatRating;
+  comment?: string | null;
+  submittedAt: string;
+}
+
+// Ticket relationships, named from the point of view of the ticket that lists them
+// e.g. a link of type 'blocked_by' on TKT-1 means TKT-1 is blocked by link.ticket
+export type TicketLinkType = 'parent' | 'child' | 'related' | 'blocks' | 'blocked_by';
+
+export interface TicketLink {
+  id: string;
+  type: TicketLinkType;
+  ticket: Pick<Ticket, 'id' | 'title' | 'status' | 'priority'> & { assignee?: User | Team };
+  createdAt: Date;
+  createdBy?: User;
+}
+
+export interface ChildTicketProgress {
+  total: number;
+  resolved: number;
 }
 
 // Activity/Comment types
@@ -166,6 +225,52 @@ export interface Activity {
     name: string;
   } | null;
   flaggedAt?: string | null;
+  mentions?: ActivityMention[];
+  contentFormat?: 'plain' | 'markdown'; // Replies from the composer are markdown; emails and older activities are plain text
+  editedAt?: string | null;
+  editCount?: number;
+  isDeleted?: boolean; // Soft-deleted; content is blanked by the server
+  deletedBy?: {
+    id: number;
+    name: string;
+  } | null;
+  deletedAt?: string | null;
+}
+
+// A previous version of an edited activity
+export interface ActivityRevision {
+  id: string;
+  activityId: string;
+  content: string;
+  contentFormat?: 'plain' | 'markdown';
+  editedBy: {
+    id: number;
+    name: string;
+  };
+  editedAt: string; // When this version was replaced
+}
+
+// A user @mentioned in an activity; the content contains "@name" for each
+export interface ActivityMention {
+  userId: string;
+  name: string;
+}
+
+// Presence of other agents on a ticket (collision detection), relayed over the ticket's WebSocket channel
+export type TicketPresenceState = 'viewing' | 'typing' | 'left';
+
+export interface TicketPresenceUpdate {
+  userId: string;
+  name: string;
+  state: TicketPresenceState;
+}
+
+export interface TicketViewer {
+  userId: string;
+  name: string;
+  isTyping: boolean;
+  lastSeenAt: number; // ms timestamps, used to expire viewers whose tab went away without saying so
+  typingAt?: number;
 }
 
 // Knowledge Base
@@ -232,7 +337,7 @@ export interface Notification {
   userId: string;
   type: 'ticket_assigned' | 'ticket_updated' | 'ticket_commented' |
         'status_changed' | 'priority_changed' | 'ticket_resolved' |
-        'sla_warning' | 'mention';
+        'sla_warning' | 'mention' | 'ticket_due_soon' | 'ticket_overdue' | 'reminder';
   title: string;
   message: string;
   read: boolean;
@@ -259,6 +364,10 @@ export interface SystemSettings {
   enableAttachments: boolean;
   enableEmailToTicket: boolean;
   enableKnowledgeBase: boolean;
+  commentEditWindowMinutes: number; // How long authors can edit or delete their comments, 0 = no limit
+  enableDraftSync: boolean; // Also keep reply and ticket drafts on the server, not just in the browser
+  waitingReminderDays: number; // Remind the requester after this many days waiting without a reply, 0 = never
+  waitingAutoCloseDays: number; // Close waiting tickets after this many days without a reply, 0 = never
 
   // Email Configuration
   emailDomain?: string;
@@ -311,6 +420,11 @@ export interface SettingsFormData {
   general: {
     allowPublicSignup: boolean;
     enableKnowledgeBase: boolean;
+    defaultAssignment: SystemSettings['defaultAssignment'];
+    commentEditWindowMinutes: number;
+    enableDraftSync: boolean;
+    waitingReminderDays: number;
+    waitingAutoCloseDays: number;
   };
   email: {
     emailDomain: string;
@@ -349,16 +463,37 @@ export interface TicketFilter {
     end: Date;
   };
   searchQuery?: string;
+  phrases?: string[];
+  exclude?: TicketFilterExclusions;
 }
 
+// Values a ticket must NOT have (e.g. -category:hardware in the search syntax)
+export interface TicketFilterExclusions {
+  status?: TicketStatus[];
+  priority?: TicketPriority[];
+  category?: string[];
+  assignee?: string[];
+  department?: string[];
+  tags?: string[];
+}
+
+// Special assignee filter values (alongside user IDs)
+export const ASSIGNEE_FILTER_ME = 'me';
+export const ASSIGNEE_FILTER_UNASSIGNED = 'unassigned';
+
 // Saved views
+export type SavedViewVisibility = 'personal' | 'team';
+
 export interface SavedView {
   id: string;
   name: string;
   userId: string;
   filters: TicketFilter;
   isDefault: boolean;
+  visibility: SavedViewVisibility;
+  team?: string | null;
   createdAt: Date;
+  updatedAt?: Date;
 }
 
 // Column customization
@@ -372,8 +507,13 @@ export interface ColumnConfig {
   resizable: boolean;
 }
 
+export type ActivitySortOrder = 'newest' | 'oldest';
+
 export interface ViewPreferences {
   ticketList: {
     columns: ColumnConfig[];
   };
+  activityFeed?: {
+    sortOrder: ActivitySortOrder;
+  };
 }
@@ -0,0 +1,23 @@
+export type MacroVisibility = 'personal' | 'shared';
+
+export interface MacroActions {
+  status?: string;
+  priority?: string;
+  assigneeId?: string | null; // null unassigns the ticket
+  addTags?: string[];
+}
+
+export interface Macro {
+  id: string;
+  name: string;
+  description?: string;
+  content: string; // Reply text, may contain {{placeholders}}
+  visibility: MacroVisibility;
+  ownerId: string;
+  ownerName?: string;
+  actions: MacroActions;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type MacroInput = Omit<Macro, 'id' | 'ownerId' | 'ownerName' | 'createdAt' | 'updatedAt'>;
@@ -1,3 +1,5 @@
+import type { TicketStatus, UserRole } from './index';
+
 export interface SLAConditions {
   priority?: string[];
   category?: string[];
@@ -12,14 +14,48 @@ export interface SLAConditions {
 export interface SLATargets {
   firstResponseMinutes: number;
   resolutionMinutes: number;
+  nextResponseMinutes?: number; // Time to answer each requester reply after the first response, unset = not tracked
 }
 
+// Single step escalation from before escalation chains, still read from older rules
 export interface SLAEscalation {
   enabled: boolean;
   afterMinutes: number;
   newPriority: string;
 }
 
+export type EscalationThresholdUnit = 'percent' | 'minutes';
+
+export interface EscalationReassign {
+  type: 'team' | 'manager';
+  value: string; // Team name, or the manager's name
+}
+
+export interface EscalationActions {
+  newPriority?: string;
+  reassign?: EscalationReassign;
+  notifyUserIds?: string[];
+  notifyRoles?: UserRole[];
+  internalNote?: string;
+}
+
+export interface SLAEscalationStep {
+  id: string;
+  clock: 'first_response' | 'resolution';
+  threshold: number; // Percent of the target elapsed, or minutes elapsed
+  thresholdUnit: EscalationThresholdUnit;
+  actions: EscalationActions;
+}
+
+// Stored as metadata.escalation on the system activity logged when a step fires
+export interface EscalationFiredMetadata {
+  ruleId: string;
+  ruleName: string;
+  stepIndex: number; // 0-based position in the chain
+  step: SLAEscalationStep;
+  notified?: string[]; // Names of everyone who was notified
+}
+
 export interface SLARule {
   id: string;
   name: string;
@@ -28,10 +64,86 @@ export interface SLARule {
   conditions: SLAConditions;
   targets: SLATargets;
   escalation?: SLAEscalation;
+  escalationSteps?: SLAEscalationStep[]; // Fired in order, each at most once per ticket
+  businessHoursId?: string | null; // Count targets in this schedule's working time, unset = around the clock
+  pauseStatuses?: TicketStatus[]; // The clock stops while the ticket is in one of these statuses
   createdAt: Date;
   updatedAt: Date;
 }
 
+// 0 = Sunday ... 6 = Saturday, matching Date.getDay()
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+// Working period within a day, as "HH:mm" in the schedule's timezone
+export interface BusinessHoursInterval {
+  start: string;
+  end: string;
+}
+
+export interface BusinessHoliday {
+  date: string; // yyyy-MM-dd in the schedule's timezone
+  name: string;
+}
+
+export interface BusinessHoursSchedule {
+  id: string;
+  name: string;
+  timezone: string; // IANA name, e.g. Europe/London
+  weeklyHours: Record<Weekday, BusinessHoursInterval[]>; // No intervals = closed all day
+  holidays: BusinessHoliday[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type BusinessHoursScheduleInput = Omit<BusinessHoursSchedule, 'id' | 'createdAt' | 'updatedAt'>;
+
+export type SLAClock = 'first_response' | 'next_response' | 'resolution';
+
+export type SLAEventType = 'started' | 'paused' | 'resumed' | 'met' | 'breached';
+
+// Entry in a ticket's SLA timeline
+export interface SLAEvent {
+  id: string;
+  type: SLAEventType;
+  clock?: SLAClock; // Unset for events that affect every clock (pauses and resumes)
+  status?: TicketStatus; // Status that paused or resumed the clock
+  reason?: string; // e.g. 'outside_business_hours'
+  ruleName?: string;
+  createdAt: Date;
+}
+
+// Ticket attributes an SLA rule's conditions are checked against, profile fields come from the requester
+export interface SLASampleTicket {
+  priority?: string;
+  category?: string;
+  department?: string;
+  team?: string;
+  location?: string;
+  jobTitle?: string;
+  manager?: string;
+  customFields?: Record<string, unknown>;
+}
+
+export interface SLAConditionCheck {
+  label: string;
+  passed: boolean;
+  detail: string;
+}
+
+export interface SLARuleEvaluation {
+  rule: SLARule;
+  matched: boolean;
+  checks: SLAConditionCheck[];
+}
+
+export type SLARuleWarningType = 'shadowed' | 'overlap' | 'uncovered';
+
+export interface SLARuleWarning {
+  type: SLARuleWarningType;
+  message: string;
+  ruleIds: string[];
+}
+
 export interface SLAConfiguration {
   rules: SLARule[];
   defaultRule?: SLARule;
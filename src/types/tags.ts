@@ -0,0 +1,8 @@
+export type TagColor = 'gray' | 'red' | 'orange' | 'amber' | 'green' | 'teal' | 'blue' | 'indigo' | 'purple' | 'pink';
+
+// A ticket tag with its admin-assigned colour and how many tickets use it
+export interface TagInfo {
+  name: string;
+  color: TagColor | null; // null shows the default secondary badge
+  ticketCount: number;
+}